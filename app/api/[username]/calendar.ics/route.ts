@@ -0,0 +1,76 @@
+/**
+ * Calendar Feed API Route
+ *
+ * Handles requests to /api/[username]/calendar.ics and returns a subscribable
+ * iCalendar feed with the user's birthday, life milestones, year progress
+ * milestones and countdown target (see lib/ics.ts).
+ *
+ * Example: webcal://<host>/api/john/calendar.ics -> Subscribe in Apple Calendar,
+ * Google Calendar or Outlook
+ */
+
+import { NextRequest } from 'next/server';
+import { getUserConfigByUsername } from '@/lib/firebase-server';
+import { UserConfig } from '@/lib/types';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { buildCalendarFeedEvents, serializeCalendarFeed } from '@/lib/ics';
+import { getCalendarDateInTimezone, resolveLifeExpectancyYears } from '@/lib/calcs';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const { username: rawUsername } = await params;
+    const username = rawUsername?.toLowerCase() || '';
+
+    if (!username) {
+      return new Response('Username is required', { status: 400 });
+    }
+
+    // Same per-username limit as the wallpaper route
+    if (!checkRateLimit(username)) {
+      return new Response('Rate limit exceeded. Please try again later.', {
+        status: 429,
+        headers: { 'Retry-After': '60' }
+      });
+    }
+
+    const { data: configData, error: configError } = await getUserConfigByUsername(username);
+
+    if (configError || !configData) {
+      return new Response(`User configuration not found. Please complete your setup at ${request.nextUrl.origin}/dashboard`, {
+        status: 404,
+        headers: { 'Content-Type': 'text/plain' }
+      });
+    }
+
+    const config = configData as UserConfig;
+    const events = buildCalendarFeedEvents({
+      username,
+      birthDate: config.birthDate,
+      lifeExpectancyYears: resolveLifeExpectancyYears(config.lifeExpectancy),
+      countdown: config.countdown,
+      today: getCalendarDateInTimezone(config.timezone || 'UTC'),
+    });
+
+    const ics = serializeCalendarFeed({
+      name: `Remainders - ${username}`,
+      events,
+      updatedAt: config.updatedAt,
+    });
+
+    return new Response(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="remainders-${username.replace(/[^a-z0-9_-]/g, '')}.ics"`,
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error generating calendar feed:', error);
+    return new Response('Internal server error: ' + (error instanceof Error ? error.message : String(error)), { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Plugin Data API Route
+ *
+ * Handles POST /api/[username]/plugins/[pluginId]/data and stores key/value
+ * pairs for one of the user's installed plugins. The plugin reads them as
+ * ctx.data on the next wallpaper render - e.g. a phone shortcut records that a
+ * habit was done today and the habit tracker checks it off.
+ *
+ * Requests must carry the user's plugin data token (created in the dashboard)
+ * as "Authorization: Bearer <token>". The body is a JSON object: keys are set to
+ * their values, keys set to null are removed (see lib/plugin-data.ts).
+ *
+ * Example: POST /api/john/plugins/habit-tracker/data {"Exercise":"2026-10-19"}
+ * -> { "data": { "Exercise": "2026-10-19", "Read": "2026-10-18" } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPluginDataByUsername, getUserConfigByUsername, savePluginData } from '@/lib/firebase-server';
+import { UserConfig } from '@/lib/types';
+import { applyPluginDataUpdate, MAX_PLUGIN_DATA_BYTES, verifyPluginDataToken } from '@/lib/plugin-data';
+import { checkRateLimit } from '@/lib/rate-limit';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string; pluginId: string }> }
+) {
+  try {
+    const { username: rawUsername, pluginId } = await params;
+    const username = rawUsername?.toLowerCase() || '';
+
+    if (!username || !pluginId) {
+      return NextResponse.json({ error: 'Username and plugin ID are required' }, { status: 400 });
+    }
+
+    // Same per-username limit as the wallpaper route
+    if (!checkRateLimit(username)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      );
+    }
+
+    const { data: configData, error: configError } = await getUserConfigByUsername(username);
+
+    if (configError || !configData) {
+      return NextResponse.json({ error: 'User configuration not found' }, { status: 404 });
+    }
+
+    const config = configData as UserConfig;
+
+    if (!config.pluginDataTokenHash) {
+      return NextResponse.json(
+        { error: `Plugin data writes are off. Create a token at ${request.nextUrl.origin}/dashboard` },
+        { status: 403 }
+      );
+    }
+
+    const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] || '';
+    if (!(await verifyPluginDataToken(token, config.pluginDataTokenHash))) {
+      return NextResponse.json(
+        { error: 'Invalid or missing token' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      );
+    }
+
+    if (!(config.plugins || []).some((pluginConfig) => pluginConfig.pluginId === pluginId)) {
+      return NextResponse.json({ error: `Plugin ${pluginId} is not installed` }, { status: 404 });
+    }
+
+    const body = await request.text();
+    if (body.length > MAX_PLUGIN_DATA_BYTES * 2) {
+      return NextResponse.json({ error: 'Request body too large' }, { status: 413 });
+    }
+
+    let update: unknown;
+    try {
+      update = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 });
+    }
+
+    const { data: stored, error: readError } = await getPluginDataByUsername(username);
+    if (readError) {
+      return NextResponse.json({ error: `Could not read plugin data: ${readError}` }, { status: 502 });
+    }
+
+    const { data: values, error: updateError } = applyPluginDataUpdate(stored[pluginId] ?? {}, update);
+    if (!values) {
+      return NextResponse.json({ error: updateError }, { status: 400 });
+    }
+
+    const { data: saved, error: saveError } = await savePluginData(username, pluginId, values);
+    if (!saved) {
+      return NextResponse.json({ error: `Could not save plugin data: ${saveError}` }, { status: 502 });
+    }
+
+    return NextResponse.json({ data: saved }, { headers: { 'Cache-Control': 'no-store' } });
+
+  } catch (error: unknown) {
+    console.error('Error saving plugin data:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
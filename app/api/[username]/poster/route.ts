@@ -0,0 +1,107 @@
+/**
+ * Printable Poster API Route
+ *
+ * Handles requests to /api/[username]/poster and returns a print-ready vector
+ * PDF of the user's life calendar (or current year), using the colors, life
+ * expectancy, life events and chapters from their saved configuration.
+ *
+ * Query parameters:
+ * - size: 'a4' (default), 'a3' or 'letter'
+ * - view: 'life' or 'year' (defaults to the user's view mode, life if a birth date is set)
+ * - title: Optional title printed at the top
+ *
+ * Plugins and custom text elements are positioned for phone screens and are
+ * not drawn on the poster.
+ *
+ * Example: /api/john/poster?size=a3&title=My%20Life
+ */
+
+import { NextRequest } from 'next/server';
+import { getUserConfigByUsername } from '@/lib/firebase-server';
+import { PosterSize, PosterView, UserConfig } from '@/lib/types';
+import { DEFAULT_LIFE_GRID_UNIT, getDateInTimezone, normalizeLifeChapters, normalizeLifeEvents, resolveLifeExpectancyYears } from '@/lib/calcs';
+import { DEFAULT_POSTER_SIZE, POSTER_DPI, POSTER_SIZES, buildLifePosterScene, buildYearPosterScene } from '@/lib/poster';
+import { renderSceneToPdf } from '@/lib/pdf-renderer';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const { username: rawUsername } = await params;
+    const username = rawUsername?.toLowerCase() || '';
+    const { searchParams } = request.nextUrl;
+
+    if (!username) {
+      return new Response('Username is required', { status: 400 });
+    }
+
+    const sizeParam = searchParams.get('size')?.toLowerCase() || DEFAULT_POSTER_SIZE;
+    if (!(sizeParam in POSTER_SIZES)) {
+      return new Response(`Unknown poster size. Use one of: ${Object.keys(POSTER_SIZES).join(', ')}`, { status: 400 });
+    }
+    const size = sizeParam as PosterSize;
+    const title = searchParams.get('title')?.trim().slice(0, 80) || undefined;
+
+    const { data: configData, error: configError } = await getUserConfigByUsername(username);
+
+    if (configError || !configData) {
+      return new Response(`User configuration not found. Please complete your setup at ${request.nextUrl.origin}/dashboard`, {
+        status: 404,
+        headers: { 'Content-Type': 'text/plain' }
+      });
+    }
+
+    const config = configData as UserConfig;
+    const viewParam = searchParams.get('view');
+    const view: PosterView = viewParam === 'life' || viewParam === 'year'
+      ? viewParam
+      : config.viewMode === 'year' || !config.birthDate
+      ? 'year'
+      : 'life';
+
+    if (view === 'life' && !config.birthDate) {
+      return new Response('Birthdate is required for the life poster. Please configure in dashboard.', { status: 400 });
+    }
+
+    const posterProps = {
+      size,
+      title,
+      colors: {
+        background: config.colors?.background || '#1a1a1a',
+        past: config.colors?.past || '#FFFFFF',
+        current: config.colors?.current || '#FF6B35',
+        future: config.colors?.future || '#404040',
+        text: config.colors?.text || '#888888',
+      },
+      fontFamily: config.typography?.fontFamily || 'monospace',
+      currentDate: getDateInTimezone(config.timezone || 'UTC'),
+    };
+
+    const scene = view === 'life'
+      ? buildLifePosterScene({
+          ...posterProps,
+          birthDate: config.birthDate,
+          lifeExpectancyYears: resolveLifeExpectancyYears(config.lifeExpectancy),
+          lifeGridUnit: config.lifeGridUnit || DEFAULT_LIFE_GRID_UNIT,
+          lifeEvents: normalizeLifeEvents(config.lifeEvents),
+          lifeChapters: normalizeLifeChapters(config.lifeChapters),
+        })
+      : buildYearPosterScene(posterProps);
+
+    const pdf = renderSceneToPdf(scene, { dpi: POSTER_DPI, title: title || `${username} - ${view} calendar` });
+
+    return new Response(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="remainders-${username.replace(/[^a-z0-9_-]/g, '')}-${view}-${size}.pdf"`,
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error generating poster:', error);
+    return new Response('Internal server error: ' + (error instanceof Error ? error.message : String(error)), { status: 500 });
+  }
+}
@@ -5,74 +5,26 @@
  * using user's saved configuration and enabled plugins from Firestore.
  * 
  * Example: /api/john -> Fetches john's config and generates wallpaper
+ * Example: /api/john?format=svg -> Same wallpaper as an SVG document
+ * Example: /api/john?span=2&monitor=2 -> Right half of the wallpaper laid out
+ * across two monitors of the configured resolution
+ *
+ * Responses carry an ETag built from the config, plugin versions and the user's
+ * local day (see lib/render-cache.ts) and stay fresh until local midnight.
+ * Conditional requests get a 304; repeat renders come from an in-process cache.
  */
 
-import { ImageResponse } from '@vercel/og';
 import { NextRequest } from 'next/server';
-import { getUserConfigByUsername, getPlugin } from '@/lib/firebase-server';
-import { Plugin, UserConfig } from '@/lib/types';
-import LifeView from '../wallpaper/life-view-enhanced';
-import YearView from '../wallpaper/year-view-enhanced';
-
-// Import plugins directly for server-side execution
-import { quotesPlugin } from '@/lib/plugins/quotes-plugin';
-import { habitTrackerPlugin } from '@/lib/plugins/habit-tracker-plugin';
-import { moonPhasePlugin } from '@/lib/plugins/moon-phase-plugin';
+import { getPluginDataByUsername, getUserConfigByUsername } from '@/lib/firebase-server';
+import { Plugin, UserConfig, WallpaperFormat } from '@/lib/types';
+import { loadUserPlugins } from '@/lib/plugin-loader';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { createCacheHeaders, createRenderKey, getCachedRender, getRenderPeriod, isNotModified, setCachedRender } from '@/lib/render-cache';
+import { applyConfigDefaults, getConfigRenderError, renderConfigWallpaper } from '../wallpaper/config-wallpaper';
+import { parseWallpaperSpan } from '@/lib/scene';
 
 export const runtime = 'nodejs';
 
-/**
- * Get current date in the specified timezone
- */
-function getDateInTimezone(timezone: string = 'UTC'): Date {
-  const now = new Date();
-  
-  const formatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: timezone,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: false,
-  });
-  
-  const parts = formatter.formatToParts(now);
-  const dateParts: Record<string, string> = {};
-  
-  parts.forEach(({ type, value }) => {
-    dateParts[type] = value;
-  });
-  
-  return new Date(
-    `${dateParts.year}-${dateParts.month}-${dateParts.day}T${dateParts.hour}:${dateParts.minute}:${dateParts.second}`
-  );
-}
-
-// Rate limiting map (in-memory, resets on Edge function restart)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_MAX = 100; // requests per window
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-
-function checkRateLimit(username: string): boolean {
-  const now = Date.now();
-  const record = rateLimitMap.get(username);
-
-  if (!record || now > record.resetTime) {
-    // Create new window
-    rateLimitMap.set(username, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    return true;
-  }
-
-  if (record.count >= RATE_LIMIT_MAX) {
-    return false; // Rate limit exceeded
-  }
-
-  record.count++;
-  return true;
-}
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ username: string }> }
@@ -80,11 +32,20 @@ export async function GET(
   try {
     const { username: rawUsername } = await params;
     const username = rawUsername?.toLowerCase() || '';
+    const format: WallpaperFormat = request.nextUrl.searchParams.get('format') === 'svg' ? 'svg' : 'png';
     
     if (!username) {
       return new Response('Username is required', { status: 400 });
     }
 
+    const { data: span, error: spanError } = parseWallpaperSpan(
+      request.nextUrl.searchParams.get('span'),
+      request.nextUrl.searchParams.get('monitor')
+    );
+    if (!span) {
+      return new Response(spanError, { status: 400 });
+    }
+
     // Check rate limit
     if (!checkRateLimit(username)) {
       return new Response('Rate limit exceeded. Please try again later.', {
@@ -105,176 +66,84 @@ export async function GET(
 
     const config = configData as UserConfig;
     
-    // Apply default values for optional fields to ensure robustness
-    config.colors = config.colors || {
-      background: '#1a1a1a',
-      past: '#FFFFFF',
-      current: '#FF6B35',
-      future: '#404040',
-      text: '#888888',
-    };
-    
-    // Ensure nested color properties exist
-    if (config.colors) {
-      config.colors.background = config.colors.background || '#1a1a1a';
-      config.colors.past = config.colors.past || '#FFFFFF';
-      config.colors.current = config.colors.current || '#FF6B35';
-      config.colors.future = config.colors.future || '#404040';
-      config.colors.text = config.colors.text || '#888888';
-    }
-    
-    config.typography = config.typography || {
-      fontFamily: 'monospace',
-      fontSize: 0.035,
-      statsVisible: true,
-    };
-    
-    // Ensure nested typography properties exist
-    if (config.typography) {
-      config.typography.fontFamily = config.typography.fontFamily || 'monospace';
-      config.typography.fontSize = config.typography.fontSize ?? 0.035;
-      config.typography.statsVisible = config.typography.statsVisible ?? true;
-    }
-    
-    config.layout = config.layout || {
-      topPadding: 0.25,
-      bottomPadding: 0.15,
-      sidePadding: 0.18,
-      dotSpacing: 0.7,
-    };
-    
-    // Ensure nested layout properties exist
-    if (config.layout) {
-      config.layout.topPadding = config.layout.topPadding ?? 0.25;
-      config.layout.bottomPadding = config.layout.bottomPadding ?? 0.15;
-      config.layout.sidePadding = config.layout.sidePadding ?? 0.18;
-      config.layout.dotSpacing = config.layout.dotSpacing ?? 0.7;
-    }
-    
-    config.textElements = config.textElements || [];
-    config.plugins = config.plugins || [];
+    applyConfigDefaults(config);
     
     console.log('Config after defaults - colors:', config.colors);
     
     // Validate required fields
-    if (!config.birthDate && config.viewMode === 'life') {
-      return new Response('Birthdate is required for Life View. Please configure in dashboard.', { status: 400 });
-    }
-    
-    if (!config.device || !config.device.width || !config.device.height) {
-      return new Response('Device configuration is required. Please configure in dashboard.', { status: 400 });
+    const renderError = getConfigRenderError(config);
+    if (renderError) {
+      return new Response(renderError, { status: 400 });
     }
 
-    // Map of available built-in plugins
-    const availablePlugins = new Map<string, Plugin>([
-      [quotesPlugin.id, quotesPlugin],
-      [habitTrackerPlugin.id, habitTrackerPlugin],
-      [moonPhasePlugin.id, moonPhasePlugin],
-    ]);
-
-    // Get current date in user's timezone
-    const userTimezone = config.timezone || 'UTC';
-    const currentDate = getDateInTimezone(userTimezone);
+    const { plugins: availablePlugins, errors: pluginErrors } = await loadUserPlugins(config.plugins);
+
+    // Caching: the output only changes with the config, the plugins (and their
+    // stored data) and the user's local day (or hour). Plugins that move the date
+    // can't be keyed that way.
+    const enabledPlugins = config.plugins
+      .filter((pluginConfig) => pluginConfig.enabled && !pluginErrors.has(pluginConfig.pluginId))
+      .map((pluginConfig) => availablePlugins.get(pluginConfig.pluginId))
+      .filter((plugin): plugin is Plugin => !!plugin);
+    const { data: pluginStore, updatedAt: pluginStoreUpdatedAt, error: pluginStoreError } = enabledPlugins.length > 0
+      ? await getPluginDataByUsername(username)
+      : { data: {}, updatedAt: {}, error: null };
+    if (pluginStoreError) {
+      console.error('Plugin data unavailable:', pluginStoreError);
+    }
+    const cacheable = pluginErrors.size === 0 && !pluginStoreError && !enabledPlugins.some((plugin) => plugin.overrideDate);
+    const period = getRenderPeriod(config);
+    const renderKey = createRenderKey({
+      config,
+      plugins: enabledPlugins.map(({ id, version, updatedAt }) => ({ id, version, updatedAt, data: pluginStore[id] })),
+      variant: `${format}:${span.count}:${span.index}`,
+      period,
+    });
+    // Stored data changes without a config update, so renders that read it are revalidated by ETag
+    const dataPlugins = enabledPlugins.filter(({ id }) => pluginStore[id]);
+    const cacheHeaders: Record<string, string> = cacheable
+      ? createCacheHeaders({
+          renderKey,
+          updatedAt: [config.updatedAt, ...dataPlugins.map(({ id }) => pluginStoreUpdatedAt[id])],
+          timezone: config.timezone || 'UTC',
+          period,
+          revalidate: dataPlugins.length > 0,
+        })
+      : { 'Cache-Control': 'no-store' };
+
+    if (cacheable && isNotModified(request, cacheHeaders)) {
+      return new Response(null, { status: 304, headers: cacheHeaders });
+    }
 
-    // Execute plugins and collect render elements
-    const pluginRenderElements: any[] = [];
-    console.log('Executing plugins, config.plugins count:', config.plugins?.length || 0);
-    
-    for (const pluginConfig of config.plugins || []) {
-      if (!pluginConfig.enabled) {
-        console.log(`Plugin ${pluginConfig.pluginId}: disabled, skipping`);
-        continue;
-      }
-      
-      // Try to get built-in plugin first
-      let plugin = availablePlugins.get(pluginConfig.pluginId);
-      
-      // If not built-in, try to load from Firestore
-      if (!plugin) {
-        try {
-          console.log(`Loading user plugin ${pluginConfig.pluginId} from Firestore`);
-          const { data: userPlugin, error } = await getPlugin(pluginConfig.pluginId);
-          if (userPlugin && userPlugin.code) {
-            // Execute user plugin code to get the plugin object
-            const pluginFunction = new Function(
-              'return (function() { ' + userPlugin.code + '; return typeof plugin !== "undefined" ? plugin : null; })()'
-            );
-            plugin = pluginFunction();
-          } else if (error) {
-            console.error(`Error loading plugin ${pluginConfig.pluginId}:`, error);
-          }
-        } catch (error: any) {
-          console.error(`Failed to load user plugin ${pluginConfig.pluginId}:`, error);
-        }
-      }
-      
-      if (!plugin) {
-        console.log(`Plugin ${pluginConfig.pluginId}: not found`);
-        continue;
-      }
-      
-      if (!plugin.execute) {
-        console.log(`Plugin ${pluginConfig.pluginId}: no execute function`);
-        continue;
-      }
-      
-      try {
-        console.log(`Executing plugin ${pluginConfig.pluginId}`);
-        const elements = plugin.execute({
-          config: pluginConfig.config || {},
-          width: config.device.width,
-          height: config.device.height,
-          colors: config.colors,
-          typography: config.typography,
-          birthDate: config.birthDate,
-          viewMode: config.viewMode,
-          timezone: userTimezone,
-          currentDate: currentDate,
-        });
-        
-        console.log(`Plugin ${pluginConfig.pluginId} returned ${elements?.length || 0} elements`);
-        if (Array.isArray(elements)) {
-          pluginRenderElements.push(...elements);
-        }
-      } catch (error: any) {
-        console.error(`Plugin ${pluginConfig.pluginId} execution error:`, error);
-      }
+    const cached = cacheable ? getCachedRender(renderKey) : undefined;
+    if (cached) {
+      return new Response(cached.body, {
+        headers: { ...cached.headers, ...cacheHeaders, 'Content-Type': cached.contentType },
+      });
     }
-    
-    console.log('Total plugin render elements:', pluginRenderElements.length);
-    console.log('Sample plugin elements:', JSON.stringify(pluginRenderElements.slice(0, 3), null, 2));
 
-    // Prepare view props
-    const viewProps = {
-      width: config.device.width,
-      height: config.device.height,
-      colors: config.colors,
-      typography: config.typography,
-      layout: config.layout,
-      textElements: config.textElements,
-      pluginElements: pluginRenderElements,
-      currentDate: currentDate,
-    };
+    const { body, contentType, status, headers, errors: renderErrors } = await renderConfigWallpaper({
+      config,
+      plugins: availablePlugins,
+      pluginErrors,
+      pluginStore,
+      format,
+      span,
+    });
 
-    let view;
-    if (config.viewMode === 'life') {
-      view = LifeView({
-        ...viewProps,
-        birthDate: config.birthDate,
-      });
-    } else {
-      view = YearView({
-        ...viewProps,
-        isMondayFirst: config.isMondayFirst || false,
-        yearViewLayout: config.yearViewLayout || 'months',
-        daysLayoutMode: config.daysLayoutMode || 'continuous',
-        timezone: userTimezone,
-      });
+    // Plugins that failed during this render may succeed next time: don't cache
+    const storeInCache = cacheable && renderErrors.size === 0;
+    if (storeInCache) {
+      setCachedRender(renderKey, { body, contentType, headers });
     }
 
-    return new ImageResponse(view, {
-      width: config.device.width,
-      height: config.device.height,
+    return new Response(body, {
+      status,
+      headers: {
+        ...headers,
+        ...(storeInCache ? cacheHeaders : { 'Cache-Control': 'no-store' }),
+        'Content-Type': contentType,
+      },
     });
 
   } catch (error: any) {
@@ -0,0 +1,107 @@
+/**
+ * Wallpaper Stats API Route
+ *
+ * Handles requests to /api/[username]/stats.json and returns the numbers the
+ * user's wallpaper shows as JSON: day of year, days left, year percent, weeks
+ * lived, weeks remaining, life percent and each plugin's calculated data.
+ * Meant for widgets, shell prompts and dashboards.
+ *
+ * Example: /api/john/stats.json -> { "date": "2026-10-19", "year": { "daysLeft": 73, ... }, ... }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPluginDataByUsername, getUserConfigByUsername } from '@/lib/firebase-server';
+import { UserConfig } from '@/lib/types';
+import { createPluginContext, processPlugins } from '@/lib/plugin-system';
+import { loadUserPlugins } from '@/lib/plugin-loader';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { buildWallpaperStats } from '@/lib/stats';
+import { DEFAULT_LIFE_GRID_UNIT, resolveLifeExpectancyYears } from '@/lib/calcs';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const { username: rawUsername } = await params;
+    const username = rawUsername?.toLowerCase() || '';
+
+    if (!username) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 });
+    }
+
+    // Same per-username limit as the wallpaper route
+    if (!checkRateLimit(username)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      );
+    }
+
+    const { data: configData, error: configError } = await getUserConfigByUsername(username);
+
+    if (configError || !configData) {
+      return NextResponse.json(
+        { error: `User configuration not found. Please complete your setup at ${request.nextUrl.origin}/dashboard` },
+        { status: 404 }
+      );
+    }
+
+    const config = configData as UserConfig;
+    config.plugins = config.plugins || [];
+
+    if (!config.device || !config.device.width || !config.device.height) {
+      return NextResponse.json(
+        { error: 'Device configuration is required. Please configure in dashboard.' },
+        { status: 400 }
+      );
+    }
+
+    // Plugins run exactly as they do for the wallpaper, so a date override applies here too
+    const { plugins: availablePlugins, errors: pluginErrors } = await loadUserPlugins(config.plugins);
+    const { data: pluginStore } = await getPluginDataByUsername(username);
+    const pluginResult = await processPlugins(
+      config.plugins.filter((pluginConfig) => !pluginErrors.has(pluginConfig.pluginId)),
+      availablePlugins,
+      createPluginContext(config),
+      { pluginStore }
+    );
+
+    for (const [pluginId, message] of pluginResult.errors.entries()) {
+      console.error(`Plugin ${pluginId} execution error:`, message);
+      pluginErrors.set(pluginId, message);
+    }
+
+    const stats = buildWallpaperStats({
+      currentDate: pluginResult.currentDate,
+      timezone: pluginResult.timezone,
+      birthDate: config.birthDate,
+      lifeExpectancyYears: resolveLifeExpectancyYears(config.lifeExpectancy),
+      lifeGridUnit: config.lifeGridUnit || DEFAULT_LIFE_GRID_UNIT,
+      pluginData: pluginResult.pluginData,
+    });
+
+    // Report failed plugins without failing the stats
+    const headers: Record<string, string> = {
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'no-store',
+    };
+    if (pluginErrors.size > 0) {
+      headers['X-Plugin-Errors'] = Array.from(pluginErrors.entries())
+        .map(([pluginId, message]) => `${pluginId}: ${message}`)
+        .join('; ')
+        .replace(/[^\x20-\x7E]/g, '');
+    }
+
+    return NextResponse.json(stats, { headers });
+
+  } catch (error: unknown) {
+    console.error('Error generating stats:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
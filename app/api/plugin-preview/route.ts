@@ -0,0 +1,114 @@
+/**
+ * Plugin Preview API Route
+ *
+ * Renders a plugin's output with its default settings on a reference
+ * wallpaper (see lib/plugin-preview.ts), for marketplace and editor thumbnails.
+ * Only built-in and approved plugin versions can be previewed.
+ *
+ * Example: /api/plugin-preview?id=moon-phase -> Latest version on the year view
+ * Example: /api/plugin-preview?id=my-plugin&version=1.2.0&view=life&format=svg
+ *
+ * Previews are cached like wallpapers (see lib/render-cache.ts): per plugin
+ * version and UTC day, with an ETag and an in-process cache.
+ */
+
+import { NextRequest } from 'next/server';
+import { ViewMode, WallpaperFormat } from '@/lib/types';
+import { loadUserPlugins } from '@/lib/plugin-loader';
+import { createPreviewConfig, PREVIEW_VIEW_MODES } from '@/lib/plugin-preview';
+import { isValidPluginVersion } from '@/lib/plugin-versions';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { createCacheHeaders, createRenderKey, getCachedRender, getRenderPeriod, isNotModified, setCachedRender } from '@/lib/render-cache';
+import { applyConfigDefaults, renderConfigWallpaper } from '../wallpaper/config-wallpaper';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const pluginId = searchParams.get('id');
+    const version = searchParams.get('version') || undefined;
+    const view = (searchParams.get('view') || 'year') as ViewMode;
+    const format: WallpaperFormat = searchParams.get('format') === 'svg' ? 'svg' : 'png';
+
+    if (!pluginId) {
+      return new Response('Plugin ID is required', { status: 400 });
+    }
+    if (version && !isValidPluginVersion(version)) {
+      return new Response('Version must be MAJOR.MINOR.PATCH, e.g. 1.2.0', { status: 400 });
+    }
+    if (!PREVIEW_VIEW_MODES.includes(view)) {
+      return new Response(`View must be one of ${PREVIEW_VIEW_MODES.join(', ')}`, { status: 400 });
+    }
+
+    const config = createPreviewConfig(pluginId, version, view);
+    applyConfigDefaults(config);
+
+    // The loader only returns approved community versions
+    const { plugins, errors: pluginErrors } = await loadUserPlugins(config.plugins);
+    const plugin = plugins.get(pluginId);
+    if (!plugin || pluginErrors.has(pluginId)) {
+      return new Response(pluginErrors.get(pluginId) || 'Plugin not found', { status: 404 });
+    }
+
+    // Plugins that move the date can't be keyed by the day
+    const cacheable = !plugin.overrideDate;
+    const period = getRenderPeriod(config);
+    const renderKey = createRenderKey({
+      config,
+      plugins: [{ id: plugin.id, version: plugin.version, updatedAt: plugin.updatedAt }],
+      variant: `preview:${format}`,
+      period,
+    });
+    const cacheHeaders: Record<string, string> = cacheable
+      ? createCacheHeaders({ renderKey, updatedAt: plugin.updatedAt, timezone: 'UTC', period })
+      : { 'Cache-Control': 'no-store' };
+
+    if (cacheable && isNotModified(request, cacheHeaders)) {
+      return new Response(null, { status: 304, headers: cacheHeaders });
+    }
+
+    const cached = cacheable ? getCachedRender(renderKey) : undefined;
+    if (cached) {
+      return new Response(cached.body, {
+        headers: { ...cached.headers, ...cacheHeaders, 'Content-Type': cached.contentType },
+      });
+    }
+
+    if (!checkRateLimit(`plugin-preview:${pluginId}`)) {
+      return new Response('Rate limit exceeded. Please try again later.', {
+        status: 429,
+        headers: { 'Retry-After': '60' }
+      });
+    }
+
+    // Previews have no user, so plugins see empty stored data
+    const { body, contentType, status, headers, errors } = await renderConfigWallpaper({
+      config,
+      plugins,
+      pluginErrors,
+      pluginStore: {},
+      format,
+      span: { count: 1, index: 0 },
+    });
+
+    // A plugin that failed may succeed next time: don't cache
+    const storeInCache = cacheable && errors.size === 0;
+    if (storeInCache) {
+      setCachedRender(renderKey, { body, contentType, headers });
+    }
+
+    return new Response(body, {
+      status,
+      headers: {
+        ...headers,
+        ...(storeInCache ? cacheHeaders : { 'Cache-Control': 'no-store' }),
+        'Content-Type': contentType,
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error rendering plugin preview:', error);
+    return new Response('Internal server error: ' + (error instanceof Error ? error.message : String(error)), { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Saved-config Wallpaper Scenes
+ *
+ * Builds the scene of the view a UserConfig is set to. Pure (no renderer),
+ * so the editor playground can build the same scene in the browser that
+ * config-wallpaper.ts renders on the server.
+ */
+
+import { PluginDotDecoration, PluginRenderElement, UserConfig, WallpaperScene, WallpaperSpan } from '@/lib/types';
+import { DEFAULT_LIFE_GRID_UNIT, DEFAULT_WAKING_HOURS, normalizeCalendarEntries, normalizeLifeChapters, normalizeLifeEvents, resolveLifeExpectancyYears } from '@/lib/calcs';
+import { buildLifeScene } from './life-view-enhanced';
+import { buildYearScene } from './year-view-enhanced';
+import { buildMonthScene } from './month-view-enhanced';
+import { buildWeekScene } from './week-view-enhanced';
+import { buildCountdownScene } from './countdown-view-enhanced';
+
+/**
+ * Builds the configured view (a multi-monitor span is laid out as one wide canvas)
+ *
+ * @param config - Config with defaults applied (see applyConfigDefaults)
+ * @param span - Monitors the wallpaper is laid out across
+ * @param options.currentDate - Date to render
+ * @param options.pluginElements - Plugin render elements to draw
+ * @param options.dotDecorations - Plugin dot decorations (year and life views)
+ */
+export function buildConfigScene(
+  config: UserConfig,
+  span: WallpaperSpan,
+  { currentDate, pluginElements, dotDecorations }: {
+    currentDate: Date;
+    pluginElements: PluginRenderElement[];
+    dotDecorations: PluginDotDecoration[];
+  }
+): WallpaperScene {
+  const viewProps = {
+    width: config.device.width * span.count,
+    height: config.device.height,
+    colors: config.colors,
+    typography: config.typography,
+    layout: config.layout,
+    textElements: config.textElements,
+    pluginElements,
+    currentDate,
+  };
+
+  if (config.viewMode === 'life') {
+    return buildLifeScene({
+      ...viewProps,
+      birthDate: config.birthDate,
+      lifeExpectancyYears: resolveLifeExpectancyYears(config.lifeExpectancy),
+      lifeGridUnit: config.lifeGridUnit || DEFAULT_LIFE_GRID_UNIT,
+      lifeEvents: normalizeLifeEvents(config.lifeEvents),
+      lifeChapters: normalizeLifeChapters(config.lifeChapters),
+      dotDecorations,
+    });
+  }
+  if (config.viewMode === 'month') {
+    return buildMonthScene({
+      ...viewProps,
+      isMondayFirst: config.isMondayFirst || false,
+      showHourRing: config.showHourRing || false,
+    });
+  }
+  if (config.viewMode === 'week') {
+    return buildWeekScene({
+      ...viewProps,
+      isMondayFirst: config.isMondayFirst || false,
+      wakingHours: config.wakingHours || DEFAULT_WAKING_HOURS,
+    });
+  }
+  if (config.viewMode === 'countdown' && config.countdown) {
+    return buildCountdownScene({
+      ...viewProps,
+      countdown: config.countdown,
+    });
+  }
+  return buildYearScene({
+    ...viewProps,
+    isMondayFirst: config.isMondayFirst || false,
+    yearViewLayout: config.yearViewLayout || 'months',
+    daysLayoutMode: config.daysLayoutMode || 'continuous',
+    calendarEntries: normalizeCalendarEntries(config.calendarEntries),
+    timezone: config.timezone || 'UTC',
+    dotDecorations,
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Saved-config Wallpaper Rendering
+ *
+ * The render path of a stored UserConfig, shared by /api/[username] and the
+ * plugin preview route: fills in missing config fields, runs the plugin hooks
+ * and renders the configured view as PNG or SVG.
+ */
+
+import { Plugin, PluginDataValues, UserConfig, WallpaperFormat, WallpaperSpan } from '@/lib/types';
+import { createPluginContext, processPlugins } from '@/lib/plugin-system';
+import { validateCountdown } from '@/lib/calcs';
+import { sliceScene } from '@/lib/scene';
+import { buildConfigScene } from './config-scene';
+import { createSceneResponse } from './scene-renderer';
+
+/**
+ * Applies default values for optional fields to ensure robustness
+ * (configs saved by older versions of the dashboard may lack them)
+ */
+export function applyConfigDefaults(config: UserConfig): void {
+  config.colors = config.colors || {
+    background: '#1a1a1a',
+    past: '#FFFFFF',
+    current: '#FF6B35',
+    future: '#404040',
+    text: '#888888',
+  };
+
+  // Ensure nested color properties exist
+  if (config.colors) {
+    config.colors.background = config.colors.background || '#1a1a1a';
+    config.colors.past = config.colors.past || '#FFFFFF';
+    config.colors.current = config.colors.current || '#FF6B35';
+    config.colors.future = config.colors.future || '#404040';
+    config.colors.text = config.colors.text || '#888888';
+  }
+
+  config.typography = config.typography || {
+    fontFamily: 'monospace',
+    fontSize: 0.035,
+    statsVisible: true,
+  };
+
+  // Ensure nested typography properties exist
+  if (config.typography) {
+    config.typography.fontFamily = config.typography.fontFamily || 'monospace';
+    config.typography.fontSize = config.typography.fontSize ?? 0.035;
+    config.typography.statsVisible = config.typography.statsVisible ?? true;
+  }
+
+  config.layout = config.layout || {
+    topPadding: 0.25,
+    bottomPadding: 0.15,
+    sidePadding: 0.18,
+    dotSpacing: 0.7,
+  };
+
+  // Ensure nested layout properties exist
+  if (config.layout) {
+    config.layout.topPadding = config.layout.topPadding ?? 0.25;
+    config.layout.bottomPadding = config.layout.bottomPadding ?? 0.15;
+    config.layout.sidePadding = config.layout.sidePadding ?? 0.18;
+    config.layout.dotSpacing = config.layout.dotSpacing ?? 0.7;
+  }
+
+  config.textElements = config.textElements || [];
+  config.plugins = config.plugins || [];
+}
+
+/**
+ * Checks that a config has what its view needs
+ *
+ * @returns A message for the user, or null if the wallpaper can be rendered
+ */
+export function getConfigRenderError(config: UserConfig): string | null {
+  if (!config.birthDate && config.viewMode === 'life') {
+    return 'Birthdate is required for Life View. Please configure in dashboard.';
+  }
+
+  if (config.viewMode === 'countdown') {
+    const { valid, errors } = validateCountdown(config.countdown);
+    if (!valid) {
+      return `${errors.join('; ')}. Please configure in dashboard.`;
+    }
+  }
+
+  if (!config.device || !config.device.width || !config.device.height) {
+    return 'Device configuration is required. Please configure in dashboard.';
+  }
+
+  return null;
+}
+
+/**
+ * Renders the wallpaper of a config with its plugins
+ *
+ * @param options.config - Config with defaults applied (see applyConfigDefaults)
+ * @param options.plugins - Loaded plugin definitions (see loadUserPlugins)
+ * @param options.pluginErrors - Plugins that failed to load; they are skipped
+ * @param options.pluginStore - Stored plugin data of the config's owner
+ * @param options.format - PNG or SVG
+ * @param options.span - Part of a multi-monitor wallpaper to render
+ * @returns The image, and every plugin that failed to load or run
+ */
+export async function renderConfigWallpaper({
+  config,
+  plugins,
+  pluginErrors,
+  pluginStore,
+  format,
+  span,
+}: {
+  config: UserConfig;
+  plugins: Map<string, Plugin>;
+  pluginErrors: Map<string, string>;
+  pluginStore: Record<string, PluginDataValues>;
+  format: WallpaperFormat;
+  span: WallpaperSpan;
+}): Promise<{ body: ArrayBuffer; contentType: string; status: number; headers: Record<string, string>; errors: Map<string, string> }> {
+  // Run plugin hooks: overrideDate -> calculate -> render/decorate. Render and
+  // decorate see the layout of the plain wallpaper for the final date.
+  console.log('Executing plugins, config.plugins count:', config.plugins.length);
+  const pluginResult = await processPlugins(
+    config.plugins.filter((pluginConfig) => !pluginErrors.has(pluginConfig.pluginId)),
+    plugins,
+    createPluginContext(config),
+    {
+      getLayout: (currentDate) => buildConfigScene(config, span, { currentDate, pluginElements: [], dotDecorations: [] }).layout,
+      pluginStore,
+    }
+  );
+
+  const errors = new Map(pluginErrors);
+  for (const [pluginId, message] of pluginResult.errors.entries()) {
+    console.error(`Plugin ${pluginId} execution error:`, message);
+    errors.set(pluginId, message);
+  }
+
+  console.log('Total plugin render elements:', pluginResult.elements.length);
+
+  // Plugins may have moved the date or timezone the wallpaper is rendered for.
+  // Every view renders from currentDate, which already follows a timezone override.
+  const scene = buildConfigScene(config, span, {
+    currentDate: pluginResult.currentDate,
+    pluginElements: pluginResult.elements,
+    dotDecorations: pluginResult.decorations,
+  });
+
+  // Report failed plugins without failing the wallpaper
+  const headers: Record<string, string> = {};
+  if (errors.size > 0) {
+    headers['X-Plugin-Errors'] = Array.from(errors.entries())
+      .map(([pluginId, message]) => `${pluginId}: ${message}`)
+      .join('; ')
+      .replace(/[^\x20-\x7E]/g, '');
+  }
+
+  const response = createSceneResponse(sliceScene(scene, span), format, headers);
+  const body = await response.arrayBuffer();
+  const contentType = response.headers.get('Content-Type') || (format === 'svg' ? 'image/svg+xml; charset=utf-8' : 'image/png');
+
+  return { body, contentType, status: response.status, headers, errors };
+}
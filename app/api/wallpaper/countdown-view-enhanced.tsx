@@ -0,0 +1,164 @@
+/**
+ * Countdown View Component
+ *
+ * Renders the days (or weeks) from a start date to a target date as a dot grid,
+ * with elapsed dots filled, today highlighted, and a label above the grid.
+ * Uses the same dot-grid layout as the year view 'days' layout.
+ * buildCountdownScene() describes the wallpaper; scene-renderer.tsx draws it as PNG and
+ * lib/svg-renderer.ts as SVG.
+ * Supports custom colors, typography, layout, text elements, and plugin additions.
+ */
+
+import { CountdownConfig, PluginRenderElement, SceneNode, TextElement, WallpaperScene } from '@/lib/types';
+import { calculateCountdown, formatCalendarDate, fromDayNumber, getCalendarDate, parseCalendarDate, toDayNumber } from '@/lib/calcs';
+import { calculateDotGridLayout, calculateSafeArea, getDotPosition } from '@/lib/dot-grid';
+import { createDot, createPluginElementNodes, createSceneLayout, createStatsText, createText, createTextElementNodes } from '@/lib/scene';
+
+interface CountdownViewProps {
+  width: number;
+  height: number;
+  countdown: CountdownConfig;
+  colors?: {
+    background: string;
+    past: string;
+    current: string;
+    future: string;
+    text: string;
+  };
+  typography?: {
+    fontFamily: string;
+    fontSize: number;
+    statsVisible: boolean;
+  };
+  layout?: {
+    topPadding: number;
+    bottomPadding: number;
+    sidePadding: number;
+    dotSpacing: number;
+  };
+  textElements?: TextElement[];
+  pluginElements?: PluginRenderElement[];
+  currentDate?: Date;
+}
+
+// Two weeks per row for days (as in the year view), a quarter per row for weeks
+const MIN_COLUMNS = {
+  days: 14,
+  weeks: 13,
+};
+
+export function buildCountdownScene({
+  width,
+  height,
+  countdown,
+  colors = {
+    background: '#1a1a1a',
+    past: '#FFFFFF',
+    current: '#FF6B35',
+    future: '#404040',
+    text: '#888888',
+  },
+  typography = {
+    fontFamily: 'monospace',
+    fontSize: 0.035,
+    statsVisible: true,
+  },
+  layout = {
+    topPadding: 0.25,
+    bottomPadding: 0.15,
+    sidePadding: 0.18,
+    dotSpacing: 0.7,
+  },
+  textElements = [],
+  pluginElements = [],
+  currentDate = new Date(),
+}: CountdownViewProps): WallpaperScene {
+  // Countdown Logic
+  const { totalUnits, unitsElapsed, unitsLeft, percentage, isActive } = calculateCountdown(countdown, getCalendarDate(currentDate));
+  const unitSuffix = countdown.unit === 'weeks' ? 'w' : 'd';
+
+  // Shared dot-grid math (safe area, dot size, centering)
+  const grid = calculateDotGridLayout({
+    width,
+    height,
+    layout,
+    cellCount: totalUnits,
+    minColumns: MIN_COLUMNS[countdown.unit] || MIN_COLUMNS.days,
+  });
+  const { dotSize, dotGap, startX, startY, statsY, statsFontSize } = grid;
+  const labelSize = statsFontSize * 1.2;
+  const fontFamily = typography?.fontFamily || 'monospace';
+
+  const nodes: SceneNode[] = [];
+
+  // Countdown Label
+  if (countdown.label) {
+    nodes.push(
+      createText(startX, startY - labelSize * 2, countdown.label, {
+        fontSize: labelSize,
+        fontFamily,
+        color: colors?.text || '#888888',
+      })
+    );
+  }
+
+  // Create all dots (a dot stands for the day or week starting startDate + index units)
+  const start = parseCalendarDate(countdown.startDate);
+  const daysPerUnit = countdown.unit === 'weeks' ? 7 : 1;
+  const dots: Array<{ date: string; x: number; y: number }> = [];
+  for (let index = 0; index < totalUnits; index++) {
+    let color;
+    if (index < unitsElapsed) {
+      color = colors.past;
+    } else if (index === unitsElapsed && isActive) {
+      color = colors.current;
+    } else {
+      color = colors.future;
+    }
+
+    const { x, y } = getDotPosition(grid, index);
+    if (start) dots.push({ date: formatCalendarDate(fromDayNumber(toDayNumber(start) + index * daysPerUnit)), x, y });
+    nodes.push(createDot(x, y, dotSize, color));
+  }
+
+  // Stats Footer
+  if (typography.statsVisible) {
+    nodes.push(
+      createStatsText({
+        width,
+        top: statsY,
+        fontSize: statsFontSize,
+        remaining: `${unitsLeft}${unitSuffix} left`,
+        progress: `${percentage}%`,
+        colors,
+        typography,
+      })
+    );
+  }
+
+  // Custom Text Elements and Plugin-added Elements
+  nodes.push(...createTextElementNodes(textElements, width, height, { colors, typography }));
+  nodes.push(...createPluginElementNodes(pluginElements, { colors, typography }));
+
+  return {
+    width,
+    height,
+    background: colors?.background || '#1a1a1a',
+    nodes,
+    layout: createSceneLayout({
+      width,
+      height,
+      safeArea: calculateSafeArea({ width, height, layout }),
+      grid: {
+        x: startX,
+        y: countdown.label ? startY - labelSize * 2 : startY,
+        width: grid.gridWidth,
+        height: grid.gridHeight + (countdown.label ? labelSize * 2 : 0),
+      },
+      dotSize,
+      dotGap,
+      stats: typography.statsVisible ? { top: statsY, fontSize: statsFontSize } : null,
+      dots: dots,
+    }),
+  };
+}
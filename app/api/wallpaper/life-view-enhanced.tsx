@@ -1,16 +1,55 @@
 /**
  * Life View Component - Enhanced with Customization Support
  * 
- * Renders 4,160 dots representing 80 years of life (1 dot = 1 week).
+ * Renders one dot per unit of expected life - by default 4,160 dots for 80 years
+ * (1 dot = 1 week). Life expectancy and the unit per dot come from the user config.
+ * Life events color their own dot and life chapters shade a range of dots
+ * (past dots in full color, future dots faded). Plugin decorate() hooks can
+ * recolor, ring, badge or hide any dot by date or dot index.
+ * buildLifeScene() describes the wallpaper; scene-renderer.tsx draws it as PNG and
+ * lib/svg-renderer.ts as SVG (the editor playground builds it in the browser).
  * Now supports custom colors, typography, layout, text elements, and plugin additions.
  */
 
-import { TextElement } from '@/lib/types';
+import {
+  LifeChapter,
+  LifeEvent,
+  LifeGridUnit,
+  PluginDotDecoration,
+  PluginRenderElement,
+  SceneNode,
+  TextElement,
+  WallpaperScene,
+} from '@/lib/types';
+import {
+  DEFAULT_LIFE_GRID_UNIT,
+  LIFE_EXPECTANCY_YEARS,
+  LIFE_GRID_UNITS,
+  calculateLifeGrid,
+  formatLifeExpectancy,
+  getLifeGridDate,
+  getLifeGridIndex,
+} from '@/lib/calcs';
+import { calculateSafeArea } from '@/lib/dot-grid';
+import {
+  MAX_LAYOUT_DOTS,
+  createDecoratedDot,
+  createPluginElementNodes,
+  createSceneLayout,
+  createText,
+  createTextElementNodes,
+  getLifeDotFills,
+  indexDotDecorations,
+} from '@/lib/scene';
 
 interface LifeViewProps {
   width: number;
   height: number;
   birthDate: string;
+  lifeExpectancyYears?: number;
+  lifeGridUnit?: LifeGridUnit;
+  lifeEvents?: LifeEvent[];
+  lifeChapters?: LifeChapter[];
   colors?: {
     background: string;
     past: string;
@@ -30,14 +69,20 @@ interface LifeViewProps {
     dotSpacing: number;
   };
   textElements?: TextElement[];
-  pluginElements?: any[];
+  pluginElements?: PluginRenderElement[];
+  /** Dot changes from plugin decorate() hooks */
+  dotDecorations?: PluginDotDecoration[];
   currentDate?: Date;
 }
 
-export default function LifeView({
+export function buildLifeScene({
   width,
   height,
   birthDate,
+  lifeExpectancyYears = LIFE_EXPECTANCY_YEARS,
+  lifeGridUnit = DEFAULT_LIFE_GRID_UNIT,
+  lifeEvents = [],
+  lifeChapters = [],
   colors = {
     background: '#1a1a1a',
     past: '#FFFFFF',
@@ -58,50 +103,50 @@ export default function LifeView({
   },
   textElements = [],
   pluginElements = [],
+  dotDecorations = [],
   currentDate = new Date(),
-}: LifeViewProps) {
-  // Life Logic
-  const LIFE_EXPECTANCY_YEARS = 80;
-  const birth = new Date(birthDate);
-  const today = currentDate;
-
-  // Calculate total weeks (80 years × 52 weeks/year = 4,160 weeks)
-  const TOTAL_DOTS = 4160;
-
-  const diffTime = Math.abs(today.getTime() - birth.getTime());
-  const weeksLived = Math.min(Math.ceil(diffTime / (1000 * 60 * 60 * 24 * 7)), TOTAL_DOTS);
-  const lifePercentage = ((weeksLived / TOTAL_DOTS) * 100).toFixed(1);
-
-  // Layout Calculations with Aspect Ratio Support
-  const aspectRatio = height / width;
-  
-  // Adapt safe zones based on aspect ratio
-  const SAFE_AREA_TOP = aspectRatio > 2.0 
-    ? height * Math.max(layout.topPadding, 0.28) 
-    : height * layout.topPadding;
-  const SAFE_AREA_BOTTOM = height * layout.bottomPadding;
-  
-  // Reduce side padding on narrower screens
-  const adjustedSidePadding = aspectRatio > 2.1 
-    ? Math.min(layout.sidePadding, 0.08) 
-    : aspectRatio > 2.0 
-    ? Math.min(layout.sidePadding, 0.09) 
-    : layout.sidePadding;
-  const SAFE_WIDTH_PADDING = width * adjustedSidePadding;
+}: LifeViewProps): WallpaperScene {
+  // Life Logic (default: 80 years × 52 weeks/year = 4,160 dots)
+  const lifeGrid = calculateLifeGrid(birthDate, lifeExpectancyYears, lifeGridUnit, currentDate);
+  const TOTAL_DOTS = lifeGrid.totalDots;
+  const unitsLived = lifeGrid.unitsLived;
+  const lifePercentage = ((unitsLived / TOTAL_DOTS) * 100).toFixed(1);
+
+  // Dot colors from life events and chapters
+  const dotFills = getLifeDotFills({
+    birthDate,
+    lifeGridUnit,
+    lifeEvents,
+    lifeChapters,
+    totalDots: TOTAL_DOTS,
+    unitsLived,
+    colors,
+  });
+
+  // Plugin dot decorations: by the date a dot contains, or by dot index
+  const decorations = indexDotDecorations(dotDecorations, ({ date, index }) =>
+    date ? getLifeGridIndex(birthDate, date, lifeGridUnit) : index ?? null
+  );
 
-  const availableWidth = width - SAFE_WIDTH_PADDING * 2;
-  const availableHeight = height - SAFE_AREA_TOP - SAFE_AREA_BOTTOM;
+  // Layout Calculations with Aspect Ratio Support (narrower side padding than other views)
+  const safeArea = calculateSafeArea({ width, height, layout, maxSidePadding: [0.09, 0.08] });
+  const SAFE_AREA_TOP = safeArea.top;
+  const SAFE_WIDTH_PADDING = safeArea.paddingX;
+  const availableWidth = safeArea.availableWidth;
+  const availableHeight = safeArea.height;
 
-  // Calculate optimal grid dimensions
+  // Calculate optimal grid dimensions (columns follow the aspect ratio of the
+  // safe area, so landscape screens get a grid wider than it is tall)
   const outputRatio = availableWidth / availableHeight;
   const estimatedCols = Math.sqrt(TOTAL_DOTS * outputRatio);
-  const cols = Math.max(40, Math.floor(estimatedCols)); // Minimum 40 columns
+  const minColumns = Math.min(LIFE_GRID_UNITS[lifeGridUnit].minColumns, TOTAL_DOTS);
+  const cols = Math.max(minColumns, Math.floor(estimatedCols));
   const rows = Math.ceil(TOTAL_DOTS / cols);
 
   // Calculate dot size with spacing - ensure it fits both dimensions
   const dotSizeFromWidth = availableWidth / (cols + (cols - 1) * layout.dotSpacing);
   const dotSizeFromHeight = availableHeight / (rows + (rows - 1) * layout.dotSpacing);
-  const dotSize = Math.floor(Math.min(dotSizeFromWidth, dotSizeFromHeight));
+  const dotSize = Math.max(1, Math.floor(Math.min(dotSizeFromWidth, dotSizeFromHeight)));
   const gap = Math.max(1, Math.floor(dotSize * layout.dotSpacing));
 
   // Grid dimensions
@@ -113,151 +158,68 @@ export default function LifeView({
   const calculatedStartY = SAFE_AREA_TOP + (availableHeight - gridHeight) / 2;
   const startY = Math.max(SAFE_AREA_TOP * 0.9, calculatedStartY);
 
-  // Generate dots
-  const pastCircles = [];
-  const futureCircles = [];
-  let currentDotPosition = { cx: 0, cy: 0, radius: 0 };
+  // Generate dots (the current dot is drawn after the past dots, as before)
+  const pastDots: SceneNode[] = [];
+  const currentDots: SceneNode[] = [];
+  const futureDots: SceneNode[] = [];
+
+  // Dot positions by date for plugins (see SceneLayout.dots)
+  const dotPositions: Array<{ date: string; x: number; y: number }> | undefined = TOTAL_DOTS <= MAX_LAYOUT_DOTS ? [] : undefined;
 
   for (let i = 0; i < TOTAL_DOTS; i++) {
     const row = Math.floor(i / cols);
     const col = i % cols;
-    const cx = col * (dotSize + gap) + dotSize / 2;
-    const cy = row * (dotSize + gap) + dotSize / 2;
-    const radius = dotSize / 2;
+    const x = startX + col * (dotSize + gap);
+    const y = startY + row * (dotSize + gap);
 
-    if (i < weeksLived) {
-      pastCircles.push(
-        <circle key={`past-${i}`} cx={cx} cy={cy} r={radius} fill={colors?.past || '#FFFFFF'} />
-      );
-    } else if (i === weeksLived) {
-      currentDotPosition = { cx, cy, radius };
+    const date = dotPositions ? getLifeGridDate(birthDate, i, lifeGridUnit) : null;
+    if (dotPositions && date) dotPositions.push({ date, x, y });
+
+    const dots = createDecoratedDot(x, y, dotSize, gap, dotFills[i].fill, decorations.get(i), colors.background, dotFills[i].opacity);
+
+    if (i < unitsLived) {
+      pastDots.push(...dots);
+    } else if (i === unitsLived) {
+      currentDots.push(...dots);
     } else {
-      futureCircles.push(
-        <circle key={`future-${i}`} cx={cx} cy={cy} r={radius} fill={colors?.future || '#333333'} />
-      );
+      futureDots.push(...dots);
     }
   }
 
+  const nodes: SceneNode[] = [...pastDots, ...currentDots, ...futureDots];
+
   // Footer stats
   const statsY = startY + gridHeight + height * 0.03;
-  const footerFontSize = width * typography.fontSize;
-
-  return (
-    <div
-      style={{
-        width: '100%',
-        height: '100%',
-        backgroundColor: colors?.background || '#1a1a1a',
-        display: 'flex',
-        flexDirection: 'column',
-        position: 'relative',
-      }}
-    >
-      {/* Main Grid SVG */}
-      <svg
-        width={gridWidth}
-        height={gridHeight}
-        style={{
-          position: 'absolute',
-          left: `${startX}px`,
-          top: `${startY}px`,
-        }}
-      >
-        {pastCircles}
-        <circle
-          cx={currentDotPosition.cx}
-          cy={currentDotPosition.cy}
-          r={currentDotPosition.radius}
-          fill={colors?.current || '#FF6B35'}
-        />
-        {futureCircles}
-      </svg>
-
-      {/* Stats Footer */}
-      {typography.statsVisible && (
-        <div
-          style={{
-            position: 'absolute',
-            top: `${statsY}px`,
-            left: '0px',
-            width: '100%',
-            display: 'flex',
-            justifyContent: 'center',
-            alignItems: 'center',
-            fontSize: `${footerFontSize}px`,
-            fontFamily: typography?.fontFamily || 'monospace',
-            color: colors?.text || '#888888',
-          }}
-        >
-          {lifePercentage}% to {LIFE_EXPECTANCY_YEARS}
-        </div>
-      )}
-
-      {/* Custom Text Elements */}
-      {textElements.map((element) => {
-        if (!element.visible || element.content == null) return null;
-        
-        const style: any = {
-          position: 'absolute',
-          left: `${element.x}%`,
-          top: `${element.y}%`,
-          fontSize: `${element.fontSize || 16}px`,
-          fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
-          color: element.color || colors?.text || '#888888',
-        };
-
-        // Handle alignment for percentage-based positioning
-        const align = element.align || 'left';
-        if (align === 'center') {
-          style.transform = 'translate(-50%, -50%)';
-        } else if (align === 'right') {
-          style.transform = 'translate(-100%, -50%)';
-        } else {
-          style.transform = 'translateY(-50%)';
-        }
-
-        return (
-          <div key={element.id} style={style}>
-            {String(element.content).trim()}
-          </div>
-        );
-      })}
-
-      {/* Plugin-added Elements */}
-      {pluginElements.map((element, index) => {
-        if (element.type === 'text' && element.content != null) {
-          const contentStr = String(element.content || '').trim();
-          
-          if (!contentStr) return null;
-
-          const style: any = {
-            position: 'absolute',
-            left: `${element.x}px`,
-            top: `${element.y}px`,
-            fontSize: `${element.fontSize || 16}px`,
-            color: element.color || colors?.text || '#888888',
-            fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
-          };
-
-          // Handle alignment
-          if (element.align === 'center') {
-            style.transform = 'translateX(-50%)';
-          } else if (element.align === 'right') {
-            style.transform = 'translateX(-100%)';
-          }
+  const statsFontSize = Math.min(width, height) * typography.fontSize;
+  if (typography.statsVisible) {
+    nodes.push(
+      createText(width / 2, statsY, `${lifePercentage}% to ${formatLifeExpectancy(lifeExpectancyYears)}`, {
+        fontSize: statsFontSize,
+        fontFamily: typography?.fontFamily || 'monospace',
+        color: colors?.text || '#888888',
+        align: 'center',
+      })
+    );
+  }
 
-          if (typeof element.maxWidth === 'number') {
-            style.maxWidth = `${element.maxWidth}px`;
-          }
-          
-          return (
-            <div key={`plugin-${index}`} style={style}>
-              {contentStr}
-            </div>
-          );
-        }
-        return null;
-      })}
-    </div>
-  );
+  // Custom Text Elements and Plugin-added Elements
+  nodes.push(...createTextElementNodes(textElements, width, height, { colors, typography }));
+  nodes.push(...createPluginElementNodes(pluginElements, { colors, typography }));
+
+  return {
+    width,
+    height,
+    background: colors?.background || '#1a1a1a',
+    nodes,
+    layout: createSceneLayout({
+      width,
+      height,
+      safeArea,
+      grid: { x: startX, y: startY, width: gridWidth, height: gridHeight },
+      dotSize,
+      dotGap: gap,
+      stats: typography.statsVisible ? { top: statsY, fontSize: statsFontSize } : null,
+      dots: dotPositions,
+    }),
+  };
 }
@@ -0,0 +1,234 @@
+/**
+ * Month View Component
+ *
+ * Renders the current month as a calendar grid of day dots (7 columns, one row per week),
+ * optionally with a 24-dot ring below the grid showing today's hours.
+ * buildMonthScene() describes the wallpaper; scene-renderer.tsx draws it as PNG and
+ * lib/svg-renderer.ts as SVG.
+ * Supports custom colors, typography, layout, text elements, and plugin additions.
+ */
+
+import { PluginRenderElement, SceneNode, TextElement, WallpaperScene } from '@/lib/types';
+import { formatCalendarDate, getCalendarDate, getDaysInMonth, getWeekdayIndex } from '@/lib/calcs';
+import { calculateSafeArea } from '@/lib/dot-grid';
+import { createDot, createPluginElementNodes, createSceneLayout, createStatsText, createText, createTextElementNodes } from '@/lib/scene';
+
+interface MonthViewProps {
+  width: number;
+  height: number;
+  isMondayFirst: boolean;
+  showHourRing?: boolean;
+  colors?: {
+    background: string;
+    past: string;
+    current: string;
+    future: string;
+    text: string;
+  };
+  typography?: {
+    fontFamily: string;
+    fontSize: number;
+    statsVisible: boolean;
+  };
+  layout?: {
+    topPadding: number;
+    bottomPadding: number;
+    sidePadding: number;
+    dotSpacing: number;
+  };
+  textElements?: TextElement[];
+  pluginElements?: PluginRenderElement[];
+  currentDate?: Date;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const HOURS_PER_DAY = 24;
+
+export function buildMonthScene({
+  width,
+  height,
+  isMondayFirst,
+  showHourRing = false,
+  colors = {
+    background: '#1a1a1a',
+    past: '#FFFFFF',
+    current: '#FF6B35',
+    future: '#404040',
+    text: '#888888',
+  },
+  typography = {
+    fontFamily: 'monospace',
+    fontSize: 0.035,
+    statsVisible: true,
+  },
+  layout = {
+    topPadding: 0.25,
+    bottomPadding: 0.15,
+    sidePadding: 0.18,
+    dotSpacing: 0.7,
+  },
+  textElements = [],
+  pluginElements = [],
+  currentDate = new Date(),
+}: MonthViewProps): WallpaperScene {
+  // Month Logic
+  const { year: currentYear, month, day: today } = getCalendarDate(currentDate);
+  const monthIndex = month - 1;
+  const currentHour = currentDate.getHours();
+  const daysInMonth = getDaysInMonth(currentYear, monthIndex);
+  const daysLeft = daysInMonth - today;
+  const startDayOffset = getWeekdayIndex({ year: currentYear, month, day: 1 }, isMondayFirst);
+
+  const COLS = 7;
+  const ROWS = Math.ceil((startDayOffset + daysInMonth) / COLS);
+  const weekdayLabels = isMondayFirst
+    ? ['M', 'T', 'W', 'T', 'F', 'S', 'S']
+    : ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+  // Layout Calculations with Aspect Ratio Support
+  const safeArea = calculateSafeArea({ width, height, layout });
+  const SAFE_AREA_TOP = safeArea.top;
+  const SAFE_HEIGHT = safeArea.height;
+  const { paddingX, availableWidth } = safeArea;
+
+  // Vertical budget in cells: month label + weekday labels + weeks + stats (+ hour ring)
+  const RING_CELLS = showHourRing ? 6 : 0;
+  const cellSizeH = availableWidth / COLS;
+  const cellSizeV = SAFE_HEIGHT / (ROWS + 4 + RING_CELLS);
+  const cellSize = Math.min(cellSizeH, cellSizeV);
+  const dotSize = cellSize / (1 + layout.dotSpacing);
+  const dotGap = dotSize * layout.dotSpacing;
+
+  const labelSize = dotSize * 0.9;
+  const statsFontSize = labelSize;
+
+  const gridWidth = COLS * (dotSize + dotGap) - dotGap;
+  const gridHeight = ROWS * (dotSize + dotGap) - dotGap;
+  const headerHeight = labelSize * 1.6 + labelSize + dotGap;
+  const ringDiameter = showHourRing ? cellSize * 5 : 0;
+  const ringMargin = showHourRing ? cellSize : 0;
+  const statsMargin = cellSize;
+  const totalContentHeight = headerHeight + gridHeight + ringMargin + ringDiameter + statsMargin + statsFontSize;
+
+  const startX = paddingX + (availableWidth - gridWidth) / 2;
+  const calculatedStartY = SAFE_AREA_TOP + (SAFE_HEIGHT - totalContentHeight) / 2;
+  const startY = Math.max(SAFE_AREA_TOP * 0.9, calculatedStartY);
+  const gridY = startY + headerHeight;
+  const ringY = gridY + gridHeight + ringMargin;
+  const statsY = ringY + ringDiameter + statsMargin;
+
+  const fontFamily = typography?.fontFamily || 'monospace';
+  const nodes: SceneNode[] = [];
+
+  // Month Label
+  nodes.push(
+    createText(startX, startY, `${MONTH_NAMES[monthIndex]} ${currentYear}`, {
+      fontSize: labelSize * 1.2,
+      fontFamily,
+      color: colors?.text || '#888888',
+    })
+  );
+
+  // Weekday labels centered above each column
+  weekdayLabels.forEach((label, col) => {
+    nodes.push(
+      createText(startX + col * (dotSize + dotGap) + dotSize / 2, gridY - labelSize - dotGap, label, {
+        fontSize: labelSize * 0.8,
+        fontFamily,
+        color: colors?.text || '#888888',
+        align: 'center',
+      })
+    );
+  });
+
+  // Day dots
+  const dots: Array<{ date: string; x: number; y: number }> = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    let color;
+    if (day < today) {
+      color = colors.past;
+    } else if (day === today) {
+      color = colors.current;
+    } else {
+      color = colors.future;
+    }
+
+    const cellIndex = day - 1 + startDayOffset;
+    const row = Math.floor(cellIndex / COLS);
+    const col = cellIndex % COLS;
+
+    const x = startX + col * (dotSize + dotGap);
+    const y = gridY + row * (dotSize + dotGap);
+    dots.push({ date: formatCalendarDate({ year: currentYear, month, day }), x, y });
+    nodes.push(createDot(x, y, dotSize, color));
+  }
+
+  // Hour ring for today (24 dots clockwise from the top)
+  if (showHourRing) {
+    const ringRadius = ringDiameter / 2;
+    const ringCenterX = width / 2;
+    const ringCenterY = ringY + ringRadius;
+    const hourDotRadius = Math.max(1, dotSize * 0.22);
+    const orbit = ringRadius - hourDotRadius;
+
+    for (let hour = 0; hour < HOURS_PER_DAY; hour++) {
+      const angle = (hour / HOURS_PER_DAY) * Math.PI * 2 - Math.PI / 2;
+      let color;
+      if (hour < currentHour) {
+        color = colors.past;
+      } else if (hour === currentHour) {
+        color = colors.current;
+      } else {
+        color = colors.future;
+      }
+
+      nodes.push({
+        type: 'circle',
+        cx: ringCenterX + orbit * Math.cos(angle),
+        cy: ringCenterY + orbit * Math.sin(angle),
+        r: hourDotRadius,
+        fill: color,
+      });
+    }
+  }
+
+  // Stats Footer
+  if (typography.statsVisible) {
+    nodes.push(
+      createStatsText({
+        width,
+        top: statsY,
+        fontSize: statsFontSize,
+        remaining: `${daysLeft}d left`,
+        progress: `${Math.round((today / daysInMonth) * 100)}%`,
+        colors,
+        typography,
+      })
+    );
+  }
+
+  // Custom Text Elements and Plugin-added Elements
+  nodes.push(...createTextElementNodes(textElements, width, height, { colors, typography }));
+  nodes.push(...createPluginElementNodes(pluginElements, { colors, typography }));
+
+  return {
+    width,
+    height,
+    background: colors?.background || '#1a1a1a',
+    nodes,
+    layout: createSceneLayout({
+      width,
+      height,
+      safeArea,
+      grid: { x: startX, y: startY, width: gridWidth, height: ringY + ringDiameter - startY },
+      dotSize,
+      dotGap,
+      stats: typography.statsVisible ? { top: statsY, fontSize: statsFontSize } : null,
+      dots: dots,
+    }),
+  };
+}
@@ -1,12 +1,31 @@
 /**
  * Wallpaper Generation API Route
  * Minimalist Dot-Grid Redesign
+ * 
+ * Returns a PNG by default, or an SVG document with ?format=svg.
+ * ?format=json returns the numbers the image shows instead (see lib/stats.ts).
+ * Multi-monitor span: ?span=3&monitor=1 lays the wallpaper out across 3 monitors
+ * of width × height and returns the image for the leftmost one.
  */
 
-import { ImageResponse } from '@vercel/og';
 import { NextRequest } from 'next/server';
-import { YearView } from './year-view';
-import { LifeView } from './life-view';
+import { buildYearScene } from './year-view-enhanced';
+import { buildLifeScene } from './life-view-enhanced';
+import { buildMonthScene } from './month-view-enhanced';
+import { buildWeekScene } from './week-view-enhanced';
+import { buildCountdownScene } from './countdown-view-enhanced';
+import { createSceneResponse } from './scene-renderer';
+import { parseWallpaperSpan, sliceScene } from '@/lib/scene';
+import { buildWallpaperStats } from '@/lib/stats';
+import { CountdownConfig, LifeExpectancyConfig, LifeExpectancySex, LifeGridUnit, WallpaperFormat, WallpaperScene } from '@/lib/types';
+import {
+  DEFAULT_WAKING_HOURS,
+  LIFE_GRID_UNITS,
+  getDateInTimezone,
+  normalizeWakingHours,
+  resolveLifeExpectancyYears,
+  validateCountdown,
+} from '@/lib/calcs';
 
 export const runtime = 'edge';
 
@@ -19,24 +38,82 @@ export async function GET(request: NextRequest) {
     const yearViewLayout = searchParams.get('yearViewLayout') === 'days' ? 'days' : 'months';
     const daysLayoutMode = searchParams.get('daysLayoutMode') === 'calendar' ? 'calendar' : 'continuous';
     const viewMode = searchParams.get('viewMode') || 'year';
+    const format: WallpaperFormat = searchParams.get('format') === 'svg' ? 'svg' : 'png';
     const birthDate = searchParams.get('birthDate') || '';
 
-    let content;
+    const { data: span, error: spanError } = parseWallpaperSpan(searchParams.get('span'), searchParams.get('monitor'));
+    if (!span) {
+      return new Response(spanError, { status: 400 });
+    }
+    // Views lay out the combined canvas of all monitors; sliceScene() cuts out one monitor
+    const canvasWidth = width * span.count;
+
+    // Life expectancy: ?lifeExpectancy=90, or ?country=JP&sex=female for the life table
+    const country = searchParams.get('country');
+    const sexParam = searchParams.get('sex');
+    const sex: LifeExpectancySex = sexParam === 'male' || sexParam === 'female' ? sexParam : 'other';
+    const lifeExpectancy: LifeExpectancyConfig | undefined = country || sexParam
+      ? { mode: 'table', country: country || undefined, sex }
+      : searchParams.get('lifeExpectancy')
+      ? { mode: 'years', years: parseFloat(searchParams.get('lifeExpectancy') || '') }
+      : undefined;
+    // Month/week views: ?showHourRing=true, ?wakingHours=7-23
+    const showHourRing = searchParams.get('showHourRing') === 'true' || searchParams.get('showHourRing') === '1';
+    const [wakingStart, wakingEnd] = (searchParams.get('wakingHours') || '').split('-').map((hour) => parseInt(hour));
+    const wakingHours = normalizeWakingHours({
+      start: Number.isFinite(wakingStart) ? wakingStart : DEFAULT_WAKING_HOURS.start,
+      end: Number.isFinite(wakingEnd) ? wakingEnd : DEFAULT_WAKING_HOURS.end,
+    });
+
+    // Countdown view: ?label=Launch&startDate=2026-01-01&targetDate=2026-06-30&unit=weeks
+    const countdown: CountdownConfig = {
+      label: searchParams.get('label') || '',
+      startDate: searchParams.get('startDate') || new Date().toISOString().split('T')[0],
+      targetDate: searchParams.get('targetDate') || '',
+      unit: searchParams.get('unit') === 'weeks' ? 'weeks' : 'days',
+    };
+
+    const unitParam = searchParams.get('lifeGridUnit') || 'weeks';
+    const lifeGridUnit: LifeGridUnit = Object.keys(LIFE_GRID_UNITS).includes(unitParam) ? (unitParam as LifeGridUnit) : 'weeks';
+
+    // The views render the server's current date, which is UTC on the edge
+    if (searchParams.get('format') === 'json') {
+      const stats = buildWallpaperStats({
+        currentDate: getDateInTimezone('UTC'),
+        timezone: 'UTC',
+        birthDate,
+        lifeExpectancyYears: resolveLifeExpectancyYears(lifeExpectancy),
+        lifeGridUnit,
+      });
+      return Response.json(stats, { headers: { 'Access-Control-Allow-Origin': '*' } });
+    }
+
+    let scene: WallpaperScene;
 
     if (viewMode === 'life' && birthDate) {
-      content = <LifeView width={width} height={height} birthDate={birthDate} />;
+      scene = buildLifeScene({
+        width: canvasWidth,
+        height,
+        birthDate,
+        lifeExpectancyYears: resolveLifeExpectancyYears(lifeExpectancy),
+        lifeGridUnit,
+      });
+    } else if (viewMode === 'month') {
+      scene = buildMonthScene({ width: canvasWidth, height, isMondayFirst, showHourRing });
+    } else if (viewMode === 'week') {
+      scene = buildWeekScene({ width: canvasWidth, height, isMondayFirst, wakingHours });
+    } else if (viewMode === 'countdown') {
+      const { valid, errors } = validateCountdown(countdown);
+      if (!valid) {
+        return new Response(errors.join('; '), { status: 400 });
+      }
+      scene = buildCountdownScene({ width: canvasWidth, height, countdown });
     } else {
       // Default to Year View
-      content = <YearView width={width} height={height} isMondayFirst={isMondayFirst} yearViewLayout={yearViewLayout} daysLayoutMode={daysLayoutMode} />;
+      scene = buildYearScene({ width: canvasWidth, height, isMondayFirst, yearViewLayout, daysLayoutMode });
     }
 
-    return new ImageResponse(
-      content,
-      {
-        width,
-        height,
-      }
-    );
+    return createSceneResponse(sliceScene(scene, span), format);
   } catch (error) {
     console.error('Error generating wallpaper:', error);
     return new Response('Error generating wallpaper', { status: 500 });
@@ -0,0 +1,203 @@
+/**
+ * Scene Renderer (Satori JSX)
+ *
+ * Turns a wallpaper scene into JSX for ImageResponse (PNG output).
+ * All dots are drawn in one SVG layer for performance (plugin shapes in SVG
+ * layers above or below it); text is drawn on top as absolutely positioned
+ * divs so Satori can lay out fonts and wrapping.
+ */
+
+import { ImageResponse } from '@vercel/og';
+import { CSSProperties, ReactElement, SVGAttributes } from 'react';
+import { SceneCircle, SceneImage, SceneShape, SceneText, WallpaperFormat, WallpaperScene } from '@/lib/types';
+import { renderSceneToSvg } from '@/lib/svg-renderer';
+import { formatPathData } from '@/lib/scene-path';
+
+const TRANSLATE_X: Record<SceneText['align'], string> = {
+  left: '0%',
+  center: '-50%',
+  right: '-100%',
+};
+
+function renderDotLayer(circles: SceneCircle[], width: number, height: number) {
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ position: 'absolute', left: '0px', top: '0px', width: `${width}px`, height: `${height}px` }}
+    >
+      {circles.map((circle, index) => (
+        <circle
+          key={`dot-${index}`}
+          cx={circle.cx}
+          cy={circle.cy}
+          r={circle.r}
+          fill={circle.fill}
+          fillOpacity={circle.opacity}
+        />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Satori copies every prop into the SVG markup (even undefined ones), so
+ * optional attributes are only added when set
+ */
+function renderPath(shape: SceneShape, key: string) {
+  const optional: SVGAttributes<SVGPathElement> = {};
+  if (shape.opacity !== undefined) optional.opacity = shape.opacity;
+  if (shape.stroke) {
+    optional.stroke = shape.stroke;
+    optional.strokeWidth = shape.strokeWidth ?? 1;
+    if (shape.lineCap) optional.strokeLinecap = shape.lineCap;
+  }
+  return <path key={key} d={formatPathData(shape.path)} fill={shape.fill || 'none'} {...optional} />;
+}
+
+/**
+ * Images are <img> elements: raster images nested in an SVG layer are not drawn
+ */
+function renderImage(image: SceneImage, key: string) {
+  const style: CSSProperties = {
+    position: 'absolute',
+    left: `${image.x}px`,
+    top: `${image.y}px`,
+    width: `${image.width}px`,
+    height: `${image.height}px`,
+  };
+  if (image.opacity !== undefined) style.opacity = image.opacity;
+  if (image.rotation) style.transform = `rotate(${image.rotation}deg)`;
+
+  // eslint-disable-next-line @next/next/no-img-element -- Satori markup, not a page
+  return <img key={key} src={image.href} alt="" width={image.width} height={image.height} style={style} />;
+}
+
+/**
+ * Draws shapes and images in order: each run of shapes shares one SVG layer,
+ * images sit between the runs
+ */
+function renderShapeLayers(nodes: Array<SceneShape | SceneImage>, width: number, height: number, keyPrefix: string) {
+  const layers: ReactElement[] = [];
+  let run: SceneShape[] = [];
+
+  const flush = () => {
+    if (run.length === 0) return;
+    layers.push(
+      <svg
+        key={`${keyPrefix}-${layers.length}`}
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ position: 'absolute', left: '0px', top: '0px', width: `${width}px`, height: `${height}px` }}
+      >
+        {run.map((shape, index) => renderPath(shape, `path-${index}`))}
+      </svg>
+    );
+    run = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'shape') {
+      run.push(node);
+      continue;
+    }
+    flush();
+    layers.push(renderImage(node, `${keyPrefix}-${layers.length}`));
+  }
+  flush();
+
+  return layers;
+}
+
+function renderText(text: SceneText, key: string) {
+  const style: CSSProperties = {
+    position: 'absolute',
+    left: `${text.x}px`,
+    top: `${text.y}px`,
+    display: 'flex',
+    alignItems: 'center',
+    fontSize: `${text.fontSize}px`,
+    fontFamily: text.fontFamily,
+    transform: `translate(${TRANSLATE_X[text.align]}, ${text.baseline === 'middle' ? '-50%' : '0%'})`,
+  };
+
+  if (text.opacity !== undefined) {
+    style.opacity = text.opacity;
+  }
+
+  if (typeof text.maxWidth === 'number') {
+    style.maxWidth = `${text.maxWidth}px`;
+  }
+
+  return (
+    <div key={key} style={style}>
+      {text.spans.map((span, index) => (
+        <span
+          key={`span-${index}`}
+          style={{
+            color: span.color,
+            marginLeft: index > 0 && text.spanGap ? `${text.spanGap}px` : '0px',
+          }}
+        >
+          {span.text}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Render a wallpaper scene as Satori-compatible JSX
+ */
+export function renderScene(scene: WallpaperScene) {
+  const circles = scene.nodes.filter((node): node is SceneCircle => node.type === 'circle');
+  const shapes = scene.nodes.filter((node): node is SceneShape | SceneImage => node.type === 'shape' || node.type === 'image');
+  const texts = scene.nodes.filter((node): node is SceneText => node.type === 'text');
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        backgroundColor: scene.background,
+        display: 'flex',
+        position: 'relative',
+      }}
+    >
+      {renderShapeLayers(shapes.filter((node) => node.behind), scene.width, scene.height, 'behind')}
+      {circles.length > 0 && renderDotLayer(circles, scene.width, scene.height)}
+      {renderShapeLayers(shapes.filter((node) => !node.behind), scene.width, scene.height, 'shapes')}
+      {texts.map((text, index) => renderText(text, `text-${index}`))}
+    </div>
+  );
+}
+
+/**
+ * Create the HTTP response for a wallpaper scene in the requested format
+ *
+ * @param scene - Scene built by one of the wallpaper views
+ * @param format - 'png' (ImageResponse) or 'svg' (vector document)
+ * @param headers - Extra response headers (e.g. X-Plugin-Errors)
+ */
+export function createSceneResponse(
+  scene: WallpaperScene,
+  format: WallpaperFormat,
+  headers: Record<string, string> = {}
+): Response {
+  if (format === 'svg') {
+    return new Response(renderSceneToSvg(scene), {
+      headers: {
+        ...headers,
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+      },
+    });
+  }
+
+  return new ImageResponse(renderScene(scene), {
+    width: scene.width,
+    height: scene.height,
+    headers,
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * Week View Component
+ *
+ * Renders the current week as 7 columns (one per day) of hour dots,
+ * one row per waking hour (e.g. 07:00-23:00 = 16 rows).
+ * buildWeekScene() describes the wallpaper; scene-renderer.tsx draws it as PNG and
+ * lib/svg-renderer.ts as SVG.
+ * Supports custom colors, typography, layout, text elements, and plugin additions.
+ */
+
+import { PluginRenderElement, SceneNode, TextElement, WakingHours, WallpaperScene } from '@/lib/types';
+import {
+  DEFAULT_WAKING_HOURS,
+  formatCalendarDate,
+  fromDayNumber,
+  getCalendarDate,
+  getWeekdayIndex,
+  normalizeWakingHours,
+  toDayNumber,
+} from '@/lib/calcs';
+import { calculateSafeArea } from '@/lib/dot-grid';
+import { createDot, createPluginElementNodes, createSceneLayout, createStatsText, createText, createTextElementNodes } from '@/lib/scene';
+
+interface WeekViewProps {
+  width: number;
+  height: number;
+  isMondayFirst: boolean;
+  wakingHours?: WakingHours;
+  colors?: {
+    background: string;
+    past: string;
+    current: string;
+    future: string;
+    text: string;
+  };
+  typography?: {
+    fontFamily: string;
+    fontSize: number;
+    statsVisible: boolean;
+  };
+  layout?: {
+    topPadding: number;
+    bottomPadding: number;
+    sidePadding: number;
+    dotSpacing: number;
+  };
+  textElements?: TextElement[];
+  pluginElements?: PluginRenderElement[];
+  currentDate?: Date;
+}
+
+export function buildWeekScene({
+  width,
+  height,
+  isMondayFirst,
+  wakingHours = DEFAULT_WAKING_HOURS,
+  colors = {
+    background: '#1a1a1a',
+    past: '#FFFFFF',
+    current: '#FF6B35',
+    future: '#404040',
+    text: '#888888',
+  },
+  typography = {
+    fontFamily: 'monospace',
+    fontSize: 0.035,
+    statsVisible: true,
+  },
+  layout = {
+    topPadding: 0.25,
+    bottomPadding: 0.15,
+    sidePadding: 0.18,
+    dotSpacing: 0.7,
+  },
+  textElements = [],
+  pluginElements = [],
+  currentDate = new Date(),
+}: WeekViewProps): WallpaperScene {
+  // Week Logic
+  const { start, end } = normalizeWakingHours(wakingHours);
+  const HOURS = end - start;
+  const COLS = 7;
+  const today = getCalendarDate(currentDate);
+  const todayIndex = getWeekdayIndex(today, isMondayFirst);
+  const currentHour = currentDate.getHours();
+  const weekdayLabels = isMondayFirst
+    ? ['M', 'T', 'W', 'T', 'F', 'S', 'S']
+    : ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+  // Hour row (0-based) of the current hour today, clamped outside waking hours:
+  // before waking every hour is ahead, after bedtime every hour is behind
+  const currentRow = Math.min(Math.max(currentHour - start, -1), HOURS);
+  const hoursLived = todayIndex * HOURS + Math.max(0, currentRow);
+  const totalHours = COLS * HOURS;
+  const hoursLeft = Math.max(0, totalHours - hoursLived - (currentRow >= 0 && currentRow < HOURS ? 1 : 0));
+
+  // Layout Calculations with Aspect Ratio Support
+  const safeArea = calculateSafeArea({ width, height, layout });
+  const SAFE_AREA_TOP = safeArea.top;
+  const SAFE_HEIGHT = safeArea.height;
+  const { paddingX, availableWidth } = safeArea;
+
+  // Vertical budget in cells: weekday labels + hour rows + stats
+  const cellSizeH = availableWidth / COLS;
+  const cellSizeV = SAFE_HEIGHT / (HOURS + 3);
+  const cellSize = Math.min(cellSizeH, cellSizeV);
+  const dotSize = cellSize / (1 + layout.dotSpacing);
+  const dotGap = dotSize * layout.dotSpacing;
+
+  const labelSize = Math.max(dotSize * 0.9, Math.min(width, height) * 0.02);
+  const statsFontSize = labelSize;
+  const statsMargin = cellSize;
+
+  const gridWidth = COLS * (dotSize + dotGap) - dotGap;
+  const gridHeight = HOURS * (dotSize + dotGap) - dotGap;
+  const headerHeight = labelSize + dotGap;
+  const totalContentHeight = headerHeight + gridHeight + statsMargin + statsFontSize;
+
+  const startX = paddingX + (availableWidth - gridWidth) / 2;
+  const calculatedStartY = SAFE_AREA_TOP + (SAFE_HEIGHT - totalContentHeight) / 2;
+  const startY = Math.max(SAFE_AREA_TOP * 0.9, calculatedStartY);
+  const gridY = startY + headerHeight;
+  const statsY = gridY + gridHeight + statsMargin;
+
+  const nodes: SceneNode[] = [];
+
+  // Weekday labels centered above each column (today highlighted)
+  weekdayLabels.forEach((label, col) => {
+    nodes.push(
+      createText(startX + col * (dotSize + dotGap) + dotSize / 2, startY, label, {
+        fontSize: labelSize * 0.8,
+        fontFamily: typography?.fontFamily || 'monospace',
+        color: col === todayIndex ? colors?.current || '#FF6B35' : colors?.text || '#888888',
+        align: 'center',
+      })
+    );
+  });
+
+  // Hour dots, column by column; each day's first dot goes in the layout
+  const weekStart = toDayNumber(today) - todayIndex;
+  const dots: Array<{ date: string; x: number; y: number }> = [];
+  for (let col = 0; col < COLS; col++) {
+    dots.push({ date: formatCalendarDate(fromDayNumber(weekStart + col)), x: startX + col * (dotSize + dotGap), y: gridY });
+    for (let row = 0; row < HOURS; row++) {
+      let color;
+      if (col < todayIndex || (col === todayIndex && row < currentRow)) {
+        color = colors.past;
+      } else if (col === todayIndex && row === currentRow) {
+        color = colors.current;
+      } else {
+        color = colors.future;
+      }
+
+      nodes.push(createDot(startX + col * (dotSize + dotGap), gridY + row * (dotSize + dotGap), dotSize, color));
+    }
+  }
+
+  // Stats Footer
+  if (typography.statsVisible) {
+    nodes.push(
+      createStatsText({
+        width,
+        top: statsY,
+        fontSize: statsFontSize,
+        remaining: `${hoursLeft}h left`,
+        progress: `${Math.round((hoursLived / totalHours) * 100)}%`,
+        colors,
+        typography,
+      })
+    );
+  }
+
+  // Custom Text Elements and Plugin-added Elements
+  nodes.push(...createTextElementNodes(textElements, width, height, { colors, typography }));
+  nodes.push(...createPluginElementNodes(pluginElements, { colors, typography }));
+
+  return {
+    width,
+    height,
+    background: colors?.background || '#1a1a1a',
+    nodes,
+    layout: createSceneLayout({
+      width,
+      height,
+      safeArea,
+      grid: { x: startX, y: startY, width: gridWidth, height: gridY + gridHeight - startY },
+      dotSize,
+      dotGap,
+      stats: typography.statsVisible ? { top: statsY, fontSize: statsFontSize } : null,
+      dots: dots,
+    }),
+  };
+}
@@ -2,15 +2,47 @@
  * Year View Component - Enhanced with Customization Support
  * 
  * Renders 365/366 dots in a 12-month calendar grid showing current year progress.
+ * buildYearScene() describes the wallpaper; scene-renderer.tsx draws it as PNG and
+ * lib/svg-renderer.ts as SVG (the editor playground builds it in the browser).
  * Now supports custom colors, typography, layout, text elements, and plugin additions.
+ * Days with imported calendar events (ICS) get a ring around their dot, and
+ * plugin decorate() hooks can recolor, ring, badge or hide any day's dot.
+ * The scene's layout maps each day to its dot center for plugins.
  */
 
-import { TextElement } from '@/lib/types';
+import { CalendarEntry, LayoutBox, PluginDotDecoration, PluginRenderElement, SceneNode, TextElement, WallpaperScene } from '@/lib/types';
 import {
-  calculateDaysLeftInYear,
-  getCurrentDayOfYear,
-  getTotalDaysInCurrentYear,
+  calculateYearProgress,
+  formatCalendarDate,
+  fromDayNumber,
+  getCalendarDate,
+  getDaysInMonth,
+  getWeekdayIndex,
+  parseCalendarDate,
+  toDayNumber,
 } from '@/lib/calcs';
+import { calculateDotGridLayout, calculateSafeArea, getDotPosition } from '@/lib/dot-grid';
+import { getCalendarEventDays } from '@/lib/recurrence';
+import {
+  CALENDAR_EVENT_COLOR,
+  createDecoratedDot,
+  createPluginElementNodes,
+  createSceneLayout,
+  createStatsText,
+  createText,
+  createTextElementNodes,
+  indexDotDecorations,
+} from '@/lib/scene';
+
+/**
+ * Height of a month label line relative to its font size (normal line height of Noto Sans, Satori's default font)
+ */
+const MONTH_LABEL_LINE_HEIGHT = 1.36;
+
+/**
+ * Month grid columns tried on landscape screens (each divides 12 months evenly)
+ */
+const LANDSCAPE_MONTH_COLUMNS = [4, 6, 12];
 
 interface YearViewProps {
   width: number;
@@ -37,12 +69,18 @@ interface YearViewProps {
     dotSpacing: number;
   };
   textElements?: TextElement[];
-  pluginElements?: any[];
-  currentDate?: Date;
+  pluginElements?: PluginRenderElement[];
+  /** Dot changes from plugin decorate() hooks (days of this year) */
+  dotDecorations?: PluginDotDecoration[];
+  /** Imported calendar events; their days get a ring */
+  calendarEntries?: CalendarEntry[];
+  /** User's IANA timezone (imported events are moved to its days) */
   timezone?: string;
+  /** Date the wallpaper is rendered for, in the user's timezone (after plugin overrides) */
+  currentDate?: Date;
 }
 
-export default function YearView({
+export function buildYearScene({
   width,
   height,
   isMondayFirst,
@@ -68,35 +106,49 @@ export default function YearView({
   },
   textElements = [],
   pluginElements = [],
-  currentDate = new Date(),
+  dotDecorations = [],
+  calendarEntries = [],
   timezone = 'UTC',
-}: YearViewProps) {
+  currentDate = new Date(),
+}: YearViewProps): WallpaperScene {
   // Year Logic
-  const date = currentDate;
-  const currentYear = date.getFullYear();
-  const currentDayOfYear = getCurrentDayOfYear(timezone);
-  const daysLeft = calculateDaysLeftInYear(timezone);
-  const totalDays = getTotalDaysInCurrentYear();
+  const today = getCalendarDate(currentDate);
+  const currentYear = today.year;
+  const { dayOfYear: currentDayOfYear, daysInYear: totalDays, daysLeft, percentage } = calculateYearProgress(today);
+
+  // Days of this year with imported calendar events (day numbers)
+  const eventDays = calendarEntries.length > 0
+    ? getCalendarEventDays(calendarEntries, { year: currentYear, month: 1, day: 1 }, { year: currentYear, month: 12, day: 31 }, timezone)
+    : new Set<number>();
+  const firstDayNumber = toDayNumber({ year: currentYear, month: 1, day: 1 });
+  const hasEvent = (dayOfYear: number) => eventDays.has(firstDayNumber + dayOfYear - 1);
+
+  // Plugin dot decorations by day of year; a plugin ring replaces the event ring
+  const decorations = indexDotDecorations(dotDecorations, ({ date }) => {
+    const day = date ? parseCalendarDate(date) : null;
+    return day && day.year === currentYear ? toDayNumber(day) - firstDayNumber + 1 : null;
+  });
+  const getDecoration = (dayOfYear: number) => {
+    const decoration = decorations.get(dayOfYear);
+    return hasEvent(dayOfYear) ? { ring: CALENDAR_EVENT_COLOR, ...decoration } : decoration;
+  };
+
+  const nodes: SceneNode[] = [];
+  const dots: Array<{ date: string; x: number; y: number }> = [];
+  const addDot = (dayOfYear: number, x: number, y: number, size: number, gap: number, color: string) => {
+    dots.push({ date: formatCalendarDate(fromDayNumber(firstDayNumber + dayOfYear - 1)), x, y });
+    nodes.push(...createDecoratedDot(x, y, size, gap, color, getDecoration(dayOfYear), colors.background));
+  };
+
+  const safeArea = calculateSafeArea({ width, height, layout });
+  let gridBox: LayoutBox;
+  let dotSize: number;
+  let dotGap: number;
+  let statsY: number;
+  let statsFontSize: number;
 
   // Days View Layout (weekly grid - 2 weeks per row)
   if (yearViewLayout === 'days') {
-    const aspectRatio = height / width;
-    
-    const SAFE_AREA_TOP = aspectRatio > 2.0 
-      ? height * Math.max(layout.topPadding, 0.28) 
-      : height * layout.topPadding;
-    const SAFE_AREA_BOTTOM = height * layout.bottomPadding;
-    const SAFE_HEIGHT = height - SAFE_AREA_TOP - SAFE_AREA_BOTTOM;
-    
-    const adjustedSidePadding = aspectRatio > 2.1 
-      ? Math.min(layout.sidePadding, 0.12) 
-      : aspectRatio > 2.0 
-      ? Math.min(layout.sidePadding, 0.15) 
-      : layout.sidePadding;
-    
-    const paddingX = width * adjustedSidePadding;
-    const availableWidth = width - paddingX * 2;
-    
     // Calculate grid dimensions - 14 days per row (2 weeks)
     const COLS_PER_ROW = 14;
     
@@ -104,36 +156,24 @@ export default function YearView({
     let startDayOffset = 0;
     if (daysLayoutMode === 'calendar') {
       // Get the day of week for January 1st
-      const jan1 = new Date(currentYear, 0, 1);
-      startDayOffset = jan1.getDay(); // 0 = Sunday
-      
-      // If Monday first, adjust the offset
-      if (isMondayFirst) {
-        startDayOffset = startDayOffset === 0 ? 6 : startDayOffset - 1;
-      }
+      startDayOffset = getWeekdayIndex({ year: currentYear, month: 1, day: 1 }, isMondayFirst);
     }
     
-    const totalCells = startDayOffset + totalDays;
-    const ROWS = Math.ceil(totalCells / COLS_PER_ROW);
-    
-    // Calculate dot size
-    const maxDotSizeH = availableWidth / COLS_PER_ROW;
-    const maxDotSizeV = SAFE_HEIGHT / (ROWS + 2); // +2 for stats spacing
-    const dotSize = Math.min(maxDotSizeH, maxDotSizeV) * 0.7; // Smaller dots
-    const dotGap = dotSize * layout.dotSpacing * 0.5; // Tighter spacing
-    
-    const statsFontSize = dotSize * 0.8; // Much smaller footer text
-    const statsMargin = dotSize * 2;
-    
-    const gridWidth = COLS_PER_ROW * (dotSize + dotGap) - dotGap;
-    const gridHeight = ROWS * (dotSize + dotGap) - dotGap;
-    
-    const startX = paddingX + (availableWidth - gridWidth) / 2;
-    const startY = SAFE_AREA_TOP + (SAFE_HEIGHT - gridHeight - statsMargin - statsFontSize) / 2;
-    const statsY = startY + gridHeight + statsMargin;
+    // Shared dot-grid math (safe area, dot size, centering)
+    const grid = calculateDotGridLayout({
+      width,
+      height,
+      layout,
+      cellCount: startDayOffset + totalDays,
+      columns: COLS_PER_ROW,
+    });
+    gridBox = { x: grid.startX, y: grid.startY, width: grid.gridWidth, height: grid.gridHeight };
+    dotSize = grid.dotSize;
+    dotGap = grid.dotGap;
+    statsY = grid.statsY;
+    statsFontSize = grid.statsFontSize;
     
     // Create all dots
-    const allDots = [];
     for (let day = 1; day <= totalDays; day++) {
       let color;
       if (day < currentDayOfYear) {
@@ -145,207 +185,107 @@ export default function YearView({
       }
       
       // Calculate position with offset for first week
-      const cellIndex = day - 1 + startDayOffset;
-      const row = Math.floor(cellIndex / COLS_PER_ROW);
-      const col = cellIndex % COLS_PER_ROW;
-      
-      allDots.push(
-        <div
-          key={`dot-${day}`}
-          style={{
-            position: 'absolute',
-            left: `${startX + col * (dotSize + dotGap)}px`,
-            top: `${startY + row * (dotSize + dotGap)}px`,
-            width: `${dotSize}px`,
-            height: `${dotSize}px`,
-            borderRadius: '50%',
-            backgroundColor: color,
-          }}
-        />
-      );
-    }
-    
-    return (
-      <div
-        style={{
-          width: '100%',
-          height: '100%',
-          backgroundColor: colors?.background || '#1a1a1a',
-          display: 'flex',
-          flexDirection: 'column',
-          position: 'relative',
-        }}
-      >
-        <div style={{ display: 'flex', position: 'relative', width: '100%', height: '100%' }}>
-          {allDots}
-        </div>
-
-        {/* Stats Footer */}
-        {typography.statsVisible && (
-          <div
-            style={{
-              position: 'absolute',
-              top: `${statsY}px`,
-              left: '0px',
-              width: '100%',
-              display: 'flex',
-              justifyContent: 'center',
-              alignItems: 'center',
-              fontSize: `${statsFontSize}px`,
-              fontFamily: typography?.fontFamily || 'monospace',
-            }}
-          >
-            <span style={{ color: colors?.current || '#FF6B35' }}>{daysLeft}d left</span>
-            <span style={{ color: colors?.text || '#888888', margin: '0px 8px' }}>·</span>
-            <span style={{ color: colors?.text || '#888888' }}>{Math.round((currentDayOfYear / totalDays) * 100)}%</span>
-          </div>
-        )}
-
-        {/* Custom Text Elements */}
-        {textElements.map((element) => {
-          if (!element.visible || element.content == null) return null;
-          
-          const style: any = {
-            position: 'absolute',
-            left: `${element.x}%`,
-            top: `${element.y}%`,
-            fontSize: `${element.fontSize || 16}px`,
-            fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
-            color: element.color || colors?.text || '#888888',
-          };
-
-          const align = element.align || 'left';
-          if (align === 'center') {
-            style.transform = 'translate(-50%, -50%)';
-          } else if (align === 'right') {
-            style.transform = 'translate(-100%, -50%)';
-          } else {
-            style.transform = 'translateY(-50%)';
-          }
-
-          return (
-            <div key={element.id} style={style}>
-              {String(element.content).trim()}
-            </div>
-          );
-        })}
-
-        {/* Plugin-added Elements */}
-        {pluginElements.map((element, index) => {
-          if (element.type === 'text' && element.content != null) {
-            const contentStr = String(element.content || '').trim();
-            
-            if (!contentStr) return null;
-
-            const style: any = {
-              position: 'absolute',
-              left: `${element.x}px`,
-              top: `${element.y}px`,
-              fontSize: `${element.fontSize || 16}px`,
-              color: element.color || colors?.text || '#888888',
-              fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
-            };
-
-            if (element.align === 'center') {
-              style.transform = 'translateX(-50%)';
-            } else if (element.align === 'right') {
-              style.transform = 'translateX(-100%)';
-            }
-
-            if (typeof element.maxWidth === 'number') {
-              style.maxWidth = `${element.maxWidth}px`;
-            }
-            
-            return (
-              <div key={`plugin-${index}`} style={style}>
-                {contentStr}
-              </div>
-            );
-          }
-          return null;
-        })}
-      </div>
-    );
-  }
-
-  // Grid Layout Config (Months View)
-  const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const COLUMNS = 3;
-  const ROWS = 4;
-
-  // Layout Calculations with Aspect Ratio Support
-  const aspectRatio = height / width;
-  
-  // Adapt safe zones based on aspect ratio
-  const SAFE_AREA_TOP = aspectRatio > 2.0 
-    ? height * Math.max(layout.topPadding, 0.28) 
-    : height * layout.topPadding;
-  const SAFE_AREA_BOTTOM = height * layout.bottomPadding;
-  const SAFE_HEIGHT = height - SAFE_AREA_TOP - SAFE_AREA_BOTTOM;
-
-  // Adjust side padding for narrower screens
-  const adjustedSidePadding = aspectRatio > 2.1 
-    ? Math.min(layout.sidePadding, 0.12) 
-    : aspectRatio > 2.0 
-    ? Math.min(layout.sidePadding, 0.15) 
-    : layout.sidePadding;
-  
-  const paddingX = width * adjustedSidePadding;
-  const availableWidth = width - paddingX * 2;
-  const cellWidth = availableWidth / COLUMNS;
-
-  // Calculate optimal dot size based on available space (both horizontal and vertical)
-  const maxDotSizeH = cellWidth / 8; // 7 dots + spacing
-  const maxMonthBlockHeight = SAFE_HEIGHT / ROWS;
-  const maxDotSizeV = maxMonthBlockHeight / 9; // Labels + 6 rows of dots + gaps
-  
-  const dotSize = Math.min(maxDotSizeH, maxDotSizeV, cellWidth / 7, 20);
-  const dotGap = dotSize * layout.dotSpacing;
-  const monthLabelSize = dotSize * 1.6;
-
-  const monthBlockHeight = monthLabelSize + dotSize + 6 * dotSize + 5 * dotGap;
-  const rowGap = monthLabelSize * 1.0;
-
-  const statsFontSize = monthLabelSize;
-  const statsMargin = rowGap * 3.0; // Reduced for tighter spacing
-
-  const gridHeight = ROWS * monthBlockHeight + (ROWS - 1) * rowGap;
-  const totalContentHeight = gridHeight + statsMargin + statsFontSize;
-
-  // Ensure content doesn't go too high
-  const calculatedStartY = SAFE_AREA_TOP + (SAFE_HEIGHT - totalContentHeight) / 2;
-  const startY = Math.max(SAFE_AREA_TOP * 0.9, calculatedStartY);
-  const statsY = startY + gridHeight + statsMargin;
-
-  // Helper to get days in month
-  const getDaysInMonth = (year: number, monthIndex: number) => {
-    return new Date(year, monthIndex + 1, 0).getDate();
-  };
-
-  const getFirstDayOfMonth = (year: number, monthIndex: number) => {
-    if (isMondayFirst) {
-      const day = new Date(year, monthIndex, 1).getDay();
-      return day === 0 ? 6 : day - 1;
+      const { x, y } = getDotPosition(grid, day - 1 + startDayOffset);
+      addDot(day, x, y, grid.dotSize, grid.dotGap, color);
     }
-    return new Date(year, monthIndex, 1).getDay();
-  };
-
-  let globalDayCounter = 0;
-
-  // Build month grids
-  const monthCells = MONTHS.map((monthName, monthIndex) => {
-    const daysInMonth = getDaysInMonth(currentYear, monthIndex);
-    const startDay = getFirstDayOfMonth(currentYear, monthIndex);
+  } else {
+    // Grid Layout Config (Months View)
+    const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+    // Layout Calculations with Aspect Ratio Support
+    const SAFE_AREA_TOP = safeArea.top;
+    const SAFE_HEIGHT = safeArea.height;
+    const { paddingX, availableWidth } = safeArea;
+
+    // Dot size cap: 20px on phones, scaled with the screen height on landscape screens
+    const isLandscape = width > height;
+    const maxDotSize = isLandscape ? 20 * (height / 1080) : 20;
+
+    // Calculate optimal dot size based on available space (both horizontal and vertical)
+    const getMonthDotSize = (columns: number) => {
+      const rows = MONTHS.length / columns;
+      const cellWidth = availableWidth / columns;
+      const maxDotSizeH = cellWidth / 8; // 7 dots + spacing
+      const maxMonthBlockHeight = SAFE_HEIGHT / rows;
+      if (!isLandscape) {
+        const maxDotSizeV = maxMonthBlockHeight / 9; // Labels + 6 rows of dots + gaps
+        return Math.min(maxDotSizeH, maxDotSizeV, cellWidth / 7, maxDotSize);
+      }
 
-    const dots = [];
+      // Landscape dots are only capped by the screen height, so the estimate must
+      // hold the real gaps: 7 dots + 6 gaps + 2 dots between months across, and
+      // all month blocks, row gaps and the stats footer (in dot sizes, see below) down
+      const maxDotSizeW = cellWidth / (9 + 6 * layout.dotSpacing);
+      const contentHeightInDots = rows * (8.6 + 5 * layout.dotSpacing) + (rows - 1) * 1.6 + 6.4;
+      return Math.min(maxDotSizeH, maxDotSizeW, SAFE_HEIGHT / contentHeightInDots, maxDotSize);
+    };
+
+    // 3×4 months on portrait screens; landscape screens put months side by side
+    // (4×3, 6×2 or 12×1), picking the widest grid with the largest dots
+    const COLUMNS = isLandscape
+      ? LANDSCAPE_MONTH_COLUMNS.reduce((best, columns) => (getMonthDotSize(columns) >= getMonthDotSize(best) ? columns : best))
+      : 3;
+    const ROWS = MONTHS.length / COLUMNS;
+    const cellWidth = availableWidth / COLUMNS;
+
+    dotSize = getMonthDotSize(COLUMNS);
+    dotGap = dotSize * layout.dotSpacing;
+    const monthLabelSize = dotSize * 1.6;
+
+    const monthBlockHeight = monthLabelSize + dotSize + 6 * dotSize + 5 * dotGap;
+    const rowGap = monthLabelSize * 1.0;
+
+    statsFontSize = monthLabelSize;
+    const statsMargin = rowGap * 3.0; // Reduced for tighter spacing
+
+    const gridHeight = ROWS * monthBlockHeight + (ROWS - 1) * rowGap;
+    const totalContentHeight = gridHeight + statsMargin + statsFontSize;
+
+    // Ensure content doesn't go too high
+    const calculatedStartY = SAFE_AREA_TOP + (SAFE_HEIGHT - totalContentHeight) / 2;
+    const startY = Math.max(SAFE_AREA_TOP * 0.9, calculatedStartY);
+    statsY = startY + gridHeight + statsMargin;
+
+    // Center dot grids within their cells
+    const dotGridWidth = (7 * dotSize) + (6 * dotGap);
+    const centerOffset = Math.max(0, (cellWidth - dotGridWidth) / 2);
+    gridBox = {
+      x: paddingX + centerOffset,
+      y: startY,
+      width: (COLUMNS - 1) * cellWidth + dotGridWidth,
+      height: gridHeight,
+    };
+
+    let globalDayCounter = 0;
+
+    // Build month grids
+    MONTHS.forEach((monthName, monthIndex) => {
+      const daysInMonth = getDaysInMonth(currentYear, monthIndex);
+      const startDay = getWeekdayIndex({ year: currentYear, month: monthIndex + 1, day: 1 }, isMondayFirst);
+
+      // Position of month cell
+      const colIndex = monthIndex % COLUMNS;
+      const rowIndex = Math.floor(monthIndex / COLUMNS);
+
+      const x = paddingX + colIndex * cellWidth + centerOffset;
+      const y = startY + rowIndex * (monthBlockHeight + rowGap);
+      const dotsY = y + monthLabelSize * MONTH_LABEL_LINE_HEIGHT + dotSize;
+
+      nodes.push(
+        createText(x, y, monthName, {
+          fontSize: monthLabelSize,
+          fontFamily: typography?.fontFamily || 'monospace',
+          color: colors?.text || '#888888',
+        })
+      );
 
-    // Render 7x6 grid (42 cells)
-    for (let i = 0; i < 42; i++) {
-      const dayNum = i - startDay + 1;
-      let color = 'transparent';
+      // 7x6 grid (42 cells)
+      for (let i = 0; i < 42; i++) {
+        const dayNum = i - startDay + 1;
+        if (dayNum <= 0 || dayNum > daysInMonth) continue;
 
-      if (dayNum > 0 && dayNum <= daysInMonth) {
         globalDayCounter++;
+        let color;
         if (globalDayCounter < currentDayOfYear) {
           color = colors.past;
         } else if (globalDayCounter === currentDayOfYear) {
@@ -353,177 +293,49 @@ export default function YearView({
         } else {
           color = colors.future;
         }
-      }
 
-      if (dayNum > 0 && dayNum <= daysInMonth) {
         const row = Math.floor(i / 7);
         const col = i % 7;
-
-        dots.push(
-          <div
-            key={`dot-${monthIndex}-${i}`}
-            style={{
-              position: 'absolute',
-              left: `${col * (dotSize + dotGap)}px`,
-              top: `${row * (dotSize + dotGap)}px`,
-              width: `${dotSize}px`,
-              height: `${dotSize}px`,
-              borderRadius: '50%',
-              backgroundColor: color,
-            }}
-          />
-        );
+        const dotX = x + col * (dotSize + dotGap);
+        const dotY = dotsY + row * (dotSize + dotGap);
+        addDot(globalDayCounter, dotX, dotY, dotSize, dotGap, color);
       }
-    }
-
-    // Position of month cell
-    const colIndex = monthIndex % COLUMNS;
-    const rowIndex = Math.floor(monthIndex / COLUMNS);
-
-    const x = paddingX + colIndex * cellWidth;
-    const y = startY + rowIndex * (monthBlockHeight + rowGap);
-    
-    // Center dot grid within cell
-    const dotGridWidth = (7 * dotSize) + (6 * dotGap);
-    const centerOffset = Math.max(0, (cellWidth - dotGridWidth) / 2);
+    });
+  }
 
-    return (
-      <div
-        key={monthName}
-        style={{
-          position: 'absolute',
-          left: `${x + centerOffset}px`,
-          top: `${y}px`,
-          display: 'flex',
-          flexDirection: 'column',
-        }}
-      >
-        <div
-          style={{
-            color: colors?.text || '#888888',
-            fontSize: `${monthLabelSize}px`,
-            marginBottom: `${dotSize}px`,
-            fontFamily: typography?.fontFamily || 'monospace',
-            display: 'flex',
-          }}
-        >
-          {monthName}
-        </div>
-        <div
-          style={{
-            position: 'relative',
-            width: `${7 * (dotSize + dotGap)}px`,
-            height: `${6 * (dotSize + dotGap)}px`,
-            display: 'flex',
-          }}
-        >
-          {dots}
-        </div>
-      </div>
+  // Stats Footer
+  if (typography.statsVisible) {
+    nodes.push(
+      createStatsText({
+        width,
+        top: statsY,
+        fontSize: statsFontSize,
+        remaining: `${daysLeft}d left`,
+        progress: `${percentage}%`,
+        colors,
+        typography,
+      })
     );
-  });
-
-  return (
-    <div
-      style={{
-        width: '100%',
-        height: '100%',
-        backgroundColor: colors?.background || '#1a1a1a',
-        display: 'flex',
-        flexDirection: 'column',
-        position: 'relative',
-      }}
-    >
-      <div style={{ display: 'flex', position: 'relative', width: '100%', height: '100%' }}>
-        {monthCells}
-      </div>
-
-      {/* Stats Footer */}
-      {typography.statsVisible && (
-        <div
-          style={{
-            position: 'absolute',
-            top: `${statsY}px`,
-            left: '0px',
-            width: '100%',
-            display: 'flex',
-            justifyContent: 'center',
-            alignItems: 'center',
-            fontSize: `${statsFontSize}px`,
-            fontFamily: typography?.fontFamily || 'monospace',
-          }}
-        >
-          <span style={{ color: colors?.current || '#FF6B35' }}>{daysLeft}d left</span>
-          <span style={{ color: colors?.text || '#888888', margin: '0px 8px' }}>·</span>
-          <span style={{ color: colors?.text || '#888888' }}>{Math.round((currentDayOfYear / totalDays) * 100)}%</span>
-        </div>
-      )}
-
-      {/* Custom Text Elements */}
-      {textElements.map((element) => {
-        if (!element.visible || element.content == null) return null;
-        
-        const style: any = {
-          position: 'absolute',
-          left: `${element.x}%`,
-          top: `${element.y}%`,
-          fontSize: `${element.fontSize || 16}px`,
-          fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
-          color: element.color || colors?.text || '#888888',
-        };
-
-        // Handle alignment for percentage-based positioning
-        const align = element.align || 'left';
-        if (align === 'center') {
-          style.transform = 'translate(-50%, -50%)';
-        } else if (align === 'right') {
-          style.transform = 'translate(-100%, -50%)';
-        } else {
-          style.transform = 'translateY(-50%)';
-        }
+  }
 
-        return (
-          <div key={element.id} style={style}>
-            {String(element.content).trim()}
-          </div>
-        );
-      })}
-
-      {/* Plugin-added Elements */}
-      {pluginElements.map((element, index) => {
-        if (element.type === 'text' && element.content != null) {
-          const contentStr = String(element.content || '').trim();
-          
-          if (!contentStr) return null;
-
-          const style: any = {
-            position: 'absolute',
-            left: `${element.x}px`,
-            top: `${element.y}px`,
-            fontSize: `${element.fontSize || 16}px`,
-            color: element.color || colors?.text || '#888888',
-            fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
-          };
-
-          // Handle alignment
-          if (element.align === 'center') {
-            style.transform = 'translateX(-50%)';
-          } else if (element.align === 'right') {
-            style.transform = 'translateX(-100%)';
-          }
-
-          if (typeof element.maxWidth === 'number') {
-            style.maxWidth = `${element.maxWidth}px`;
-          }
-          
-          return (
-            <div key={`plugin-${index}`} style={style}>
-              {contentStr}
-            </div>
-          );
-        }
-        return null;
-      })}
-    </div>
-  );
+  // Custom Text Elements and Plugin-added Elements
+  nodes.push(...createTextElementNodes(textElements, width, height, { colors, typography }));
+  nodes.push(...createPluginElementNodes(pluginElements, { colors, typography }));
+
+  return {
+    width,
+    height,
+    background: colors?.background || '#1a1a1a',
+    nodes,
+    layout: createSceneLayout({
+      width,
+      height,
+      safeArea,
+      grid: gridBox,
+      dotSize,
+      dotGap,
+      stats: typography.statsVisible ? { top: statsY, fontSize: statsFontSize } : null,
+      dots,
+    }),
+  };
 }
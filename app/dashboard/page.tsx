@@ -9,15 +9,30 @@ import { useEffect, useState, useRef } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { useRouter } from 'next/navigation';
 import { saveUserProfile, saveUserConfig, isUsernameAvailable, getUserConfigByUsername } from '@/lib/firebase';
-import { UserConfig, DeviceModel, ViewMode, Plugin, PluginConfig, TextElement, DaysLayoutMode } from '@/lib/types';
+import { UserConfig, DeviceModel, ViewMode, Plugin, PluginConfig, TextElement, DaysLayoutMode, LifeExpectancyConfig, LifeExpectancySex, LifeGridUnit, WakingHours, LifeEvent, LifeChapter, CountdownConfig, CalendarEntry } from '@/lib/types';
 import ViewModeToggle from '@/components/ViewModeToggle';
 import BirthDateInput from '@/components/BirthDateInput';
 import DeviceSelector from '@/components/DeviceSelector';
 import ThemeColorPicker from '@/components/ThemeColorPicker';
 import PluginMarketplace from '@/components/PluginMarketplace';
 import TextElementsEditor from '@/components/TextElementsEditor';
+import LifeEventsEditor from '@/components/LifeEventsEditor';
+import CalendarImport from '@/components/CalendarImport';
+import PluginDataToken from '@/components/PluginDataToken';
 import { PRESET_THEMES, getThemeByName, Theme } from '@/lib/themes';
 import { seedExamplePlugins } from '@/lib/seed-plugins';
+import { LIFE_TABLE } from '@/lib/life-tables';
+import { DEFAULT_LIFE_EXPECTANCY, DEFAULT_LIFE_GRID_UNIT, DEFAULT_WAKING_HOURS, MAX_LIFE_EXPECTANCY_YEARS, MIN_LIFE_EXPECTANCY_YEARS, formatLifeExpectancy, normalizeCalendarEntries, normalizeLifeChapters, normalizeLifeEvents, resolveLifeExpectancyYears, validateCountdown } from '@/lib/calcs';
+
+/**
+ * New countdowns start today with no target yet
+ */
+const createDefaultCountdown = (): CountdownConfig => ({
+  label: '',
+  startDate: new Date().toISOString().split('T')[0],
+  targetDate: '',
+  unit: 'days',
+});
 
 export default function DashboardPage() {
   const { user, userProfile, loading, refreshProfile } = useAuth();
@@ -38,6 +53,14 @@ export default function DashboardPage() {
   const [isMondayFirst, setIsMondayFirst] = useState(false);
   const [yearViewLayout, setYearViewLayout] = useState<'months' | 'days'>('months');
   const [daysLayoutMode, setDaysLayoutMode] = useState<'calendar' | 'continuous'>('continuous');
+  const [lifeExpectancy, setLifeExpectancy] = useState<LifeExpectancyConfig>(DEFAULT_LIFE_EXPECTANCY);
+  const [lifeGridUnit, setLifeGridUnit] = useState<LifeGridUnit>(DEFAULT_LIFE_GRID_UNIT);
+  const [lifeEvents, setLifeEvents] = useState<LifeEvent[]>([]);
+  const [lifeChapters, setLifeChapters] = useState<LifeChapter[]>([]);
+  const [calendarEntries, setCalendarEntries] = useState<CalendarEntry[]>([]);
+  const [showHourRing, setShowHourRing] = useState(false);
+  const [wakingHours, setWakingHours] = useState<WakingHours>(DEFAULT_WAKING_HOURS);
+  const [countdown, setCountdown] = useState<CountdownConfig>(createDefaultCountdown);
   
   // Customization state
   const [selectedTheme, setSelectedTheme] = useState<string>('Dark Default');
@@ -77,6 +100,8 @@ export default function DashboardPage() {
   const [saving, setSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState('');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Bumped on save so the preview link skips the browser's cached wallpaper
+  const [previewVersion, setPreviewVersion] = useState(0);
   
   // Collapsible sections state
   const [themeColorsExpanded, setThemeColorsExpanded] = useState(false);
@@ -90,9 +115,11 @@ export default function DashboardPage() {
   const [autoSaving, setAutoSaving] = useState(false);
 
   // Calculate if config is complete (needed before useEffects)
-  const isConfigComplete = viewMode === 'year' 
-    ? selectedDevice !== null 
-    : (birthDate && selectedDevice);
+  const isConfigComplete = viewMode === 'life'
+    ? (birthDate && selectedDevice)
+    : viewMode === 'countdown'
+    ? (validateCountdown(countdown).valid && selectedDevice)
+    : selectedDevice !== null;
 
   useEffect(() => {
     setMounted(true);
@@ -134,6 +161,14 @@ export default function DashboardPage() {
       isMondayFirst,
       yearViewLayout,
       daysLayoutMode,
+      lifeExpectancy: JSON.stringify(lifeExpectancy),
+      lifeGridUnit,
+      lifeEvents: JSON.stringify(lifeEvents),
+      lifeChapters: JSON.stringify(lifeChapters),
+      calendarEntries: JSON.stringify(calendarEntries),
+      showHourRing,
+      wakingHours: JSON.stringify(wakingHours),
+      countdown: JSON.stringify(countdown),
       timezone,
       device: JSON.stringify(currentDevice),
     };
@@ -149,6 +184,14 @@ export default function DashboardPage() {
       isMondayFirst: config.isMondayFirst,
       yearViewLayout: config.yearViewLayout,
       daysLayoutMode: config.daysLayoutMode,
+      lifeExpectancy: JSON.stringify(config.lifeExpectancy || DEFAULT_LIFE_EXPECTANCY),
+      lifeGridUnit: config.lifeGridUnit || DEFAULT_LIFE_GRID_UNIT,
+      lifeEvents: JSON.stringify(normalizeLifeEvents(config.lifeEvents)),
+      lifeChapters: JSON.stringify(normalizeLifeChapters(config.lifeChapters)),
+      calendarEntries: JSON.stringify(normalizeCalendarEntries(config.calendarEntries)),
+      showHourRing: config.showHourRing || false,
+      wakingHours: JSON.stringify(config.wakingHours || DEFAULT_WAKING_HOURS),
+      countdown: JSON.stringify(config.countdown || countdown),
       timezone: config.timezone,
       device: JSON.stringify(config.device),
     };
@@ -178,7 +221,7 @@ export default function DashboardPage() {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [colors, fontFamily, fontSize, statsVisible, layout, plugins, textElements, viewMode, birthDate, isMondayFirst, yearViewLayout, daysLayoutMode, timezone, selectedDevice, config, isConfigComplete]);
+  }, [colors, fontFamily, fontSize, statsVisible, layout, plugins, textElements, viewMode, birthDate, isMondayFirst, yearViewLayout, daysLayoutMode, lifeExpectancy, lifeGridUnit, lifeEvents, lifeChapters, calendarEntries, showHourRing, wakingHours, countdown, timezone, selectedDevice, config, isConfigComplete]);
 
   const loadUserConfig = async (username: string) => {
     const { data } = await getUserConfigByUsername(username);
@@ -190,6 +233,14 @@ export default function DashboardPage() {
       setIsMondayFirst(cfg.isMondayFirst || false);
       setYearViewLayout(cfg.yearViewLayout || 'months');
       setDaysLayoutMode(cfg.daysLayoutMode || 'continuous');
+      setLifeExpectancy({ ...DEFAULT_LIFE_EXPECTANCY, ...cfg.lifeExpectancy });
+      setLifeGridUnit(cfg.lifeGridUnit || DEFAULT_LIFE_GRID_UNIT);
+      setLifeEvents(normalizeLifeEvents(cfg.lifeEvents));
+      setLifeChapters(normalizeLifeChapters(cfg.lifeChapters));
+      setCalendarEntries(normalizeCalendarEntries(cfg.calendarEntries));
+      setShowHourRing(cfg.showHourRing || false);
+      setWakingHours(cfg.wakingHours || DEFAULT_WAKING_HOURS);
+      setCountdown(cfg.countdown || createDefaultCountdown());
       
       // Load customization settings
       if (cfg.colors) {
@@ -260,6 +311,14 @@ export default function DashboardPage() {
         isMondayFirst: isMondayFirst,
         yearViewLayout: yearViewLayout,
         daysLayoutMode: daysLayoutMode,
+        lifeExpectancy: lifeExpectancy,
+        lifeGridUnit: lifeGridUnit,
+        lifeEvents: lifeEvents,
+        lifeChapters: lifeChapters,
+        calendarEntries: calendarEntries,
+        showHourRing: showHourRing,
+        wakingHours: wakingHours,
+        countdown: countdown,
         timezone: timezone,
         device: defaultDevice,
       };
@@ -272,6 +331,7 @@ export default function DashboardPage() {
     const newPluginConfig: PluginConfig = {
       pluginId: plugin.id,
       enabled: true,
+      version: plugin.version,
       config: {},
     };
     setPlugins(prev => [...prev, newPluginConfig]);
@@ -291,7 +351,7 @@ export default function DashboardPage() {
     );
   };
 
-  const handleConfigurePlugin = (pluginId: string, config: Record<string, any>) => {
+  const handleConfigurePlugin = (pluginId: string, config: Record<string, unknown>) => {
     setPlugins(prev => 
       prev.map(p => 
         p.pluginId === pluginId 
@@ -301,6 +361,16 @@ export default function DashboardPage() {
     );
   };
 
+  const handleUpdatePlugin = (pluginId: string, version: string, config: Record<string, unknown>) => {
+    setPlugins(prev => 
+      prev.map(p => 
+        p.pluginId === pluginId 
+          ? { ...p, version, config }
+          : p
+      )
+    );
+  };
+
   const checkUsername = async (value: string) => {
     const cleaned = value.toLowerCase().replace(/[^a-z0-9-_]/g, '');
     setUsername(cleaned);
@@ -317,7 +387,7 @@ export default function DashboardPage() {
       return;
     }
 
-    const reserved = ['admin', 'api', 'dashboard', 'login', 'logout', 'signup', 'signin', 'wallpaper'];
+    const reserved = ['admin', 'api', 'dashboard', 'login', 'logout', 'signup', 'signin', 'wallpaper', 'plugin-preview', 'plugin-source'];
     if (reserved.includes(cleaned)) {
       setUsernameError('This username is reserved');
       setUsernameAvailable(false);
@@ -388,6 +458,14 @@ export default function DashboardPage() {
       isMondayFirst,
       yearViewLayout,
       daysLayoutMode,
+      lifeExpectancy,
+      lifeGridUnit,
+      lifeEvents,
+      lifeChapters,
+      calendarEntries,
+      showHourRing,
+      wakingHours,
+      countdown,
       device: selectedDevice,
       plugins,
       textElements,
@@ -425,6 +503,14 @@ export default function DashboardPage() {
         if (imported.isMondayFirst !== undefined) setIsMondayFirst(imported.isMondayFirst);
         if (imported.yearViewLayout) setYearViewLayout(imported.yearViewLayout);
         if (imported.daysLayoutMode) setDaysLayoutMode(imported.daysLayoutMode);
+        if (imported.lifeExpectancy) setLifeExpectancy({ ...DEFAULT_LIFE_EXPECTANCY, ...imported.lifeExpectancy });
+        if (imported.lifeGridUnit) setLifeGridUnit(imported.lifeGridUnit);
+        if (Array.isArray(imported.lifeEvents)) setLifeEvents(normalizeLifeEvents(imported.lifeEvents));
+        if (Array.isArray(imported.lifeChapters)) setLifeChapters(normalizeLifeChapters(imported.lifeChapters));
+        if (Array.isArray(imported.calendarEntries)) setCalendarEntries(normalizeCalendarEntries(imported.calendarEntries));
+        if (imported.showHourRing !== undefined) setShowHourRing(imported.showHourRing);
+        if (imported.wakingHours) setWakingHours(imported.wakingHours);
+        if (imported.countdown) setCountdown({ ...createDefaultCountdown(), ...imported.countdown });
         if (imported.device) setSelectedDevice(imported.device);
         if (imported.textElements) setTextElements(imported.textElements);
         if (imported.plugins) setPlugins(imported.plugins);
@@ -465,6 +551,10 @@ export default function DashboardPage() {
     setPlugins([]);
     setTextElements([]);
     setDaysLayoutMode('continuous');
+    setLifeExpectancy(DEFAULT_LIFE_EXPECTANCY);
+    setLifeGridUnit(DEFAULT_LIFE_GRID_UNIT);
+    setShowHourRing(false);
+    setWakingHours(DEFAULT_WAKING_HOURS);
     setShowResetConfirm(false);
     setSaveMessage('✓ Settings reset to defaults');
     setTimeout(() => setSaveMessage(''), 2000);
@@ -505,6 +595,10 @@ export default function DashboardPage() {
         isMondayFirst,
         yearViewLayout,
         daysLayoutMode,
+        lifeExpectancy: DEFAULT_LIFE_EXPECTANCY,
+        lifeGridUnit: DEFAULT_LIFE_GRID_UNIT,
+        showHourRing: false,
+        wakingHours: DEFAULT_WAKING_HOURS,
         timezone: 'UTC',
         updatedAt: new Date(),
       };
@@ -542,7 +636,17 @@ export default function DashboardPage() {
       isMondayFirst,
       yearViewLayout,
       daysLayoutMode,
+      lifeExpectancy,
+      lifeGridUnit,
+      lifeEvents,
+      lifeChapters,
+      calendarEntries,
+      showHourRing,
+      wakingHours,
+      countdown,
       timezone: timezone,
+      // Set from the Plugin Data section; kept so the saved config stays in sync
+      ...(config?.pluginDataTokenHash ? { pluginDataTokenHash: config.pluginDataTokenHash } : {}),
       updatedAt: new Date(),
     };
 
@@ -552,6 +656,7 @@ export default function DashboardPage() {
       setSaveMessage('✓ Saved');
       setConfig(configToSave); // Update saved config state
       setHasUnsavedChanges(false); // Reset unsaved changes flag
+      setPreviewVersion(Date.now());
       setTimeout(() => setSaveMessage(''), 2000);
     } else {
       setSaveMessage('✗ Error: ' + error);
@@ -699,7 +804,7 @@ export default function DashboardPage() {
               Copy URL
             </button>
             <a
-              href={`/api/${userProfile.username}`}
+              href={`/api/${userProfile.username}${previewVersion ? `?v=${previewVersion}` : ''}`}
               target="_blank"
               rel="noopener noreferrer"
               className="flex-1 py-2 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest text-center"
@@ -726,6 +831,152 @@ export default function DashboardPage() {
             </div>
           )}
 
+          {/* Life Expectancy & Dot Unit (only for life view) */}
+          {viewMode === 'life' && (
+            <>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-neutral-500">Life Expectancy</label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setLifeExpectancy(prev => ({ ...prev, mode: 'years' }))}
+                    className={`flex-1 py-3 text-xs uppercase tracking-widest transition-colors ${
+                      lifeExpectancy.mode === 'years'
+                        ? 'bg-white text-black'
+                        : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'
+                    }`}
+                  >
+                    Years
+                  </button>
+                  <button
+                    onClick={() => setLifeExpectancy(prev => ({ ...prev, mode: 'table' }))}
+                    className={`flex-1 py-3 text-xs uppercase tracking-widest transition-colors ${
+                      lifeExpectancy.mode === 'table'
+                        ? 'bg-white text-black'
+                        : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'
+                    }`}
+                  >
+                    Life Table
+                  </button>
+                </div>
+
+                {lifeExpectancy.mode === 'years' ? (
+                  <input
+                    type="number"
+                    min={MIN_LIFE_EXPECTANCY_YEARS}
+                    max={MAX_LIFE_EXPECTANCY_YEARS}
+                    value={lifeExpectancy.years ?? ''}
+                    onChange={(e) => setLifeExpectancy(prev => ({ ...prev, years: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                  />
+                ) : (
+                  <div className="flex gap-2">
+                    <select
+                      value={lifeExpectancy.country}
+                      onChange={(e) => setLifeExpectancy(prev => ({ ...prev, country: e.target.value }))}
+                      className="flex-1 px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                    >
+                      {LIFE_TABLE.map((entry) => (
+                        <option key={entry.country} value={entry.country}>{entry.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={lifeExpectancy.sex}
+                      onChange={(e) => setLifeExpectancy(prev => ({ ...prev, sex: e.target.value as LifeExpectancySex }))}
+                      className="px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                    >
+                      <option value="female">Female</option>
+                      <option value="male">Male</option>
+                      <option value="other">Other / Not specified</option>
+                    </select>
+                  </div>
+                )}
+                <p className="text-xs text-neutral-500">
+                  {lifeExpectancy.mode === 'years'
+                    ? `Grid covers ${formatLifeExpectancy(resolveLifeExpectancyYears(lifeExpectancy))} years`
+                    : `Life expectancy at birth: ${formatLifeExpectancy(resolveLifeExpectancyYears(lifeExpectancy))} years (WHO, 2019)`}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-neutral-500">One Dot Per</label>
+                <div className="flex gap-2">
+                  {(['days', 'weeks', 'months', 'years'] as LifeGridUnit[]).map((unit) => (
+                    <button
+                      key={unit}
+                      onClick={() => setLifeGridUnit(unit)}
+                      className={`flex-1 py-3 text-xs uppercase tracking-widest transition-colors ${
+                        lifeGridUnit === unit
+                          ? 'bg-white text-black'
+                          : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'
+                      }`}
+                    >
+                      {unit.slice(0, -1)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Countdown Options */}
+          {viewMode === 'countdown' && (
+            <>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-neutral-500">Countdown Label</label>
+                <input
+                  type="text"
+                  value={countdown.label}
+                  onChange={(e) => setCountdown(prev => ({ ...prev, label: e.target.value }))}
+                  className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                  placeholder="Launch day"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-xs uppercase tracking-widest text-neutral-500">Start Date</label>
+                  <input
+                    type="date"
+                    value={countdown.startDate}
+                    onChange={(e) => setCountdown(prev => ({ ...prev, startDate: e.target.value }))}
+                    className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs uppercase tracking-widest text-neutral-500">Target Date</label>
+                  <input
+                    type="date"
+                    value={countdown.targetDate}
+                    onChange={(e) => setCountdown(prev => ({ ...prev, targetDate: e.target.value }))}
+                    className="w-full px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                  />
+                </div>
+              </div>
+              {countdown.startDate && countdown.targetDate && !validateCountdown(countdown).valid && (
+                <p className="text-xs text-red-500">Target date must be after the start date</p>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-neutral-500">One Dot Per</label>
+                <div className="flex gap-2">
+                  {(['days', 'weeks'] as CountdownConfig['unit'][]).map((unit) => (
+                    <button
+                      key={unit}
+                      onClick={() => setCountdown(prev => ({ ...prev, unit }))}
+                      className={`flex-1 py-3 text-xs uppercase tracking-widest transition-colors ${
+                        countdown.unit === unit
+                          ? 'bg-white text-black'
+                          : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'
+                      }`}
+                    >
+                      {unit.slice(0, -1)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
           {/* Device Selector */}
           <div className="space-y-2">
             <DeviceSelector
@@ -821,6 +1072,72 @@ export default function DashboardPage() {
             </>
           )}
 
+          {/* Month & Week View Options */}
+          {(viewMode === 'month' || viewMode === 'week') && (
+            <>
+              {viewMode === 'month' && (
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="showHourRing"
+                    checked={showHourRing}
+                    onChange={(e) => setShowHourRing(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  <label htmlFor="showHourRing" className="text-xs uppercase tracking-widest text-neutral-500">
+                    Show today&apos;s hours
+                  </label>
+                </div>
+              )}
+
+              {viewMode === 'week' && (
+                <div className="space-y-2">
+                  <label className="text-xs uppercase tracking-widest text-neutral-500">Waking Hours</label>
+                  <div className="flex gap-2 items-center">
+                    <select
+                      value={wakingHours.start}
+                      onChange={(e) => {
+                        const start = parseInt(e.target.value);
+                        setWakingHours(prev => ({ start, end: Math.max(prev.end, start + 1) }));
+                      }}
+                      className="flex-1 px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-neutral-500">to</span>
+                    <select
+                      value={wakingHours.end}
+                      onChange={(e) => setWakingHours(prev => ({ ...prev, end: parseInt(e.target.value) }))}
+                      className="flex-1 px-4 py-3 bg-neutral-800 border border-neutral-700 text-white focus:border-white outline-none text-sm"
+                    >
+                      {Array.from({ length: 24 - wakingHours.start }, (_, i) => wakingHours.start + 1 + i).map((hour) => (
+                        <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-xs text-neutral-500">
+                    {wakingHours.end - wakingHours.start} dots per day
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="mondayFirstWeek"
+                  checked={isMondayFirst}
+                  onChange={(e) => setIsMondayFirst(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <label htmlFor="mondayFirstWeek" className="text-xs uppercase tracking-widest text-neutral-500">
+                  Start week on Monday
+                </label>
+              </div>
+            </>
+          )}
+
           {/* Timezone Selector */}
           <div className="space-y-2">
             <label className="text-xs uppercase tracking-widest text-neutral-500">Your Timezone</label>
@@ -1182,6 +1499,33 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {/* Life Events Editor (only for life view) */}
+        {viewMode === 'life' && (
+          <div className="p-6 bg-neutral-900 border border-neutral-800 rounded-lg space-y-4">
+            <h2 className="text-sm uppercase tracking-wider text-neutral-400">Life Events & Chapters</h2>
+            <p className="text-xs text-neutral-500">Color milestones and shade periods of your life on the grid</p>
+            <LifeEventsEditor
+              lifeEvents={lifeEvents}
+              lifeChapters={lifeChapters}
+              onEventsChange={setLifeEvents}
+              onChaptersChange={setLifeChapters}
+            />
+          </div>
+        )}
+
+        {/* Calendar Import (only for year view) */}
+        {viewMode === 'year' && (
+          <div className="p-6 bg-neutral-900 border border-neutral-800 rounded-lg space-y-4">
+            <h2 className="text-sm uppercase tracking-wider text-neutral-400">Calendar Events</h2>
+            <p className="text-xs text-neutral-500">Import an .ics file to ring the days with events on the year grid</p>
+            <CalendarImport
+              calendarEntries={calendarEntries}
+              timezone={timezone}
+              onEntriesChange={setCalendarEntries}
+            />
+          </div>
+        )}
+
         {/* Text Elements Editor */}
         <div className="p-6 bg-neutral-900 border border-neutral-800 rounded-lg space-y-4">
           <h2 className="text-sm uppercase tracking-wider text-neutral-400">Custom Text Elements</h2>
@@ -1213,6 +1557,20 @@ export default function DashboardPage() {
             onUninstall={handleUninstallPlugin}
             onToggle={handleTogglePlugin}
             onConfigure={handleConfigurePlugin}
+            onUpdate={handleUpdatePlugin}
+          />
+        </div>
+
+        {/* Plugin Data Token */}
+        <div className="p-6 bg-neutral-900 border border-neutral-800 rounded-lg space-y-4">
+          <h2 className="text-sm uppercase tracking-wider text-neutral-400">Plugin Data</h2>
+          <p className="text-xs text-neutral-500">
+            Let shortcuts and scripts send data to your plugins (e.g. check off a habit) with a private token
+          </p>
+          <PluginDataToken
+            username={userProfile.username}
+            hasToken={!!config?.pluginDataTokenHash}
+            onTokenHashChange={(pluginDataTokenHash) => setConfig((prev) => ({ ...prev, pluginDataTokenHash }))}
           />
         </div>
 
@@ -1283,6 +1641,7 @@ export default function DashboardPage() {
           <div className="bg-red-900/20 border border-red-500/50 rounded-lg px-4 py-2 shadow-lg">
             <div className="text-xs text-red-400">
               {viewMode === 'life' && !birthDate && '⚠ Please enter your birth date'}
+              {viewMode === 'countdown' && !validateCountdown(countdown).valid && '⚠ Please set a target date after the start date'}
               {!selectedDevice && '⚠ Please select a device'}
             </div>
           </div>
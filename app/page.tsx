@@ -6,12 +6,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { UserProfile, DeviceModel } from '@/lib/types';
+import { UserProfile, DeviceModel, ViewMode } from '@/lib/types';
 import DeviceSelector from '@/components/DeviceSelector';
 import BirthDateInput from '@/components/BirthDateInput';
 import ViewModeToggle from '@/components/ViewModeToggle';
 import SetupInstructions from '@/components/SetupInstructions';
 import AuthButton from '@/components/AuthButton';
+import { validateCountdown } from '@/lib/calcs';
 
 const STORAGE_KEY = 'remainders-user-profile';
 const THEME_COLOR = 'FFFFFF'; // White for minimalist dark theme
@@ -19,10 +20,14 @@ const THEME_COLOR = 'FFFFFF'; // White for minimalist dark theme
 export default function Home() {
   const [birthDate, setBirthDate] = useState('');
   const [selectedDevice, setSelectedDevice] = useState<DeviceModel | null>(null);
-  const [viewMode, setViewMode] = useState<'year' | 'life'>('life');
+  const [viewMode, setViewMode] = useState<ViewMode>('life');
   const [isMondayFirst, setIsMondayFirst] = useState(false);
   const [yearViewLayout, setYearViewLayout] = useState<'months' | 'days'>('months');
   const [daysLayoutMode, setDaysLayoutMode] = useState<'calendar' | 'continuous'>('continuous');
+  const [countdownLabel, setCountdownLabel] = useState('');
+  const [countdownStart, setCountdownStart] = useState(() => new Date().toISOString().split('T')[0]);
+  const [countdownTarget, setCountdownTarget] = useState('');
+  const [countdownUnit, setCountdownUnit] = useState<'days' | 'weeks'>('days');
   const [wallpaperUrl, setWallpaperUrl] = useState('');
   const [copied, setCopied] = useState(false);
 
@@ -83,6 +88,7 @@ export default function Home() {
   const generateWallpaperUrl = () => {
     if (!selectedDevice || !selectedDevice.width || !selectedDevice.height) return;
     if (viewMode === 'life' && !birthDate) return;
+    if (viewMode === 'countdown' && !countdownTarget) return;
 
     const params = new URLSearchParams({
       themeColor: THEME_COLOR,
@@ -105,6 +111,19 @@ export default function Home() {
       }
     }
 
+    if ((viewMode === 'month' || viewMode === 'week') && isMondayFirst) {
+      params.append('isMondayFirst', 'true');
+    }
+
+    if (viewMode === 'countdown') {
+      if (countdownLabel.trim()) {
+        params.append('label', countdownLabel.trim());
+      }
+      params.append('startDate', countdownStart);
+      params.append('targetDate', countdownTarget);
+      params.append('unit', countdownUnit);
+    }
+
     const baseUrl = typeof window !== 'undefined'
       ? `${window.location.protocol}//${window.location.host}`
       : '';
@@ -130,7 +149,11 @@ export default function Home() {
     }
   };
 
-  const isFormComplete = viewMode === 'year' ? selectedDevice !== null : (birthDate && selectedDevice);
+  const isFormComplete = viewMode === 'life'
+    ? (birthDate && selectedDevice)
+    : viewMode === 'countdown'
+    ? (validateCountdown({ startDate: countdownStart, targetDate: countdownTarget }).valid && selectedDevice)
+    : selectedDevice !== null;
 
   return (
     <main className="min-h-screen flex flex-col items-center justify-between p-6 selection:bg-white selection:text-black relative">
@@ -254,6 +277,85 @@ export default function Home() {
             </>
           )}
 
+          {/* Monday First Toggle (month and week views) */}
+          {(viewMode === 'month' || viewMode === 'week') && (
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="mondayFirst"
+                checked={isMondayFirst}
+                onChange={(e) => setIsMondayFirst(e.target.checked)}
+                className="w-5 h-5 rounded cursor-pointer border-2 border-white/30 bg-black/50 checked:bg-white checked:border-white appearance-none relative checked:after:content-['✓'] checked:after:absolute checked:after:left-1/2 checked:after:top-1/2 checked:after:-translate-x-1/2 checked:after:-translate-y-1/2 checked:after:text-black checked:after:text-sm checked:after:font-bold"
+              />
+              <label htmlFor="mondayFirst" className="text-xs uppercase tracking-widest text-neutral-500 cursor-pointer">
+                Start week on Monday
+              </label>
+            </div>
+          )}
+
+          {/* Countdown Options */}
+          {viewMode === 'countdown' && (
+            <div className="space-y-6">
+              <div className="w-full group">
+                <label htmlFor="countdownLabel" className="text-xs uppercase tracking-widest text-neutral-500 mb-1 block group-focus-within:text-white transition-colors">
+                  Label
+                </label>
+                <input
+                  id="countdownLabel"
+                  type="text"
+                  value={countdownLabel}
+                  onChange={(e) => setCountdownLabel(e.target.value)}
+                  placeholder="Launch day"
+                  className="input-minimal text-white placeholder:text-neutral-700 bg-black/30 border border-white/20"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="w-full group">
+                  <label htmlFor="countdownStart" className="text-xs uppercase tracking-widest text-neutral-500 mb-1 block group-focus-within:text-white transition-colors">
+                    Start
+                  </label>
+                  <input
+                    id="countdownStart"
+                    type="date"
+                    value={countdownStart}
+                    onChange={(e) => setCountdownStart(e.target.value)}
+                    className="input-minimal text-white bg-black/30 border border-white/20 [color-scheme:dark]"
+                  />
+                </div>
+                <div className="w-full group">
+                  <label htmlFor="countdownTarget" className="text-xs uppercase tracking-widest text-neutral-500 mb-1 block group-focus-within:text-white transition-colors">
+                    Target
+                  </label>
+                  <input
+                    id="countdownTarget"
+                    type="date"
+                    value={countdownTarget}
+                    onChange={(e) => setCountdownTarget(e.target.value)}
+                    className="input-minimal text-white bg-black/30 border border-white/20 [color-scheme:dark]"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-neutral-500">One Dot Per</label>
+                <div className="flex gap-2">
+                  {(['days', 'weeks'] as const).map((unit) => (
+                    <button
+                      key={unit}
+                      onClick={() => setCountdownUnit(unit)}
+                      className={`flex-1 py-3 text-xs uppercase tracking-widest transition-colors ${
+                        countdownUnit === unit
+                          ? 'bg-white text-black'
+                          : 'bg-neutral-900 text-neutral-500 hover:bg-neutral-800'
+                      }`}
+                    >
+                      {unit === 'days' ? 'Day' : 'Week'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-6">
             {viewMode === 'life' && (
               <BirthDateInput value={birthDate} onChange={setBirthDate} />
@@ -0,0 +1,302 @@
+/**
+ * Plugin Detail Page
+ *
+ * Marketplace page of a single plugin: screenshot (or a rendered preview), description, changelog of
+ * its approved versions, and star ratings with short reviews. Signed-in users
+ * (other than the author) can rate the plugin once and edit their rating.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '@/lib/auth-context';
+import { getPlugin, getPluginRatings, getPluginVersions, ratePlugin } from '@/lib/firebase';
+import { applyPluginRating, MAX_REVIEW_LENGTH, PLUGIN_CATEGORIES, validatePluginRating } from '@/lib/plugin-marketplace';
+import { getPluginPreviewUrl } from '@/lib/plugin-preview';
+import { isPluginVersionApproved } from '@/lib/plugin-review';
+import { Plugin, PluginRating, PluginVersion } from '@/lib/types';
+
+function formatDate(value: unknown): string {
+  if (value instanceof Timestamp) return value.toDate().toLocaleDateString();
+  if (value instanceof Date) return value.toLocaleDateString();
+  return '';
+}
+
+function Stars({ value }: { value: number }) {
+  return (
+    <span className="text-yellow-400" aria-label={`${value} out of 5 stars`}>
+      {'★'.repeat(Math.round(value))}
+      <span className="text-neutral-700">{'★'.repeat(5 - Math.round(value))}</span>
+    </span>
+  );
+}
+
+export default function PluginDetailPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const params = useParams<{ pluginId: string }>();
+  const pluginId = params.pluginId;
+
+  const [plugin, setPlugin] = useState<Plugin | null>(null);
+  const [versions, setVersions] = useState<PluginVersion[]>([]);
+  const [ratings, setRatings] = useState<PluginRating[]>([]);
+  const [loadingPlugin, setLoadingPlugin] = useState(true);
+  const [myRating, setMyRating] = useState(0);
+  const [myReview, setMyReview] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    if (loading) return;
+
+    const loadPlugin = async () => {
+      setLoadingPlugin(true);
+      const { data } = await getPlugin(pluginId);
+      const found = data as Plugin | null;
+
+      // Unapproved and other users' private plugins are not listed
+      if (!found || !found.approved || (found.isPrivate && found.authorId !== user?.uid)) {
+        setPlugin(null);
+        setLoadingPlugin(false);
+        return;
+      }
+
+      const [{ data: pluginVersions }, { data: pluginRatings }] = await Promise.all([
+        getPluginVersions(pluginId),
+        getPluginRatings(pluginId),
+      ]);
+      const own = pluginRatings.find(rating => rating.userId === user?.uid);
+
+      setPlugin(found);
+      setVersions(pluginVersions.filter(isPluginVersionApproved));
+      setRatings(pluginRatings);
+      setMyRating(own?.rating || 0);
+      setMyReview(own?.review || '');
+      setLoadingPlugin(false);
+    };
+
+    loadPlugin();
+  }, [pluginId, user, loading]);
+
+  const handleRate = async () => {
+    if (!user || !plugin) return;
+
+    const { valid, errors } = validatePluginRating(myRating, myReview.trim());
+    if (!valid) {
+      setError(errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const pluginRating: PluginRating = {
+      userId: user.uid,
+      author: user.displayName || 'Anonymous',
+      rating: myRating,
+      review: myReview.trim(),
+    };
+    const { success: rated, error: rateError } = await ratePlugin(plugin.id, pluginRating);
+    if (rated) {
+      // Mirror the transaction locally instead of reloading every rating
+      const previous = ratings.find(rating => rating.userId === user.uid);
+      setPlugin({ ...plugin, ...applyPluginRating(plugin, previous ? previous.rating : null, myRating) });
+      setRatings([
+        { ...pluginRating, createdAt: previous?.createdAt, updatedAt: new Date() },
+        ...ratings.filter(rating => rating.userId !== user.uid),
+      ]);
+      setSuccess('Thanks for your review!');
+      setTimeout(() => setSuccess(''), 3000);
+    } else {
+      setError('Failed to save review: ' + rateError);
+    }
+    setSaving(false);
+  };
+
+  if (loading || loadingPlugin) {
+    return (
+      <div className="min-h-screen bg-[#1a1a1a] flex items-center justify-center">
+        <div className="text-white text-sm tracking-widest uppercase animate-pulse">
+          Loading...
+        </div>
+      </div>
+    );
+  }
+
+  if (!plugin) {
+    return (
+      <div className="min-h-screen bg-[#1a1a1a] flex items-center justify-center">
+        <div className="text-white text-center space-y-4">
+          <p className="text-sm tracking-widest uppercase">Plugin not found</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-6 py-2 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-widest"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isAuthor = !!user && plugin.authorId === user.uid;
+
+  return (
+    <div className="min-h-screen bg-[#1a1a1a] text-white">
+      {/* Header */}
+      <header className="border-b border-neutral-800 p-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-sm tracking-widest uppercase">Plugin Marketplace</h1>
+          <p className="text-xs text-neutral-500">{PLUGIN_CATEGORIES[plugin.category || 'other']}</p>
+        </div>
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="text-xs text-neutral-500 hover:text-white uppercase tracking-wider transition-colors"
+        >
+          Back to Dashboard
+        </button>
+      </header>
+
+      <div className="p-4 max-w-3xl mx-auto space-y-8">
+        {/* Overview */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h2 className="text-xl font-medium">{plugin.name}</h2>
+            {plugin.author === 'Remainders Team' && (
+              <span className="px-2 py-0.5 bg-blue-900 text-blue-300 text-[10px] uppercase tracking-wider">
+                Official
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-neutral-500">
+            by {plugin.author} • v{plugin.version} • {plugin.downloads || 0} downloads
+          </p>
+          <p className="text-sm">
+            {plugin.ratingCount ? (
+              <>
+                <Stars value={plugin.rating || 0} />{' '}
+                <span className="text-neutral-400">
+                  {(plugin.rating || 0).toFixed(1)} ({plugin.ratingCount} {plugin.ratingCount === 1 ? 'rating' : 'ratings'})
+                </span>
+              </>
+            ) : (
+              <span className="text-xs text-neutral-500">No ratings yet</span>
+            )}
+          </p>
+          {plugin.tags && plugin.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {plugin.tags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 bg-neutral-800 text-neutral-400 text-xs">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Screenshot */}
+        {plugin.screenshotUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element -- author-hosted screenshot on any domain
+          <img
+            src={plugin.screenshotUrl}
+            alt={`${plugin.name} screenshot`}
+            className="max-h-[32rem] mx-auto border border-neutral-800"
+          />
+        ) : (
+          // eslint-disable-next-line @next/next/no-img-element -- rendered on demand by /api/plugin-preview
+          <img
+            src={getPluginPreviewUrl(plugin.id, plugin.version)}
+            alt={`${plugin.name} preview`}
+            className="max-h-[32rem] mx-auto border border-neutral-800"
+          />
+        )}
+
+        <p className="text-sm text-neutral-300 whitespace-pre-line">{plugin.description}</p>
+
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="w-full py-3 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-widest"
+        >
+          Install from the Dashboard
+        </button>
+
+        {/* Changelog */}
+        <div className="space-y-3">
+          <h3 className="text-xs uppercase tracking-widest text-neutral-500">Changelog</h3>
+          {versions.length === 0 ? (
+            <p className="text-xs text-neutral-400">{plugin.changelog || 'No release notes.'}</p>
+          ) : (
+            versions.map(version => (
+              <div key={version.version} className="space-y-1">
+                <p className="text-xs text-white">
+                  v{version.version}
+                  <span className="text-neutral-600"> {formatDate(version.createdAt)}</span>
+                </p>
+                <p className="text-xs text-neutral-400 whitespace-pre-line">{version.changelog}</p>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Ratings & Reviews */}
+        <div className="space-y-4">
+          <h3 className="text-xs uppercase tracking-widest text-neutral-500">Ratings & Reviews</h3>
+
+          {user && !isAuthor && (
+            <div className="p-4 bg-neutral-900 border border-neutral-800 space-y-3">
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map(stars => (
+                  <button
+                    key={stars}
+                    onClick={() => setMyRating(stars)}
+                    className={`text-2xl transition-colors ${stars <= myRating ? 'text-yellow-400' : 'text-neutral-700 hover:text-neutral-500'}`}
+                    aria-label={`${stars} stars`}
+                  >
+                    ★
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={myReview}
+                onChange={(e) => setMyReview(e.target.value)}
+                placeholder="What do you like about it? (optional)"
+                maxLength={MAX_REVIEW_LENGTH}
+                rows={3}
+                className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm resize-none"
+              />
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-neutral-600">{myReview.length}/{MAX_REVIEW_LENGTH}</span>
+                <button
+                  onClick={handleRate}
+                  disabled={saving || myRating === 0}
+                  className="px-4 py-2 bg-white text-black hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+                >
+                  {saving ? 'Saving...' : 'Save Review'}
+                </button>
+              </div>
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              {success && <p className="text-xs text-green-400">{success}</p>}
+            </div>
+          )}
+
+          {ratings.length === 0 ? (
+            <p className="text-xs text-neutral-500">No reviews yet.</p>
+          ) : (
+            ratings.map(rating => (
+              <div key={rating.userId} className="space-y-1 border-b border-neutral-800 pb-3">
+                <p className="text-sm">
+                  <Stars value={rating.rating} />{' '}
+                  <span className="text-xs text-neutral-400">{rating.author}</span>
+                  <span className="text-xs text-neutral-600"> {formatDate(rating.updatedAt)}</span>
+                </p>
+                {rating.review && <p className="text-sm text-neutral-300 whitespace-pre-line">{rating.review}</p>}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,10 @@
  * Plugin Code Editor/Viewer Page
  * 
  * Allows users to view the source code of all built-in and installed plugins,
- * and edit their configurations.
+ * and edit their configurations. Edits to community plugins are saved as
+ * versions that go live once a reviewer approves them; existing installs keep
+ * their version until users update. Reviewers also work through the review
+ * queue here.
  */
 
 'use client';
@@ -10,8 +13,25 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { useRouter } from 'next/navigation';
-import { db } from '@/lib/firebase';
+import {
+  db,
+  getPendingPluginReviews,
+  getPluginVersions,
+  getUserRoles,
+  reviewPluginVersion,
+  setPluginVersionStatus,
+  submitPluginVersion,
+} from '@/lib/firebase';
 import { collection, getDocs, doc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { migratePluginConfig, validateConfigSchema } from '@/lib/plugin-config';
+import { PLUGIN_CATEGORIES, parsePluginTags, validatePluginListing } from '@/lib/plugin-marketplace';
+import { getPluginPreviewUrl } from '@/lib/plugin-preview';
+import { canChangeReviewStatus, canReviewPlugins, getReviewStatus, runPluginChecks } from '@/lib/plugin-review';
+import { comparePluginVersions, getNextPluginVersion, isValidPluginVersion } from '@/lib/plugin-versions';
+import { Plugin as MarketplacePlugin, PluginCategory, PluginConfigSchema, PluginVersion, UserRole } from '@/lib/types';
+import PluginPlayground from '@/components/PluginPlayground';
+import PluginReviewPanel from '@/components/PluginReviewPanel';
+import PluginVersionHistory from '@/components/PluginVersionHistory';
 
 interface Plugin {
   id: string;
@@ -23,7 +43,18 @@ interface Plugin {
   version?: string;
   configSchema?: any;
   defaultSettings?: any;
+  changelog?: string;
   isPrivate?: boolean;
+  approved?: boolean;
+  pendingVersion?: string | null;
+  category?: PluginCategory;
+  tags?: string[];
+  screenshotUrl?: string;
+}
+
+interface PluginReview {
+  plugin: MarketplacePlugin;
+  version: PluginVersion;
 }
 
 const BUILTIN_PLUGINS: Omit<Plugin, 'source'>[] = [
@@ -112,9 +143,34 @@ export default function PluginEditorPage() {
   const [loadingPlugins, setLoadingPlugins] = useState(true);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showSubmitForm, setShowSubmitForm] = useState(false);
+  const [showPublishForm, setShowPublishForm] = useState(false);
+  const [publishVersion, setPublishVersion] = useState('');
+  const [publishChangelog, setPublishChangelog] = useState('');
+  const [publishSchema, setPublishSchema] = useState('{}');
+  const [showListingForm, setShowListingForm] = useState(false);
+  const [listingCategory, setListingCategory] = useState<PluginCategory>('other');
+  const [listingTags, setListingTags] = useState('');
+  const [listingScreenshot, setListingScreenshot] = useState('');
+  const [versions, setVersions] = useState<PluginVersion[]>([]);
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [reviews, setReviews] = useState<PluginReview[]>([]);
+  const [selectedReview, setSelectedReview] = useState<PluginReview | null>(null);
+  const [showPlayground, setShowPlayground] = useState(false);
+
+  const loadReviews = async () => {
+    if (!user) return;
+
+    const { data: userRoles } = await getUserRoles(user.uid);
+    setRoles(userRoles);
+    if (canReviewPlugins(userRoles)) {
+      const { data: pendingReviews } = await getPendingPluginReviews();
+      setReviews(pendingReviews);
+    }
+  };
 
   useEffect(() => {
     loadPlugins();
+    loadReviews();
   }, [user]);
 
   const loadPlugins = async () => {
@@ -150,13 +206,19 @@ export default function PluginEditorPage() {
               id: doc.id,
               name: doc.data().name,
               description: doc.data().description,
-              source: doc.data().code,
+              source: doc.data().code || '',
               isBuiltIn: false,
               author: doc.data().author,
               version: doc.data().version,
               configSchema: doc.data().configSchema,
               defaultSettings: doc.data().defaultSettings,
+              changelog: doc.data().changelog,
               isPrivate: doc.data().isPrivate || false,
+              approved: doc.data().approved,
+              pendingVersion: doc.data().pendingVersion,
+              category: doc.data().category,
+              tags: doc.data().tags,
+              screenshotUrl: doc.data().screenshotUrl,
             }));
         } catch (err: any) {
           console.error('Error loading user plugins:', err);
@@ -172,15 +234,49 @@ export default function PluginEditorPage() {
     }
   };
 
-  const handleSelectPlugin = (plugin: Plugin) => {
+  const handleSelectPlugin = async (plugin: Plugin) => {
     setSelectedPlugin(plugin);
+    setSelectedReview(null);
     setEditedCode(plugin.source);
+    setVersions([]);
+    setIsEditing(false);
+    setError('');
+    setSuccess('');
+
+    if (plugin.isBuiltIn) return;
+
+    // Authors work on their newest version, which may not be approved yet
+    const { data: pluginVersions } = await getPluginVersions(plugin.id);
+    const source = pluginVersions[0]?.code ?? plugin.source;
+    setVersions(pluginVersions);
+    setSelectedPlugin({ ...plugin, source });
+    setEditedCode(source);
+  };
+
+  const handleSelectReview = (review: PluginReview) => {
+    setSelectedReview(review);
+    setSelectedPlugin(null);
     setIsEditing(false);
     setError('');
     setSuccess('');
   };
 
-  const handleSave = async () => {
+  const handleOpenPublish = () => {
+    if (!selectedPlugin) return;
+
+    // Drafts and rejected versions are saved again under the same number
+    const latest = versions[0];
+    const latestStatus = latest ? getReviewStatus(latest) : null;
+    const reuseLatest = latestStatus === 'draft' || latestStatus === 'rejected';
+
+    setPublishVersion(reuseLatest ? latest.version : getNextPluginVersion(latest?.version ?? selectedPlugin.version));
+    setPublishChangelog(reuseLatest ? latest.changelog : '');
+    setPublishSchema(JSON.stringify(latest?.configSchema ?? selectedPlugin.configSchema ?? {}, null, 2));
+    setError('');
+    setShowPublishForm(true);
+  };
+
+  const handlePublish = async (status: 'draft' | 'pending') => {
     if (!selectedPlugin || !user) return;
 
     setSaving(true);
@@ -203,32 +299,151 @@ export default function PluginEditorPage() {
         return;
       }
 
-      // Update plugin in Firestore
-      const pluginRef = doc(db!, 'plugins', selectedPlugin.id);
-      await updateDoc(pluginRef, {
+      const version = publishVersion.trim();
+      if (!isValidPluginVersion(version)) {
+        setError('Version must be MAJOR.MINOR.PATCH, e.g. 1.2.0');
+        setSaving(false);
+        return;
+      }
+      if (selectedPlugin.approved && comparePluginVersions(version, selectedPlugin.version) <= 0) {
+        setError(`Version must be newer than ${selectedPlugin.version}`);
+        setSaving(false);
+        return;
+      }
+      if (!publishChangelog.trim()) {
+        setError('Describe what changed in this version');
+        setSaving(false);
+        return;
+      }
+
+      let configSchema: PluginConfigSchema;
+      try {
+        const parsedSchema: unknown = JSON.parse(publishSchema);
+        const { valid, errors } = validateConfigSchema(parsedSchema);
+        if (!valid) {
+          setError(`Invalid config schema: ${errors.join('; ')}`);
+          setSaving(false);
+          return;
+        }
+        configSchema = parsedSchema as PluginConfigSchema;
+      } catch {
+        setError('Invalid JSON in config schema');
+        setSaving(false);
+        return;
+      }
+
+      // Automated checks must pass before a reviewer sees the version
+      const checkErrors = runPluginChecks({ version, code: editedCode, configSchema });
+      if (status === 'pending' && checkErrors.length > 0) {
+        setError(`Automated checks failed: ${checkErrors.join('; ')}`);
+        setSaving(false);
+        return;
+      }
+
+      // Carry the default settings over to the new schema, like user configs on update
+      const { data: defaultSettings } = migratePluginConfig(
+        selectedPlugin.configSchema,
+        configSchema,
+        selectedPlugin.defaultSettings
+      );
+
+      const { success: saved, error: saveError } = await submitPluginVersion(selectedPlugin.id, {
+        version,
         code: editedCode,
-        updatedAt: new Date(),
-      });
+        configSchema,
+        defaultSettings,
+        changelog: publishChangelog.trim(),
+        authorId: user.uid,
+      }, status);
+      if (!saved) {
+        setError('Failed to save version: ' + saveError);
+        setSaving(false);
+        return;
+      }
 
-      setSuccess('Plugin saved successfully!');
+      setSuccess(status === 'pending'
+        ? `Submitted v${version} for review. It goes live once a reviewer approves it.`
+        : `Saved v${version} as a draft.`);
       setIsEditing(false);
+      setShowPublishForm(false);
       
-      // Update local state
+      // Update local state (the plugin itself only changes once the version is approved)
+      const updatedPlugin = {
+        ...selectedPlugin,
+        source: editedCode,
+        pendingVersion: status === 'pending' ? version : selectedPlugin.pendingVersion,
+      };
       setPlugins(plugins.map(p => 
         p.id === selectedPlugin.id 
-          ? { ...p, source: editedCode } 
+          ? updatedPlugin 
           : p
       ));
-      setSelectedPlugin({ ...selectedPlugin, source: editedCode });
+      setSelectedPlugin(updatedPlugin);
+      setVersions((await getPluginVersions(selectedPlugin.id)).data);
       
       setTimeout(() => setSuccess(''), 3000);
     } catch (err: any) {
-      setError('Failed to save plugin: ' + err.message);
+      setError('Failed to save version: ' + err.message);
     }
 
     setSaving(false);
   };
 
+  const handleChangeVersionStatus = async (version: string, status: 'draft' | 'pending') => {
+    if (!selectedPlugin) return;
+
+    const pluginVersion = versions.find(v => v.version === version);
+    if (!pluginVersion) return;
+
+    setError('');
+    setSuccess('');
+    if (status === 'pending') {
+      const checkErrors = runPluginChecks(pluginVersion);
+      if (checkErrors.length > 0) {
+        setError(`Automated checks failed: ${checkErrors.join('; ')}`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    const { success: updated, error: updateError } = await setPluginVersionStatus(selectedPlugin.id, version, status);
+    if (updated) {
+      const updatedPlugin = { ...selectedPlugin, pendingVersion: status === 'pending' ? version : null };
+      setPlugins(plugins.map(p => p.id === selectedPlugin.id ? updatedPlugin : p));
+      setSelectedPlugin(updatedPlugin);
+      setVersions((await getPluginVersions(selectedPlugin.id)).data);
+      setSuccess(status === 'pending' ? `Submitted v${version} for review.` : `Withdrew v${version} from review.`);
+      setTimeout(() => setSuccess(''), 3000);
+    } else {
+      setError('Failed to update version: ' + updateError);
+    }
+    setSaving(false);
+  };
+
+  const handleReviewDecision = async (decision: 'approved' | 'rejected', notes: string) => {
+    if (!selectedReview || !user) return;
+
+    setSaving(true);
+    setError('');
+    const { plugin, version } = selectedReview;
+    const { success: reviewed, error: reviewError } = await reviewPluginVersion(
+      plugin.id,
+      version,
+      decision,
+      notes,
+      user.uid
+    );
+    if (reviewed) {
+      setReviews(reviews.filter(review => review.plugin.id !== plugin.id));
+      setSelectedReview(null);
+      setSuccess(`${decision === 'approved' ? 'Approved' : 'Rejected'} ${plugin.name} v${version.version}.`);
+      setTimeout(() => setSuccess(''), 3000);
+    } else {
+      setError('Failed to save review: ' + reviewError);
+    }
+    setSaving(false);
+  };
+
   const handleClone = () => {
     if (!selectedPlugin) return;
     
@@ -262,6 +477,49 @@ export default function PluginEditorPage() {
     }
   };
 
+  const handleOpenListing = () => {
+    if (!selectedPlugin) return;
+
+    setListingCategory(selectedPlugin.category || 'other');
+    setListingTags((selectedPlugin.tags || []).join(', '));
+    setListingScreenshot(selectedPlugin.screenshotUrl || '');
+    setError('');
+    setShowListingForm(true);
+  };
+
+  const handleSaveListing = async () => {
+    if (!selectedPlugin || selectedPlugin.isBuiltIn || !db) return;
+
+    const listing = {
+      category: listingCategory,
+      tags: parsePluginTags(listingTags),
+      screenshotUrl: listingScreenshot.trim(),
+    };
+    const { valid, errors } = validatePluginListing(listing);
+    if (!valid) {
+      setError(errors.join('; '));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateDoc(doc(db, 'plugins', selectedPlugin.id), {
+        ...listing,
+        updatedAt: new Date(),
+      });
+
+      const updatedPlugin = { ...selectedPlugin, ...listing };
+      setPlugins(plugins.map(p => p.id === selectedPlugin.id ? updatedPlugin : p));
+      setSelectedPlugin(updatedPlugin);
+      setShowListingForm(false);
+      setSuccess('Marketplace listing updated!');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err: unknown) {
+      setError('Failed to update listing: ' + (err instanceof Error ? err.message : String(err)));
+    }
+    setSaving(false);
+  };
+
   const handleTogglePrivacy = async () => {
     if (!selectedPlugin || selectedPlugin.isBuiltIn || !db) return;
 
@@ -287,6 +545,24 @@ export default function PluginEditorPage() {
     }
   };
 
+  // The playground uses the schema of the newest version, like the code
+  const playgroundSchema: PluginConfigSchema = versions[0]?.configSchema ?? selectedPlugin?.configSchema ?? {};
+
+  const messages = (
+    <>
+      {error && (
+        <div className="mx-4 mt-4 p-3 bg-red-900 border border-red-700 rounded text-red-100 text-sm">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mx-4 mt-4 p-3 bg-green-900 border border-green-700 rounded text-green-100 text-sm">
+          {success}
+        </div>
+      )}
+    </>
+  );
+
   if (loading || loadingPlugins) {
     return (
       <div className="min-h-screen bg-[#1a1a1a] flex items-center justify-center">
@@ -365,7 +641,38 @@ export default function PluginEditorPage() {
                   <div className="text-sm font-medium">{plugin.name}</div>
                   <div className="text-xs text-neutral-500 mt-1">{plugin.description}</div>
                   <div className="text-xs text-neutral-600 mt-1">
-                    by {plugin.author} • v{plugin.version}
+                    by {plugin.author}
+                    {plugin.approved && plugin.version && ` • v${plugin.version}`}
+                    {plugin.pendingVersion && ` • v${plugin.pendingVersion} in review`}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Review Queue */}
+          {canReviewPlugins(roles) && (
+            <div className="p-2">
+              <div className="px-2 py-1 text-xs uppercase tracking-wider text-neutral-600">
+                Review Queue ({reviews.length})
+              </div>
+              {reviews.length === 0 && (
+                <div className="px-2 py-1 text-xs text-neutral-700">Nothing waiting for review</div>
+              )}
+              {reviews.map(review => (
+                <button
+                  key={review.plugin.id}
+                  onClick={() => handleSelectReview(review)}
+                  className={`w-full text-left p-3 hover:bg-neutral-900 transition-colors border-l-2 ${
+                    selectedReview?.plugin.id === review.plugin.id 
+                      ? 'border-white bg-neutral-900' 
+                      : 'border-transparent'
+                  }`}
+                >
+                  <div className="text-sm font-medium">{review.plugin.name}</div>
+                  <div className="text-xs text-neutral-500 mt-1 line-clamp-2">{review.version.changelog}</div>
+                  <div className="text-xs text-neutral-600 mt-1">
+                    by {review.plugin.author} • v{review.version.version}
                   </div>
                 </button>
               ))}
@@ -375,10 +682,34 @@ export default function PluginEditorPage() {
 
         {/* Code Viewer/Editor */}
         <div className="flex-1 flex flex-col">
-          {selectedPlugin ? (
+          {selectedReview ? (
+            <div className="flex-1 overflow-y-auto">
+              {messages}
+              <PluginReviewPanel
+                key={`${selectedReview.plugin.id}@${selectedReview.version.version}`}
+                plugin={selectedReview.plugin}
+                version={selectedReview.version}
+                canReview={canChangeReviewStatus('pending', 'approved', {
+                  isAuthor: (selectedReview.version.authorId ?? selectedReview.plugin.authorId) === user?.uid,
+                  roles,
+                })}
+                busy={saving}
+                onDecision={handleReviewDecision}
+              />
+            </div>
+          ) : selectedPlugin ? (
             <>
               {/* Plugin Header */}
               <div className="p-4 border-b border-neutral-800 flex flex-col lg:flex-row items-start lg:items-center justify-between gap-3">
+                {/* Preview of the approved version (drafts and pending versions aren't rendered) */}
+                {!selectedPlugin.isBuiltIn && selectedPlugin.approved !== false && (
+                  // eslint-disable-next-line @next/next/no-img-element -- rendered on demand by /api/plugin-preview
+                  <img
+                    src={getPluginPreviewUrl(selectedPlugin.id, selectedPlugin.version)}
+                    alt={`${selectedPlugin.name} preview`}
+                    className="w-16 aspect-[402/874] flex-shrink-0 bg-neutral-950 border border-neutral-800 object-cover"
+                  />
+                )}
                 <div className="flex-1 min-w-0">
                   <h2 className="text-lg font-medium truncate">{selectedPlugin.name}</h2>
                   <p className="text-xs text-neutral-500 mt-1 line-clamp-2">{selectedPlugin.description}</p>
@@ -408,6 +739,14 @@ export default function PluginEditorPage() {
                     </button>
                   ) : (
                     <>
+                      <button
+                        onClick={() => setShowPlayground(!showPlayground)}
+                        className={`px-3 sm:px-4 py-2 transition-colors text-xs uppercase tracking-wider whitespace-nowrap ${
+                          showPlayground ? 'bg-white text-black hover:bg-neutral-200' : 'bg-neutral-800 hover:bg-neutral-700'
+                        }`}
+                      >
+                        Playground
+                      </button>
                       {!isEditing ? (
                         <>
                           <button
@@ -416,6 +755,12 @@ export default function PluginEditorPage() {
                           >
                             {selectedPlugin.isPrivate ? 'Make Public' : 'Make Private'}
                           </button>
+                          <button
+                            onClick={handleOpenListing}
+                            className="px-3 sm:px-4 py-2 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-wider whitespace-nowrap"
+                          >
+                            Listing
+                          </button>
                           <button
                             onClick={() => setIsEditing(true)}
                             className="px-3 sm:px-4 py-2 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-wider whitespace-nowrap"
@@ -442,11 +787,11 @@ export default function PluginEditorPage() {
                             Cancel
                           </button>
                           <button
-                            onClick={handleSave}
+                            onClick={handleOpenPublish}
                             disabled={saving}
                             className="px-3 sm:px-4 py-2 bg-white text-black hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider whitespace-nowrap"
                           >
-                            {saving ? 'Saving...' : 'Save Changes'}
+                            Save Version
                           </button>
                         </>
                       )}
@@ -456,53 +801,222 @@ export default function PluginEditorPage() {
               </div>
 
               {/* Messages */}
-              {error && (
-                <div className="mx-4 mt-4 p-3 bg-red-900 border border-red-700 rounded text-red-100 text-sm">
-                  {error}
-                </div>
-              )}
-              {success && (
-                <div className="mx-4 mt-4 p-3 bg-green-900 border border-green-700 rounded text-green-100 text-sm">
-                  {success}
-                </div>
-              )}
+              {messages}
 
               {/* Code Display */}
-              <div className="flex-1 overflow-hidden">
-                {isEditing ? (
-                  <textarea
-                    value={editedCode}
-                    onChange={(e) => setEditedCode(e.target.value)}
-                    className="w-full h-full p-2 sm:p-4 bg-neutral-950 text-white font-mono text-xs sm:text-sm resize-none outline-none border-none overflow-x-auto"
-                    spellCheck={false}
-                    style={{ wordBreak: 'normal', overflowWrap: 'normal' }}
-                  />
-                ) : (
-                  <pre className="w-full h-full p-2 sm:p-4 bg-neutral-950 text-white font-mono text-xs sm:text-sm overflow-auto">
-                    <code className="block whitespace-pre">{editedCode}</code>
-                  </pre>
+              <div className="flex-1 overflow-hidden flex flex-col lg:flex-row">
+                <div className="flex-1 min-h-0 overflow-hidden">
+                  {isEditing ? (
+                    <textarea
+                      value={editedCode}
+                      onChange={(e) => setEditedCode(e.target.value)}
+                      className="w-full h-full p-2 sm:p-4 bg-neutral-950 text-white font-mono text-xs sm:text-sm resize-none outline-none border-none overflow-x-auto"
+                      spellCheck={false}
+                      style={{ wordBreak: 'normal', overflowWrap: 'normal' }}
+                    />
+                  ) : (
+                    <pre className="w-full h-full p-2 sm:p-4 bg-neutral-950 text-white font-mono text-xs sm:text-sm overflow-auto">
+                      <code className="block whitespace-pre">{editedCode}</code>
+                    </pre>
+                  )}
+                </div>
+
+                {/* Playground: runs the code shown (or being edited) in the browser */}
+                {showPlayground && !selectedPlugin.isBuiltIn && (
+                  <div className="lg:w-[26rem] max-h-[50vh] lg:max-h-none flex-shrink-0 overflow-y-auto border-t lg:border-t-0 lg:border-l border-neutral-800">
+                    <PluginPlayground
+                      key={`${selectedPlugin.id}@${versions[0]?.version ?? selectedPlugin.version}`}
+                      pluginId={selectedPlugin.id}
+                      name={selectedPlugin.name}
+                      code={editedCode}
+                      configSchema={playgroundSchema}
+                    />
+                  </div>
                 )}
               </div>
+
+              {/* Versions */}
+              {!selectedPlugin.isBuiltIn && !isEditing && versions.length > 0 && (
+                <div className="border-t border-neutral-800 p-4 max-h-64 overflow-y-auto space-y-2">
+                  <h3 className="text-xs uppercase tracking-widest text-neutral-500">Versions</h3>
+                  <PluginVersionHistory
+                    versions={versions}
+                    busy={saving}
+                    onSubmit={(version) => handleChangeVersionStatus(version, 'pending')}
+                    onWithdraw={(version) => handleChangeVersionStatus(version, 'draft')}
+                  />
+                </div>
+              )}
             </>
           ) : (
-            <div className="flex-1 flex items-center justify-center text-neutral-600">
-              <div className="text-center">
-                <p className="text-sm uppercase tracking-widest">Select a plugin to view its code</p>
-                <p className="text-xs text-neutral-700 mt-2">
-                  Choose from the list on the left
-                </p>
-                <button
-                  onClick={() => router.push('/plugins')}
-                  className="mt-6 px-6 py-3 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-wider"
-                >
-                  Submit New Plugin
-                </button>
+            <div className="flex-1 flex flex-col">
+              {messages}
+              <div className="flex-1 flex items-center justify-center text-neutral-600">
+                <div className="text-center">
+                  <p className="text-sm uppercase tracking-widest">Select a plugin to view its code</p>
+                  <p className="text-xs text-neutral-700 mt-2">
+                    Choose from the list on the left
+                  </p>
+                  <button
+                    onClick={() => router.push('/plugins')}
+                    className="mt-6 px-6 py-3 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-wider"
+                  >
+                    Submit New Plugin
+                  </button>
+                </div>
               </div>
             </div>
           )}
         </div>
       </div>
 
+      {/* Save Version Modal */}
+      {showPublishForm && selectedPlugin && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-neutral-900 border border-neutral-800 p-6 max-w-md w-full max-h-[90vh] overflow-y-auto space-y-4">
+            <div>
+              <h3 className="text-lg font-medium">Save Version</h3>
+              <p className="text-xs text-neutral-500 mt-1">
+                {selectedPlugin.approved ? `Current version: v${selectedPlugin.version}. ` : 'Not approved yet. '}
+                Drafts are only listed for you. Submitted versions go live once a reviewer approves them; users keep their version until they update, and their settings are migrated to the new schema.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">Version</label>
+              <input
+                type="text"
+                value={publishVersion}
+                onChange={(e) => setPublishVersion(e.target.value)}
+                placeholder="1.0.1"
+                className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm font-mono"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">What Changed</label>
+              <textarea
+                value={publishChangelog}
+                onChange={(e) => setPublishChangelog(e.target.value)}
+                placeholder="Added a color setting for the label"
+                rows={3}
+                className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm resize-none"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">Config Schema (JSON)</label>
+              <textarea
+                value={publishSchema}
+                onChange={(e) => setPublishSchema(e.target.value)}
+                rows={8}
+                className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white font-mono text-xs resize-none"
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-900 border border-red-700 rounded text-red-100 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setShowPublishForm(false)}
+                className="px-4 py-2 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-wider"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handlePublish('draft')}
+                disabled={saving}
+                className="px-4 py-2 bg-neutral-800 hover:bg-neutral-700 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+              >
+                Save Draft
+              </button>
+              <button
+                onClick={() => handlePublish('pending')}
+                disabled={saving}
+                className="px-4 py-2 bg-white text-black hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+              >
+                {saving ? 'Saving...' : 'Submit for Review'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Marketplace Listing Modal */}
+      {showListingForm && selectedPlugin && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-neutral-900 border border-neutral-800 p-6 max-w-md w-full max-h-[90vh] overflow-y-auto space-y-4">
+            <div>
+              <h3 className="text-lg font-medium">Marketplace Listing</h3>
+              <p className="text-xs text-neutral-500 mt-1">
+                How {selectedPlugin.name} is found and shown in the marketplace. Changes apply right away.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">Category</label>
+              <select
+                value={listingCategory}
+                onChange={(e) => setListingCategory(e.target.value as PluginCategory)}
+                className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm"
+              >
+                {Object.entries(PLUGIN_CATEGORIES).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">Tags</label>
+              <input
+                type="text"
+                value={listingTags}
+                onChange={(e) => setListingTags(e.target.value)}
+                placeholder="fitness, streaks"
+                className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">Screenshot URL</label>
+              <input
+                type="url"
+                value={listingScreenshot}
+                onChange={(e) => setListingScreenshot(e.target.value)}
+                placeholder="https://example.com/my-plugin.png"
+                className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm"
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-900 border border-red-700 rounded text-red-100 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setShowListingForm(false)}
+                className="px-4 py-2 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-wider"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveListing}
+                disabled={saving}
+                className="px-4 py-2 bg-white text-black hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
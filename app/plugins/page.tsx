@@ -2,7 +2,8 @@
  * Plugin Submission Page
  * 
  * Allows users to submit their own plugins to the marketplace.
- * Plugins are auto-approved and published immediately.
+ * Submissions are saved as a draft or sent for review; a reviewer has to
+ * approve them before they are listed (see lib/plugin-review.ts).
  */
 
 'use client';
@@ -10,8 +11,12 @@
 import { useState, useEffect, Suspense } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { db } from '@/lib/firebase';
+import { db, submitPluginVersion } from '@/lib/firebase';
 import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { validateConfigSchema, validatePluginConfig } from '@/lib/plugin-config';
+import { PLUGIN_CATEGORIES, parsePluginTags, validatePluginListing } from '@/lib/plugin-marketplace';
+import { runPluginChecks } from '@/lib/plugin-review';
+import { PluginCategory, PluginConfigSchema } from '@/lib/types';
 
 function PluginSubmissionForm() {
   const { user, loading } = useAuth();
@@ -20,13 +25,16 @@ function PluginSubmissionForm() {
   
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<PluginCategory>('other');
+  const [tags, setTags] = useState('');
+  const [screenshotUrl, setScreenshotUrl] = useState('');
   const [code, setCode] = useState('');
   const [configSchema, setConfigSchema] = useState('{}');
   const [defaultSettings, setDefaultSettings] = useState('{}');
   const [isPrivate, setIsPrivate] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState(false);
+  const [success, setSuccess] = useState<'' | 'draft' | 'pending'>('');
 
   // Load cloned plugin data from URL params
   useEffect(() => {
@@ -77,9 +85,12 @@ function PluginSubmissionForm() {
     return { valid: true };
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+    submitPlugin('pending');
+  };
+
+  const submitPlugin = async (status: 'draft' | 'pending') => {
     if (!user) {
       setError('You must be logged in to submit plugins');
       return;
@@ -95,6 +106,18 @@ function PluginSubmissionForm() {
       return;
     }
 
+    const listing = {
+      category,
+      tags: parsePluginTags(tags),
+      screenshotUrl: screenshotUrl.trim(),
+    };
+    const listingValidation = validatePluginListing(listing);
+    if (!listingValidation.valid) {
+      setError(listingValidation.errors.join('; '));
+      setSubmitting(false);
+      return;
+    }
+
     // Validate code
     const codeValidation = validateCode(code);
     if (!codeValidation.valid) {
@@ -104,40 +127,77 @@ function PluginSubmissionForm() {
     }
 
     // Validate JSON schemas
+    let parsedSchema: unknown;
+    let parsedDefaults: unknown;
     try {
-      JSON.parse(configSchema);
-      JSON.parse(defaultSettings);
+      parsedSchema = JSON.parse(configSchema);
+      parsedDefaults = JSON.parse(defaultSettings);
     } catch (e) {
       setError('Invalid JSON in config schema or default settings');
       setSubmitting(false);
       return;
     }
 
+    const schemaValidation = validateConfigSchema(parsedSchema);
+    if (!schemaValidation.valid) {
+      setError(`Invalid config schema: ${schemaValidation.errors.join('; ')}`);
+      setSubmitting(false);
+      return;
+    }
+
+    // Automated checks must pass before a reviewer sees the plugin
+    const checkErrors = runPluginChecks({ version: '1.0.0', code, configSchema: parsedSchema as PluginConfigSchema });
+    if (status === 'pending' && checkErrors.length > 0) {
+      setError(`Automated checks failed: ${checkErrors.join('; ')}`);
+      setSubmitting(false);
+      return;
+    }
+
+    const defaultsValidation = validatePluginConfig(parsedSchema as PluginConfigSchema, parsedDefaults as Record<string, unknown>);
+    if (!defaultsValidation.valid) {
+      setError(`Invalid default settings: ${defaultsValidation.errors.join('; ')}`);
+      setSubmitting(false);
+      return;
+    }
+
     try {
       if (!db) {
         throw new Error('Database not initialized');
       }
 
-      // Submit plugin to Firestore
-      await addDoc(collection(db, 'plugins'), {
+      // Submit plugin to Firestore; code and settings go live with the first approved version
+      const pluginRef = await addDoc(collection(db, 'plugins'), {
         name: name.trim(),
         description: description.trim(),
+        ...listing,
         author: user.displayName || user.email || 'Anonymous',
         authorId: user.uid,
-        code: code,
-        configSchema: JSON.parse(configSchema),
-        defaultSettings: JSON.parse(defaultSettings),
         isPrivate: isPrivate,
-        version: '1.0.0',
-        approved: true, // Auto-approve
+        approved: false,
+        pendingVersion: null,
         installs: 0,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       });
 
-      setSuccess(true);
+      const { success: saved, error: saveError } = await submitPluginVersion(pluginRef.id, {
+        version: '1.0.0',
+        code: code,
+        configSchema: parsedSchema as PluginConfigSchema,
+        defaultSettings: parsedDefaults as Record<string, unknown>,
+        changelog: 'First release',
+        authorId: user.uid,
+      }, status);
+      if (!saved) {
+        throw new Error(saveError || 'Could not save version 1.0.0');
+      }
+
+      setSuccess(status);
       setName('');
       setDescription('');
+      setCategory('other');
+      setTags('');
+      setScreenshotUrl('');
       setCode('');
       setConfigSchema('{}');
       setDefaultSettings('{}');
@@ -211,7 +271,14 @@ function PluginSubmissionForm() {
             <div className="flex items-start gap-3">
               <span className="text-lg">✓</span>
               <div className="flex-1">
-                <p className="font-medium mb-2">Plugin submitted successfully!</p>
+                <p className="font-medium mb-2">
+                  {success === 'pending' ? 'Plugin submitted for review!' : 'Draft saved!'}
+                </p>
+                <p className="text-xs">
+                  {success === 'pending'
+                    ? 'It will be listed in the marketplace once a reviewer approves it. You can follow the review in My Plugins.'
+                    : 'Submit it for review from My Plugins when it is ready.'}
+                </p>
                 <div className="flex gap-3 mt-3">
                   <button
                     type="button"
@@ -270,6 +337,52 @@ function PluginSubmissionForm() {
             />
           </div>
 
+          {/* Category & Tags */}
+          <div className="grid gap-6 sm:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">
+                Category
+              </label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as PluginCategory)}
+                className="w-full px-4 py-3 bg-neutral-900 border border-neutral-700 focus:border-white outline-none text-white"
+              >
+                {Object.entries(PLUGIN_CATEGORIES).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">
+                Tags
+              </label>
+              <input
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="fitness, streaks"
+                className="w-full px-4 py-3 bg-neutral-900 border border-neutral-700 focus:border-white outline-none text-white"
+              />
+              <p className="text-xs text-neutral-500">Comma-separated, up to 5</p>
+            </div>
+          </div>
+
+          {/* Screenshot */}
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-widest text-neutral-500">
+              Screenshot URL
+            </label>
+            <input
+              type="url"
+              value={screenshotUrl}
+              onChange={(e) => setScreenshotUrl(e.target.value)}
+              placeholder="https://example.com/my-plugin.png"
+              className="w-full px-4 py-3 bg-neutral-900 border border-neutral-700 focus:border-white outline-none text-white"
+            />
+            <p className="text-xs text-neutral-500">Shown on your plugin&apos;s marketplace page</p>
+          </div>
+
           {/* Plugin Code */}
           <div className="space-y-2">
             <label className="text-xs uppercase tracking-widest text-neutral-500">
@@ -301,7 +414,7 @@ return {
           {/* Config Schema */}
           <div className="space-y-2">
             <label className="text-xs uppercase tracking-widest text-neutral-500">
-              Config Schema (JSON Schema)
+              Config Schema (JSON)
             </label>
             <textarea
               value={configSchema}
@@ -310,6 +423,9 @@ return {
               rows={5}
               className="w-full px-4 py-3 bg-neutral-900 border border-neutral-700 focus:border-white outline-none text-white font-mono text-sm resize-none"
             />
+            <p className="text-xs text-neutral-500">
+              Setting types: string, number, boolean, color, date, object, array
+            </p>
           </div>
 
           {/* Default Settings */}
@@ -365,21 +481,31 @@ return {
               <div className="flex-1">
                 <p className="font-medium mb-2">Plugin Review Policy</p>
                 <p className="text-xs leading-relaxed">
-                  All public plugins will be reviewed. Plugins that don't work correctly or don't meet quality standards may be removed without notice. 
-                  <strong className="block mt-2">Please test your plugin privately before making it public!</strong>
+                  Every plugin version is checked automatically and then reviewed before it is listed or runs on any wallpaper. A reviewer may reject plugins that don't work correctly or don't meet quality standards, with notes on what to change. 
+                  <strong className="block mt-2">Save a draft if you are not ready for review yet.</strong>
                 </p>
               </div>
             </div>
           </div>
 
-          {/* Submit Button */}
-          <button
-            type="submit"
-            disabled={submitting}
-            className="w-full py-3 bg-white text-black disabled:bg-neutral-800 disabled:text-neutral-600 hover:bg-neutral-200 transition-colors uppercase tracking-widest text-sm font-medium"
-          >
-            {submitting ? 'Submitting...' : 'Submit Plugin'}
-          </button>
+          {/* Submit Buttons */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <button
+              type="button"
+              onClick={() => submitPlugin('draft')}
+              disabled={submitting}
+              className="py-3 bg-neutral-800 hover:bg-neutral-700 disabled:text-neutral-600 transition-colors uppercase tracking-widest text-sm border border-neutral-700"
+            >
+              Save Draft
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="sm:col-span-2 py-3 bg-white text-black disabled:bg-neutral-800 disabled:text-neutral-600 hover:bg-neutral-200 transition-colors uppercase tracking-widest text-sm font-medium"
+            >
+              {submitting ? 'Submitting...' : 'Submit for Review'}
+            </button>
+          </div>
         </form>
       </div>
     </div>
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { CalendarEntry } from '@/lib/types';
+import { MAX_CALENDAR_ENTRIES, getCalendarDateInTimezone } from '@/lib/calcs';
+import { parseIcsCalendar } from '@/lib/ics';
+import { getUpcomingOccurrences } from '@/lib/recurrence';
+
+interface CalendarImportProps {
+  calendarEntries: CalendarEntry[];
+  timezone: string;
+  onEntriesChange: (entries: CalendarEntry[]) => void;
+}
+
+export default function CalendarImport({ calendarEntries, timezone, onEntriesChange }: CalendarImportProps) {
+  const [message, setMessage] = useState('');
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      // Single events that ended before this year are not worth storing
+      const today = getCalendarDateInTimezone(timezone);
+      const { data, error } = parseIcsCalendar(String(e.target?.result || ''), timezone, { year: today.year, month: 1, day: 1 });
+      if (!data) {
+        setMessage(`✗ ${error}`);
+        return;
+      }
+
+      // Re-importing a calendar updates its events (same UIDs) instead of duplicating them
+      const imported = new Map(data.entries.map((entry) => [entry.id, entry]));
+      const merged = [
+        ...calendarEntries.filter((entry) => !imported.has(entry.id)),
+        ...data.entries,
+      ];
+      const kept = merged.slice(0, MAX_CALENDAR_ENTRIES);
+      const skipped = data.skipped + merged.length - kept.length;
+
+      onEntriesChange(kept);
+      setMessage(`✓ Imported ${data.entries.length} events${skipped > 0 ? ` (${skipped} skipped)` : ''}`);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleClear = () => {
+    if (confirm('Remove all imported calendar events?')) {
+      onEntriesChange([]);
+      setMessage('');
+    }
+  };
+
+  const upcoming = getUpcomingOccurrences(calendarEntries, getCalendarDateInTimezone(timezone), timezone, 60, 5);
+
+  return (
+    <div className="space-y-4">
+      {calendarEntries.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs uppercase tracking-wider text-neutral-400">
+            {calendarEntries.length} events imported · Upcoming
+          </h4>
+          {upcoming.length === 0 && (
+            <p className="text-xs text-neutral-600">Nothing in the next 60 days</p>
+          )}
+          {upcoming.map((occurrence) => (
+            <div
+              key={`${occurrence.entryId}-${occurrence.date}`}
+              className="p-3 bg-neutral-800 border border-neutral-700 rounded"
+            >
+              <p className="text-sm">{occurrence.title}</p>
+              <p className="text-xs text-neutral-600 mt-1">
+                {occurrence.date}
+                {occurrence.endDate ? ` → ${occurrence.endDate}` : ''}
+                {occurrence.time ? ` · ${occurrence.time}` : ''}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="py-3 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest text-center cursor-pointer border border-neutral-700">
+          Import .ics
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+        <button
+          onClick={handleClear}
+          disabled={calendarEntries.length === 0}
+          className="py-3 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+      </div>
+
+      {message && <p className="text-xs text-neutral-400">{message}</p>}
+    </div>
+  );
+}
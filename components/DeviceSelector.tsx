@@ -7,7 +7,16 @@
 
 import { useState, useMemo } from 'react';
 import { DEVICE_MODELS, getAllBrands, getDevicesByBrand } from '@/lib/devices';
-import { DeviceModel } from '@/lib/types';
+import { DeviceCategory, DeviceModel } from '@/lib/types';
+
+type Platform = 'iPhone' | 'Android' | 'Tablet' | 'Desktop';
+
+const PLATFORM_CATEGORIES: Record<Platform, DeviceCategory> = {
+  iPhone: 'phone',
+  Android: 'phone',
+  Tablet: 'tablet',
+  Desktop: 'desktop',
+};
 
 interface DeviceSelectorProps {
   selectedModel: string;
@@ -15,20 +24,22 @@ interface DeviceSelectorProps {
 }
 
 export default function DeviceSelector({ selectedModel, onSelect }: DeviceSelectorProps) {
-  const [selectedPlatform, setSelectedPlatform] = useState<'iPhone' | 'Android' | ''>('');
+  const [selectedPlatform, setSelectedPlatform] = useState<Platform | ''>('');
   const [selectedBrand, setSelectedBrand] = useState('');
   const [customWidth, setCustomWidth] = useState('');
   const [customHeight, setCustomHeight] = useState('');
 
+  const category: DeviceCategory = selectedPlatform ? PLATFORM_CATEGORIES[selectedPlatform] : 'phone';
+
   const brands = useMemo(() => {
-    const allBrands = getAllBrands();
+    const allBrands = getAllBrands(category);
     if (selectedPlatform === 'iPhone') {
       return allBrands.filter(brand => brand === 'Apple');
     } else if (selectedPlatform === 'Android') {
       return allBrands.filter(brand => brand !== 'Apple');
     }
     return allBrands;
-  }, [selectedPlatform]);
+  }, [selectedPlatform, category]);
 
   const handleDeviceSelect = (device: DeviceModel) => {
     onSelect(device);
@@ -46,6 +57,7 @@ export default function DeviceSelector({ selectedModel, onSelect }: DeviceSelect
       model: `Custom (${width}×${height})`,
       width,
       height,
+      category,
     });
     setSelectedBrand('');
   };
@@ -107,14 +119,14 @@ export default function DeviceSelector({ selectedModel, onSelect }: DeviceSelect
   }
 
   if (selectedBrand) {
-    const devices = getDevicesByBrand(selectedBrand);
+    const devices = getDevicesByBrand(selectedBrand, category);
     return (
       <div className="space-y-2 animate-in fade-in slide-in-from-right-4 duration-300">
         <div className="flex items-center justify-between mb-4">
           <label className="text-xs uppercase tracking-widest text-neutral-500">{selectedBrand} Models</label>
           <button onClick={() => {
             setSelectedBrand('');
-            // For iPhone, go back to platform selection; for Android, stay on brand selection
+            // For iPhone, go back to platform selection; otherwise stay on brand selection
             if (selectedPlatform === 'iPhone') {
               setSelectedPlatform('');
             }
@@ -162,13 +174,33 @@ export default function DeviceSelector({ selectedModel, onSelect }: DeviceSelect
             </svg>
             <span>Android</span>
           </button>
+          <button
+            onClick={() => setSelectedPlatform('Tablet')}
+            className="py-3 px-4 text-left text-sm text-neutral-300 border border-white/5 hover:border-white/20 hover:bg-white/5 transition-all flex items-center gap-2"
+          >
+            <svg className="w-4 h-4 fill-none stroke-current" strokeWidth={2} viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <rect x="4" y="2" width="16" height="20" rx="2" />
+              <path d="M11 18h2" />
+            </svg>
+            <span>Tablet</span>
+          </button>
+          <button
+            onClick={() => setSelectedPlatform('Desktop')}
+            className="py-3 px-4 text-left text-sm text-neutral-300 border border-white/5 hover:border-white/20 hover:bg-white/5 transition-all flex items-center gap-2"
+          >
+            <svg className="w-4 h-4 fill-none stroke-current" strokeWidth={2} viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <rect x="2" y="3" width="20" height="14" rx="2" />
+              <path d="M8 21h8M12 17v4" />
+            </svg>
+            <span>Desktop</span>
+          </button>
         </div>
       </div>
     );
   }
 
-  // Brand selection (only for Android)
-  if (selectedPlatform === 'Android' && !selectedBrand) {
+  // Brand selection (Android, tablets and desktops)
+  if (!selectedBrand) {
     return (
       <div className="space-y-2 animate-in fade-in duration-300">
         <div className="flex items-center justify-between mb-2">
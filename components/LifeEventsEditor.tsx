@@ -0,0 +1,300 @@
+'use client';
+
+import { useState } from 'react';
+import { LifeChapter, LifeEvent } from '@/lib/types';
+
+interface LifeEventsEditorProps {
+  lifeEvents: LifeEvent[];
+  lifeChapters: LifeChapter[];
+  onEventsChange: (events: LifeEvent[]) => void;
+  onChaptersChange: (chapters: LifeChapter[]) => void;
+}
+
+type FormKind = 'event' | 'chapter';
+
+const EMPTY_EVENT: Partial<LifeEvent> = {
+  label: '',
+  date: '',
+  color: '#4ECDC4',
+};
+
+const EMPTY_CHAPTER: Partial<LifeChapter> = {
+  label: '',
+  startDate: '',
+  endDate: '',
+  color: '#6C5CE7',
+};
+
+export default function LifeEventsEditor({
+  lifeEvents,
+  lifeChapters,
+  onEventsChange,
+  onChaptersChange,
+}: LifeEventsEditorProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formKind, setFormKind] = useState<FormKind | null>(null);
+  const [eventForm, setEventForm] = useState<Partial<LifeEvent>>(EMPTY_EVENT);
+  const [chapterForm, setChapterForm] = useState<Partial<LifeChapter>>(EMPTY_CHAPTER);
+
+  const handleAdd = (kind: FormKind) => {
+    setEditingId(null);
+    setEventForm(EMPTY_EVENT);
+    setChapterForm(EMPTY_CHAPTER);
+    setFormKind(kind);
+  };
+
+  const handleEditEvent = (event: LifeEvent) => {
+    setEditingId(event.id);
+    setEventForm(event);
+    setFormKind('event');
+  };
+
+  const handleEditChapter = (chapter: LifeChapter) => {
+    setEditingId(chapter.id);
+    setChapterForm({ ...chapter, endDate: chapter.endDate || '' });
+    setFormKind('chapter');
+  };
+
+  const handleSave = () => {
+    if (formKind === 'event') {
+      if (!eventForm.label?.trim() || !eventForm.date) {
+        alert('Event label and date are required');
+        return;
+      }
+
+      if (editingId) {
+        onEventsChange(
+          lifeEvents.map((ev) => (ev.id === editingId ? { ...eventForm, id: editingId } as LifeEvent : ev))
+        );
+      } else {
+        onEventsChange([...lifeEvents, { ...eventForm, id: `event-${Date.now()}` } as LifeEvent]);
+      }
+    } else if (formKind === 'chapter') {
+      if (!chapterForm.label?.trim() || !chapterForm.startDate) {
+        alert('Chapter name and start date are required');
+        return;
+      }
+      if (chapterForm.endDate && chapterForm.endDate < chapterForm.startDate) {
+        alert('Chapter end date must be after its start date');
+        return;
+      }
+
+      if (editingId) {
+        onChaptersChange(
+          lifeChapters.map((ch) => (ch.id === editingId ? { ...chapterForm, id: editingId } as LifeChapter : ch))
+        );
+      } else {
+        onChaptersChange([...lifeChapters, { ...chapterForm, id: `chapter-${Date.now()}` } as LifeChapter]);
+      }
+    }
+
+    setFormKind(null);
+    setEditingId(null);
+  };
+
+  const handleDeleteEvent = (id: string) => {
+    if (confirm('Delete this life event?')) {
+      onEventsChange(lifeEvents.filter((ev) => ev.id !== id));
+    }
+  };
+
+  const handleDeleteChapter = (id: string) => {
+    if (confirm('Delete this life chapter?')) {
+      onChaptersChange(lifeChapters.filter((ch) => ch.id !== id));
+    }
+  };
+
+  const handleCancel = () => {
+    setFormKind(null);
+    setEditingId(null);
+  };
+
+  const sortedEvents = [...lifeEvents].sort((a, b) => a.date.localeCompare(b.date));
+  const sortedChapters = [...lifeChapters].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  return (
+    <div className="space-y-4">
+      {/* List of existing chapters */}
+      {sortedChapters.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs uppercase tracking-wider text-neutral-400">Chapters</h4>
+          {sortedChapters.map((chapter) => (
+            <div
+              key={chapter.id}
+              className="p-3 bg-neutral-800 border border-neutral-700 rounded flex items-start justify-between"
+            >
+              <div className="flex items-start gap-3 flex-1">
+                <span className="w-3 h-3 mt-1 rounded-full" style={{ backgroundColor: chapter.color }} />
+                <div>
+                  <p className="text-sm">{chapter.label}</p>
+                  <p className="text-xs text-neutral-600 mt-1">
+                    {chapter.startDate} → {chapter.endDate || 'now'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleEditChapter(chapter)}
+                  className="text-xs text-neutral-500 hover:text-white transition-colors uppercase tracking-widest"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDeleteChapter(chapter.id)}
+                  className="text-xs text-red-500 hover:text-red-400 transition-colors uppercase tracking-widest"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* List of existing events */}
+      {sortedEvents.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs uppercase tracking-wider text-neutral-400">Events</h4>
+          {sortedEvents.map((event) => (
+            <div
+              key={event.id}
+              className="p-3 bg-neutral-800 border border-neutral-700 rounded flex items-start justify-between"
+            >
+              <div className="flex items-start gap-3 flex-1">
+                <span className="w-3 h-3 mt-1 rounded-full" style={{ backgroundColor: event.color }} />
+                <div>
+                  <p className="text-sm">{event.label}</p>
+                  <p className="text-xs text-neutral-600 mt-1">{event.date}</p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleEditEvent(event)}
+                  className="text-xs text-neutral-500 hover:text-white transition-colors uppercase tracking-widest"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDeleteEvent(event.id)}
+                  className="text-xs text-red-500 hover:text-red-400 transition-colors uppercase tracking-widest"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add buttons */}
+      {!formKind && (
+        <div className="grid grid-cols-2 gap-4">
+          <button
+            onClick={() => handleAdd('event')}
+            className="py-3 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest border border-neutral-700"
+          >
+            + Add Event
+          </button>
+          <button
+            onClick={() => handleAdd('chapter')}
+            className="py-3 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest border border-neutral-700"
+          >
+            + Add Chapter
+          </button>
+        </div>
+      )}
+
+      {/* Add/Edit form */}
+      {formKind && (
+        <div className="p-4 bg-neutral-800 border border-neutral-700 rounded-lg space-y-4">
+          <h4 className="text-xs uppercase tracking-wider text-neutral-400">
+            {editingId ? 'Edit' : 'New'} {formKind === 'event' ? 'Life Event' : 'Life Chapter'}
+          </h4>
+
+          {/* Label */}
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-widest text-neutral-500">
+              {formKind === 'event' ? 'Event' : 'Chapter Name'}
+            </label>
+            <input
+              type="text"
+              value={(formKind === 'event' ? eventForm.label : chapterForm.label) || ''}
+              onChange={(e) =>
+                formKind === 'event'
+                  ? setEventForm({ ...eventForm, label: e.target.value })
+                  : setChapterForm({ ...chapterForm, label: e.target.value })
+              }
+              className="w-full px-3 py-2 bg-neutral-900 border border-neutral-700 text-white focus:border-white outline-none"
+              placeholder={formKind === 'event' ? 'Graduation' : 'University'}
+            />
+          </div>
+
+          {/* Dates */}
+          {formKind === 'event' ? (
+            <div className="space-y-2">
+              <label className="text-xs uppercase tracking-widest text-neutral-500">Date</label>
+              <input
+                type="date"
+                value={eventForm.date || ''}
+                onChange={(e) => setEventForm({ ...eventForm, date: e.target.value })}
+                className="w-full px-3 py-2 bg-neutral-900 border border-neutral-700 text-white focus:border-white outline-none"
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-neutral-500">Start</label>
+                <input
+                  type="date"
+                  value={chapterForm.startDate || ''}
+                  onChange={(e) => setChapterForm({ ...chapterForm, startDate: e.target.value })}
+                  className="w-full px-3 py-2 bg-neutral-900 border border-neutral-700 text-white focus:border-white outline-none"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-widest text-neutral-500">End (optional)</label>
+                <input
+                  type="date"
+                  value={chapterForm.endDate || ''}
+                  onChange={(e) => setChapterForm({ ...chapterForm, endDate: e.target.value })}
+                  className="w-full px-3 py-2 bg-neutral-900 border border-neutral-700 text-white focus:border-white outline-none"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Color */}
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-widest text-neutral-500">Color</label>
+            <input
+              type="color"
+              value={(formKind === 'event' ? eventForm.color : chapterForm.color) || '#FFFFFF'}
+              onChange={(e) =>
+                formKind === 'event'
+                  ? setEventForm({ ...eventForm, color: e.target.value })
+                  : setChapterForm({ ...chapterForm, color: e.target.value })
+              }
+              className="w-full h-10 bg-neutral-900 border border-neutral-700"
+            />
+          </div>
+
+          {/* Action buttons */}
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              onClick={handleCancel}
+              className="py-2 bg-neutral-900 hover:bg-neutral-800 transition-colors text-xs uppercase tracking-widest border border-neutral-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="py-2 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-widest"
+            >
+              {editingId ? 'Update' : 'Add'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { saveUserConfig } from '@/lib/firebase';
+import { createPluginDataToken, hashPluginDataToken } from '@/lib/plugin-data';
+
+interface PluginDataTokenProps {
+  username: string;
+  hasToken: boolean;
+  onTokenHashChange: (tokenHash: string) => void;
+}
+
+export default function PluginDataToken({ username, hasToken, onTokenHashChange }: PluginDataTokenProps) {
+  const [token, setToken] = useState('');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Only the hash is stored: the config is publicly readable
+  const saveTokenHash = async (tokenHash: string) => {
+    setSaving(true);
+    const { success, error } = await saveUserConfig(username, { pluginDataTokenHash: tokenHash });
+    setSaving(false);
+
+    if (!success) {
+      setMessage(`✗ ${error}`);
+      return false;
+    }
+    onTokenHashChange(tokenHash);
+    return true;
+  };
+
+  const handleCreate = async () => {
+    if (hasToken && !confirm('Replace your token? Shortcuts using the old one will stop working.')) return;
+
+    const newToken = createPluginDataToken();
+    if (await saveTokenHash(await hashPluginDataToken(newToken))) {
+      setToken(newToken);
+      setMessage('✓ Copy your token now, it will not be shown again');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Turn off plugin data writes? Shortcuts using your token will stop working.')) return;
+
+    if (await saveTokenHash('')) {
+      setToken('');
+      setMessage('✓ Token revoked');
+    }
+  };
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+  return (
+    <div className="space-y-4">
+      {token && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <code className="flex-1 p-3 bg-neutral-800 border border-neutral-700 rounded text-xs text-white break-all">
+              {token}
+            </code>
+            <button
+              onClick={() => navigator.clipboard.writeText(token)}
+              className="px-3 py-3 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest border border-neutral-700"
+            >
+              Copy
+            </button>
+          </div>
+          <p className="text-xs text-neutral-500">Example (habit tracker):</p>
+          <code className="block p-3 bg-neutral-800 border border-neutral-700 rounded text-xs text-neutral-400 break-all">
+            {`curl -X POST -H "Authorization: Bearer ${token}" -H "Content-Type: application/json" -d '{"Exercise":"2026-10-19"}' ${origin}/api/${username}/plugins/habit-tracker/data`}
+          </code>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          onClick={handleCreate}
+          disabled={saving}
+          className="py-3 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {hasToken ? 'New Token' : 'Create Token'}
+        </button>
+        <button
+          onClick={handleRevoke}
+          disabled={saving || !hasToken}
+          className="py-3 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest border border-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Revoke
+        </button>
+      </div>
+
+      {message && <p className="text-xs text-neutral-400">{message}</p>}
+    </div>
+  );
+}
@@ -1,23 +1,32 @@
 /**
  * Plugin Marketplace Component
  * 
- * Displays available plugins, allows installation/uninstallation,
- * and manages plugin settings.
+ * Displays available plugins with search, categories, tags and sorting,
+ * allows installation/uninstallation, and manages plugin settings and
+ * updates to newer plugin versions.
  */
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
-import { getAvailablePlugins } from '@/lib/firebase';
-import { Plugin, PluginConfig } from '@/lib/types';
+import { getAvailablePlugins, getPluginVersions } from '@/lib/firebase';
+import { migratePluginConfig, resolvePluginConfig, validatePluginConfig } from '@/lib/plugin-config';
+import { getPopularTags, PLUGIN_CATEGORIES, PluginSort, searchPlugins } from '@/lib/plugin-marketplace';
+import { getPluginPreviewUrl } from '@/lib/plugin-preview';
+import { isPluginVersionApproved } from '@/lib/plugin-review';
+import { getVersionsSince, isPluginUpdateAvailable } from '@/lib/plugin-versions';
+import { Plugin, PluginCategory, PluginConfig, PluginConfigSchema, PluginVersion } from '@/lib/types';
+import PluginSettingsForm from '@/components/PluginSettingsForm';
 
 interface PluginMarketplaceProps {
   installedPlugins: PluginConfig[];
   onInstall: (plugin: Plugin) => void;
   onUninstall: (pluginId: string) => void;
   onToggle: (pluginId: string, enabled: boolean) => void;
-  onConfigure: (pluginId: string, settings: Record<string, any>) => void;
+  onConfigure: (pluginId: string, settings: Record<string, unknown>) => void;
+  onUpdate: (pluginId: string, version: string, settings: Record<string, unknown>) => void;
 }
 
 export default function PluginMarketplace({
@@ -26,14 +35,35 @@ export default function PluginMarketplace({
   onUninstall,
   onToggle,
   onConfigure,
+  onUpdate,
 }: PluginMarketplaceProps) {
   const { user } = useAuth();
+  const router = useRouter();
   const [plugins, setPlugins] = useState<Plugin[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedPlugin, setSelectedPlugin] = useState<Plugin | null>(null);
   const [showSettings, setShowSettings] = useState(false);
-  const [settingsValues, setSettingsValues] = useState<Record<string, any>>({});
+  const [settingsValues, setSettingsValues] = useState<Record<string, unknown>>({});
+  const [settingsSchema, setSettingsSchema] = useState<PluginConfigSchema>({});
+  const [settingsErrors, setSettingsErrors] = useState<string[]>([]);
+  const [updatePlugin, setUpdatePlugin] = useState<Plugin | null>(null);
+  const [updateVersions, setUpdateVersions] = useState<PluginVersion[]>([]);
   const [showCommunityPlugins, setShowCommunityPlugins] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [category, setCategory] = useState<PluginCategory | ''>('');
+  const [tag, setTag] = useState('');
+  const [sort, setSort] = useState<PluginSort>('relevance');
+
+  // Remainders Team plugins are always listed, community plugins only when toggled
+  const listedPlugins = useMemo(
+    () => plugins.filter(plugin => showCommunityPlugins || plugin.author === 'Remainders Team'),
+    [plugins, showCommunityPlugins]
+  );
+  const popularTags = useMemo(() => getPopularTags(listedPlugins).slice(0, 12), [listedPlugins]);
+  const results = useMemo(
+    () => searchPlugins(listedPlugins, { query: searchQuery, category, tag, sort }),
+    [listedPlugins, searchQuery, category, tag, sort]
+  );
 
   useEffect(() => {
     loadPlugins();
@@ -81,16 +111,53 @@ export default function PluginMarketplace({
     onUninstall(pluginId);
   };
 
-  const handleOpenSettings = (plugin: Plugin) => {
+  const handleOpenSettings = async (plugin: Plugin) => {
+    const installed = getInstalledPlugin(plugin.id);
+
+    // An install pinned to an older version is configured with that version's schema
+    let schema = plugin.configSchema || {};
+    if (installed?.version && installed.version !== plugin.version) {
+      const { data: versions } = await getPluginVersions(plugin.id);
+      schema = versions.find(v => v.version === installed.version)?.configSchema || schema;
+    }
+
     setSelectedPlugin(plugin);
+    setSettingsSchema(schema);
+    setSettingsValues(resolvePluginConfig(schema, installed?.config).data);
+    setSettingsErrors([]);
+    setUpdatePlugin(null);
+    setShowSettings(true);
+  };
+
+  const handleOpenUpdate = async (plugin: Plugin) => {
     const installed = getInstalledPlugin(plugin.id);
-    setSettingsValues(installed?.config || {});
+    const { data: versions } = await getPluginVersions(plugin.id);
+    const fromSchema = versions.find(v => v.version === installed?.version)?.configSchema;
+
+    // Settings are migrated to the new schema; anything left to fix is shown before updating
+    const { data, errors } = migratePluginConfig(fromSchema, plugin.configSchema, installed?.config);
+
+    setSelectedPlugin(plugin);
+    setSettingsSchema(plugin.configSchema || {});
+    setSettingsValues(data);
+    setSettingsErrors(errors);
+    setUpdatePlugin(plugin);
+    setUpdateVersions(getVersionsSince(versions.filter(isPluginVersionApproved), installed?.version));
     setShowSettings(true);
   };
 
   const handleSaveSettings = () => {
     if (selectedPlugin) {
-      onConfigure(selectedPlugin.id, settingsValues);
+      const { valid, errors } = validatePluginConfig(settingsSchema, settingsValues);
+      if (!valid) {
+        setSettingsErrors(errors);
+        return;
+      }
+      if (updatePlugin) {
+        onUpdate(updatePlugin.id, updatePlugin.version, settingsValues);
+      } else {
+        onConfigure(selectedPlugin.id, settingsValues);
+      }
       setShowSettings(false);
     }
   };
@@ -125,7 +192,12 @@ export default function PluginMarketplace({
                     <div className="flex-1">
                       <h4 className="text-sm font-medium">{plugin.name}</h4>
                       <p className="text-xs text-neutral-500 mt-1">{plugin.description}</p>
-                      <p className="text-xs text-neutral-600 mt-1">by {plugin.author}</p>
+                      <p className="text-xs text-neutral-600 mt-1">
+                        by {plugin.author} • v{pluginConfig.version || plugin.version}
+                      </p>
+                      {isPluginUpdateAvailable(pluginConfig.version, plugin.version) && (
+                        <p className="text-xs text-blue-300 mt-1">Update available: v{plugin.version}</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <label className="flex items-center gap-2 cursor-pointer">
@@ -146,6 +218,14 @@ export default function PluginMarketplace({
                     >
                       Settings
                     </button>
+                    {isPluginUpdateAvailable(pluginConfig.version, plugin.version) && (
+                      <button
+                        onClick={() => handleOpenUpdate(plugin)}
+                        className="px-3 py-1 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-wider"
+                      >
+                        Update
+                      </button>
+                    )}
                     <button
                       onClick={() => handleUninstall(pluginConfig.pluginId)}
                       className="px-3 py-1 bg-red-900 hover:bg-red-800 transition-colors text-xs uppercase tracking-wider"
@@ -171,16 +251,57 @@ export default function PluginMarketplace({
             {showCommunityPlugins ? 'Hide Community Plugins' : 'Show Community Plugins'}
           </button>
         </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search plugins..."
+            className="flex-1 px-3 py-2 bg-neutral-900 border border-neutral-700 focus:border-white outline-none text-white text-sm"
+          />
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as PluginCategory | '')}
+            className="px-3 py-2 bg-neutral-900 border border-neutral-700 focus:border-white outline-none text-white text-sm"
+          >
+            <option value="">All Categories</option>
+            {Object.entries(PLUGIN_CATEGORIES).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as PluginSort)}
+            className="px-3 py-2 bg-neutral-900 border border-neutral-700 focus:border-white outline-none text-white text-sm"
+          >
+            <option value="relevance">Best Match</option>
+            <option value="downloads">Most Downloaded</option>
+            <option value="rating">Highest Rated</option>
+            <option value="recent">Recently Updated</option>
+          </select>
+        </div>
+        {popularTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {popularTags.map((popularTag) => (
+              <button
+                key={popularTag}
+                onClick={() => setTag(tag === popularTag ? '' : popularTag)}
+                className={`px-2 py-0.5 text-xs transition-colors ${
+                  tag === popularTag ? 'bg-white text-black' : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'
+                }`}
+              >
+                #{popularTag}
+              </button>
+            ))}
+          </div>
+        )}
         {plugins.length === 0 ? (
           <p className="text-sm text-neutral-500">No plugins available yet.</p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-neutral-500">No plugins match your search.</p>
         ) : (
           <div className="grid gap-4 md:grid-cols-2">
-            {plugins
-              .filter((plugin) => {
-                // Show Remainders Team plugins always, community plugins only when toggled
-                return showCommunityPlugins || plugin.author === 'Remainders Team';
-              })
-              .map((plugin) => {
+            {results.map((plugin) => {
               const installed = isInstalled(plugin.id);
               const isOfficialPlugin = plugin.author === 'Remainders Team';
               
@@ -189,37 +310,60 @@ export default function PluginMarketplace({
                   key={plugin.id}
                   className="p-4 bg-neutral-900 border border-neutral-800 rounded-lg space-y-3"
                 >
-                  <div>
-                    <div className="flex items-start justify-between gap-2">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          <h4 className="text-sm font-medium">{plugin.name}</h4>
-                          {isOfficialPlugin && (
-                            <span className="px-2 py-0.5 bg-blue-900 text-blue-300 text-[10px] uppercase tracking-wider">
-                              Official
-                            </span>
-                          )}
+                  <div className="flex gap-3">
+                    {/* eslint-disable-next-line @next/next/no-img-element -- rendered on demand by /api/plugin-preview */}
+                    <img
+                      src={getPluginPreviewUrl(plugin.id, plugin.version)}
+                      alt={`${plugin.name} preview`}
+                      loading="lazy"
+                      className="w-16 aspect-[402/874] flex-shrink-0 bg-neutral-950 border border-neutral-800 object-cover"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <h4 className="text-sm font-medium">{plugin.name}</h4>
+                            {isOfficialPlugin && (
+                              <span className="px-2 py-0.5 bg-blue-900 text-blue-300 text-[10px] uppercase tracking-wider">
+                                Official
+                              </span>
+                            )}
+                          </div>
                         </div>
+                        {installed && (
+                          <span className="px-2 py-1 bg-green-900 text-green-300 text-xs uppercase tracking-wider flex-shrink-0">
+                            Installed
+                          </span>
+                        )}
                       </div>
-                      {installed && (
-                        <span className="px-2 py-1 bg-green-900 text-green-300 text-xs uppercase tracking-wider flex-shrink-0">
-                          Installed
-                        </span>
-                      )}
+                      <p className="text-xs text-neutral-500 mt-1">{plugin.description}</p>
+                      <p className="text-xs text-neutral-600 mt-2">
+                        by {plugin.author} • v{plugin.version} • {plugin.downloads || 0} downloads
+                      </p>
+                      <p className="text-xs text-neutral-600 mt-1">
+                        {plugin.ratingCount
+                          ? <><span className="text-yellow-400">★</span> {(plugin.rating || 0).toFixed(1)} ({plugin.ratingCount})</>
+                          : 'No ratings yet'}
+                        {' • '}{PLUGIN_CATEGORIES[plugin.category || 'other']}
+                      </p>
                     </div>
-                    <p className="text-xs text-neutral-500 mt-1">{plugin.description}</p>
-                    <p className="text-xs text-neutral-600 mt-2">
-                      by {plugin.author} • v{plugin.version} • {plugin.downloads || 0} downloads
-                    </p>
                   </div>
-                  {!installed && (
+                  <div className="flex gap-2">
                     <button
-                      onClick={() => handleInstall(plugin)}
-                      className="w-full py-2 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-widest"
+                      onClick={() => router.push(`/plugins/${plugin.id}`)}
+                      className="flex-1 py-2 bg-neutral-800 hover:bg-neutral-700 transition-colors text-xs uppercase tracking-widest"
                     >
-                      Install
+                      Details
                     </button>
-                  )}
+                    {!installed && (
+                      <button
+                        onClick={() => handleInstall(plugin)}
+                        className="flex-1 py-2 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-widest"
+                      >
+                        Install
+                      </button>
+                    )}
+                  </div>
                 </div>
               );
             })}
@@ -230,9 +374,11 @@ export default function PluginMarketplace({
       {/* Settings Modal */}
       {showSettings && selectedPlugin && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
-          <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-6 max-w-md w-full space-y-4">
+          <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-6 max-w-md w-full max-h-[90vh] overflow-y-auto space-y-4">
             <div className="flex items-center justify-between">
-              <h3 className="text-sm uppercase tracking-wider">{selectedPlugin.name} Settings</h3>
+              <h3 className="text-sm uppercase tracking-wider">
+                {updatePlugin ? `Update ${selectedPlugin.name} to v${updatePlugin.version}` : `${selectedPlugin.name} Settings`}
+              </h3>
               <button
                 onClick={() => setShowSettings(false)}
                 className="text-neutral-500 hover:text-white text-xl"
@@ -241,137 +387,48 @@ export default function PluginMarketplace({
               </button>
             </div>
 
+            {updatePlugin && (
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                <h4 className="text-xs uppercase tracking-widest text-neutral-500">What&apos;s New</h4>
+                {updateVersions.length === 0 ? (
+                  <p className="text-xs text-neutral-400">{updatePlugin.changelog || 'No release notes.'}</p>
+                ) : (
+                  updateVersions.map((version) => (
+                    <div key={version.version}>
+                      <p className="text-xs text-white">v{version.version}</p>
+                      <p className="text-xs text-neutral-400 whitespace-pre-line">{version.changelog}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
             <div className="space-y-3">
-              {Object.keys(selectedPlugin.configSchema || {}).length === 0 ? (
+              {Object.keys(settingsSchema).length === 0 ? (
                 <p className="text-xs text-neutral-500">This plugin has no configurable settings.</p>
               ) : (
-                Object.entries(selectedPlugin.configSchema || {}).map(([key, schema]: [string, any]) => (
-                  <div key={key} className="space-y-1">
-                    <label className="text-xs uppercase tracking-widest text-neutral-500">
-                      {schema.label || key}
-                    </label>
-                    {schema.type === 'string' && schema.enum && (
-                      <select
-                        value={settingsValues[key] || schema.default || ''}
-                        onChange={(e) => setSettingsValues(prev => ({ ...prev, [key]: e.target.value }))}
-                        className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm"
-                      >
-                        {schema.enum.map((option: string) => (
-                          <option key={option} value={option}>
-                            {option}
-                          </option>
-                        ))}
-                      </select>
-                    )}
-                    {schema.type === 'string' && !schema.enum && (
-                      <input
-                        type="text"
-                        value={settingsValues[key] || schema.default || ''}
-                        onChange={(e) => setSettingsValues(prev => ({ ...prev, [key]: e.target.value }))}
-                        className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm"
-                      />
-                    )}
-                    {schema.type === 'number' && (
-                      <input
-                        type="number"
-                        value={settingsValues[key] || schema.default || 0}
-                        onChange={(e) => setSettingsValues(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
-                        className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm"
-                      />
-                    )}
-                    {schema.type === 'boolean' && (
-                      <div className="flex items-center gap-2">
-                        <input
-                          type="checkbox"
-                          checked={settingsValues[key] ?? schema.default ?? false}
-                          onChange={(e) => setSettingsValues(prev => ({ ...prev, [key]: e.target.checked }))}
-                          className="w-4 h-4"
-                        />
-                        <span className="text-xs text-neutral-400">{schema.label}</span>
-                      </div>
-                    )}
-                    {schema.type === 'array' && schema.items?.type === 'object' && (
-                      <div className="space-y-3 max-h-64 overflow-y-auto">
-                        {(settingsValues[key] || schema.default || []).map((item: any, index: number) => (
-                          <div key={index} className="p-3 bg-neutral-800/50 border border-neutral-700 rounded space-y-2">
-                            {Object.entries(schema.items.properties || {}).map(([propKey, propSchema]: [string, any]) => (
-                              <div key={propKey} className="space-y-1">
-                                <label className="text-xs text-neutral-400">{propSchema.label || propKey}</label>
-                                {propKey === 'color' ? (
-                                  <div className="flex items-center gap-2">
-                                    <input
-                                      type="color"
-                                      value={item[propKey] || propSchema.default || '#000000'}
-                                      onChange={(e) => {
-                                        const newArray = [...(settingsValues[key] || schema.default || [])];
-                                        newArray[index] = { ...newArray[index], [propKey]: e.target.value };
-                                        setSettingsValues(prev => ({ ...prev, [key]: newArray }));
-                                      }}
-                                      className="h-8 w-16 border border-neutral-700 rounded cursor-pointer"
-                                    />
-                                    <input
-                                      type="text"
-                                      value={item[propKey] || propSchema.default || ''}
-                                      onChange={(e) => {
-                                        const newArray = [...(settingsValues[key] || schema.default || [])];
-                                        newArray[index] = { ...newArray[index], [propKey]: e.target.value };
-                                        setSettingsValues(prev => ({ ...prev, [key]: newArray }));
-                                      }}
-                                      className="flex-1 px-2 py-1 bg-neutral-800 border border-neutral-700 text-white text-xs font-mono"
-                                    />
-                                  </div>
-                                ) : (
-                                  <input
-                                    type="text"
-                                    value={item[propKey] || propSchema.default || ''}
-                                    onChange={(e) => {
-                                      const newArray = [...(settingsValues[key] || schema.default || [])];
-                                      newArray[index] = { ...newArray[index], [propKey]: e.target.value };
-                                      setSettingsValues(prev => ({ ...prev, [key]: newArray }));
-                                    }}
-                                    className="w-full px-2 py-1 bg-neutral-800 border border-neutral-700 text-white text-xs"
-                                  />
-                                )}
-                              </div>
-                            ))}
-                            <button
-                              onClick={() => {
-                                const newArray = [...(settingsValues[key] || schema.default || [])];
-                                newArray.splice(index, 1);
-                                setSettingsValues(prev => ({ ...prev, [key]: newArray }));
-                              }}
-                              className="w-full py-1 bg-red-900/30 hover:bg-red-900/50 text-red-400 text-xs uppercase tracking-wider"
-                            >
-                              Remove
-                            </button>
-                          </div>
-                        ))}
-                        <button
-                          onClick={() => {
-                            const newItem: any = {};
-                            Object.entries(schema.items.properties || {}).forEach(([propKey, propSchema]: [string, any]) => {
-                              newItem[propKey] = propSchema.default || '';
-                            });
-                            const newArray = [...(settingsValues[key] || schema.default || []), newItem];
-                            setSettingsValues(prev => ({ ...prev, [key]: newArray }));
-                          }}
-                          className="w-full py-2 bg-neutral-700 hover:bg-neutral-600 text-white text-xs uppercase tracking-wider"
-                        >
-                          + Add {schema.label?.replace('s to Track', '') || 'Item'}
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                ))
+                <PluginSettingsForm
+                  schema={settingsSchema}
+                  values={settingsValues}
+                  onChange={setSettingsValues}
+                />
               )}
             </div>
 
+            {settingsErrors.length > 0 && (
+              <div className="space-y-1">
+                {settingsErrors.map((error) => (
+                  <p key={error} className="text-xs text-neutral-400">✗ {error}</p>
+                ))}
+              </div>
+            )}
+
             <div className="flex gap-2">
               <button
                 onClick={handleSaveSettings}
                 className="flex-1 py-2 bg-white text-black hover:bg-neutral-200 transition-colors text-xs uppercase tracking-widest"
               >
-                Save
+                {updatePlugin ? 'Update' : 'Save'}
               </button>
               <button
                 onClick={() => setShowSettings(false)}
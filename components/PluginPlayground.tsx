@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { buildConfigScene } from '@/app/api/wallpaper/config-scene';
+import { DEVICE_MODELS, getDeviceByModel } from '@/lib/devices';
+import { resolvePluginConfig } from '@/lib/plugin-config';
+import { createPlaygroundPlugin, PlaygroundLog } from '@/lib/plugin-playground';
+import { createPreviewConfig, PREVIEW_VIEW_MODES } from '@/lib/plugin-preview';
+import { validatePluginCode } from '@/lib/plugin-code';
+import { createPluginContext, processPlugins } from '@/lib/plugin-system';
+import { renderSceneToSvg } from '@/lib/svg-renderer';
+import { PRESET_THEMES } from '@/lib/themes';
+import { PluginConfigSchema, PluginDotDecoration, PluginRenderElement, ViewMode } from '@/lib/types';
+import PluginSettingsForm from '@/components/PluginSettingsForm';
+
+interface PluginPlaygroundProps {
+  pluginId: string;
+  name: string;
+  code: string;
+  configSchema: PluginConfigSchema;
+}
+
+interface PlaygroundResult {
+  svg: string;
+  elements: PluginRenderElement[];
+  decorations: PluginDotDecoration[];
+  data: Record<string, unknown> | null;
+  logs: PlaygroundLog[];
+  error: string | null;
+}
+
+/**
+ * Wait after the last change before running the plugin again (milliseconds)
+ */
+const RUN_DELAY_MS = 400;
+
+/**
+ * Current local time as a datetime-local input value
+ */
+function getLocalDateTimeValue(date: Date = new Date()): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Runs the plugin code through the same hooks and views as the server,
+ * against the wallpaper chosen in the playground
+ */
+async function runPlayground({ pluginId, name, code, configSchema, values, viewMode, now, deviceModel, themeName, birthDate }: {
+  pluginId: string;
+  name: string;
+  code: string;
+  configSchema: PluginConfigSchema;
+  values: Record<string, unknown>;
+  viewMode: ViewMode;
+  now: Date;
+  deviceModel: string;
+  themeName: string;
+  birthDate: string;
+}): Promise<PlaygroundResult> {
+  const device = getDeviceByModel(deviceModel);
+  const theme = PRESET_THEMES.find((preset) => preset.name === themeName) || PRESET_THEMES[0];
+  const config = {
+    ...createPreviewConfig(pluginId, undefined, viewMode),
+    birthDate,
+    colors: { ...theme.colors },
+  };
+  if (device) {
+    config.device = { brand: device.brand, modelName: device.model, width: device.width, height: device.height };
+  }
+  config.plugins[0].config = values;
+
+  const logs: PlaygroundLog[] = [];
+  const plugin = createPlaygroundPlugin(
+    { id: pluginId, name, description: '', author: '', version: '0.0.0', code, configSchema },
+    (hookLogs) => logs.push(...hookLogs)
+  );
+  const span = { count: 1, index: 0 };
+
+  // The playground renders in UTC, so the chosen date and time are the wallpaper's local time
+  const result = await processPlugins(config.plugins, new Map([[pluginId, plugin]]), createPluginContext(config, now), {
+    getLayout: (currentDate) => buildConfigScene(config, span, { currentDate, pluginElements: [], dotDecorations: [] }).layout,
+  });
+  const scene = buildConfigScene(config, span, {
+    currentDate: result.currentDate,
+    pluginElements: result.elements,
+    dotDecorations: result.decorations,
+  });
+
+  return {
+    svg: renderSceneToSvg(scene),
+    elements: result.elements,
+    decorations: result.decorations,
+    data: result.pluginData[pluginId] ?? null,
+    logs,
+    error: result.errors.get(pluginId) ?? null,
+  };
+}
+
+/**
+ * Live preview of the plugin being edited
+ * Runs the code in a browser worker as you type, draws the result on a
+ * wallpaper and shows the returned elements as JSON. Date, device, theme,
+ * view and settings can be changed to check edge cases.
+ */
+export default function PluginPlayground({ pluginId, name, code, configSchema }: PluginPlaygroundProps) {
+  const [viewMode, setViewMode] = useState<ViewMode>('year');
+  const [dateValue, setDateValue] = useState(() => getLocalDateTimeValue());
+  const [deviceModel, setDeviceModel] = useState('iPhone 16 Pro');
+  const [themeName, setThemeName] = useState(PRESET_THEMES[0].name);
+  const [birthDate, setBirthDate] = useState('1995-06-15');
+  const [values, setValues] = useState<Record<string, unknown>>(() => resolvePluginConfig(configSchema, {}).data);
+  const [result, setResult] = useState<PlaygroundResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const codeErrors = useMemo(() => validatePluginCode(code).errors, [code]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const parsed = new Date(`${dateValue}:00Z`);
+      setRunning(true);
+      try {
+        const next = await runPlayground({
+          pluginId,
+          name,
+          code,
+          configSchema,
+          values,
+          viewMode,
+          now: isNaN(parsed.getTime()) ? new Date() : parsed,
+          deviceModel,
+          themeName,
+          birthDate,
+        });
+        if (!cancelled) setResult(next);
+      } catch (error: unknown) {
+        // Views can fail on inputs a real config can't have (e.g. no birth date)
+        if (!cancelled) {
+          setResult({ svg: '', elements: [], decorations: [], data: null, logs: [], error: error instanceof Error ? error.message : 'Preview failed' });
+        }
+      } finally {
+        if (!cancelled) setRunning(false);
+      }
+    }, RUN_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pluginId, name, code, configSchema, values, viewMode, dateValue, deviceModel, themeName, birthDate]);
+
+  const selectClass = 'w-full px-2 py-1.5 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-xs';
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs uppercase tracking-widest text-neutral-500">Playground</h3>
+        <span className="text-xs text-neutral-600">{running ? 'Running...' : 'Updates as you type'}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="text-[10px] uppercase tracking-wider text-neutral-500">View</span>
+          <select value={viewMode} onChange={(e) => setViewMode(e.target.value as ViewMode)} className={selectClass}>
+            {PREVIEW_VIEW_MODES.map((mode) => (
+              <option key={mode} value={mode}>{mode}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-[10px] uppercase tracking-wider text-neutral-500">Date & Time</span>
+          <input
+            type="datetime-local"
+            value={dateValue}
+            onChange={(e) => setDateValue(e.target.value)}
+            className={selectClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[10px] uppercase tracking-wider text-neutral-500">Device</span>
+          <select value={deviceModel} onChange={(e) => setDeviceModel(e.target.value)} className={selectClass}>
+            {DEVICE_MODELS.map((device) => (
+              <option key={`${device.brand}-${device.model}`} value={device.model}>
+                {device.model} ({device.width}×{device.height})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-[10px] uppercase tracking-wider text-neutral-500">Theme</span>
+          <select value={themeName} onChange={(e) => setThemeName(e.target.value)} className={selectClass}>
+            {PRESET_THEMES.map((theme) => (
+              <option key={theme.name} value={theme.name}>{theme.name}</option>
+            ))}
+          </select>
+        </label>
+        {viewMode === 'life' && (
+          <label className="space-y-1 col-span-2">
+            <span className="text-[10px] uppercase tracking-wider text-neutral-500">Birth Date</span>
+            <input
+              type="date"
+              value={birthDate}
+              onChange={(e) => setBirthDate(e.target.value)}
+              className={selectClass}
+            />
+          </label>
+        )}
+      </div>
+
+      {Object.keys(configSchema).length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-[10px] uppercase tracking-wider text-neutral-500">Settings</h4>
+          <PluginSettingsForm schema={configSchema} values={values} onChange={setValues} />
+        </div>
+      )}
+
+      {codeErrors.length > 0 && (
+        <div className="space-y-1">
+          {codeErrors.map((error) => (
+            <p key={error} className="text-xs text-yellow-400">⚠ {error} (the server will reject this code)</p>
+          ))}
+        </div>
+      )}
+      {result?.error && <p className="text-xs text-red-400">✗ {result.error}</p>}
+
+      {result?.svg && (
+        // eslint-disable-next-line @next/next/no-img-element -- SVG rendered in the browser
+        <img
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(result.svg)}`}
+          alt={`${name} preview`}
+          className="max-h-[28rem] max-w-full mx-auto border border-neutral-800"
+        />
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <JsonView title={`Elements (${result.elements.length})`} value={result.elements} />
+          {result.decorations.length > 0 && (
+            <JsonView title={`Decorations (${result.decorations.length})`} value={result.decorations} />
+          )}
+          {result.data && <JsonView title="Calculated Data" value={result.data} />}
+          {result.logs.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-[10px] uppercase tracking-wider text-neutral-500">Console</h4>
+              <pre className="max-h-40 overflow-auto bg-neutral-950 border border-neutral-800 p-2 font-mono text-xs">
+                {result.logs.map((log, index) => (
+                  <div key={index} className={log.level === 'error' ? 'text-red-400' : 'text-neutral-300'}>
+                    <span className="text-neutral-600">[{log.hook}]</span> {log.message}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function JsonView({ title, value }: { title: string; value: unknown }) {
+  return (
+    <div className="space-y-1">
+      <h4 className="text-[10px] uppercase tracking-wider text-neutral-500">{title}</h4>
+      <pre className="max-h-64 overflow-auto bg-neutral-950 border border-neutral-800 p-2 font-mono text-xs text-neutral-300">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
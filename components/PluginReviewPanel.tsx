@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { diffLines, DiffLine, runPluginChecks } from '@/lib/plugin-review';
+import { Plugin, PluginVersion } from '@/lib/types';
+
+interface PluginReviewPanelProps {
+  plugin: Plugin;
+  version: PluginVersion;
+  canReview: boolean;
+  busy: boolean;
+  onDecision: (decision: 'approved' | 'rejected', notes: string) => void;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-neutral-500',
+  added: 'bg-green-950 text-green-300',
+  removed: 'bg-red-950 text-red-300',
+};
+
+const LINE_PREFIXES: Record<DiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-',
+};
+
+/**
+ * Reviewer view of a pending plugin version
+ * Shows the automated checks and a diff against the plugin's approved version
+ * (empty for a new plugin), and collects the reviewer's decision and notes.
+ */
+export default function PluginReviewPanel({ plugin, version, canReview, busy, onDecision }: PluginReviewPanelProps) {
+  const [notes, setNotes] = useState('');
+
+  const checkErrors = useMemo(() => runPluginChecks(version), [version]);
+  const codeDiff = useMemo(() => diffLines(plugin.code || '', version.code || ''), [plugin.code, version.code]);
+  const schemaDiff = useMemo(
+    () => diffLines(
+      plugin.approved ? JSON.stringify(plugin.configSchema || {}, null, 2) : '',
+      JSON.stringify(version.configSchema || {}, null, 2)
+    ),
+    [plugin.approved, plugin.configSchema, version.configSchema]
+  );
+
+  return (
+    <div className="p-4 space-y-6">
+      <div>
+        <h2 className="text-lg font-medium">
+          {plugin.name} <span className="font-mono text-neutral-400">v{version.version}</span>
+        </h2>
+        <p className="text-xs text-neutral-500 mt-1">
+          by {plugin.author} • {plugin.approved ? `replaces v${plugin.version}` : 'new plugin'}
+        </p>
+        {version.changelog && <p className="text-sm text-neutral-300 mt-3">{version.changelog}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-xs uppercase tracking-widest text-neutral-500">Automated Checks</h3>
+        {checkErrors.length === 0 ? (
+          <p className="text-xs text-green-400">✓ All checks passed</p>
+        ) : (
+          checkErrors.map((error) => (
+            <p key={error} className="text-xs text-red-400">✗ {error}</p>
+          ))
+        )}
+      </div>
+
+      <DiffView title="Code" lines={codeDiff} />
+      <DiffView title="Config Schema" lines={schemaDiff} />
+
+      {canReview ? (
+        <div className="space-y-3">
+          <label className="text-xs uppercase tracking-widest text-neutral-500">Notes to the Author</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Required when rejecting"
+            rows={3}
+            className="w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm resize-none"
+          />
+          <div className="flex gap-3 justify-end">
+            <button
+              onClick={() => onDecision('rejected', notes.trim())}
+              disabled={busy || !notes.trim()}
+              className="px-4 py-2 bg-red-900 hover:bg-red-800 disabled:bg-neutral-800 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => onDecision('approved', notes.trim())}
+              disabled={busy || checkErrors.length > 0}
+              className="px-4 py-2 bg-white text-black hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+            >
+              Approve
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-neutral-500">You can&apos;t review your own plugin.</p>
+      )}
+    </div>
+  );
+}
+
+function DiffView({ title, lines }: { title: string; lines: DiffLine[] }) {
+  const changes = lines.filter((line) => line.type !== 'same').length;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs uppercase tracking-widest text-neutral-500">
+        {title} <span className="normal-case tracking-normal text-neutral-600">({changes} changed lines)</span>
+      </h3>
+      <pre className="max-h-96 overflow-auto bg-neutral-950 border border-neutral-800 p-2 font-mono text-xs">
+        {lines.map((line, index) => (
+          <div key={index} className={`whitespace-pre ${LINE_STYLES[line.type]}`}>
+            {LINE_PREFIXES[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
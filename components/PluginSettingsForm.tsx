@@ -0,0 +1,245 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { getSettingDefault, isSettingShown } from '@/lib/plugin-config';
+import { PluginConfigSchema, PluginSettingSchema } from '@/lib/types';
+
+interface PluginSettingsFormProps {
+  schema: PluginConfigSchema;
+  values: Record<string, unknown>;
+  onChange: (values: Record<string, unknown>) => void;
+}
+
+interface SettingFieldProps {
+  name: string;
+  setting: PluginSettingSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  nested: boolean;
+}
+
+/**
+ * Color inputs only take #rrggbb: expand #rgb and drop the alpha of #rrggbbaa
+ */
+function toColorInputValue(value: unknown): string {
+  if (typeof value !== 'string') return '#000000';
+  if (/^#[0-9a-f]{3}$/i.test(value)) {
+    return `#${value.slice(1).split('').map((digit) => digit + digit).join('')}`;
+  }
+  return /^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value) ? value.slice(0, 7) : '#000000';
+}
+
+/**
+ * Settings form generated from a plugin's config schema
+ * Values should already have defaults merged in (see resolvePluginConfig).
+ */
+export default function PluginSettingsForm({ schema, values, onChange }: PluginSettingsFormProps) {
+  return <SettingFields schema={schema} values={values} onChange={onChange} nested={false} />;
+}
+
+function SettingFields({
+  schema,
+  values,
+  onChange,
+  nested,
+}: PluginSettingsFormProps & { nested: boolean }) {
+  return (
+    <div className={nested ? 'space-y-2' : 'space-y-3'}>
+      {Object.entries(schema)
+        .filter(([, setting]) => isSettingShown(setting, values))
+        .map(([key, setting]) => (
+          <SettingField
+            key={key}
+            name={setting.label || key}
+            setting={setting}
+            value={values[key]}
+            onChange={(value) => {
+              // Cleared fields are removed: Firestore rejects undefined values
+              const next = { ...values, [key]: value };
+              if (value === undefined) delete next[key];
+              onChange(next);
+            }}
+            nested={nested}
+          />
+        ))}
+    </div>
+  );
+}
+
+function SettingField({ name, setting, value, onChange, nested }: SettingFieldProps) {
+  const labelClass = nested ? 'text-xs text-neutral-400' : 'text-xs uppercase tracking-widest text-neutral-500';
+  const inputClass = nested
+    ? 'w-full px-2 py-1 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-xs'
+    : 'w-full px-3 py-2 bg-neutral-800 border border-neutral-700 focus:border-white outline-none text-white text-sm';
+
+  let field: ReactNode = null;
+
+  switch (setting.type) {
+    case 'boolean':
+      field = (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="w-4 h-4"
+          />
+          <span className="text-xs text-neutral-400">{name}</span>
+        </label>
+      );
+      break;
+
+    case 'string':
+    case 'number':
+      if (setting.enum) {
+        const isNumber = setting.type === 'number';
+        field = (
+          <select
+            value={value === undefined || value === null ? '' : String(value)}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : isNumber ? Number(e.target.value) : e.target.value)}
+            className={inputClass}
+          >
+            {(value === undefined || value === null) && <option value="">Choose...</option>}
+            {setting.enum.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      } else if (setting.type === 'number') {
+        const hasRange = typeof setting.min === 'number' && typeof setting.max === 'number';
+        field = (
+          <div className="flex items-center gap-2">
+            <input
+              type={hasRange ? 'range' : 'number'}
+              value={typeof value === 'number' ? value : ''}
+              min={setting.min}
+              max={setting.max}
+              step={setting.step ?? 'any'}
+              onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+              className={hasRange ? 'flex-1' : inputClass}
+            />
+            {hasRange && <span className="w-12 text-right text-xs text-neutral-400">{String(value ?? '')}</span>}
+          </div>
+        );
+      } else {
+        field = (
+          <input
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            maxLength={setting.maxLength}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClass}
+          />
+        );
+      }
+      break;
+
+    case 'color':
+      field = (
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={toColorInputValue(value)}
+            onChange={(e) => onChange(e.target.value)}
+            className="h-8 w-16 border border-neutral-700 rounded cursor-pointer"
+          />
+          <input
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            className={`${inputClass} flex-1 font-mono`}
+          />
+        </div>
+      );
+      break;
+
+    case 'date':
+      field = (
+        <input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          min={typeof setting.min === 'string' ? setting.min : undefined}
+          max={typeof setting.max === 'string' ? setting.max : undefined}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className={inputClass}
+        />
+      );
+      break;
+
+    case 'object': {
+      const objectValue = value && typeof value === 'object' && !Array.isArray(value)
+        ? value as Record<string, unknown>
+        : {};
+      field = (
+        <div className="p-3 bg-neutral-800/50 border border-neutral-700 rounded">
+          <SettingFields schema={setting.properties || {}} values={objectValue} onChange={onChange} nested />
+        </div>
+      );
+      break;
+    }
+
+    case 'array': {
+      const items = Array.isArray(value) ? value : [];
+      const itemSchema = setting.items;
+      if (!itemSchema) break;
+
+      const setItem = (index: number, item: unknown) => {
+        const next = [...items];
+        next[index] = item ?? null;
+        onChange(next);
+      };
+      const removeItem = (index: number) => onChange(items.filter((_, i) => i !== index));
+      const canAdd = setting.maxItems === undefined || items.length < setting.maxItems;
+
+      field = (
+        <div className="space-y-3 max-h-64 overflow-y-auto">
+          {items.map((item, index) => (
+            <div key={index} className="p-3 bg-neutral-800/50 border border-neutral-700 rounded space-y-2">
+              {itemSchema.type === 'object' ? (
+                <SettingFields
+                  schema={itemSchema.properties || {}}
+                  values={item && typeof item === 'object' ? item as Record<string, unknown> : {}}
+                  onChange={(next) => setItem(index, next)}
+                  nested
+                />
+              ) : (
+                <SettingField
+                  name={`${itemSchema.label || 'Item'} ${index + 1}`}
+                  setting={itemSchema}
+                  value={item}
+                  onChange={(next) => setItem(index, next)}
+                  nested
+                />
+              )}
+              <button
+                onClick={() => removeItem(index)}
+                className="w-full py-1 bg-red-900/30 hover:bg-red-900/50 text-red-400 text-xs uppercase tracking-wider"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {canAdd && (
+            <button
+              onClick={() => onChange([...items, getSettingDefault(itemSchema) ?? (itemSchema.type === 'object' ? {} : null)])}
+              className="w-full py-2 bg-neutral-700 hover:bg-neutral-600 text-white text-xs uppercase tracking-wider"
+            >
+              + Add {itemSchema.label || 'Item'}
+            </button>
+          )}
+        </div>
+      );
+      break;
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      {setting.type !== 'boolean' && <label className={labelClass}>{name}</label>}
+      {field}
+      {setting.description && <p className="text-xs text-neutral-600">{setting.description}</p>}
+    </div>
+  );
+}
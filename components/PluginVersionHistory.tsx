@@ -0,0 +1,70 @@
+'use client';
+
+import { getReviewStatus } from '@/lib/plugin-review';
+import { PluginReviewStatus, PluginVersion } from '@/lib/types';
+
+interface PluginVersionHistoryProps {
+  versions: PluginVersion[];
+  busy: boolean;
+  onSubmit: (version: string) => void;
+  onWithdraw: (version: string) => void;
+}
+
+const STATUS_STYLES: Record<PluginReviewStatus, string> = {
+  draft: 'bg-neutral-800 text-neutral-400',
+  pending: 'bg-yellow-900 text-yellow-200',
+  approved: 'bg-green-900 text-green-200',
+  rejected: 'bg-red-900 text-red-200',
+};
+
+/**
+ * An author's versions of a plugin, newest first, with their review status
+ * Drafts and rejected versions can be submitted; pending ones withdrawn.
+ */
+export default function PluginVersionHistory({ versions, busy, onSubmit, onWithdraw }: PluginVersionHistoryProps) {
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {versions.map((version) => {
+        const status = getReviewStatus(version);
+        return (
+          <div key={version.version} className="p-3 bg-neutral-900 border border-neutral-800 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-mono">v{version.version}</span>
+                <span className={`px-2 py-0.5 text-xs uppercase tracking-wider ${STATUS_STYLES[status]}`}>
+                  {status}
+                </span>
+              </div>
+              {(status === 'draft' || status === 'rejected') && (
+                <button
+                  onClick={() => onSubmit(version.version)}
+                  disabled={busy}
+                  className="px-3 py-1 bg-white text-black hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+                >
+                  Submit
+                </button>
+              )}
+              {status === 'pending' && (
+                <button
+                  onClick={() => onWithdraw(version.version)}
+                  disabled={busy}
+                  className="px-3 py-1 bg-neutral-800 hover:bg-neutral-700 disabled:text-neutral-600 transition-colors text-xs uppercase tracking-wider"
+                >
+                  Withdraw
+                </button>
+              )}
+            </div>
+            {version.changelog && <p className="text-xs text-neutral-400">{version.changelog}</p>}
+            {version.reviewNotes && (
+              <p className="text-xs text-neutral-500">
+                <span className="uppercase tracking-wider">Reviewer:</span> {version.reviewNotes}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -12,33 +12,35 @@ interface ViewModeToggleProps {
   onChange: (mode: ViewMode) => void;
 }
 
+/**
+ * Available view modes in display order
+ */
+const VIEW_MODES: { mode: ViewMode; label: string }[] = [
+  { mode: 'life', label: 'Life' },
+  { mode: 'year', label: 'Year' },
+  { mode: 'month', label: 'Month' },
+  { mode: 'week', label: 'Week' },
+  { mode: 'countdown', label: 'Countdown' },
+];
+
 export default function ViewModeToggle({ selectedMode, onChange }: ViewModeToggleProps) {
   return (
     <div className="w-full flex p-1 bg-white/5 rounded-lg border border-white/5">
-      <button
-        onClick={() => onChange('life')}
-        className={`
-          flex-1 py-2 text-xs uppercase tracking-widest font-medium rounded transition-all
-          ${selectedMode === 'life'
-            ? 'bg-white text-black shadow-sm'
-            : 'text-neutral-500 hover:text-neutral-300'
-          }
-        `}
-      >
-        Life View
-      </button>
-      <button
-        onClick={() => onChange('year')}
-        className={`
-          flex-1 py-2 text-xs uppercase tracking-widest font-medium rounded transition-all
-          ${selectedMode === 'year'
-            ? 'bg-white text-black shadow-sm'
-            : 'text-neutral-500 hover:text-neutral-300'
-          }
-        `}
-      >
-        Year View
-      </button>
+      {VIEW_MODES.map(({ mode, label }) => (
+        <button
+          key={mode}
+          onClick={() => onChange(mode)}
+          className={`
+            flex-1 py-2 text-xs uppercase tracking-widest font-medium rounded transition-all
+            ${selectedMode === mode
+              ? 'bg-white text-black shadow-sm'
+              : 'text-neutral-500 hover:text-neutral-300'
+            }
+          `}
+        >
+          {label}
+        </button>
+      ))}
     </div>
   );
 }
@@ -12,6 +12,9 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Plugin SDK build output and the lib/ modules copied into it
+    "packages/*/dist/**",
+    "packages/plugin-sdk/src/host/**",
   ]),
 ]);
 
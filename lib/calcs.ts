@@ -8,19 +8,33 @@
  * - It's granular enough to feel meaningful
  * - It's small enough to fit on a phone screen
  * - 80 years = 4,160 weeks (a comprehensible number)
+ * 
+ * Life expectancy and the unit per dot are configurable (see resolveLifeExpectancyYears
+ * and LIFE_GRID_UNITS); 80 years in weeks remains the default.
+ * 
+ * Day math works on calendar dates in the user's timezone (CalendarDate and day
+ * numbers), never on millisecond differences between local-time Dates.
  */
 
+import { CalendarDate, CalendarEntry, CountdownConfig, LifeChapter, LifeEvent, LifeExpectancyConfig, LifeGridUnit, WakingHours } from './types';
+import { DEFAULT_LIFE_TABLE_COUNTRY, lookupLifeExpectancy } from './life-tables';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const MS_PER_HOUR = 1000 * 60 * 60;
+
 /**
- * Get current date in the specified timezone
+ * Gets the wall-clock date and time of a timezone
  * Uses Intl.DateTimeFormat to convert UTC to target timezone
  * 
+ * The returned Date is a wall-clock value: its local getters (getFullYear,
+ * getDate, getHours...) read the time in the target timezone. Use
+ * getCalendarDate() on it for day math.
+ * 
  * @param timezone - IANA timezone string (e.g., 'America/New_York', 'Asia/Tokyo')
- * @returns Date object representing current time in the specified timezone
+ * @param now - Instant to convert (defaults to now)
+ * @returns Date object representing the time in the specified timezone
  */
-function getDateInTimezone(timezone: string = 'UTC'): Date {
-  // Get current UTC time
-  const now = new Date();
-  
+export function getDateInTimezone(timezone: string = 'UTC', now: Date = new Date()): Date {
   // Use Intl API to get date parts in target timezone
   const formatter = new Intl.DateTimeFormat('en-US', {
     timeZone: timezone,
@@ -30,20 +44,156 @@ function getDateInTimezone(timezone: string = 'UTC'): Date {
     hour: '2-digit',
     minute: '2-digit',
     second: '2-digit',
-    hour12: false,
+    hourCycle: 'h23',
   });
   
-  const parts = formatter.formatToParts(now);
-  const dateParts: Record<string, string> = {};
-  
-  parts.forEach(({ type, value }) => {
-    dateParts[type] = value;
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(now).forEach(({ type, value }) => {
+    parts[type] = Number(value);
   });
   
-  // Construct date in target timezone
-  return new Date(
-    `${dateParts.year}-${dateParts.month}-${dateParts.day}T${dateParts.hour}:${dateParts.minute}:${dateParts.second}`
-  );
+  // Construct date in target timezone (from numbers, so no string parsing is involved)
+  const date = new Date(0);
+  date.setFullYear(parts.year, parts.month - 1, parts.day);
+  date.setHours(parts.hour % 24, parts.minute, parts.second, 0);
+  return date;
+}
+
+/**
+ * Gets the calendar date of a wall-clock Date (see getDateInTimezone)
+ * 
+ * @param date - Wall-clock date, e.g. currentDate of a view or plugin context
+ * @returns Year, month (1-12) and day
+ */
+export function getCalendarDate(date: Date): CalendarDate {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+/**
+ * Gets today's calendar date in a timezone
+ * 
+ * @param timezone - IANA timezone string
+ * @param now - Instant to convert (defaults to now)
+ * @example
+ * getCalendarDateInTimezone('Pacific/Kiritimati', new Date('2026-12-31T12:00:00Z')) // Returns { year: 2027, month: 1, day: 1 }
+ */
+export function getCalendarDateInTimezone(timezone: string = 'UTC', now: Date = new Date()): CalendarDate {
+  return getCalendarDate(getDateInTimezone(timezone, now));
+}
+
+/**
+ * Parses a YYYY-MM-DD string as a calendar date
+ * 
+ * @returns The date, or null for missing, malformed or impossible dates (e.g. 2026-02-31)
+ */
+export function parseCalendarDate(value: string | undefined): CalendarDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  // Out-of-range days and months roll over into the next month; reject them
+  const roundTrip = fromDayNumber(toDayNumber(date));
+  if (roundTrip.year !== date.year || roundTrip.month !== date.month || roundTrip.day !== date.day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD
+ */
+export function formatCalendarDate({ year, month, day }: CalendarDate): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Converts a calendar date to a day number (days since 1970-01-01)
+ * Differences of day numbers are whole days, whatever the timezone.
+ * 
+ * @example
+ * toDayNumber({ year: 1970, month: 1, day: 2 }) // Returns 1
+ */
+export function toDayNumber({ year, month, day }: CalendarDate): number {
+  // setUTCFullYear keeps years 0-99 as is (Date.UTC maps them to 1900-1999)
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return Math.round(date.getTime() / MS_PER_DAY);
+}
+
+/**
+ * Converts a day number (days since 1970-01-01) back to a calendar date
+ */
+export function fromDayNumber(dayNumber: number): CalendarDate {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Finds the instant a local wall-clock time occurs in a timezone
+ * Times repeated by a DST change resolve to their first occurrence; times
+ * skipped by one resolve to the instant the clocks jumped past them.
+ * 
+ * @param timezone - IANA timezone string
+ * @param dayNumber - Local calendar day (see toDayNumber)
+ * @param hour - Local hour (24 = midnight of the next day)
+ * @param minute - Local minute
+ * @returns The instant, as a real (not wall-clock) Date
+ */
+export function getLocalTimeInstant(timezone: string, dayNumber: number, hour: number, minute: number = 0): Date {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  const target = new Date(0);
+  target.setUTCFullYear(year, month - 1, day);
+  target.setUTCHours(hour, minute);
+  const wallClock = target.getTime();
+
+  // Offset of the timezone (wall clock - UTC) at an instant
+  const offsetAt = (instant: number) => {
+    const local = getDateInTimezone(timezone, new Date(instant));
+    return toDayNumber(getCalendarDate(local)) * 24 * MS_PER_HOUR
+      + (local.getHours() * 60 + local.getMinutes()) * 60 * 1000
+      - Math.floor(instant / 60000) * 60000;
+  };
+
+  // Offsets in effect a few hours before and after the target time
+  const guess = offsetAt(wallClock);
+  const offsetBefore = offsetAt(wallClock - guess - 6 * MS_PER_HOUR);
+  const offsetAfter = offsetAt(wallClock - guess + 6 * MS_PER_HOUR);
+
+  const first = wallClock - offsetBefore;
+  if (offsetAt(first) === offsetBefore) return new Date(first);
+  const second = wallClock - offsetAfter;
+  if (offsetAt(second) === offsetAfter) return new Date(second);
+  return new Date(first);
+}
+
+/**
+ * Moves a wall-clock day and time (HH:MM) from one timezone to another
+ * 
+ * @throws RangeError if either timezone is unknown
+ * 
+ * @example
+ * convertWallClock({ year: 2026, month: 10, day: 19 }, '23:00', 'America/New_York', 'Europe/Berlin')
+ * // Returns { date: { year: 2026, month: 10, day: 20 }, time: '05:00' }
+ */
+export function convertWallClock(
+  date: CalendarDate,
+  time: string,
+  fromTimezone: string,
+  toTimezone: string
+): { date: CalendarDate; time: string } {
+  const [hour, minute] = time.split(':').map(Number);
+  const local = getDateInTimezone(toTimezone, getLocalTimeInstant(fromTimezone, toDayNumber(date), hour, minute));
+  return {
+    date: getCalendarDate(local),
+    time: `${String(local.getHours()).padStart(2, '0')}:${String(local.getMinutes()).padStart(2, '0')}`,
+  };
+}
+
+/**
+ * Fraction of the day elapsed at a wall-clock time (0 at midnight)
+ */
+function getDayFraction(date: Date): number {
+  return (date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()) / (24 * 3600) + date.getMilliseconds() / MS_PER_DAY;
 }
 
 /**
@@ -63,12 +213,299 @@ export const TOTAL_WEEKS = LIFE_EXPECTANCY_YEARS * 52;
  */
 export const WEEKS_PER_YEAR = 52;
 
+/**
+ * Allowed range for a user-entered life expectancy (in years)
+ */
+export const MIN_LIFE_EXPECTANCY_YEARS = 1;
+export const MAX_LIFE_EXPECTANCY_YEARS = 120;
+
+/**
+ * Default life expectancy setting (fixed 80 years)
+ */
+export const DEFAULT_LIFE_EXPECTANCY: LifeExpectancyConfig = {
+  mode: 'years',
+  years: LIFE_EXPECTANCY_YEARS,
+  sex: 'other',
+  country: DEFAULT_LIFE_TABLE_COUNTRY,
+};
+
+/**
+ * Default time span of one dot in life view
+ */
+export const DEFAULT_LIFE_GRID_UNIT: LifeGridUnit = 'weeks';
+
+/**
+ * Dots per year and minimum grid columns for each life grid unit
+ * Weeks use 52/year so the default grid stays at 4,160 dots for 80 years.
+ */
+export const LIFE_GRID_UNITS: Record<LifeGridUnit, { perYear: number; minColumns: number }> = {
+  days: { perYear: 365.25, minColumns: 40 },
+  weeks: { perYear: WEEKS_PER_YEAR, minColumns: 40 },
+  months: { perYear: 12, minColumns: 12 },
+  years: { perYear: 1, minColumns: 10 },
+};
+
+/**
+ * Resolves the expected lifespan (in years) from a user's life expectancy setting
+ * 
+ * - mode 'years': the entered number, clamped to 1-120
+ * - mode 'table': looked up by country and sex in the bundled life table
+ * - missing or invalid: LIFE_EXPECTANCY_YEARS (80)
+ * 
+ * @param config - Life expectancy setting from UserConfig
+ * @returns Life expectancy in years (may be fractional, e.g. 78.5)
+ * 
+ * @example
+ * resolveLifeExpectancyYears({ mode: 'years', years: 90 }) // Returns 90
+ * resolveLifeExpectancyYears({ mode: 'table', country: 'JP', sex: 'female' }) // Returns 86.9
+ */
+export function resolveLifeExpectancyYears(config?: LifeExpectancyConfig): number {
+  if (!config) return LIFE_EXPECTANCY_YEARS;
+  
+  if (config.mode === 'table') {
+    return lookupLifeExpectancy(config.country, config.sex);
+  }
+  
+  const years = Number(config.years);
+  if (!Number.isFinite(years) || years <= 0) return LIFE_EXPECTANCY_YEARS;
+  
+  return Math.min(MAX_LIFE_EXPECTANCY_YEARS, Math.max(MIN_LIFE_EXPECTANCY_YEARS, years));
+}
+
+/**
+ * Calculates how many dots the life grid has
+ * 
+ * Math explanation:
+ * - Total dots = life expectancy (years) × units per year, rounded
+ * - 80 years in weeks = 80 × 52 = 4,160 dots
+ * 
+ * @param lifeExpectancyYears - Expected lifespan in years
+ * @param unit - Time span of one dot
+ * @returns Total number of dots (at least 1)
+ */
+export function getLifeGridTotal(lifeExpectancyYears: number, unit: LifeGridUnit = DEFAULT_LIFE_GRID_UNIT): number {
+  const { perYear } = LIFE_GRID_UNITS[unit] || LIFE_GRID_UNITS[DEFAULT_LIFE_GRID_UNIT];
+  return Math.max(1, Math.round(lifeExpectancyYears * perYear));
+}
+
+/**
+ * Calculates how many units (days, weeks, months or years) have been lived
+ * 
+ * Days count elapsed time; weeks count the week in progress as lived (rounded up,
+ * as the life grid always has); months and years count calendar boundaries
+ * (a month is complete on the same day of the next month).
+ * 
+ * @param birthDate - Birth date in YYYY-MM-DD format
+ * @param unit - Time span of one dot
+ * @param today - Wall-clock date and time in the user's timezone (see getDateInTimezone)
+ * @returns Number of units lived (0 for future or invalid birth dates)
+ * 
+ * @example
+ * calculateUnitsLived('1990-01-15', 'years', new Date(2026, 0, 14)) // Returns 35
+ */
+export function calculateUnitsLived(birthDate: string, unit: LifeGridUnit, today: Date): number {
+  const birth = parseCalendarDate(birthDate);
+  if (!birth) return 0;
+  
+  return countUnitsLived(birth, getCalendarDate(today), getDayFraction(today), unit);
+}
+
+/**
+ * Units lived between two calendar dates, plus the fraction of the last day
+ * elapsed (see calculateUnitsLived)
+ */
+function countUnitsLived(birth: CalendarDate, today: CalendarDate, dayFraction: number, unit: LifeGridUnit): number {
+  const diffInDays = toDayNumber(today) - toDayNumber(birth) + dayFraction;
+  
+  if (diffInDays < 0) return 0;
+  
+  switch (unit) {
+    case 'days':
+      return Math.floor(diffInDays);
+    case 'months':
+    case 'years': {
+      let months = (today.year - birth.year) * 12 + (today.month - birth.month);
+      // The current month is not complete until the birth day-of-month is reached
+      if (today.day < birth.day) months--;
+      months = Math.max(0, months);
+      return unit === 'months' ? months : Math.floor(months / 12);
+    }
+    case 'weeks':
+    default:
+      return Math.ceil(diffInDays / 7);
+  }
+}
+
+/**
+ * Finds the life grid dot that contains a date
+ * 
+ * @param birthDate - Birth date in YYYY-MM-DD format
+ * @param date - Date to locate (YYYY-MM-DD)
+ * @param unit - Time span of one dot
+ * @returns Dot index, or null if the date is invalid or before birth
+ * 
+ * @example
+ * getLifeGridIndex('1990-01-15', '2008-06-01', 'weeks') // Returns 959
+ */
+export function getLifeGridIndex(birthDate: string, date: string, unit: LifeGridUnit): number | null {
+  const birth = parseCalendarDate(birthDate);
+  const target = parseCalendarDate(date);
+  
+  if (!birth || !target || toDayNumber(target) < toDayNumber(birth)) return null;
+  
+  return countUnitsLived(birth, target, 0, unit);
+}
+
+/**
+ * Finds the first day of a life grid dot (the inverse of getLifeGridIndex)
+ * 
+ * Dot 0 is the birth day. Weeks after it run from the day after birth; months
+ * and years start on the birth day-of-month, or on the 1st of the next month
+ * when that day doesn't exist.
+ * 
+ * @param birthDate - Birth date in YYYY-MM-DD format
+ * @param index - Dot index
+ * @param unit - Time span of one dot
+ * @returns First day of the dot (YYYY-MM-DD), or null for invalid input
+ * 
+ * @example
+ * getLifeGridDate('1990-01-15', 959, 'weeks') // Returns '2008-05-27'
+ */
+export function getLifeGridDate(birthDate: string, index: number, unit: LifeGridUnit): string | null {
+  const birth = parseCalendarDate(birthDate);
+  if (!birth || !Number.isInteger(index) || index < 0) return null;
+  
+  switch (unit) {
+    case 'days':
+      return formatCalendarDate(fromDayNumber(toDayNumber(birth) + index));
+    case 'months':
+    case 'years': {
+      const months = birth.month - 1 + (unit === 'years' ? index * 12 : index);
+      const year = birth.year + Math.floor(months / 12);
+      const monthIndex = months % 12;
+      const daysInMonth = getDaysInMonth(year, monthIndex);
+      if (birth.day <= daysInMonth) return formatCalendarDate({ year, month: monthIndex + 1, day: birth.day });
+      return formatCalendarDate(fromDayNumber(toDayNumber({ year, month: monthIndex + 1, day: daysInMonth }) + 1));
+    }
+    case 'weeks':
+    default:
+      return formatCalendarDate(fromDayNumber(toDayNumber(birth) + (index === 0 ? 0 : (index - 1) * 7 + 1)));
+  }
+}
+
+/**
+ * Calculates everything the life grid and its stats need for a user
+ * 
+ * @param birthDate - Birth date in YYYY-MM-DD format
+ * @param lifeExpectancyYears - Expected lifespan in years (see resolveLifeExpectancyYears)
+ * @param unit - Time span of one dot
+ * @param today - Current date in the user's timezone
+ * @returns Total dots, dots lived (capped at total), dots remaining and percentage lived
+ */
+export function calculateLifeGrid(
+  birthDate: string,
+  lifeExpectancyYears: number,
+  unit: LifeGridUnit,
+  today: Date
+): { totalDots: number; unitsLived: number; unitsRemaining: number; percentage: number } {
+  const totalDots = getLifeGridTotal(lifeExpectancyYears, unit);
+  const unitsLived = Math.min(calculateUnitsLived(birthDate, unit, today), totalDots);
+  
+  return {
+    totalDots,
+    unitsLived,
+    unitsRemaining: calculateWeeksRemaining(unitsLived, totalDots),
+    percentage: calculateLifePercentage(unitsLived, totalDots),
+  };
+}
+
+/**
+ * Formats a life expectancy for display (e.g. "80" or "78.5")
+ */
+export function formatLifeExpectancy(lifeExpectancyYears: number): string {
+  return String(Math.round(lifeExpectancyYears * 10) / 10);
+}
+
+/**
+ * Keeps only well-formed life events (from Firestore or an imported config)
+ * 
+ * @param value - Stored or imported lifeEvents value
+ * @returns Events with a string id, label, date and color
+ */
+export function normalizeLifeEvents(value: unknown): LifeEvent[] {
+  if (!Array.isArray(value)) return [];
+  
+  return value.filter((event): event is LifeEvent =>
+    !!event &&
+    typeof event.id === 'string' && !!event.id &&
+    typeof event.label === 'string' &&
+    typeof event.date === 'string' && !!event.date &&
+    typeof event.color === 'string'
+  );
+}
+
+/**
+ * Keeps only well-formed life chapters (from Firestore or an imported config)
+ * A non-string endDate is dropped, which makes the chapter ongoing.
+ * 
+ * @param value - Stored or imported lifeChapters value
+ * @returns Chapters with a string id, label, startDate and color
+ */
+export function normalizeLifeChapters(value: unknown): LifeChapter[] {
+  if (!Array.isArray(value)) return [];
+  
+  return value
+    .filter((chapter): chapter is LifeChapter =>
+      !!chapter &&
+      typeof chapter.id === 'string' && !!chapter.id &&
+      typeof chapter.label === 'string' &&
+      typeof chapter.startDate === 'string' && !!chapter.startDate &&
+      typeof chapter.color === 'string'
+    )
+    .map((chapter) => {
+      if (chapter.endDate === undefined || typeof chapter.endDate === 'string') return chapter;
+      const { id, label, startDate, color } = chapter;
+      return { id, label, startDate, color };
+    });
+}
+
+/**
+ * Most calendar entries stored per user (imported from ICS files)
+ */
+export const MAX_CALENDAR_ENTRIES = 500;
+
+/**
+ * Keeps only well-formed calendar entries (from Firestore or an imported config)
+ * 
+ * @param value - Stored or imported calendarEntries value
+ * @returns Entries with a string id, title and valid date (at most MAX_CALENDAR_ENTRIES)
+ */
+export function normalizeCalendarEntries(value: unknown): CalendarEntry[] {
+  if (!Array.isArray(value)) return [];
+  
+  return value
+    .filter((entry): entry is CalendarEntry =>
+      !!entry &&
+      typeof entry.id === 'string' && !!entry.id &&
+      typeof entry.title === 'string' &&
+      typeof entry.date === 'string' && !!parseCalendarDate(entry.date) &&
+      (entry.endDate === undefined || typeof entry.endDate === 'string') &&
+      (entry.time === undefined || typeof entry.time === 'string') &&
+      (entry.timezone === undefined || typeof entry.timezone === 'string') &&
+      (entry.rrule === undefined || typeof entry.rrule === 'string') &&
+      (entry.exdates === undefined || (Array.isArray(entry.exdates) && entry.exdates.every((date: unknown) => typeof date === 'string')))
+    )
+    .map((entry) => ({ ...entry, allDay: entry.allDay !== false }))
+    .slice(0, MAX_CALENDAR_ENTRIES);
+}
+
 /**
  * Calculates the number of weeks lived since birth
  * 
  * Math explanation:
- * 1. Get the difference between today and birth date in milliseconds
- * 2. Convert milliseconds to days: ms / (1000 ms/s × 60 s/min × 60 min/hr × 24 hr/day)
+ * 1. Get the whole days between the birth date and today's calendar date
+ *    in the user's timezone (day numbers, so DST changes don't matter)
+ * 2. Add the part of today that has passed
  * 3. Convert days to weeks: days / 7
  * 4. Floor the result to get complete weeks only
  * 
@@ -79,18 +516,14 @@ export const WEEKS_PER_YEAR = 52;
  * calculateWeeksLived('1990-01-15') // Returns weeks lived since Jan 15, 1990
  */
 export function calculateWeeksLived(birthDate: string, timezone: string = 'UTC'): number {
-  // Parse the birth date string into a Date object
-  const birth = new Date(birthDate);
+  const birth = parseCalendarDate(birthDate);
+  if (!birth) return NaN;
   
   // Get today's date in the user's timezone
   const today = getDateInTimezone(timezone);
   
-  // Calculate the difference in milliseconds
-  const diffInMs = today.getTime() - birth.getTime();
-  
-  // Convert milliseconds to days
-  // 1 day = 1000ms × 60s × 60min × 24hrs = 86,400,000 ms
-  const diffInDays = diffInMs / (1000 * 60 * 60 * 24);
+  // Whole days between the calendar dates, plus the part of today already lived
+  const diffInDays = toDayNumber(getCalendarDate(today)) - toDayNumber(birth) + getDayFraction(today);
   
   // Convert days to weeks and round down to complete weeks
   const weeksLived = Math.floor(diffInDays / 7);
@@ -105,15 +538,16 @@ export function calculateWeeksLived(birthDate: string, timezone: string = 'UTC')
  * - Percentage = (weeks lived / total possible weeks) × 100
  * - Rounded to 1 decimal place for display purposes
  * 
- * @param weeksLived - Number of weeks lived (from calculateWeeksLived)
+ * @param weeksLived - Number of weeks lived (from calculateWeeksLived), or units lived
+ * @param totalWeeks - Total dots in the life grid (defaults to TOTAL_WEEKS)
  * @returns Life percentage as a number (e.g., 24.7 for 24.7%)
  * 
  * @example
  * calculateLifePercentage(1040) // Returns 25.0 (25% of 4160 weeks)
  */
-export function calculateLifePercentage(weeksLived: number): number {
+export function calculateLifePercentage(weeksLived: number, totalWeeks: number = TOTAL_WEEKS): number {
   // Calculate raw percentage
-  const percentage = (weeksLived / TOTAL_WEEKS) * 100;
+  const percentage = (weeksLived / totalWeeks) * 100;
   
   // Round to 1 decimal place
   return Math.round(percentage * 10) / 10;
@@ -126,16 +560,17 @@ export function calculateLifePercentage(weeksLived: number): number {
  * - Remaining weeks = Total weeks (4160) - weeks already lived
  * - If negative (lived longer than expected), return 0
  * 
- * @param weeksLived - Number of weeks lived (from calculateWeeksLived)
+ * @param weeksLived - Number of weeks lived (from calculateWeeksLived), or units lived
+ * @param totalWeeks - Total dots in the life grid (defaults to TOTAL_WEEKS)
  * @returns Number of weeks remaining until life expectancy
  * 
  * @example
  * calculateWeeksRemaining(1040) // Returns 3120 (4160 - 1040)
  */
-export function calculateWeeksRemaining(weeksLived: number): number {
-  const remaining = TOTAL_WEEKS - weeksLived;
+export function calculateWeeksRemaining(weeksLived: number, totalWeeks: number = TOTAL_WEEKS): number {
+  const remaining = totalWeeks - weeksLived;
   
-  // Return 0 if the person has lived longer than the expected 80 years
+  // Return 0 if the person has lived longer than the expected lifespan
   return Math.max(0, remaining);
 }
 
@@ -143,8 +578,8 @@ export function calculateWeeksRemaining(weeksLived: number): number {
  * Gets the current week number within the current year (1-52)
  * 
  * Math explanation:
- * 1. Find the first day of the current year (January 1st)
- * 2. Calculate days elapsed since January 1st
+ * 1. Get today's day of the year in the user's timezone
+ * 2. Days elapsed since January 1st = day of year - 1
  * 3. Convert days to weeks and add 1 (since we count from week 1, not week 0)
  * 4. Cap at 52 weeks maximum
  * 
@@ -154,17 +589,10 @@ export function calculateWeeksRemaining(weeksLived: number): number {
  * getCurrentWeekOfYear() // Returns 1-52 depending on current date
  */
 export function getCurrentWeekOfYear(timezone: string = 'UTC'): number {
-  const today = getDateInTimezone(timezone);
-  
-  // Get January 1st of the current year
-  const startOfYear = new Date(today.getFullYear(), 0, 1);
-  
-  // Calculate days since start of year
-  const diffInMs = today.getTime() - startOfYear.getTime();
-  const diffInDays = diffInMs / (1000 * 60 * 60 * 24);
+  const dayOfYear = getDayOfYear(getCalendarDateInTimezone(timezone));
   
   // Convert to weeks and add 1 (weeks are 1-indexed, not 0-indexed)
-  const weekNumber = Math.floor(diffInDays / 7) + 1;
+  const weekNumber = Math.floor((dayOfYear - 1) / 7) + 1;
   
   // Cap at 52 weeks (edge case for end of year)
   return Math.min(weekNumber, WEEKS_PER_YEAR);
@@ -181,17 +609,11 @@ export function getCurrentWeekOfYear(timezone: string = 'UTC'): number {
  * getBirthWeekOfYear('1990-03-15') // Returns week number of March 15th
  */
 export function getBirthWeekOfYear(birthDate: string): number {
-  const birth = new Date(birthDate);
-  
-  // Get January 1st of the birth year
-  const startOfYear = new Date(birth.getFullYear(), 0, 1);
+  const birth = parseCalendarDate(birthDate);
+  if (!birth) return NaN;
   
-  // Calculate days since start of year
-  const diffInMs = birth.getTime() - startOfYear.getTime();
-  const diffInDays = diffInMs / (1000 * 60 * 60 * 24);
-  
-  // Convert to weeks and add 1
-  const weekNumber = Math.floor(diffInDays / 7) + 1;
+  // Days since January 1st of the birth year, to weeks, plus 1
+  const weekNumber = Math.floor((getDayOfYear(birth) - 1) / 7) + 1;
   
   return Math.min(weekNumber, WEEKS_PER_YEAR);
 }
@@ -206,51 +628,65 @@ export function getBirthWeekOfYear(birthDate: string): number {
  * 4. Otherwise, return current week (all weeks of current year)
  * 
  * @param birthDate - Birth date in YYYY-MM-DD format
+ * @param timezone - IANA timezone the current year is read in
  * @returns Number of weeks lived in the current year
  * 
  * @example
  * calculateWeeksInCurrentYear('2025-03-15') // If today is 2026-01-03, returns 1
  */
-export function calculateWeeksInCurrentYear(birthDate: string): number {
-  const birth = new Date(birthDate);
-  const today = new Date();
+export function calculateWeeksInCurrentYear(birthDate: string, timezone: string = 'UTC'): number {
+  const birth = parseCalendarDate(birthDate);
+  const today = getCalendarDateInTimezone(timezone);
   
   // If we're in the birth year, calculate weeks since birth
-  if (birth.getFullYear() === today.getFullYear()) {
-    const currentWeek = getCurrentWeekOfYear();
+  if (birth && birth.year === today.year) {
+    const currentWeek = getCurrentWeekOfYear(timezone);
     const birthWeek = getBirthWeekOfYear(birthDate);
     return currentWeek - birthWeek + 1; // +1 to include birth week
   }
   
   // Otherwise, all weeks up to current week have been lived
-  return getCurrentWeekOfYear();
+  return getCurrentWeekOfYear(timezone);
 }
 
 /**
- * Gets the current day of the year (1-365 or 1-366 for leap years)
+ * Gets the day of the year of a date (1-365 or 1-366 for leap years)
  * 
  * Math explanation:
- * 1. Find the first day of the current year (January 1st)
- * 2. Calculate days elapsed since January 1st
+ * 1. Find the first day of the date's year (January 1st)
+ * 2. Count whole days since January 1st (day numbers, so DST changes don't matter)
  * 3. Add 1 because day counting starts at 1, not 0
  * 
+ * @param date - Calendar date in the user's timezone (e.g. from getCalendarDate)
+ * @returns Day number (1-365 or 1-366)
+ * 
+ * @example
+ * getDayOfYear({ year: 2026, month: 1, day: 3 }) // Returns 3
+ */
+export function getDayOfYear(date: CalendarDate): number {
+  return toDayNumber(date) - toDayNumber({ year: date.year, month: 1, day: 1 }) + 1;
+}
+
+/**
+ * Gets the number of days in a year
+ * 
+ * @returns 365 for normal years, 366 for leap years
+ */
+export function getDaysInYear(year: number): number {
+  const isLeapYear = (year % 4 === 0 && year % 100 !== 0) || (year % 400 === 0);
+  return isLeapYear ? 366 : 365;
+}
+
+/**
+ * Gets the current day of the year (1-365 or 1-366 for leap years)
+ * 
  * @returns Current day number (1-365 or 1-366)
  * 
  * @example
  * getCurrentDayOfYear() // Returns 3 on January 3rd
  */
 export function getCurrentDayOfYear(timezone: string = 'UTC'): number {
-  const today = getDateInTimezone(timezone);
-  
-  // Get January 1st of the current year
-  const startOfYear = new Date(today.getFullYear(), 0, 1);
-  
-  // Calculate days since start of year
-  const diffInMs = today.getTime() - startOfYear.getTime();
-  const diffInDays = diffInMs / (1000 * 60 * 60 * 24);
-  
-  // Add 1 because days are 1-indexed
-  return Math.floor(diffInDays) + 1;
+  return getDayOfYear(getCalendarDateInTimezone(timezone));
 }
 
 /**
@@ -267,25 +703,172 @@ export function getCurrentDayOfYear(timezone: string = 'UTC'): number {
  * calculateDaysLeftInYear() // Returns 362 on January 3rd (non-leap year)
  */
 export function calculateDaysLeftInYear(timezone: string = 'UTC'): number {
-  const today = getDateInTimezone(timezone);
-  const currentYear = today.getFullYear();
+  const today = getCalendarDateInTimezone(timezone);
+  return getDaysInYear(today.year) - getDayOfYear(today);
+}
+
+/**
+ * Gets the total number of days in the current year
+ * 
+ * @param timezone - IANA timezone the current year is read in
+ * @returns 365 for normal years, 366 for leap years
+ */
+export function getTotalDaysInCurrentYear(timezone: string = 'UTC'): number {
+  return getDaysInYear(getCalendarDateInTimezone(timezone).year);
+}
+
+/**
+ * Calculates the year progress shown in the year view stats
+ * 
+ * @param today - Calendar date in the user's timezone
+ * @returns Day of year, days in the year, days left and percent of the year done (whole number)
+ * 
+ * @example
+ * calculateYearProgress({ year: 2026, month: 7, day: 2 }) // { dayOfYear: 183, daysInYear: 365, daysLeft: 182, percentage: 50 }
+ */
+export function calculateYearProgress(
+  today: CalendarDate
+): { dayOfYear: number; daysInYear: number; daysLeft: number; percentage: number } {
+  const dayOfYear = getDayOfYear(today);
+  const daysInYear = getDaysInYear(today.year);
   
-  // Check if leap year
-  const isLeapYear = (currentYear % 4 === 0 && currentYear % 100 !== 0) || (currentYear % 400 === 0);
-  const totalDaysInYear = isLeapYear ? 366 : 365;
+  return {
+    dayOfYear,
+    daysInYear,
+    daysLeft: daysInYear - dayOfYear,
+    percentage: Math.round((dayOfYear / daysInYear) * 100),
+  };
+}
+
+/**
+ * Gets the number of days in a month
+ * 
+ * @param year - Full year (e.g., 2026)
+ * @param monthIndex - Month index (0 = January)
+ * @returns 28-31
+ */
+export function getDaysInMonth(year: number, monthIndex: number): number {
+  // Day 0 of the next month is the last day of this month
+  return fromDayNumber(toDayNumber({ year, month: monthIndex + 2, day: 0 })).day;
+}
+
+/**
+ * Gets the column of a date in a 7-day week
+ * 
+ * @param date - Calendar date to look up
+ * @param isMondayFirst - Whether weeks start on Monday
+ * @returns 0-6 (0 = Sunday, or Monday if isMondayFirst)
+ */
+export function getWeekdayIndex(date: CalendarDate, isMondayFirst: boolean = false): number {
+  // Day 0 (1970-01-01) was a Thursday
+  const day = (((toDayNumber(date) + 4) % 7) + 7) % 7;
+  if (isMondayFirst) {
+    return day === 0 ? 6 : day - 1;
+  }
+  return day;
+}
+
+/**
+ * Default waking hours for week view (07:00-23:00)
+ */
+export const DEFAULT_WAKING_HOURS: WakingHours = { start: 7, end: 23 };
+
+/**
+ * Clamps waking hours to a valid range with at least one hour per day
+ * 
+ * @param wakingHours - Waking hours from UserConfig
+ * @returns start in 0-23 and end in start+1 to 24
+ */
+export function normalizeWakingHours(wakingHours?: WakingHours): WakingHours {
+  const start = Math.min(23, Math.max(0, Math.floor(wakingHours?.start ?? DEFAULT_WAKING_HOURS.start)));
+  const end = Math.min(24, Math.max(start + 1, Math.floor(wakingHours?.end ?? DEFAULT_WAKING_HOURS.end)));
+  return { start, end };
+}
+
+
+/**
+ * Longest countdown (in days): 100 years, one dot per day at most 36,525 dots
+ */
+export const MAX_COUNTDOWN_DAYS = Math.round(100 * 365.25);
+
+/**
+ * Parses a YYYY-MM-DD string as a day number (see toDayNumber)
+ * Returns NaN for missing, malformed or impossible dates (e.g. 2026-02-31).
+ */
+function parseCalendarDay(date: string | undefined): number {
+  const parsed = parseCalendarDate(date);
+  return parsed ? toDayNumber(parsed) : NaN;
+}
+
+/**
+ * Checks that a countdown has valid dates with the target after the start,
+ * at most MAX_COUNTDOWN_DAYS later
+ * 
+ * @param countdown - Countdown from UserConfig or query params
+ * @returns valid flag and a list of problems for the API response
+ */
+export function validateCountdown(countdown?: Partial<CountdownConfig>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const start = parseCalendarDay(countdown?.startDate);
+  const target = parseCalendarDay(countdown?.targetDate);
   
-  const currentDay = getCurrentDayOfYear(timezone);
+  if (isNaN(start)) errors.push('Countdown start date must be a valid date in YYYY-MM-DD format');
+  if (isNaN(target)) errors.push('Countdown target date must be a valid date in YYYY-MM-DD format');
+  if (!isNaN(start) && !isNaN(target) && target <= start) {
+    errors.push('Countdown target date must be after its start date');
+  }
+  if (!isNaN(start) && !isNaN(target) && target - start > MAX_COUNTDOWN_DAYS) {
+    errors.push('Countdown can span at most 100 years');
+  }
   
-  return totalDaysInYear - currentDay;
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
 }
 
 /**
- * Gets the total number of days in the current year
+ * Calculates elapsed vs remaining units of a countdown
  * 
- * @returns 365 for normal years, 366 for leap years
+ * A countdown from 2026-01-01 to 2026-01-31 has 30 day dots; on 2026-01-11
+ * 10 are elapsed, dot 10 is today and 20 days are left. In weeks it has 5
+ * dots (the last one 2 days long); on 2026-01-11 1 is elapsed and 4 are left,
+ * counting the week in progress.
+ * 
+ * @param countdown - Countdown with valid dates (see validateCountdown)
+ * @param today - Today's calendar date in the user's timezone
+ * @returns Total dots, dots elapsed (capped at total), units left, percentage elapsed,
+ *          and whether today falls inside the countdown (so a dot is highlighted)
+ * 
+ * @example
+ * calculateCountdown({ label: 'Launch', startDate: '2026-01-01', targetDate: '2026-01-31', unit: 'days' }, { year: 2026, month: 1, day: 11 })
+ * // Returns { totalUnits: 30, unitsElapsed: 10, unitsLeft: 20, percentage: 33, isActive: true }
+ * 
+ * calculateCountdown({ label: 'Launch', startDate: '2026-01-01', targetDate: '2026-01-31', unit: 'weeks' }, { year: 2026, month: 1, day: 11 })
+ * // Returns { totalUnits: 5, unitsElapsed: 1, unitsLeft: 4, percentage: 33, isActive: true }
  */
-export function getTotalDaysInCurrentYear(): number {
-  const currentYear = new Date().getFullYear();
-  const isLeapYear = (currentYear % 4 === 0 && currentYear % 100 !== 0) || (currentYear % 400 === 0);
-  return isLeapYear ? 366 : 365;
+export function calculateCountdown(
+  countdown: CountdownConfig,
+  today: CalendarDate
+): { totalUnits: number; unitsElapsed: number; unitsLeft: number; percentage: number; isActive: boolean } {
+  const start = parseCalendarDay(countdown.startDate);
+  const target = parseCalendarDay(countdown.targetDate);
+  const todayDay = toDayNumber(today);
+  
+  const totalDays = Math.max(1, target - start || 1);
+  const elapsedDays = Math.min(totalDays, Math.max(0, todayDay - start || 0));
+  const daysLeft = totalDays - elapsedDays;
+  
+  const perUnit = countdown.unit === 'weeks' ? 7 : 1;
+  const totalUnits = Math.ceil(totalDays / perUnit);
+  // The unit in progress counts as left, so elapsed + left is always the total
+  const unitsElapsed = daysLeft === 0 ? totalUnits : Math.floor(elapsedDays / perUnit);
+  
+  return {
+    totalUnits,
+    unitsElapsed,
+    unitsLeft: totalUnits - unitsElapsed,
+    percentage: Math.round((elapsedDays / totalDays) * 100),
+    isActive: todayDay >= start && todayDay < target,
+  };
 }
@@ -4,11 +4,13 @@
  * This file contains a comprehensive list of popular smartphone models with their
  * exact screen resolutions. These dimensions are used to generate wallpapers that
  * perfectly fit each device's screen.
+ * Tablets and desktop screens (laptops, monitors and ultrawides) are listed after
+ * the phones, tagged with their category.
  * 
  * Note: All dimensions are in pixels and represent the device's native resolution.
  */
 
-import { DeviceModel } from './types';
+import { DeviceCategory, DeviceModel } from './types';
 
 /**
  * Array of supported device models with their specifications
@@ -342,6 +344,173 @@ export const DEVICE_MODELS: DeviceModel[] = [
     width: 1440,
     height: 3200,
   },
+
+  // Tablets (portrait)
+  {
+    brand: 'Apple',
+    model: 'iPad Pro 13" (M4)',
+    width: 2064,
+    height: 2752,
+    category: 'tablet',
+  },
+  {
+    brand: 'Apple',
+    model: 'iPad Pro 11" (M4)',
+    width: 1668,
+    height: 2420,
+    category: 'tablet',
+  },
+  {
+    brand: 'Apple',
+    model: 'iPad Air 13" (M2)',
+    width: 2048,
+    height: 2732,
+    category: 'tablet',
+  },
+  {
+    brand: 'Apple',
+    model: 'iPad Air 11" (M2)',
+    width: 1640,
+    height: 2360,
+    category: 'tablet',
+  },
+  {
+    brand: 'Apple',
+    model: 'iPad (10th generation)',
+    width: 1640,
+    height: 2360,
+    category: 'tablet',
+  },
+  {
+    brand: 'Apple',
+    model: 'iPad mini (A17 Pro)',
+    width: 1488,
+    height: 2266,
+    category: 'tablet',
+  },
+  {
+    brand: 'Samsung',
+    model: 'Galaxy Tab S9 Ultra',
+    width: 1848,
+    height: 2960,
+    category: 'tablet',
+  },
+  {
+    brand: 'Samsung',
+    model: 'Galaxy Tab S9+',
+    width: 1752,
+    height: 2800,
+    category: 'tablet',
+  },
+  {
+    brand: 'Samsung',
+    model: 'Galaxy Tab S9',
+    width: 1600,
+    height: 2560,
+    category: 'tablet',
+  },
+  {
+    brand: 'Google',
+    model: 'Pixel Tablet',
+    width: 1600,
+    height: 2560,
+    category: 'tablet',
+  },
+
+  // Laptops and Desktops
+  {
+    brand: 'Apple',
+    model: 'MacBook Air 13" (M3)',
+    width: 2560,
+    height: 1664,
+    category: 'desktop',
+  },
+  {
+    brand: 'Apple',
+    model: 'MacBook Air 15" (M3)',
+    width: 2880,
+    height: 1864,
+    category: 'desktop',
+  },
+  {
+    brand: 'Apple',
+    model: 'MacBook Pro 14" (M4)',
+    width: 3024,
+    height: 1964,
+    category: 'desktop',
+  },
+  {
+    brand: 'Apple',
+    model: 'MacBook Pro 16" (M4)',
+    width: 3456,
+    height: 2234,
+    category: 'desktop',
+  },
+  {
+    brand: 'Apple',
+    model: 'iMac 24" (M4)',
+    width: 4480,
+    height: 2520,
+    category: 'desktop',
+  },
+  {
+    brand: 'Apple',
+    model: 'Studio Display',
+    width: 5120,
+    height: 2880,
+    category: 'desktop',
+  },
+
+  // Monitors (common resolutions, including ultrawide)
+  {
+    brand: 'Monitor',
+    model: 'Full HD (1920×1080)',
+    width: 1920,
+    height: 1080,
+    category: 'desktop',
+  },
+  {
+    brand: 'Monitor',
+    model: 'QHD (2560×1440)',
+    width: 2560,
+    height: 1440,
+    category: 'desktop',
+  },
+  {
+    brand: 'Monitor',
+    model: '4K UHD (3840×2160)',
+    width: 3840,
+    height: 2160,
+    category: 'desktop',
+  },
+  {
+    brand: 'Monitor',
+    model: '5K (5120×2880)',
+    width: 5120,
+    height: 2880,
+    category: 'desktop',
+  },
+  {
+    brand: 'Monitor',
+    model: 'Ultrawide WFHD (2560×1080)',
+    width: 2560,
+    height: 1080,
+    category: 'desktop',
+  },
+  {
+    brand: 'Monitor',
+    model: 'Ultrawide UWQHD (3440×1440)',
+    width: 3440,
+    height: 1440,
+    category: 'desktop',
+  },
+  {
+    brand: 'Monitor',
+    model: 'Super Ultrawide DQHD (5120×1440)',
+    width: 5120,
+    height: 1440,
+    category: 'desktop',
+  },
 ];
 
 /**
@@ -353,21 +522,34 @@ export function getDeviceByModel(modelName: string): DeviceModel | undefined {
   return DEVICE_MODELS.find((device) => device.model === modelName);
 }
 
+/**
+ * Helper function to get the category of a device (entries without one are phones)
+ * @param device - The device to check
+ * @returns The device category
+ */
+export function getDeviceCategory(device: Pick<DeviceModel, 'category'>): DeviceCategory {
+  return device.category || 'phone';
+}
+
 /**
  * Helper function to get all brands (unique brand names)
  * Useful for filtering devices by brand in the UI
+ * @param category - Only include brands with devices of this category (default: phones)
  * @returns Array of unique brand names
  */
-export function getAllBrands(): string[] {
-  const brands = DEVICE_MODELS.map((device) => device.brand);
+export function getAllBrands(category: DeviceCategory = 'phone'): string[] {
+  const brands = DEVICE_MODELS
+    .filter((device) => getDeviceCategory(device) === category)
+    .map((device) => device.brand);
   return Array.from(new Set(brands));
 }
 
 /**
  * Helper function to get devices filtered by brand
  * @param brand - The brand name to filter by
+ * @param category - Only include devices of this category (default: phones)
  * @returns Array of DeviceModel objects for the specified brand
  */
-export function getDevicesByBrand(brand: string): DeviceModel[] {
-  return DEVICE_MODELS.filter((device) => device.brand === brand);
+export function getDevicesByBrand(brand: string, category: DeviceCategory = 'phone'): DeviceModel[] {
+  return DEVICE_MODELS.filter((device) => device.brand === brand && getDeviceCategory(device) === category);
 }
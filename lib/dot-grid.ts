@@ -0,0 +1,137 @@
+/**
+ * Dot Grid Layout for Remainders
+ *
+ * Pure layout math for a centered grid of dots with a stats footer underneath.
+ * Used by the year view 'days' layout and the countdown view so both size,
+ * space and center their dots the same way. calculateSafeArea() is shared by
+ * every view.
+ */
+
+import { DotGridLayout, SafeArea, WallpaperLayout } from './types';
+
+/**
+ * Calculates the safe area of a wallpaper from the layout paddings
+ *
+ * Tall screens (aspect ratio > 2.0) get at least 28% top padding for the lock
+ * screen clock, and narrower side padding (capped by maxSidePadding) so the
+ * content stays wide.
+ *
+ * @param options.maxSidePadding - Side padding caps for aspect ratios above 2.0 and 2.1
+ * @returns Safe area in pixels
+ */
+export function calculateSafeArea({
+  width,
+  height,
+  layout,
+  maxSidePadding = [0.15, 0.12],
+}: {
+  width: number;
+  height: number;
+  layout: WallpaperLayout;
+  maxSidePadding?: [number, number];
+}): SafeArea {
+  const aspectRatio = height / width;
+
+  const top = aspectRatio > 2.0
+    ? height * Math.max(layout.topPadding, 0.28)
+    : height * layout.topPadding;
+  const bottomPadding = height * layout.bottomPadding;
+
+  const sidePadding = aspectRatio > 2.1
+    ? Math.min(layout.sidePadding, maxSidePadding[1])
+    : aspectRatio > 2.0
+    ? Math.min(layout.sidePadding, maxSidePadding[0])
+    : layout.sidePadding;
+  const paddingX = width * sidePadding;
+
+  return {
+    top,
+    bottom: height - bottomPadding,
+    height: height - top - bottomPadding,
+    paddingX,
+    availableWidth: width - paddingX * 2,
+  };
+}
+
+/**
+ * Calculates the geometry of a dot grid inside the wallpaper's safe area
+ *
+ * Math explanation:
+ * 1. Safe area: see calculateSafeArea
+ * 2. Columns: fixed, or derived from the available aspect ratio (cols² ≈ cells × width/height)
+ * 3. Dot size: 70% of the largest cell that fits both width and height (+2 rows for stats)
+ * 4. Grid and stats footer are centered vertically in the safe area
+ *
+ * @param options.cellCount - Number of cells, including any leading offset cells
+ * @param options.columns - Fixed number of columns (e.g. 14 = two weeks per row)
+ * @param options.minColumns - Minimum columns when columns are derived from the aspect ratio
+ * @returns Grid geometry in pixels
+ */
+export function calculateDotGridLayout({
+  width,
+  height,
+  layout,
+  cellCount,
+  columns,
+  minColumns = 7,
+}: {
+  width: number;
+  height: number;
+  layout: WallpaperLayout;
+  cellCount: number;
+  columns?: number;
+  minColumns?: number;
+}): DotGridLayout {
+  const safeArea = calculateSafeArea({ width, height, layout });
+  const SAFE_AREA_TOP = safeArea.top;
+  const SAFE_HEIGHT = safeArea.height;
+  const { paddingX, availableWidth } = safeArea;
+
+  const cells = Math.max(1, cellCount);
+  const cols = columns ?? Math.max(minColumns, Math.floor(Math.sqrt(cells * (availableWidth / SAFE_HEIGHT))));
+  const rows = Math.ceil(cells / cols);
+
+  // Calculate dot size
+  const maxDotSizeH = availableWidth / cols;
+  const maxDotSizeV = SAFE_HEIGHT / (rows + 2); // +2 for stats spacing
+  const dotSize = Math.min(maxDotSizeH, maxDotSizeV) * 0.7; // Smaller dots
+  const dotGap = dotSize * layout.dotSpacing * 0.5; // Tighter spacing
+
+  const statsFontSize = dotSize * 0.8;
+  const statsMargin = dotSize * 2;
+
+  const gridWidth = cols * (dotSize + dotGap) - dotGap;
+  const gridHeight = rows * (dotSize + dotGap) - dotGap;
+
+  const startX = paddingX + (availableWidth - gridWidth) / 2;
+  const startY = SAFE_AREA_TOP + (SAFE_HEIGHT - gridHeight - statsMargin - statsFontSize) / 2;
+
+  return {
+    columns: cols,
+    rows,
+    dotSize,
+    dotGap,
+    startX,
+    startY,
+    gridWidth,
+    gridHeight,
+    statsY: startY + gridHeight + statsMargin,
+    statsFontSize,
+  };
+}
+
+/**
+ * Gets the top-left corner of a cell in a dot grid
+ *
+ * @param grid - Layout from calculateDotGridLayout
+ * @param cellIndex - Zero-based cell index (row-major)
+ */
+export function getDotPosition(grid: DotGridLayout, cellIndex: number): { x: number; y: number } {
+  const row = Math.floor(cellIndex / grid.columns);
+  const col = cellIndex % grid.columns;
+
+  return {
+    x: grid.startX + col * (grid.dotSize + grid.dotGap),
+    y: grid.startY + row * (grid.dotSize + grid.dotGap),
+  };
+}
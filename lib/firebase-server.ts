@@ -4,8 +4,13 @@
  * REST API-based Firebase operations for Edge runtime and server components.
  * This avoids the 'navigator is not defined' error that occurs with the 
  * Firebase client SDK in server environments.
+ *
+ * Plugin data writes need a service account (FIREBASE_CLIENT_EMAIL and
+ * FIREBASE_PRIVATE_KEY); without Firebase, plugin data is kept in memory.
  */
 
+import { PluginDataValue, PluginDataValues, PluginVersion } from './types';
+
 // Firebase configuration with fallbacks for demo/dev mode
 const FIREBASE_PROJECT_ID = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'demo-project';
 const FIREBASE_API_KEY = process.env.NEXT_PUBLIC_FIREBASE_API_KEY || 'demo-api-key';
@@ -14,6 +19,16 @@ const FIREBASE_API_KEY = process.env.NEXT_PUBLIC_FIREBASE_API_KEY || 'demo-api-k
 const isFirebaseConfigured = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID && 
                               process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
 
+// Service account for server-side writes (the private key may use escaped newlines)
+const FIREBASE_CLIENT_EMAIL = process.env.FIREBASE_CLIENT_EMAIL;
+const FIREBASE_PRIVATE_KEY = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+// Stand-in for the plugin data store in demo mode (per process, lost on restart)
+const localPluginData = new Map<string, Map<string, { values: PluginDataValues; updatedAt: Date }>>();
+
+// Cached service account access token
+let serviceAccessToken: { token: string; expiresAt: number } | null = null;
+
 /**
  * Get user config by username using REST API
  */
@@ -114,6 +129,225 @@ export async function getPlugin(pluginId: string) {
   }
 }
 
+/**
+ * Get one published version of a plugin using REST API
+ * Stored in plugins/{pluginId}/versions/{version} (see lib/plugin-versions.ts).
+ */
+export async function getPluginVersion(
+  pluginId: string,
+  version: string
+): Promise<{ data: PluginVersion | null; error: string | null }> {
+  if (!isFirebaseConfigured) {
+    return { data: null, error: 'Firebase not configured - plugin system unavailable in demo mode' };
+  }
+
+  try {
+    const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/plugins/${pluginId}/versions/${encodeURIComponent(version)}`;
+
+    const response = await fetch(url, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return { data: null, error: `Version ${version} not found` };
+      }
+      return { data: null, error: `HTTP ${response.status}` };
+    }
+
+    const doc = await response.json();
+    return { data: { ...convertFirestoreDocument(doc), version } as PluginVersion, error: null };
+  } catch (error: unknown) {
+    console.error('Error fetching plugin version:', error);
+    return { data: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Get every plugin's stored data for a user (see lib/plugin-data.ts)
+ * Stored in configs/{username}/pluginData/{pluginId} as { values, updatedAt }.
+ *
+ * @returns The values and the last update of each plugin's data, by plugin ID
+ */
+export async function getPluginDataByUsername(
+  username: string
+): Promise<{ data: Record<string, PluginDataValues>; updatedAt: Record<string, Date>; error: string | null }> {
+  const usernameLower = username.toLowerCase();
+
+  if (!isFirebaseConfigured) {
+    const entries = [...(localPluginData.get(usernameLower) ?? [])];
+    return {
+      data: Object.fromEntries(entries.map(([pluginId, { values }]) => [pluginId, values])),
+      updatedAt: Object.fromEntries(entries.map(([pluginId, { updatedAt }]) => [pluginId, updatedAt])),
+      error: null,
+    };
+  }
+
+  try {
+    const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/configs/${usernameLower}/pluginData?pageSize=100`;
+    const response = await fetch(url, { headers: await getFirestoreHeaders() });
+
+    if (!response.ok) {
+      return { data: {}, updatedAt: {}, error: `HTTP ${response.status}` };
+    }
+
+    const { documents = [] } = await response.json() as { documents?: Array<{ name: string; fields?: unknown }> };
+    const data: Record<string, PluginDataValues> = {};
+    const updatedAt: Record<string, Date> = {};
+    for (const doc of documents) {
+      const pluginId = doc.name.split('/').pop();
+      const stored = convertFirestoreDocument(doc);
+      const values = stored?.values;
+      if (pluginId && values && typeof values === 'object' && !Array.isArray(values)) {
+        data[pluginId] = values;
+        if (stored.updatedAt instanceof Date) {
+          updatedAt[pluginId] = stored.updatedAt;
+        }
+      }
+    }
+
+    return { data, updatedAt, error: null };
+  } catch (error: unknown) {
+    console.error('Error fetching plugin data:', error);
+    return { data: {}, updatedAt: {}, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Replace the stored data of one plugin for a user
+ * Needs the service account: plugin data is not writable from the browser.
+ */
+export async function savePluginData(
+  username: string,
+  pluginId: string,
+  values: PluginDataValues
+): Promise<{ data: PluginDataValues | null; error: string | null }> {
+  const usernameLower = username.toLowerCase();
+
+  if (!isFirebaseConfigured) {
+    const userData = localPluginData.get(usernameLower) ?? new Map<string, { values: PluginDataValues; updatedAt: Date }>();
+    userData.set(pluginId, { values, updatedAt: new Date() });
+    localPluginData.set(usernameLower, userData);
+    return { data: values, error: null };
+  }
+
+  try {
+    const headers = await getFirestoreHeaders();
+    if (!headers.Authorization) {
+      return { data: null, error: 'Plugin data writes need FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY' };
+    }
+
+    const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/configs/${usernameLower}/pluginData/${encodeURIComponent(pluginId)}`;
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({
+        fields: {
+          values: toFirestoreValue(values),
+          updatedAt: { timestampValue: new Date().toISOString() },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      return { data: null, error: `HTTP ${response.status}` };
+    }
+
+    return { data: values, error: null };
+  } catch (error: unknown) {
+    console.error('Error saving plugin data:', error);
+    return { data: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Request headers for the Firestore REST API, authorized as the service account when one is configured
+ */
+async function getFirestoreHeaders(): Promise<Record<string, string>> {
+  const token = await getServiceAccessToken();
+  return token
+    ? { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` }
+    : { 'Content-Type': 'application/json' };
+}
+
+/**
+ * Get an OAuth access token for the service account (cached until shortly before it expires)
+ * Signs a JWT with the account's private key and exchanges it at Google's token endpoint.
+ */
+async function getServiceAccessToken(): Promise<string | null> {
+  if (!FIREBASE_CLIENT_EMAIL || !FIREBASE_PRIVATE_KEY) return null;
+  if (serviceAccessToken && serviceAccessToken.expiresAt > Date.now() + 60_000) {
+    return serviceAccessToken.token;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+    iss: FIREBASE_CLIENT_EMAIL,
+    scope: 'https://www.googleapis.com/auth/datastore',
+    aud: 'https://oauth2.googleapis.com/token',
+    iat: now,
+    exp: now + 3600,
+  })}`;
+
+  const pem = FIREBASE_PRIVATE_KEY.replace(/-----[A-Z ]+-----/g, '').replace(/\s/g, '');
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    Uint8Array.from(atob(pem), (char) => char.charCodeAt(0)),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(unsigned));
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsigned}.${toBase64Url(new Uint8Array(signature))}`,
+    }),
+  });
+  if (!response.ok) {
+    console.error('Service account token request failed:', response.status);
+    return null;
+  }
+
+  const { access_token, expires_in } = await response.json() as { access_token: string; expires_in: number };
+  serviceAccessToken = { token: access_token, expiresAt: Date.now() + expires_in * 1000 };
+  return access_token;
+}
+
+/**
+ * Base64url-encode bytes (for JWTs)
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Convert a JavaScript value to Firestore REST API value format
+ */
+function toFirestoreValue(value: PluginDataValue): Record<string, unknown> {
+  if (value === null) return { nullValue: null };
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toFirestoreValue) } };
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    fields[key] = toFirestoreValue(item);
+  }
+  return { mapValue: { fields } };
+}
+
 /**
  * Convert Firestore REST API document format to plain object
  */
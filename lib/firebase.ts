@@ -28,9 +28,15 @@ import {
   query,
   where,
   getDocs,
+  orderBy,
+  runTransaction,
   Timestamp,
+  writeBatch,
   Firestore
 } from 'firebase/firestore';
+import { Plugin, PluginRating, PluginVersion, UserRole } from './types';
+import { applyPluginRating } from './plugin-marketplace';
+import { comparePluginVersions } from './plugin-versions';
 
 // Firebase configuration from environment variables with fallbacks
 const firebaseConfig = {
@@ -311,3 +317,295 @@ export async function getPlugin(pluginId: string) {
     return { data: null, error: error.message };
   }
 }
+
+/**
+ * Get every version of a plugin (including drafts and pending ones), newest first
+ */
+export async function getPluginVersions(pluginId: string): Promise<{ data: PluginVersion[]; error: string | null }> {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { data: [], error: message };
+  }
+  try {
+    const snapshot = await getDocs(collection(db, 'plugins', pluginId, 'versions'));
+    const versions = snapshot.docs
+      .map(versionDoc => ({ ...versionDoc.data(), version: versionDoc.id }) as PluginVersion)
+      .sort((a, b) => comparePluginVersions(b.version, a.version));
+    return { data: versions, error: null };
+  } catch (error: unknown) {
+    console.error('Error fetching plugin versions:', error);
+    return { data: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Save a plugin version as a draft or submit it for review
+ *
+ * Stores the version in plugins/{pluginId}/versions/{version}. Drafts and
+ * rejected versions can be saved again under the same number; pending and
+ * approved versions can't be changed. A plugin has at most one version in
+ * review at a time. The version only goes live once a reviewer approves it
+ * (see reviewPluginVersion).
+ */
+export async function submitPluginVersion(
+  pluginId: string,
+  pluginVersion: PluginVersion,
+  status: 'draft' | 'pending'
+) {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { success: false, error: message };
+  }
+  try {
+    const pluginRef = doc(db, 'plugins', pluginId);
+    const versionRef = doc(db, 'plugins', pluginId, 'versions', pluginVersion.version);
+
+    // Versions saved before reviews have no status and count as approved
+    const existing = await getDoc(versionRef);
+    const existingStatus = existing.data()?.status ?? 'approved';
+    if (existing.exists() && existingStatus !== 'draft' && existingStatus !== 'rejected') {
+      return { success: false, error: `Version ${pluginVersion.version} is already ${existingStatus}` };
+    }
+
+    const pendingVersion = (await getDoc(pluginRef)).data()?.pendingVersion;
+    if (status === 'pending' && pendingVersion && pendingVersion !== pluginVersion.version) {
+      return { success: false, error: `Version ${pendingVersion} is already waiting for review` };
+    }
+
+    const savedAt = Timestamp.now();
+    const batch = writeBatch(db);
+    batch.set(versionRef, { ...pluginVersion, status, createdAt: savedAt });
+    if (status === 'pending') {
+      batch.update(pluginRef, { pendingVersion: pluginVersion.version, updatedAt: savedAt });
+    }
+    await batch.commit();
+
+    return { success: true, error: null };
+  } catch (error: unknown) {
+    console.error('Error saving plugin version:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Submit a draft for review, or withdraw a pending version back to draft
+ */
+export async function setPluginVersionStatus(pluginId: string, version: string, status: 'draft' | 'pending') {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { success: false, error: message };
+  }
+  try {
+    const pluginRef = doc(db, 'plugins', pluginId);
+    const pendingVersion = (await getDoc(pluginRef)).data()?.pendingVersion;
+    if (status === 'pending' && pendingVersion && pendingVersion !== version) {
+      return { success: false, error: `Version ${pendingVersion} is already waiting for review` };
+    }
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'plugins', pluginId, 'versions', version), { status });
+    batch.update(pluginRef, { pendingVersion: status === 'pending' ? version : null, updatedAt: Timestamp.now() });
+    await batch.commit();
+
+    return { success: true, error: null };
+  } catch (error: unknown) {
+    console.error('Error updating plugin version:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Approve or reject a pending plugin version (reviewers only)
+ *
+ * An approved version that is newer than the plugin's current one becomes the
+ * plugin's latest version: the plugin document mirrors its code and schema, and
+ * the plugin is listed in the marketplace.
+ */
+export async function reviewPluginVersion(
+  pluginId: string,
+  pluginVersion: PluginVersion,
+  decision: 'approved' | 'rejected',
+  reviewNotes: string,
+  reviewerId: string
+) {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { success: false, error: message };
+  }
+  try {
+    const pluginRef = doc(db, 'plugins', pluginId);
+    const plugin = (await getDoc(pluginRef)).data();
+    if (!plugin) {
+      return { success: false, error: 'Plugin not found' };
+    }
+
+    const reviewedAt = Timestamp.now();
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'plugins', pluginId, 'versions', pluginVersion.version), {
+      status: decision,
+      reviewNotes,
+      reviewedBy: reviewerId,
+      reviewedAt,
+    });
+
+    const isLatest = !plugin.approved || comparePluginVersions(pluginVersion.version, plugin.version) > 0;
+    batch.update(pluginRef, {
+      pendingVersion: null,
+      updatedAt: reviewedAt,
+      ...(decision === 'approved' && isLatest ? {
+        approved: true,
+        version: pluginVersion.version,
+        code: pluginVersion.code,
+        configSchema: pluginVersion.configSchema,
+        defaultSettings: pluginVersion.defaultSettings ?? {},
+        changelog: pluginVersion.changelog,
+      } : {}),
+    });
+    await batch.commit();
+
+    return { success: true, error: null };
+  } catch (error: unknown) {
+    console.error('Error reviewing plugin version:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Get every plugin version waiting for review, oldest submission first
+ */
+export async function getPendingPluginReviews(): Promise<{
+  data: Array<{ plugin: Plugin; version: PluginVersion }>;
+  error: string | null;
+}> {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { data: [], error: message };
+  }
+  try {
+    const firestore = db;
+    const snapshot = await getDocs(query(collection(firestore, 'plugins'), where('pendingVersion', '!=', null)));
+    const reviews = await Promise.all(snapshot.docs.map(async (pluginDoc) => {
+      const plugin = { id: pluginDoc.id, ...pluginDoc.data() } as Plugin;
+      const versionDoc = await getDoc(doc(firestore, 'plugins', pluginDoc.id, 'versions', String(plugin.pendingVersion)));
+      return versionDoc.exists()
+        ? { plugin, version: { ...versionDoc.data(), version: versionDoc.id } as PluginVersion }
+        : null;
+    }));
+
+    return {
+      data: reviews
+        .filter((review): review is { plugin: Plugin; version: PluginVersion } => review !== null)
+        .sort((a, b) => toMillis(a.version.createdAt) - toMillis(b.version.createdAt)),
+      error: null,
+    };
+  } catch (error: unknown) {
+    console.error('Error fetching pending reviews:', error);
+    return { data: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Get the roles granted to a user (roles/{userId})
+ */
+export async function getUserRoles(userId: string): Promise<{ data: UserRole[]; error: string | null }> {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { data: [], error: message };
+  }
+  try {
+    const rolesDoc = await getDoc(doc(db, 'roles', userId));
+    const roles: unknown = rolesDoc.data()?.roles;
+    return {
+      data: Array.isArray(roles) ? roles.filter((role): role is UserRole => role === 'reviewer' || role === 'admin') : [],
+      error: null,
+    };
+  } catch (error: unknown) {
+    console.error('Error fetching user roles:', error);
+    return { data: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Get the ratings and reviews of a plugin, most recently edited first
+ */
+export async function getPluginRatings(pluginId: string): Promise<{ data: PluginRating[]; error: string | null }> {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { data: [], error: message };
+  }
+  try {
+    const snapshot = await getDocs(query(collection(db, 'plugins', pluginId, 'ratings'), orderBy('updatedAt', 'desc')));
+    return {
+      data: snapshot.docs.map(ratingDoc => ({ ...ratingDoc.data(), userId: ratingDoc.id }) as PluginRating),
+      error: null,
+    };
+  } catch (error: unknown) {
+    console.error('Error fetching plugin ratings:', error);
+    return { data: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Rate a plugin, or change the user's earlier rating
+ *
+ * The rating and the plugin's totals (ratingCount, ratingTotal, rating) are
+ * written in one transaction, so the average always matches the ratings.
+ */
+export async function ratePlugin(pluginId: string, pluginRating: PluginRating) {
+  if (!db) {
+    const message = isFirebaseConfigured 
+      ? 'Firestore not initialized (server-side)' 
+      : 'Firebase not configured - running in demo mode';
+    return { success: false, error: message };
+  }
+  try {
+    const firestore = db;
+    await runTransaction(firestore, async (transaction) => {
+      const pluginRef = doc(firestore, 'plugins', pluginId);
+      const ratingRef = doc(firestore, 'plugins', pluginId, 'ratings', pluginRating.userId);
+      const pluginDoc = await transaction.get(pluginRef);
+      const ratingDoc = await transaction.get(ratingRef);
+
+      const plugin = pluginDoc.data();
+      if (!plugin) throw new Error('Plugin not found');
+      if (plugin.authorId === pluginRating.userId) throw new Error("You can't rate your own plugin");
+
+      const ratedAt = Timestamp.now();
+      const previous = ratingDoc.data();
+      transaction.set(ratingRef, {
+        ...pluginRating,
+        createdAt: previous?.createdAt ?? ratedAt,
+        updatedAt: ratedAt,
+      });
+      transaction.update(pluginRef, applyPluginRating(plugin, previous ? previous.rating : null, pluginRating.rating));
+    });
+
+    return { success: true, error: null };
+  } catch (error: unknown) {
+    console.error('Error rating plugin:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Firestore timestamps (or dates) as milliseconds, for sorting
+ */
+function toMillis(value: unknown): number {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return 0;
+}
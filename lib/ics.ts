@@ -0,0 +1,461 @@
+/**
+ * iCalendar (ICS) Support for Remainders
+ *
+ * Parses ICS files uploaded in the dashboard into calendar entries (see
+ * parseIcsCalendar; recurrences are expanded by lib/recurrence.ts), and
+ * builds the subscribable calendar served at /api/[username]/calendar.ics:
+ * the user's birthday, life milestones (every 1000th week, 25/50/75% of life),
+ * year progress milestones and their countdown target. All events are all-day,
+ * so the feed needs no timezone definitions.
+ *
+ * UIDs only depend on the username and what the event marks (not its date), so
+ * calendar clients move an event when the user changes their config instead of
+ * adding a duplicate.
+ */
+
+import { CalendarDate, CalendarEntry, CalendarFeedEvent, CountdownConfig } from '@/lib/types';
+import {
+  MAX_CALENDAR_ENTRIES,
+  calculateLifePercentage,
+  calculateYearProgress,
+  convertWallClock,
+  formatCalendarDate,
+  formatLifeExpectancy,
+  fromDayNumber,
+  getDateInTimezone,
+  getLifeGridTotal,
+  parseCalendarDate,
+  toDayNumber,
+  validateCountdown,
+} from '@/lib/calcs';
+import { validateRecurrenceRule } from '@/lib/recurrence';
+
+/** Every nth week of life gets a milestone */
+export const WEEK_MILESTONE_STEP = 1000;
+
+/** Percent of life milestones */
+export const LIFE_PERCENT_MILESTONES = [25, 50, 75];
+
+/** Percent of year milestones (for this year and next) */
+export const YEAR_PERCENT_MILESTONES = [25, 50, 75];
+
+// Domain part of every event UID
+const UID_DOMAIN = 'remainders';
+
+// Longest content line allowed by RFC 5545, in octets
+const MAX_LINE_OCTETS = 75;
+
+// Longest imported event title
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * A content line split into name, parameters and value
+ */
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * A DATE or DATE-TIME value; times are HH:MM wall-clock times in `timezone`
+ * (floating times have none)
+ */
+interface IcsDateValue {
+  date: CalendarDate;
+  time?: string;
+  timezone?: string;
+}
+
+/**
+ * Parses an ICS file into calendar entries
+ *
+ * Reads every VEVENT: all-day and timed events, multi-day events, RRULE
+ * recurrence and EXDATE exclusions. Timed events keep the timezone of their
+ * start (TZID or UTC), with DTEND and EXDATE moved into it, so recurrences are
+ * expanded on the event's own days (see expandCalendarEntries). Floating times
+ * are taken as the user's.
+ * Cancelled events, events without a start date and single events that ended
+ * before `since` are skipped, as is everything past MAX_CALENDAR_ENTRIES.
+ *
+ * @param text - Contents of the ICS file
+ * @param timezone - The user's IANA timezone (for values next to a floating start)
+ * @param since - Optional first day worth keeping single events for
+ * @returns Entries and the number of skipped events, or an error if the file is not a calendar
+ */
+export function parseIcsCalendar(
+  text: string,
+  timezone: string,
+  since?: CalendarDate
+): { data: { entries: CalendarEntry[]; skipped: number } | null; error: string | null } {
+  // Unfold continuation lines (CRLF or LF followed by a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    return { data: null, error: 'Not an iCalendar file (missing BEGIN:VCALENDAR)' };
+  }
+
+  const entries: CalendarEntry[] = [];
+  const ids = new Set<string>();
+  let skipped = 0;
+
+  // Properties of the current VEVENT; nested components (e.g. VALARM) are ignored
+  let event: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (event) nestedDepth++;
+      else if (property.value.toUpperCase() === 'VEVENT') event = [];
+    } else if (property.name === 'END') {
+      if (event && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (event && property.value.toUpperCase() === 'VEVENT') {
+        const entry = parseEvent(event, timezone, ids.size);
+        event = null;
+
+        const lastDate = entry ? parseCalendarDate(entry.endDate || entry.date) : null;
+        const keep = !!entry && !!lastDate && !ids.has(entry.id) &&
+          (!since || !!entry.rrule || toDayNumber(lastDate) >= toDayNumber(since));
+        if (!entry || !keep || entries.length >= MAX_CALENDAR_ENTRIES) {
+          skipped++;
+          continue;
+        }
+
+        ids.add(entry.id);
+        entries.push(entry);
+      }
+    } else if (event && nestedDepth === 0) {
+      event.push(property);
+    }
+  }
+
+  return { data: { entries, skipped }, error: null };
+}
+
+/**
+ * Turns the properties of one VEVENT into a calendar entry (null if it is unusable)
+ */
+function parseEvent(properties: IcsProperty[], timezone: string, index: number): CalendarEntry | null {
+  const get = (name: string) => properties.find((property) => property.name === name);
+
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const dtstart = get('DTSTART');
+  const start = dtstart ? parseDateValue(dtstart) : null;
+  if (!start) return null;
+
+  // DTEND and EXDATE values are read in the start's timezone
+  const eventTimezone = start.timezone || timezone;
+
+  // A changed instance of a recurring event shares its UID, so it gets its own ID
+  const uid = get('UID')?.value || `event-${index}`;
+  const recurrenceId = get('RECURRENCE-ID')?.value;
+  const title = unescapeText(get('SUMMARY')?.value || '').trim().slice(0, MAX_TITLE_LENGTH);
+
+  const entry: CalendarEntry = {
+    id: recurrenceId ? `${uid}/${recurrenceId}` : uid,
+    title: title || 'Untitled event',
+    date: formatCalendarDate(start.date),
+    allDay: !start.time,
+  };
+  if (start.time) entry.time = start.time;
+  if (start.timezone) entry.timezone = start.timezone;
+
+  // DTEND is exclusive: an all-day event ends the day before, a timed event at midnight the day before
+  const dtend = get('DTEND');
+  const end = dtend ? parseDateValue(dtend) : null;
+  if (end) {
+    const { date: endDate, time: endTime } = convertDateValue(end, eventTimezone);
+    const lastDay = toDayNumber(endDate) - (!endTime || endTime === '00:00' ? 1 : 0);
+    if (lastDay > toDayNumber(start.date)) entry.endDate = formatCalendarDate(fromDayNumber(lastDay));
+  }
+
+  const rrule = get('RRULE')?.value;
+  if (rrule && !recurrenceId && validateRecurrenceRule(rrule).valid) {
+    entry.rrule = rrule;
+
+    const exdates = properties
+      .filter((property) => property.name === 'EXDATE')
+      .flatMap((property) => property.value.split(',').map((value) => parseDateValue({ ...property, value })))
+      .filter((date): date is IcsDateValue => !!date)
+      .map((date) => formatCalendarDate(convertDateValue(date, eventTimezone).date));
+    if (exdates.length > 0) entry.exdates = Array.from(new Set(exdates));
+  }
+
+  return entry;
+}
+
+/**
+ * Splits a content line into name, parameters and value
+ */
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...value] = part.split('=');
+    params[key.trim().toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.trim().toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+/**
+ * Reads a DATE or DATE-TIME value as written: UTC ('Z') times in 'UTC', others in their TZID
+ */
+function parseDateValue(property: IcsProperty): IcsDateValue | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, , utc] = match;
+  const date = parseCalendarDate(`${year}-${month}-${day}`);
+  if (!date) return null;
+  if (hour === undefined || property.params.VALUE === 'DATE') return { date };
+
+  const time = `${hour}:${minute}`;
+  const timezone = utc ? 'UTC' : property.params.TZID;
+  if (!timezone) return { date, time };
+
+  try {
+    getDateInTimezone(timezone);
+    return { date, time, timezone };
+  } catch {
+    // Unknown (e.g. Windows) timezone names: treat the time as floating
+    return { date, time };
+  }
+}
+
+/**
+ * Moves a DATE-TIME value to another timezone (dates and floating times stay as they are)
+ */
+function convertDateValue(value: IcsDateValue, timezone: string): IcsDateValue {
+  if (!value.time || !value.timezone || value.timezone === timezone) return value;
+
+  try {
+    return { ...convertWallClock(value.date, value.time, value.timezone, timezone), timezone };
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Reverses TEXT escaping (\n, \,, \; and \\)
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Builds the events of a user's calendar feed
+ *
+ * Life events need a valid birth date and the countdown a valid config;
+ * otherwise they are left out.
+ *
+ * @param username - Owner of the feed (part of every UID)
+ * @param birthDate - Birth date in YYYY-MM-DD format
+ * @param lifeExpectancyYears - Expected lifespan in years (see resolveLifeExpectancyYears)
+ * @param countdown - The user's countdown, if any
+ * @param today - Current date in the user's timezone
+ * @returns Events sorted by date
+ */
+export function buildCalendarFeedEvents({
+  username,
+  birthDate,
+  lifeExpectancyYears,
+  countdown,
+  today,
+}: {
+  username: string;
+  birthDate?: string;
+  lifeExpectancyYears: number;
+  countdown?: CountdownConfig;
+  today: CalendarDate;
+}): CalendarFeedEvent[] {
+  const uid = (name: string) => `${username}-${name}@${UID_DOMAIN}`;
+  const events: CalendarFeedEvent[] = [];
+
+  const birth = parseCalendarDate(birthDate);
+  if (birth) {
+    // Feb 29 birthdays fall on Feb 28 in common years
+    const isLeapDay = birth.month === 2 && birth.day === 29;
+    events.push({
+      uid: uid('birthday'),
+      date: birth,
+      summary: 'Birthday',
+      rrule: isLeapDay ? 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1' : 'FREQ=YEARLY',
+    });
+
+    // Week n of life starts (n - 1) weeks after birth, the day the grid fills its nth dot
+    const totalWeeks = getLifeGridTotal(lifeExpectancyYears, 'weeks');
+    const weekStart = (week: number) => fromDayNumber(toDayNumber(birth) + (week - 1) * 7);
+
+    for (let week = WEEK_MILESTONE_STEP; week <= totalWeeks; week += WEEK_MILESTONE_STEP) {
+      events.push({
+        uid: uid(`week-${week}`),
+        date: weekStart(week),
+        summary: `Week ${week}`,
+        description: `Week ${week} of ${totalWeeks} (${calculateLifePercentage(week, totalWeeks)}% of ${formatLifeExpectancy(lifeExpectancyYears)} years)`,
+      });
+    }
+
+    for (const percent of LIFE_PERCENT_MILESTONES) {
+      const week = Math.ceil((totalWeeks * percent) / 100);
+      events.push({
+        uid: uid(`life-${percent}`),
+        date: weekStart(week),
+        summary: `${percent}% of life`,
+        description: `Week ${week} of ${totalWeeks} (${formatLifeExpectancy(lifeExpectancyYears)} years)`,
+      });
+    }
+  }
+
+  // Year milestones fall on the first day the wallpaper shows the percentage
+  for (const year of [today.year, today.year + 1]) {
+    const firstDay = toDayNumber({ year, month: 1, day: 1 });
+    for (const percent of YEAR_PERCENT_MILESTONES) {
+      for (let dayNumber = firstDay; fromDayNumber(dayNumber).year === year; dayNumber++) {
+        const date = fromDayNumber(dayNumber);
+        const progress = calculateYearProgress(date);
+        if (progress.percentage < percent) continue;
+
+        events.push({
+          uid: uid(`year-${year}-${percent}`),
+          date,
+          summary: `${percent}% of ${year}`,
+          description: `${progress.daysLeft} days left in ${year}`,
+        });
+        break;
+      }
+    }
+  }
+
+  if (countdown && validateCountdown(countdown).valid) {
+    const target = parseCalendarDate(countdown.targetDate);
+    if (target) {
+      events.push({
+        uid: uid('countdown'),
+        date: target,
+        summary: countdown.label || 'Countdown',
+        description: `Countdown from ${countdown.startDate}`,
+      });
+    }
+  }
+
+  return events.sort((a, b) => toDayNumber(a.date) - toDayNumber(b.date));
+}
+
+/**
+ * Serializes events as an iCalendar (RFC 5545) document
+ *
+ * @param name - Calendar name shown by clients
+ * @param events - Events to publish (see buildCalendarFeedEvents)
+ * @param updatedAt - When the events last changed (DTSTAMP); defaults to now
+ * @returns ICS text with CRLF line endings
+ */
+export function serializeCalendarFeed({
+  name,
+  events,
+  updatedAt,
+}: {
+  name: string;
+  events: CalendarFeedEvent[];
+  updatedAt?: Date | string | null;
+}): string {
+  const stampDate = updatedAt ? new Date(updatedAt) : new Date();
+  const stamp = formatTimestamp(Number.isNaN(stampDate.getTime()) ? new Date() : stampDate);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Remainders//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:P1D',
+    'X-PUBLISHED-TTL:P1D',
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(fromDayNumber(toDayNumber(event.date) + 1))}`
+    );
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Formats a calendar date as an iCalendar DATE (YYYYMMDD)
+ */
+function formatDate(date: CalendarDate): string {
+  return formatCalendarDate(date).replace(/-/g, '');
+}
+
+/**
+ * Formats an instant as an iCalendar UTC DATE-TIME (YYYYMMDDTHHMMSSZ)
+ */
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escapes a TEXT value (backslashes, commas, semicolons and newlines)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line longer than 75 octets onto continuation lines
+ * (CRLF + space), without splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
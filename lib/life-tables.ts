@@ -0,0 +1,85 @@
+/**
+ * Life Table Data for Remainders
+ * 
+ * Bundled period life expectancy at birth by country and sex, used when a user
+ * chooses to derive their life expectancy instead of entering a number of years.
+ * 
+ * Source: WHO Global Health Observatory, life expectancy at birth (2019 estimates),
+ * rounded to one decimal. Period values describe a person born in that year under
+ * that year's mortality rates - they are an estimate, not a prediction.
+ */
+
+import { LifeExpectancySex, LifeTableEntry } from './types';
+
+/**
+ * Array of supported countries with their life expectancy at birth (years)
+ * The global average comes first, then countries sorted by name
+ */
+export const LIFE_TABLE: LifeTableEntry[] = [
+  { country: 'WORLD', name: 'World average', male: 70.8, female: 75.9, both: 73.3 },
+  { country: 'AR', name: 'Argentina', male: 74.0, female: 80.1, both: 76.6 },
+  { country: 'AU', name: 'Australia', male: 81.3, female: 84.8, both: 83.0 },
+  { country: 'BD', name: 'Bangladesh', male: 72.6, female: 75.6, both: 74.3 },
+  { country: 'BR', name: 'Brazil', male: 72.4, female: 79.4, both: 75.9 },
+  { country: 'CA', name: 'Canada', male: 80.4, female: 84.1, both: 82.2 },
+  { country: 'CN', name: 'China', male: 74.7, female: 80.5, both: 77.4 },
+  { country: 'EG', name: 'Egypt', male: 69.6, female: 74.1, both: 71.8 },
+  { country: 'FR', name: 'France', male: 79.8, female: 85.1, both: 82.5 },
+  { country: 'DE', name: 'Germany', male: 78.7, female: 83.3, both: 81.7 },
+  { country: 'IN', name: 'India', male: 69.5, female: 72.2, both: 70.8 },
+  { country: 'ID', name: 'Indonesia', male: 69.4, female: 73.3, both: 71.3 },
+  { country: 'IT', name: 'Italy', male: 81.9, female: 85.0, both: 83.0 },
+  { country: 'JP', name: 'Japan', male: 81.5, female: 86.9, both: 84.3 },
+  { country: 'MX', name: 'Mexico', male: 73.1, female: 78.6, both: 76.0 },
+  { country: 'NL', name: 'Netherlands', male: 80.4, female: 83.1, both: 81.8 },
+  { country: 'NZ', name: 'New Zealand', male: 80.4, female: 83.5, both: 82.0 },
+  { country: 'NG', name: 'Nigeria', male: 62.6, female: 63.7, both: 62.6 },
+  { country: 'NO', name: 'Norway', male: 81.1, female: 84.1, both: 82.6 },
+  { country: 'PK', name: 'Pakistan', male: 64.6, female: 66.7, both: 65.6 },
+  { country: 'RU', name: 'Russia', male: 68.2, female: 78.0, both: 73.2 },
+  { country: 'SA', name: 'Saudi Arabia', male: 73.2, female: 76.2, both: 74.3 },
+  { country: 'SG', name: 'Singapore', male: 81.5, female: 85.9, both: 83.2 },
+  { country: 'ZA', name: 'South Africa', male: 62.2, female: 68.3, both: 65.3 },
+  { country: 'KR', name: 'South Korea', male: 80.3, female: 86.1, both: 83.3 },
+  { country: 'ES', name: 'Spain', male: 80.7, female: 85.7, both: 83.2 },
+  { country: 'SE', name: 'Sweden', male: 81.1, female: 84.1, both: 82.4 },
+  { country: 'CH', name: 'Switzerland', male: 81.8, female: 85.1, both: 83.4 },
+  { country: 'TR', name: 'Turkey', male: 75.9, female: 81.3, both: 78.6 },
+  { country: 'AE', name: 'United Arab Emirates', male: 75.7, female: 78.7, both: 76.1 },
+  { country: 'GB', name: 'United Kingdom', male: 79.8, female: 83.0, both: 81.4 },
+  { country: 'US', name: 'United States', male: 76.3, female: 80.7, both: 78.5 },
+];
+
+/**
+ * Country code used when a country is missing or unknown
+ */
+export const DEFAULT_LIFE_TABLE_COUNTRY = 'WORLD';
+
+/**
+ * Helper function to get a life table entry by country code
+ * @param country - ISO 3166-1 alpha-2 country code (case-insensitive)
+ * @returns The matching LifeTableEntry, or the world average if not found
+ */
+export function getLifeTableEntry(country?: string): LifeTableEntry {
+  const code = (country || DEFAULT_LIFE_TABLE_COUNTRY).toUpperCase();
+  return (
+    LIFE_TABLE.find((entry) => entry.country === code) ||
+    LIFE_TABLE.find((entry) => entry.country === DEFAULT_LIFE_TABLE_COUNTRY)!
+  );
+}
+
+/**
+ * Look up life expectancy at birth for a country and sex
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param sex - 'male', 'female' or 'other' (combined value)
+ * @returns Life expectancy in years
+ *
+ * @example
+ * lookupLifeExpectancy('JP', 'female') // Returns 86.9
+ */
+export function lookupLifeExpectancy(country?: string, sex: LifeExpectancySex = 'other'): number {
+  const entry = getLifeTableEntry(country);
+  if (sex === 'male') return entry.male;
+  if (sex === 'female') return entry.female;
+  return entry.both;
+}
@@ -0,0 +1,291 @@
+/**
+ * PDF Renderer for Remainders
+ *
+ * Turns a wallpaper scene into a single-page vector PDF for printing. Dots are
+ * drawn as round-capped zero-length strokes (a filled circle per the PDF spec)
+ * and text uses the standard Helvetica and Courier fonts, so no fonts are
+ * embedded and documents stay small. Shapes become PDF paths; images are not
+ * drawn (they only come from plugins, which posters don't run). Runs in both
+ * the edge and Node.js runtimes.
+ */
+
+import { SceneCircle, SceneShape, SceneText, WallpaperScene } from './types';
+import { TEXT_BASELINE_OFFSETS } from './scene';
+
+/**
+ * PDF user space unit: 72 points per inch
+ */
+const POINTS_PER_INCH = 72;
+
+/**
+ * Helvetica glyph widths (1/1000 em) for ASCII 32-126, from the standard AFM metrics
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/**
+ * Characters outside Latin-1 that exist in WinAnsiEncoding: [code, Helvetica width]
+ */
+const WIN_ANSI_EXTRAS: Record<string, [number, number]> = {
+  '€': [0x80, 556],
+  '…': [0x85, 1000],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+};
+
+type PdfFont = 'F1' | 'F2';
+
+/**
+ * Picks a standard font for a CSS font family: Courier for monospace, Helvetica otherwise
+ */
+function getFont(fontFamily: string): PdfFont {
+  return /mono|courier/i.test(fontFamily) ? 'F2' : 'F1';
+}
+
+/**
+ * Maps a character to its WinAnsi code, or null if it can't be encoded
+ */
+function toWinAnsi(char: string): number | null {
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char][0];
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return null;
+}
+
+/**
+ * Measures a string in em (1000 units = font size)
+ */
+function measureText(text: string, font: PdfFont): number {
+  let width = 0;
+  for (const char of text) {
+    const code = toWinAnsi(char) ?? 63; // '?'
+    if (font === 'F2') {
+      width += 600;
+    } else if (code >= 32 && code <= 126) {
+      width += HELVETICA_WIDTHS[code - 32];
+    } else {
+      width += WIN_ANSI_EXTRAS[char]?.[1] ?? 556;
+    }
+  }
+  return width / 1000;
+}
+
+/**
+ * Encodes a string as a PDF literal string (ASCII-only, WinAnsi codes as octal escapes)
+ */
+function pdfString(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = toWinAnsi(char) ?? 63; // '?'
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += String.fromCharCode(code);
+    } else {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    }
+  }
+  return `(${encoded})`;
+}
+
+/**
+ * Encodes a string as a UTF-16BE hex string (for document metadata)
+ */
+function pdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0');
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * Formats a number with at most 2 decimals
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Converts a CSS color (#rgb, #rrggbb or rgb()/rgba()) to PDF RGB components (0-1)
+ * Unknown colors fall back to gray.
+ */
+function parseColor(color: string): string {
+  const value = color.trim();
+  let rgb: number[] | null = null;
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    rgb = [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16));
+  }
+
+  const functional = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  if (functional) {
+    rgb = functional.slice(1, 4).map((channel) => Math.min(255, parseInt(channel, 10)));
+  }
+
+  return (rgb || [128, 128, 128]).map((channel) => num(channel / 255)).join(' ');
+}
+
+/**
+ * Name of the ExtGState for an opacity, registering it on first use
+ */
+function getOpacityState(opacity: number, opacityStates: Map<number, string>): string {
+  const rounded = Math.round(opacity * 100) / 100;
+  if (!opacityStates.has(rounded)) opacityStates.set(rounded, `GS${opacityStates.size}`);
+  return `/${opacityStates.get(rounded)} gs`;
+}
+
+/**
+ * Draws a shape in its own graphics state (y flipped like everything else)
+ */
+function renderShape(shape: SceneShape, height: number, opacityStates: Map<number, string>): string {
+  const ops = ['q'];
+  if (shape.opacity !== undefined && shape.opacity < 1) ops.push(getOpacityState(shape.opacity, opacityStates));
+  if (shape.fill) ops.push(`${parseColor(shape.fill)} rg`);
+  if (shape.stroke) {
+    ops.push(`${parseColor(shape.stroke)} RG ${num(shape.strokeWidth ?? 1)} w ${shape.lineCap === 'round' ? 1 : 0} J`);
+  }
+
+  for (const { command, values } of shape.path) {
+    const points = values.map((value, i) => num(i % 2 === 0 ? value : height - value)).join(' ');
+    ops.push(command === 'M' ? `${points} m` : command === 'L' ? `${points} l` : command === 'C' ? `${points} c` : 'h');
+  }
+
+  ops.push(shape.fill && shape.stroke ? 'B' : shape.fill ? 'f' : shape.stroke ? 'S' : 'n', 'Q');
+  return ops.join(' ');
+}
+
+/**
+ * Builds the content stream. Scene pixels are scaled to points with one `cm`;
+ * y is flipped by hand (PDF origin is bottom-left) so text stays upright.
+ */
+function renderContent(scene: WallpaperScene, scale: number, opacityStates: Map<number, string>): string {
+  const { width, height } = scene;
+  const ops: string[] = [
+    `${scale} 0 0 ${scale} 0 0 cm`,
+    `${parseColor(scene.background)} rg 0 0 ${num(width)} ${num(height)} re f`,
+    '1 J',
+  ];
+
+  // Same stacking as the other renderers (see WallpaperScene)
+  const shapes = scene.nodes.filter((node): node is SceneShape => node.type === 'shape');
+  for (const shape of shapes.filter((node) => node.behind)) {
+    ops.push(renderShape(shape, height, opacityStates));
+  }
+
+  let stroke = '';
+  let lineWidth = '';
+  for (const circle of scene.nodes.filter((node): node is SceneCircle => node.type === 'circle')) {
+    const color = parseColor(circle.fill);
+    const diameter = num(circle.r * 2);
+    const x = num(circle.cx);
+    const y = num(height - circle.cy);
+
+    if (circle.opacity !== undefined && circle.opacity < 1) {
+      ops.push(`q ${getOpacityState(circle.opacity, opacityStates)} ${color} RG ${diameter} w ${x} ${y} m ${x} ${y} l S Q`);
+      continue;
+    }
+
+    if (color !== stroke) {
+      ops.push(`${color} RG`);
+      stroke = color;
+    }
+    if (diameter !== lineWidth) {
+      ops.push(`${diameter} w`);
+      lineWidth = diameter;
+    }
+    ops.push(`${x} ${y} m ${x} ${y} l S`);
+  }
+
+  for (const shape of shapes.filter((node) => !node.behind)) {
+    ops.push(renderShape(shape, height, opacityStates));
+  }
+
+  for (const text of scene.nodes.filter((node): node is SceneText => node.type === 'text')) {
+    if (text.opacity !== undefined && text.opacity < 1) {
+      ops.push('q', getOpacityState(text.opacity, opacityStates), ...renderText(text, height), 'Q');
+    } else {
+      ops.push(...renderText(text, height));
+    }
+  }
+
+  return ops.join('\n');
+}
+
+function renderText(text: SceneText, height: number): string[] {
+  const font = getFont(text.fontFamily);
+  const gap = text.spanGap || 0;
+  const widths = text.spans.map((span) => measureText(span.text, font) * text.fontSize);
+  const totalWidth = widths.reduce((sum, spanWidth) => sum + spanWidth, 0) + gap * Math.max(0, text.spans.length - 1);
+
+  let x = text.align === 'center'
+    ? text.x - totalWidth / 2
+    : text.align === 'right'
+    ? text.x - totalWidth
+    : text.x;
+  const y = height - (text.y + text.fontSize * TEXT_BASELINE_OFFSETS[text.baseline]);
+
+  const ops: string[] = [];
+  text.spans.forEach((span, index) => {
+    ops.push(`BT /${font} ${num(text.fontSize)} Tf ${parseColor(span.color)} rg ${num(x)} ${num(y)} Td ${pdfString(span.text)} Tj ET`);
+    x += widths[index] + gap;
+  });
+  return ops;
+}
+
+/**
+ * Renders a wallpaper scene as a single-page PDF document
+ *
+ * @param scene - Scene built by one of the wallpaper or poster views
+ * @param options.dpi - Pixels per inch of the scene (page size = pixels / dpi inches)
+ * @param options.title - Optional document title (shown by PDF viewers)
+ * @returns PDF file contents (ASCII only, safe to send as a string body)
+ */
+export function renderSceneToPdf(scene: WallpaperScene, { dpi = POINTS_PER_INCH, title }: { dpi?: number; title?: string } = {}): string {
+  const scale = POINTS_PER_INCH / dpi;
+  const opacityStates = new Map<number, string>();
+  const content = renderContent(scene, scale, opacityStates);
+
+  const extGStates = Array.from(opacityStates.entries())
+    .map(([opacity, name]) => `/${name} << /CA ${num(opacity)} /ca ${num(opacity)} >>`)
+    .join(' ');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(scene.width * scale)} ${num(scene.height * scale)}] ` +
+      `/Resources << /Font << /F1 5 0 R /F2 6 0 R >> /ExtGState << ${extGStates} >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    `<< /Producer ${pdfTextString('Remainders')}${title ? ` /Title ${pdfTextString(title)}` : ''} >>`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+}
@@ -0,0 +1,83 @@
+/**
+ * Plugin Code Rules for Remainders
+ *
+ * What community plugin code may do: the globals it sees, how long a hook may
+ * run and the patterns it must not contain. Used by the server sandbox, the
+ * editor playground and the review checks, and copied into the plugin SDK
+ * (packages/plugin-sdk) so its bundler and test runner apply the same rules.
+ * Keep this module free of imports.
+ */
+
+/**
+ * Maximum execution time for a single plugin (milliseconds)
+ */
+export const PLUGIN_TIMEOUT_MS = 500;
+
+/**
+ * Allowlisted global APIs that plugins can access
+ * Prevents access to dangerous APIs like fetch, eval, etc.
+ */
+export const ALLOWED_GLOBALS = {
+  Math,
+  Date,
+  JSON,
+  String,
+  Number,
+  Array,
+  Object,
+  Boolean,
+  Error,
+  parseInt,
+  parseFloat,
+  isNaN,
+  isFinite,
+  console: {
+    log: (...args: any[]) => console.log('[Plugin]', ...args),
+    error: (...args: any[]) => console.error('[Plugin]', ...args),
+  }
+};
+
+/**
+ * Validate plugin code for security risks
+ */
+export function validatePluginCode(code: string): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  
+  // Check for dangerous patterns
+  const dangerousPatterns = [
+    { pattern: /eval\s*\(/gi, message: 'eval() is not allowed' },
+    { pattern: /Function\s*\(/gi, message: 'Function constructor is not allowed' },
+    { pattern: /import\s+/gi, message: 'import statements are not allowed' },
+    { pattern: /require\s*\(/gi, message: 'require() is not allowed' },
+    { pattern: /process\./gi, message: 'process access is not allowed' },
+    { pattern: /global\./gi, message: 'global access is not allowed' },
+    { pattern: /fetch\s*\(/gi, message: 'fetch() is not allowed' },
+    { pattern: /XMLHttpRequest/gi, message: 'XMLHttpRequest is not allowed' },
+    { pattern: /__dirname/gi, message: '__dirname is not allowed' },
+    { pattern: /__filename/gi, message: '__filename is not allowed' },
+  ];
+
+  for (const { pattern, message } of dangerousPatterns) {
+    if (pattern.test(code)) {
+      errors.push(message);
+    }
+  }
+
+  // Check code length (prevent massive plugins)
+  if (code.length > 50000) {
+    errors.push('Plugin code exceeds maximum length (50KB)');
+  }
+
+  // Check for the plugin object and at least one hook
+  if (!/const\s+plugin\s*=/.test(code)) {
+    errors.push('Plugin code must define const plugin = { ... }');
+  }
+  if (!/\b(overrideDate|calculate|render|decorate|execute)\s*[:(]/.test(code)) {
+    errors.push('Plugin must define at least one hook: overrideDate(), calculate(), render(), decorate() or execute()');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,390 @@
+/**
+ * Plugin Config Schemas for Remainders
+ *
+ * Plugins describe their settings with a config schema (see PluginConfigSchema
+ * in types.ts): strings, numbers, booleans, colors, dates, nested objects and
+ * arrays, with fields that only apply when a sibling setting has a given value.
+ *
+ * The same rules are used everywhere a config is touched: the submission page
+ * checks the schema, the dashboard generates its settings form from it and
+ * validates before saving, and processPlugins validates again (with defaults
+ * merged in) before running a plugin's hooks.
+ */
+
+import { PluginConfigSchema, PluginSettingSchema, PluginSettingType } from './types';
+import { parseCalendarDate } from './calcs';
+
+const SETTING_TYPES: PluginSettingType[] = ['string', 'number', 'boolean', 'color', 'date', 'object', 'array'];
+
+/**
+ * Deepest nesting of object and array settings in a schema
+ */
+const MAX_SCHEMA_DEPTH = 4;
+
+/**
+ * Hex colors: #rgb, #rrggbb or #rrggbbaa
+ */
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Name of a setting in error messages
+ */
+function settingName(path: string, key: string, setting: PluginSettingSchema): string {
+  const label = setting.label || key;
+  return path ? `${path} > ${label}` : label;
+}
+
+/**
+ * Checks whether a setting applies given its sibling values (showIf)
+ * Hidden settings are neither shown in the settings form nor validated.
+ */
+export function isSettingShown(setting: PluginSettingSchema, siblings: Record<string, unknown>): boolean {
+  if (!setting.showIf) return true;
+
+  const { setting: key, equals } = setting.showIf;
+  const expected = Array.isArray(equals) ? equals : [equals];
+  return expected.some((value) => value === siblings[key]);
+}
+
+/**
+ * Checks a schema submitted with a plugin
+ *
+ * @param schema - Parsed configSchema (from the submission form or Firestore)
+ * @returns Validation result with one message per problem
+ *
+ * @example
+ * validateConfigSchema({ size: { type: 'number', min: 2, max: 1 } })
+ * // Returns { valid: false, errors: ['size: min must not be greater than max'] }
+ */
+export function validateConfigSchema(schema: unknown): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  const checkSettings = (settings: unknown, path: string, depth: number) => {
+    if (!isPlainObject(settings)) {
+      errors.push(`${path || 'Config schema'}: must be an object of settings`);
+      return;
+    }
+
+    for (const [key, setting] of Object.entries(settings)) {
+      const name = path ? `${path}.${key}` : key;
+      if (!isPlainObject(setting)) {
+        errors.push(`${name}: must be an object with a type`);
+        continue;
+      }
+      checkSetting(setting, name, depth);
+
+      const showIf = setting.showIf;
+      if (showIf !== undefined) {
+        if (!isPlainObject(showIf) || typeof showIf.setting !== 'string' || showIf.equals === undefined) {
+          errors.push(`${name}: showIf must be { setting, equals }`);
+        } else if (showIf.setting === key || !(showIf.setting in settings)) {
+          errors.push(`${name}: showIf must refer to another setting at the same level`);
+        }
+      }
+    }
+  };
+
+  const checkSetting = (setting: Record<string, unknown>, name: string, depth: number) => {
+    const errorCount = errors.length;
+    const type = setting.type as PluginSettingType;
+    if (!SETTING_TYPES.includes(type)) {
+      errors.push(`${name}: type must be one of ${SETTING_TYPES.join(', ')}`);
+      return;
+    }
+
+    if (setting.enum !== undefined) {
+      const valid = Array.isArray(setting.enum) && setting.enum.length > 0 &&
+        setting.enum.every((option) => typeof option === (type === 'number' ? 'number' : 'string'));
+      if ((type !== 'string' && type !== 'number') || !valid) {
+        errors.push(`${name}: enum must be a non-empty list of ${type === 'number' ? 'numbers' : 'strings'}`);
+      }
+    }
+
+    const { min, max } = setting;
+    const bound = (value: unknown) =>
+      type === 'date' ? parseCalendarDate(typeof value === 'string' ? value : undefined) !== null : Number.isFinite(value);
+    if ((min !== undefined && !bound(min)) || (max !== undefined && !bound(max))) {
+      errors.push(`${name}: min and max must be ${type === 'date' ? 'dates in YYYY-MM-DD format' : 'numbers'}`);
+    } else if (min !== undefined && max !== undefined && (min as number | string) > (max as number | string)) {
+      errors.push(`${name}: min must not be greater than max`);
+    }
+
+    if (type === 'object' || type === 'array') {
+      if (depth >= MAX_SCHEMA_DEPTH) {
+        errors.push(`${name}: settings can be nested at most ${MAX_SCHEMA_DEPTH} levels`);
+        return;
+      }
+      if (type === 'object') {
+        checkSettings(setting.properties, `${name}.properties`, depth + 1);
+      } else if (!isPlainObject(setting.items)) {
+        errors.push(`${name}: array settings need an items schema`);
+      } else {
+        checkSetting(setting.items, `${name}.items`, depth + 1);
+      }
+    }
+
+    // Defaults must pass the setting's own rules
+    if (setting.default !== undefined && errors.length === errorCount) {
+      validateValue(setting as unknown as PluginSettingSchema, setting.default, `${name}: default`, errors);
+    }
+  };
+
+  checkSettings(schema, '', 0);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Default value of one setting (a copy; also used for new array items)
+ * Object settings without a default are built from their properties' defaults.
+ */
+export function getSettingDefault(setting: PluginSettingSchema): unknown {
+  if (setting.default !== undefined) {
+    return structuredClone(setting.default);
+  }
+  if (setting.type === 'object' && setting.properties) {
+    return getSchemaDefaults(setting.properties);
+  }
+  return undefined;
+}
+
+/**
+ * Collects the default value of every setting in a schema
+ *
+ * @example
+ * getSchemaDefaults({ position: { type: 'string', default: 'top' }, note: { type: 'string' } })
+ * // Returns { position: 'top' }
+ */
+export function getSchemaDefaults(schema: PluginConfigSchema | undefined): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  for (const [key, setting] of Object.entries(schema || {})) {
+    const value = getSettingDefault(setting);
+    if (value !== undefined) {
+      defaults[key] = value;
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Fills unset values (undefined or null) with their defaults, recursing into
+ * objects and array items. Keys the schema doesn't know are kept.
+ */
+function mergeSettingDefaults(setting: PluginSettingSchema, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return getSettingDefault(setting);
+  }
+  if (setting.type === 'object' && setting.properties && isPlainObject(value)) {
+    return mergeDefaults(setting.properties, value);
+  }
+  if (setting.type === 'array' && setting.items && Array.isArray(value)) {
+    const items = setting.items;
+    return value.map((item) => mergeSettingDefaults(items, item));
+  }
+  return value;
+}
+
+function mergeDefaults(schema: PluginConfigSchema, config: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...config };
+  for (const [key, setting] of Object.entries(schema)) {
+    const value = mergeSettingDefaults(setting, config[key]);
+    if (value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Validates one value against its setting; messages are added to errors
+ */
+function validateValue(setting: PluginSettingSchema, value: unknown, name: string, errors: string[]): void {
+  if (value === undefined || value === null || (setting.required && value === '')) {
+    if (setting.required) errors.push(`${name} is required`);
+    return;
+  }
+
+  switch (setting.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${name} must be text`);
+      } else if (setting.maxLength !== undefined && value.length > setting.maxLength) {
+        errors.push(`${name} must be at most ${setting.maxLength} characters`);
+      } else if (setting.enum && !setting.enum.includes(value)) {
+        errors.push(`${name} must be one of ${setting.enum.join(', ')}`);
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${name} must be a number`);
+      } else if (typeof setting.min === 'number' && value < setting.min) {
+        errors.push(`${name} must be at least ${setting.min}`);
+      } else if (typeof setting.max === 'number' && value > setting.max) {
+        errors.push(`${name} must be at most ${setting.max}`);
+      } else if (setting.enum && !setting.enum.includes(value)) {
+        errors.push(`${name} must be one of ${setting.enum.join(', ')}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${name} must be on or off`);
+      break;
+
+    case 'color':
+      if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+        errors.push(`${name} must be a hex color such as #FF6B35`);
+      }
+      break;
+
+    case 'date':
+      // YYYY-MM-DD strings compare in calendar order
+      if (typeof value !== 'string' || !parseCalendarDate(value)) {
+        errors.push(`${name} must be a date in YYYY-MM-DD format`);
+      } else if (typeof setting.min === 'string' && value < setting.min) {
+        errors.push(`${name} must be on or after ${setting.min}`);
+      } else if (typeof setting.max === 'string' && value > setting.max) {
+        errors.push(`${name} must be on or before ${setting.max}`);
+      }
+      break;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        errors.push(`${name} must be a group of settings`);
+      } else {
+        validateSettings(setting.properties || {}, value, name, errors);
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${name} must be a list`);
+        break;
+      }
+      if (setting.minItems !== undefined && value.length < setting.minItems) {
+        errors.push(`${name} needs at least ${setting.minItems} items`);
+      }
+      if (setting.maxItems !== undefined && value.length > setting.maxItems) {
+        errors.push(`${name} can have at most ${setting.maxItems} items`);
+      }
+      if (setting.items) {
+        const items = setting.items;
+        value.forEach((item, index) => validateValue(items, item, `${name} #${index + 1}`, errors));
+      }
+      break;
+  }
+}
+
+/**
+ * Validates every shown setting of a (defaults-merged) config
+ * Unknown setting types are skipped so older stored schemas keep working.
+ */
+function validateSettings(schema: PluginConfigSchema, config: Record<string, unknown>, path: string, errors: string[]): void {
+  for (const [key, setting] of Object.entries(schema)) {
+    if (!SETTING_TYPES.includes(setting.type) || !isSettingShown(setting, config)) continue;
+    validateValue(setting, config[key], settingName(path, key, setting), errors);
+  }
+}
+
+/**
+ * Merges a plugin's defaults into a user's config and validates the result
+ *
+ * Unset values (including settings added in a newer plugin version) get their
+ * defaults; settings hidden by showIf are not validated.
+ *
+ * @param schema - Plugin.configSchema
+ * @param config - PluginConfig.config as stored
+ * @returns The config with defaults merged in, and one message per invalid setting
+ *
+ * @example
+ * resolvePluginConfig(quotesPlugin.configSchema, { opacity: 3 })
+ * // Returns { data: { opacity: 3, position: 'bottom' }, errors: ['Opacity must be at most 1'] }
+ */
+export function resolvePluginConfig(
+  schema: PluginConfigSchema | undefined,
+  config: Record<string, unknown> | undefined
+): { data: Record<string, unknown>; errors: string[] } {
+  const data = mergeDefaults(schema || {}, isPlainObject(config) ? config : {});
+  const errors: string[] = [];
+  validateSettings(schema || {}, data, '', errors);
+
+  return { data, errors };
+}
+
+/**
+ * Validates a user's plugin config (with defaults merged in) before it is saved
+ *
+ * @example
+ * validatePluginConfig(habitTrackerPlugin.configSchema, { habits: [{ name: '', color: 'green' }] })
+ * // Returns { valid: false, errors: ['Habits to Track #1 > Habit Name is required', 'Habits to Track #1 > Color must be a hex color such as #FF6B35'] }
+ */
+export function validatePluginConfig(
+  schema: PluginConfigSchema | undefined,
+  config: Record<string, unknown> | undefined
+): { valid: boolean; errors: string[] } {
+  const { errors } = resolvePluginConfig(schema, config);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Moves a user's config from one plugin version's schema to another's
+ *
+ * Runs when a user updates a plugin (see lib/plugin-versions.ts):
+ * - settings the new version removed are dropped
+ * - settings whose type changed, or whose value the new version no longer
+ *   accepts (e.g. a removed dropdown option), are reset to the new default
+ * - new settings get their defaults
+ * Settings the old schema didn't know are kept, like resolvePluginConfig does.
+ *
+ * @param fromSchema - Schema of the installed version
+ * @param toSchema - Schema of the version being installed
+ * @param config - PluginConfig.config as stored
+ * @returns The migrated config, and errors the user has to fix (e.g. a new required setting without a default)
+ *
+ * @example
+ * migratePluginConfig(
+ *   { position: { type: 'string', enum: ['top', 'center'] }, size: { type: 'number' } },
+ *   { position: { type: 'string', enum: ['top', 'bottom'], default: 'bottom' } },
+ *   { position: 'center', size: 2 }
+ * )
+ * // Returns { data: { position: 'bottom' }, errors: [] }
+ */
+export function migratePluginConfig(
+  fromSchema: PluginConfigSchema | undefined,
+  toSchema: PluginConfigSchema | undefined,
+  config: Record<string, unknown> | undefined
+): { data: Record<string, unknown>; errors: string[] } {
+  const migrated: Record<string, unknown> = { ...(isPlainObject(config) ? config : {}) };
+
+  for (const [key, oldSetting] of Object.entries(fromSchema || {})) {
+    const newSetting = toSchema?.[key];
+    if (!newSetting || newSetting.type !== oldSetting.type) {
+      delete migrated[key];
+    }
+  }
+
+  for (const [key, setting] of Object.entries(toSchema || {})) {
+    if (migrated[key] === undefined || !SETTING_TYPES.includes(setting.type)) continue;
+
+    const valueErrors: string[] = [];
+    validateValue(setting, mergeSettingDefaults(setting, migrated[key]), key, valueErrors);
+    if (valueErrors.length > 0) {
+      delete migrated[key];
+    }
+  }
+
+  return resolvePluginConfig(toSchema, migrated);
+}
@@ -0,0 +1,147 @@
+/**
+ * Plugin Data Store for Remainders
+ *
+ * Every user can keep a small set of key/value pairs per plugin (e.g. the day a
+ * habit was last done). Values are written through
+ * POST /api/[username]/plugins/[pluginId]/data - by a phone shortcut, say - and
+ * plugins read them as ctx.data on the next render.
+ *
+ * Writes are authorized by a per-user token. Only its SHA-256 hash is stored in
+ * the (publicly readable) config, so the token itself is shown once and never saved.
+ * Storage lives in lib/firebase-server.ts; this module is shared with the browser.
+ */
+
+import { PluginDataValue, PluginDataValues } from './types';
+
+/**
+ * Most keys one plugin can store per user
+ */
+export const MAX_PLUGIN_DATA_KEYS = 100;
+
+/**
+ * Most bytes (as JSON) one plugin can store per user
+ */
+export const MAX_PLUGIN_DATA_BYTES = 16 * 1024;
+
+/**
+ * Deepest nesting of arrays and objects in a stored value
+ */
+const MAX_VALUE_DEPTH = 8;
+
+/**
+ * Allowed keys: letters, digits and . _ : - (at most 100 characters)
+ */
+const PLUGIN_DATA_KEY = /^[A-Za-z0-9._:-]{1,100}$/;
+
+/**
+ * Checks that a value is JSON the store can hold (finite numbers, limited nesting)
+ */
+function isPluginDataValue(value: unknown, depth: number = 0): value is PluginDataValue {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return true;
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (depth >= MAX_VALUE_DEPTH || typeof value !== 'object') return false;
+
+  const items = Array.isArray(value) ? value : Object.values(value);
+  return items.every((item) => isPluginDataValue(item, depth + 1));
+}
+
+/**
+ * Applies a data update to a plugin's stored values
+ *
+ * The update is a JSON object: every key is set to its value, and keys set to
+ * null are removed.
+ *
+ * @param current - Values stored now
+ * @param update - Parsed request body
+ * @returns The new values, or an error for invalid updates and updates over the limits
+ *
+ * @example
+ * applyPluginDataUpdate({ Read: '2026-10-18' }, { Exercise: '2026-10-19', Read: null })
+ * // Returns { data: { Exercise: '2026-10-19' }, error: null }
+ */
+export function applyPluginDataUpdate(
+  current: PluginDataValues,
+  update: unknown
+): { data: PluginDataValues | null; error: string | null } {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return { data: null, error: 'Body must be a JSON object of keys and values' };
+  }
+
+  const data: PluginDataValues = { ...current };
+  for (const [key, value] of Object.entries(update)) {
+    if (!PLUGIN_DATA_KEY.test(key)) {
+      return { data: null, error: `Invalid key "${key.slice(0, 100)}": use letters, digits and . _ : - (max 100 characters)` };
+    }
+    if (!isPluginDataValue(value)) {
+      return { data: null, error: `Invalid value for "${key}": use JSON values nested at most ${MAX_VALUE_DEPTH} levels` };
+    }
+
+    if (value === null) {
+      delete data[key];
+    } else {
+      data[key] = value;
+    }
+  }
+
+  if (Object.keys(data).length > MAX_PLUGIN_DATA_KEYS) {
+    return { data: null, error: `A plugin can store at most ${MAX_PLUGIN_DATA_KEYS} keys` };
+  }
+  if (new TextEncoder().encode(JSON.stringify(data)).length > MAX_PLUGIN_DATA_BYTES) {
+    return { data: null, error: `A plugin can store at most ${MAX_PLUGIN_DATA_BYTES / 1024} KB` };
+  }
+
+  return { data, error: null };
+}
+
+/**
+ * Deep-freezes stored values before they are handed to plugins as ctx.data
+ */
+export function freezePluginData(values: PluginDataValues): Readonly<PluginDataValues> {
+  const freeze = (value: PluginDataValue): PluginDataValue => {
+    if (value && typeof value === 'object') {
+      Object.values(value).forEach(freeze);
+      Object.freeze(value);
+    }
+    return value;
+  };
+
+  return freeze(structuredClone(values)) as Readonly<PluginDataValues>;
+}
+
+/**
+ * Creates a new plugin data token (32 random bytes, hex)
+ */
+export function createPluginDataToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hashes a plugin data token for storage in the user config
+ *
+ * @returns SHA-256 of the token (hex)
+ */
+export async function hashPluginDataToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks a token against the stored hash (compares in constant time)
+ *
+ * @param token - Token from the request's Authorization header
+ * @param tokenHash - UserConfig.pluginDataTokenHash
+ * @returns True if the token is valid; always false when no hash is stored
+ */
+export async function verifyPluginDataToken(token: string, tokenHash: string | undefined): Promise<boolean> {
+  if (!token || !tokenHash) return false;
+
+  const hash = await hashPluginDataToken(token);
+  if (hash.length !== tokenHash.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < hash.length; i++) {
+    difference |= hash.charCodeAt(i) ^ tokenHash.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,79 @@
+/**
+ * Server-side Plugin Loading for Remainders
+ *
+ * Resolves the plugins a user has enabled for the username-based routes
+ * (wallpaper and stats). Built-in plugins are trusted code and run in-process;
+ * community plugins are loaded from Firestore and run in the sandbox, at the
+ * version the user installed (see lib/plugin-versions.ts). Only versions a
+ * reviewer approved are run (see lib/plugin-review.ts).
+ */
+
+import { getPlugin, getPluginVersion } from '@/lib/firebase-server';
+import { isPluginVersionApproved } from '@/lib/plugin-review';
+import { createSandboxedPlugin } from '@/lib/plugin-sandbox';
+import { Plugin, PluginConfig } from '@/lib/types';
+
+// Import plugins directly for server-side execution
+import { quotesPlugin } from '@/lib/plugins/quotes-plugin';
+import { habitTrackerPlugin } from '@/lib/plugins/habit-tracker-plugin';
+import { moonPhasePlugin } from '@/lib/plugins/moon-phase-plugin';
+
+/**
+ * Loads the definitions of a user's enabled plugins
+ *
+ * @param pluginConfigs - The user's plugin configuration (config.plugins)
+ * @returns Available plugin definitions by ID, and load errors for plugins that could not be found
+ */
+export async function loadUserPlugins(
+  pluginConfigs: PluginConfig[]
+): Promise<{ plugins: Map<string, Plugin>; errors: Map<string, string> }> {
+  // Map of available built-in plugins (trusted code, run in-process)
+  const plugins = new Map<string, Plugin>([
+    [quotesPlugin.id, quotesPlugin],
+    [habitTrackerPlugin.id, habitTrackerPlugin],
+    [moonPhasePlugin.id, moonPhasePlugin],
+  ]);
+
+  // Community plugins are loaded from Firestore and run in the sandbox
+  const errors = new Map<string, string>();
+  for (const pluginConfig of pluginConfigs) {
+    if (!pluginConfig.enabled || plugins.has(pluginConfig.pluginId)) continue;
+
+    console.log(`Loading user plugin ${pluginConfig.pluginId} from Firestore`);
+    const { data: userPlugin, error } = await getPlugin(pluginConfig.pluginId);
+    if (userPlugin && userPlugin.approved === false) {
+      errors.set(pluginConfig.pluginId, 'Plugin is waiting for review');
+      continue;
+    }
+    if (!userPlugin || !userPlugin.code) {
+      console.log(`Plugin ${pluginConfig.pluginId}: not found`);
+      errors.set(pluginConfig.pluginId, error || 'Plugin not found');
+      continue;
+    }
+
+    // Installs run the version they are pinned to, not the author's latest edit
+    let definition: Plugin = userPlugin;
+    if (pluginConfig.version && pluginConfig.version !== definition.version) {
+      const { data: pinned, error: versionError } = await getPluginVersion(pluginConfig.pluginId, pluginConfig.version);
+      if (!pinned || !pinned.code) {
+        errors.set(pluginConfig.pluginId, versionError || `Version ${pluginConfig.version} not found`);
+        continue;
+      }
+      if (!isPluginVersionApproved(pinned)) {
+        errors.set(pluginConfig.pluginId, `Version ${pluginConfig.version} is not approved`);
+        continue;
+      }
+      definition = {
+        ...definition,
+        version: pinned.version,
+        code: pinned.code,
+        configSchema: pinned.configSchema || {},
+        changelog: pinned.changelog,
+      };
+    }
+
+    plugins.set(pluginConfig.pluginId, createSandboxedPlugin(definition));
+  }
+
+  return { plugins, errors };
+}
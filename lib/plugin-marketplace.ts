@@ -0,0 +1,230 @@
+/**
+ * Plugin Marketplace for Remainders
+ *
+ * Search, categories, tags and star ratings for the plugin marketplace.
+ * Approved plugins are loaded once (getAvailablePlugins) and searched in the
+ * browser. Ratings are stored per user in plugins/{pluginId}/ratings/{userId};
+ * the plugin document keeps the totals (ratingCount, ratingTotal, rating) so
+ * the marketplace can sort without reading every rating.
+ */
+
+import { Plugin, PluginCategory } from './types';
+
+/**
+ * Category labels, in the order they are listed
+ */
+export const PLUGIN_CATEGORIES: Record<PluginCategory, string> = {
+  productivity: 'Productivity',
+  health: 'Health & Habits',
+  motivation: 'Motivation',
+  nature: 'Moon, Sun & Seasons',
+  countdowns: 'Countdowns & Events',
+  decoration: 'Decoration',
+  other: 'Other',
+};
+
+export const MAX_PLUGIN_TAGS = 5;
+export const MAX_TAG_LENGTH = 24;
+export const MAX_REVIEW_LENGTH = 500;
+
+/**
+ * How marketplace results are ordered
+ * - relevance: best search match first (listing order without a search)
+ * - downloads, rating: highest first
+ * - recent: most recently updated first
+ */
+export type PluginSort = 'relevance' | 'downloads' | 'rating' | 'recent';
+
+export interface PluginSearchOptions {
+  /** Words to find in the name, tags, author or description */
+  query?: string;
+  /** Only plugins in this category */
+  category?: PluginCategory | '';
+  /** Only plugins with this tag */
+  tag?: string;
+  sort?: PluginSort;
+}
+
+/**
+ * Where a search word is found, and how much it counts
+ */
+const SEARCH_FIELDS: Array<{ weight: number; text: (plugin: Plugin) => string }> = [
+  { weight: 4, text: (plugin) => plugin.name },
+  { weight: 3, text: (plugin) => (plugin.tags || []).join(' ') },
+  { weight: 2, text: (plugin) => plugin.author },
+  { weight: 1, text: (plugin) => plugin.description },
+];
+
+/**
+ * Lowercases and strips accents, so "Méditation" matches "meditation"
+ */
+function normalizeText(text: string | undefined): string {
+  return (text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Firestore timestamps (or dates) as milliseconds, for sorting
+ */
+function toMillis(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof value === 'object' && 'toMillis' in value && typeof value.toMillis === 'function') {
+    return Number(value.toMillis());
+  }
+  return 0;
+}
+
+/**
+ * Scores how well a plugin matches the search words
+ *
+ * @returns 0 if any word is missing; otherwise higher for matches in the name
+ *          and tags, and for matches at the start of a word
+ */
+function getSearchScore(plugin: Plugin, words: string[]): number {
+  let score = 0;
+  for (const word of words) {
+    let wordScore = 0;
+    for (const field of SEARCH_FIELDS) {
+      const text = normalizeText(field.text(plugin));
+      const index = text.indexOf(word);
+      if (index === -1) continue;
+      const atWordStart = index === 0 || /[^a-z0-9]/.test(text[index - 1]);
+      wordScore = Math.max(wordScore, field.weight * (atWordStart ? 2 : 1));
+    }
+    if (wordScore === 0) return 0;
+    score += wordScore;
+  }
+  return score;
+}
+
+/**
+ * Filters and sorts marketplace plugins
+ *
+ * @example
+ * searchPlugins(plugins, { query: 'moon', sort: 'rating' })
+ */
+export function searchPlugins(plugins: Plugin[], options: PluginSearchOptions = {}): Plugin[] {
+  const words = normalizeText(options.query).split(/\s+/).filter(Boolean);
+  const tag = normalizeText(options.tag);
+
+  const results = plugins
+    .filter((plugin) => !options.category || (plugin.category || 'other') === options.category)
+    .filter((plugin) => !tag || (plugin.tags || []).includes(tag))
+    .map((plugin, index) => ({ plugin, index, score: words.length > 0 ? getSearchScore(plugin, words) : 0 }))
+    .filter((result) => words.length === 0 || result.score > 0);
+
+  const sort = options.sort || 'relevance';
+  results.sort((a, b) => {
+    let order = 0;
+    if (sort === 'relevance') {
+      order = b.score - a.score;
+    } else if (sort === 'downloads') {
+      order = (b.plugin.downloads || 0) - (a.plugin.downloads || 0);
+    } else if (sort === 'rating') {
+      // Unrated plugins last; equal averages are ordered by number of ratings
+      order = (b.plugin.ratingCount ? b.plugin.rating || 0 : -1) - (a.plugin.ratingCount ? a.plugin.rating || 0 : -1)
+        || (b.plugin.ratingCount || 0) - (a.plugin.ratingCount || 0);
+    } else if (sort === 'recent') {
+      order = toMillis(b.plugin.updatedAt ?? b.plugin.createdAt) - toMillis(a.plugin.updatedAt ?? a.plugin.createdAt);
+    }
+    return order || a.index - b.index;
+  });
+
+  return results.map((result) => result.plugin);
+}
+
+/**
+ * Every tag used by the given plugins, most used first
+ */
+export function getPopularTags(plugins: Plugin[]): string[] {
+  const counts = new Map<string, number>();
+  for (const plugin of plugins) {
+    for (const tag of plugin.tags || []) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+/**
+ * Turns a comma-separated tag list into stored tags
+ *
+ * @example
+ * parsePluginTags('Fitness, streaks,fitness') // Returns ['fitness', 'streaks']
+ */
+export function parsePluginTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map((tag) => normalizeText(tag).trim().replace(/\s+/g, '-'))
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/**
+ * Validates the marketplace listing of a plugin
+ */
+export function validatePluginListing(listing: Pick<Plugin, 'category' | 'tags' | 'screenshotUrl'>): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  if (listing.category && !(listing.category in PLUGIN_CATEGORIES)) {
+    errors.push(`Category must be one of ${Object.keys(PLUGIN_CATEGORIES).join(', ')}`);
+  }
+
+  const tags = listing.tags || [];
+  if (tags.length > MAX_PLUGIN_TAGS) {
+    errors.push(`Use at most ${MAX_PLUGIN_TAGS} tags`);
+  }
+  for (const tag of tags) {
+    if (!/^[a-z0-9-]+$/.test(tag) || tag.length > MAX_TAG_LENGTH) {
+      errors.push(`Tag "${tag}" must be up to ${MAX_TAG_LENGTH} letters, numbers or hyphens`);
+    }
+  }
+
+  if (listing.screenshotUrl && !/^https:\/\/\S+$/.test(listing.screenshotUrl)) {
+    errors.push('Screenshot must be an https:// URL');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validates a star rating and its review
+ */
+export function validatePluginRating(rating: number, review: string): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.push('Choose between 1 and 5 stars');
+  }
+  if (review.length > MAX_REVIEW_LENGTH) {
+    errors.push(`Reviews can be at most ${MAX_REVIEW_LENGTH} characters`);
+  }
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * New rating totals of a plugin after a user rates it
+ *
+ * @param totals - The plugin's current ratingCount and ratingTotal
+ * @param previousRating - The user's earlier rating, or null for a first rating
+ * @param newRating - The user's new rating
+ *
+ * @example
+ * applyPluginRating({ ratingCount: 1, ratingTotal: 4 }, null, 5)
+ * // Returns { ratingCount: 2, ratingTotal: 9, rating: 4.5 }
+ */
+export function applyPluginRating(
+  totals: Pick<Plugin, 'ratingCount' | 'ratingTotal'>,
+  previousRating: number | null,
+  newRating: number
+): { ratingCount: number; ratingTotal: number; rating: number } {
+  const ratingCount = (totals.ratingCount || 0) + (previousRating === null ? 1 : 0);
+  const ratingTotal = (totals.ratingTotal || 0) - (previousRating ?? 0) + newRating;
+  return {
+    ratingCount,
+    ratingTotal,
+    rating: Math.round((ratingTotal / ratingCount) * 100) / 100,
+  };
+}
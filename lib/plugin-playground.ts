@@ -0,0 +1,187 @@
+/**
+ * Plugin Playground for Remainders
+ *
+ * Runs the code being edited in the plugin editor in the browser, the way the
+ * server runs community plugins: each hook is called in a short-lived Web
+ * Worker, with the same JSON-in/JSON-out protocol as plugin-sandbox.ts, and
+ * the worker is stopped at the deadline.
+ *
+ * Inside the worker, the plugin only sees the globals the server sandbox
+ * allows (ALLOWED_GLOBALS), so code that relies on fetch or the DOM fails
+ * here as it would on the server. It is a preview, not a security boundary:
+ * the code is the author's own and runs in their browser.
+ *
+ * NOTE: Client-only module (uses Worker and Blob URLs).
+ */
+
+import { Plugin, PluginExecutionContext, SandboxedHook } from './types';
+import { ALLOWED_GLOBALS, PLUGIN_TIMEOUT_MS } from './plugin-code';
+import { createIsolatedPlugin, serializePluginContext } from './plugin-system';
+
+/**
+ * Deadline for a playground worker, including worker startup (milliseconds)
+ */
+const PLAYGROUND_WALL_CLOCK_MS = PLUGIN_TIMEOUT_MS + 1000;
+
+/**
+ * Source of the playground worker
+ *
+ * Every global that is not allowlisted (fetch, indexedDB, postMessage, ...)
+ * is shadowed by a parameter of the function the plugin code runs in; console
+ * only buffers log lines. Legacy plugins without render() fall back to execute().
+ */
+const WORKER_SOURCE = `
+self.onmessage = function (event) {
+  var data = event.data;
+  var logs = [];
+  var pluginConsole = {
+    log: function () { logs.push(['log', Array.prototype.map.call(arguments, String).join(' ')]); },
+    error: function () { logs.push(['error', Array.prototype.map.call(arguments, String).join(' ')]); }
+  };
+
+  try {
+    var keep = data.allowedGlobals.concat(['console', 'undefined', 'NaN', 'Infinity']);
+    var hidden = [];
+    for (var scope = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+      Object.getOwnPropertyNames(scope).forEach(function (key) {
+        if (/^[A-Za-z_$][\\w$]*$/.test(key) && keep.indexOf(key) === -1 && hidden.indexOf(key) === -1) {
+          hidden.push(key);
+        }
+      });
+    }
+
+    var run = Function.apply(null, hidden.concat(['console', 'ctx', 'hook',
+      'var plugin = (function () {\\n' + data.code + '\\n;return typeof plugin !== "undefined" ? plugin : null; })();' +
+      'if (!plugin || typeof plugin !== "object") {' +
+      '  throw new Error("Plugin code must define const plugin = { ... }");' +
+      '}' +
+      'var fn = plugin[hook];' +
+      'if (typeof fn !== "function" && hook === "render") { fn = plugin.execute; }' +
+      'if (typeof fn !== "function") { return "null"; }' +
+      'var result = fn.call(plugin, ctx);' +
+      'return JSON.stringify(result === undefined ? null : result);'
+    ]));
+
+    var ctx = JSON.parse(data.contextJson);
+    if (ctx.currentDate) { ctx.currentDate = new Date(ctx.currentDate); }
+    var output = run.apply(null, hidden.map(function () { return undefined; }).concat([pluginConsole, ctx, data.hook]));
+    self.postMessage({ output: String(output), logs: logs, error: null });
+  } catch (error) {
+    self.postMessage({ output: null, logs: logs, error: String((error && error.message) || error) });
+  }
+};
+`;
+
+/**
+ * A console line a plugin logged in the playground
+ */
+export interface PlaygroundLog {
+  hook: SandboxedHook;
+  level: 'log' | 'error';
+  message: string;
+}
+
+interface WorkerResponse {
+  output: string | null;
+  logs: Array<['log' | 'error', string]>;
+  error: string | null;
+}
+
+let workerUrl: string | null = null;
+
+/**
+ * Blob URL of the worker source (created once per page)
+ */
+function getWorkerUrl(): string {
+  if (!workerUrl) {
+    workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  }
+  return workerUrl;
+}
+
+/**
+ * Execute one hook of plugin code in a browser worker
+ *
+ * Never throws: timeouts and plugin exceptions are returned as `error`.
+ *
+ * @param code - Plugin source defining `const plugin = { ... }`
+ * @param hook - Hook to call (render falls back to legacy execute)
+ * @param context - Execution context passed to the hook
+ * @returns Parsed hook result (null if the hook is not defined), the plugin's console output, or an error message
+ */
+export function runPluginHookInWorker(
+  code: string,
+  hook: SandboxedHook,
+  context: PluginExecutionContext
+): Promise<{ result: unknown; logs: PlaygroundLog[]; error: string | null }> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let worker: Worker | undefined;
+
+    const finish = (value: { result: unknown; logs: PlaygroundLog[]; error: string | null }) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(deadline);
+      worker?.terminate();
+      resolve(value);
+    };
+
+    const deadline = setTimeout(() => {
+      finish({ result: null, logs: [], error: 'Plugin execution timeout' });
+    }, PLAYGROUND_WALL_CLOCK_MS);
+
+    try {
+      worker = new Worker(getWorkerUrl());
+    } catch (error: unknown) {
+      finish({ result: null, logs: [], error: error instanceof Error ? error.message : 'Failed to start plugin worker' });
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      const logs = message.logs.map(([level, line]) => ({ hook, level, message: line }));
+
+      if (message.error || message.output === null) {
+        finish({ result: null, logs, error: message.error || 'Plugin returned no output' });
+        return;
+      }
+
+      try {
+        finish({ result: JSON.parse(message.output), logs, error: null });
+      } catch {
+        finish({ result: null, logs, error: 'Plugin returned invalid output' });
+      }
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish({ result: null, logs: [], error: event.message || 'Plugin crashed' });
+    };
+
+    worker.postMessage({
+      code,
+      hook,
+      contextJson: serializePluginContext(context),
+      allowedGlobals: Object.keys(ALLOWED_GLOBALS),
+    });
+  });
+}
+
+/**
+ * Wrap a plugin definition (with its code) so each hook runs in a browser worker
+ *
+ * The returned plugin can be passed to processPlugins; worker failures are
+ * thrown so processPlugins records them.
+ *
+ * @param onLogs - Receives the plugin's console output of every hook call
+ */
+export function createPlaygroundPlugin(definition: Plugin, onLogs: (logs: PlaygroundLog[]) => void): Plugin {
+  return createIsolatedPlugin(definition, async (hook, ctx) => {
+    const { result, logs, error } = await runPluginHookInWorker(definition.code || '', hook, ctx);
+    onLogs(logs);
+    if (error) {
+      throw new Error(error);
+    }
+    return result;
+  });
+}
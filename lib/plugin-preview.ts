@@ -0,0 +1,80 @@
+/**
+ * Plugin Previews for Remainders
+ *
+ * Marketplace thumbnails are rendered by the server (/api/plugin-preview):
+ * the plugin runs with its default settings on a reference wallpaper, through
+ * the same render path as /api/[username]. A thumbnail changes with the
+ * plugin version and the day, since most plugins draw something date-based.
+ */
+
+import { UserConfig, ViewMode } from './types';
+import { PRESET_THEMES } from './themes';
+
+/**
+ * Reference device: an iPhone 16 Pro at its size in points (1206×2622 pixels at 3x),
+ * small enough for a thumbnail while keeping the phone's proportions
+ */
+export const PREVIEW_DEVICE: UserConfig['device'] = {
+  brand: 'Apple',
+  modelName: 'iPhone 16 Pro',
+  width: 402,
+  height: 874,
+};
+
+/**
+ * Views a preview can be rendered on (countdowns need an event to count down to)
+ */
+export const PREVIEW_VIEW_MODES: ViewMode[] = ['year', 'month', 'week', 'life'];
+
+/**
+ * Birth date of the reference wallpaper, for the life view and plugins that read it
+ */
+const PREVIEW_BIRTH_DATE = '1995-06-15';
+
+/**
+ * URL of a plugin's preview thumbnail
+ *
+ * @example
+ * getPluginPreviewUrl('moon-phase', '1.2.0') // Returns '/api/plugin-preview?id=moon-phase&version=1.2.0'
+ */
+export function getPluginPreviewUrl(pluginId: string, version?: string): string {
+  const params = new URLSearchParams({ id: pluginId });
+  if (version) params.set('version', version);
+  return `/api/plugin-preview?${params.toString()}`;
+}
+
+/**
+ * Builds the reference wallpaper config a preview is rendered with: default
+ * theme, typography and layout, and only the previewed plugin, enabled with
+ * its default settings
+ *
+ * @param pluginId - Plugin to preview
+ * @param version - Version to preview (missing = latest approved)
+ * @param viewMode - View to render on (see PREVIEW_VIEW_MODES)
+ */
+export function createPreviewConfig(pluginId: string, version?: string, viewMode: ViewMode = 'year'): UserConfig {
+  return {
+    userId: '',
+    username: '',
+    birthDate: PREVIEW_BIRTH_DATE,
+    viewMode,
+    device: { ...PREVIEW_DEVICE },
+    colors: { ...PRESET_THEMES[0].colors },
+    typography: {
+      fontFamily: 'monospace',
+      fontSize: 0.035,
+      statsVisible: true,
+    },
+    textElements: [],
+    layout: {
+      topPadding: 0.25,
+      bottomPadding: 0.15,
+      sidePadding: 0.18,
+      dotSpacing: 0.7,
+    },
+    plugins: [{ pluginId, enabled: true, config: {}, ...(version ? { version } : {}) }],
+    isMondayFirst: false,
+    timezone: 'UTC',
+    updatedAt: null,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Plugin Review for Remainders
+ *
+ * Community plugin versions go through review before they run on anyone's
+ * wallpaper: an author saves a draft, submits it (pending), and a reviewer
+ * approves or rejects it with notes. Only approved versions are listed in the
+ * marketplace and loaded by the server.
+ *
+ * Reviewers and admins are granted in Firestore (roles/{userId}, see
+ * UserRole), and the same rules are enforced by the Firestore security rules.
+ */
+
+import { PluginReviewStatus, PluginVersion, UserRole } from './types';
+import { validateConfigSchema } from './plugin-config';
+import { validatePluginCode } from './plugin-code';
+import { isValidPluginVersion } from './plugin-versions';
+
+/**
+ * Who can move a version from one status to another
+ */
+const REVIEW_TRANSITIONS: Record<PluginReviewStatus, Partial<Record<PluginReviewStatus, 'author' | 'reviewer'>>> = {
+  draft: { draft: 'author', pending: 'author' },
+  pending: { draft: 'author', approved: 'reviewer', rejected: 'reviewer' },
+  rejected: { draft: 'author', pending: 'author' },
+  approved: {},
+};
+
+/**
+ * Largest line-by-line comparison (removed × added lines); bigger changes are shown as replaced
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Review status of a version (versions published before reviews count as approved)
+ */
+export function getReviewStatus(version: Pick<PluginVersion, 'status'>): PluginReviewStatus {
+  return version.status ?? 'approved';
+}
+
+/**
+ * Checks whether a version may run and be installed
+ */
+export function isPluginVersionApproved(version: Pick<PluginVersion, 'status'>): boolean {
+  return getReviewStatus(version) === 'approved';
+}
+
+/**
+ * Checks whether a user can review plugin versions
+ */
+export function canReviewPlugins(roles: UserRole[]): boolean {
+  return roles.includes('reviewer') || roles.includes('admin');
+}
+
+/**
+ * Checks whether a user may change a version's review status
+ *
+ * Authors move their own versions between draft and pending; reviewers decide
+ * on pending versions, but never on their own.
+ *
+ * @example
+ * canChangeReviewStatus('pending', 'approved', { isAuthor: true, roles: ['reviewer'] }) // Returns false
+ */
+export function canChangeReviewStatus(
+  from: PluginReviewStatus,
+  to: PluginReviewStatus,
+  { isAuthor, roles }: { isAuthor: boolean; roles: UserRole[] }
+): boolean {
+  const actor = REVIEW_TRANSITIONS[from][to];
+  if (actor === 'author') return isAuthor;
+  if (actor === 'reviewer') return !isAuthor && canReviewPlugins(roles);
+  return false;
+}
+
+/**
+ * Automated checks run on submission and shown to reviewers
+ *
+ * @returns One message per problem; submissions with problems can't be sent for review
+ */
+export function runPluginChecks(version: Pick<PluginVersion, 'version' | 'code' | 'configSchema'>): string[] {
+  const errors: string[] = [];
+  if (!isValidPluginVersion(version.version)) {
+    errors.push('Version must be MAJOR.MINOR.PATCH, e.g. 1.2.0');
+  }
+  errors.push(...validatePluginCode(version.code || '').errors);
+  errors.push(...validateConfigSchema(version.configSchema ?? {}).errors.map((error) => `Config schema: ${error}`));
+  return errors;
+}
+
+/**
+ * A line of a diff between two versions
+ */
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff between two texts (e.g. the previous and the submitted code)
+ *
+ * Common leading and trailing lines are matched first; the rest is compared
+ * line by line (longest common subsequence) unless it is very long.
+ *
+ * @example
+ * diffLines('a\nb', 'a\nc')
+ * // Returns [{ type: 'same', text: 'a' }, { type: 'removed', text: 'b' }, { type: 'added', text: 'c' }]
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before ? before.split('\n') : [];
+  const newLines = after ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const removed = oldLines.slice(start, oldEnd);
+  const added = newLines.slice(start, newEnd);
+  const middle: DiffLine[] = [];
+
+  if (removed.length * added.length > MAX_DIFF_CELLS) {
+    middle.push(...removed.map((text) => ({ type: 'removed' as const, text })));
+    middle.push(...added.map((text) => ({ type: 'added' as const, text })));
+  } else {
+    // lengths[i][j] = longest common subsequence of removed[i..] and added[j..]
+    const lengths = Array.from({ length: removed.length + 1 }, () => new Uint32Array(added.length + 1));
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        lengths[i][j] = removed[i] === added[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < removed.length || j < added.length) {
+      if (i < removed.length && j < added.length && removed[i] === added[j]) {
+        middle.push({ type: 'same', text: removed[i] });
+        i++;
+        j++;
+      } else if (i < removed.length && (j === added.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        middle.push({ type: 'removed', text: removed[i++] });
+      } else {
+        middle.push({ type: 'added', text: added[j++] });
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, start).map((text) => ({ type: 'same' as const, text })),
+    ...middle,
+    ...oldLines.slice(oldEnd).map((text) => ({ type: 'same' as const, text })),
+  ];
+}
@@ -0,0 +1,221 @@
+/**
+ * Plugin Sandbox
+ *
+ * Runs community plugin code (stored as a string in Firestore) in a real isolate:
+ * a dedicated worker thread with a capped heap, and inside it a fresh V8 context
+ * stripped down to the globals listed in ALLOWED_GLOBALS.
+ *
+ * Nothing crosses the isolate boundary except JSON strings, so plugin code never
+ * gets a reference to an object (or Function constructor) from the server realm.
+ *
+ * NOTE: Server-only module (uses worker_threads). Do not import from client components.
+ */
+
+import { Worker } from 'worker_threads';
+import { Plugin, PluginExecutionContext, SandboxedHook } from './types';
+import { ALLOWED_GLOBALS, PLUGIN_TIMEOUT_MS } from './plugin-code';
+import { createIsolatedPlugin, serializePluginContext } from './plugin-system';
+
+/**
+ * Heap limit for a plugin worker (megabytes)
+ */
+const PLUGIN_MEMORY_LIMIT_MB = 32;
+
+/**
+ * Hard wall-clock deadline for a plugin worker, including worker startup (milliseconds)
+ * The CPU deadline inside the worker is PLUGIN_TIMEOUT_MS.
+ */
+const PLUGIN_WALL_CLOCK_MS = PLUGIN_TIMEOUT_MS + 1500;
+
+/**
+ * Source of the worker thread. Evaluated with `eval: true` so it does not
+ * depend on how the Next.js server bundle lays out files on disk.
+ *
+ * Steps inside the worker:
+ * 1. Create a context with string code generation disabled (no eval / new Function)
+ * 2. Delete every global that is not allowlisted (process, globalThis, Function, ...)
+ * 3. Install a console that only buffers log lines
+ * 4. Evaluate the plugin code, call the requested hook and hand back JSON
+ *    (legacy plugins without render() fall back to execute())
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const { code, hook, contextJson, allowedGlobals, timeoutMs } = workerData;
+
+let sandbox;
+try {
+  sandbox = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+  });
+
+  vm.runInContext(
+    '(function (allowed) {' +
+    '  var g = globalThis;' +
+    '  Object.getOwnPropertyNames(g).forEach(function (key) {' +
+    '    if (allowed.indexOf(key) === -1) { delete g[key]; }' +
+    '  });' +
+    '})',
+    sandbox
+  )(allowedGlobals);
+
+  vm.runInContext(
+    'var __pluginLogs = [];' +
+    'var console = {' +
+    '  log: function () { __pluginLogs.push(["log", Array.prototype.map.call(arguments, String).join(" ")]); },' +
+    '  error: function () { __pluginLogs.push(["error", Array.prototype.map.call(arguments, String).join(" ")]); }' +
+    '};',
+    sandbox
+  );
+
+  const source =
+    '(function () {' +
+    '  var ctx = JSON.parse(' + JSON.stringify(contextJson) + ');' +
+    '  if (ctx.currentDate) { ctx.currentDate = new Date(ctx.currentDate); }' +
+    '  var plugin = (function () {\\n' + code + '\\n;return typeof plugin !== "undefined" ? plugin : null; })();' +
+    '  if (!plugin || typeof plugin !== "object") {' +
+    '    throw new Error("Plugin code must define const plugin = { ... }");' +
+    '  }' +
+    '  var hook = ' + JSON.stringify(hook) + ';' +
+    '  var fn = plugin[hook];' +
+    '  if (typeof fn !== "function" && hook === "render") { fn = plugin.execute; }' +
+    '  if (typeof fn !== "function") { return "null"; }' +
+    '  var result = fn.call(plugin, ctx);' +
+    '  return JSON.stringify(result === undefined ? null : result);' +
+    '})()';
+
+  const output = vm.runInContext(source, sandbox, { timeout: timeoutMs });
+  const logs = vm.runInContext('JSON.stringify(__pluginLogs)', sandbox, { timeout: timeoutMs });
+  parentPort.postMessage({ output: String(output), logs: String(logs), error: null });
+} catch (error) {
+  let logs = '[]';
+  try {
+    logs = String(vm.runInContext('JSON.stringify(__pluginLogs)', sandbox, { timeout: timeoutMs }));
+  } catch (e) {}
+  parentPort.postMessage({ output: null, logs: logs, error: String((error && error.message) || error) });
+}
+`;
+
+interface WorkerResponse {
+  output: string | null;
+  logs: string;
+  error: string | null;
+}
+
+/**
+ * Forward buffered plugin console output to the server log
+ */
+function forwardLogs(pluginId: string, logs: string) {
+  try {
+    const entries = JSON.parse(logs) as [string, string][];
+    for (const [level, line] of entries) {
+      if (level === 'error') {
+        console.error(`[Plugin ${pluginId}]`, line);
+      } else {
+        console.log(`[Plugin ${pluginId}]`, line);
+      }
+    }
+  } catch {
+    // Ignore malformed log buffers
+  }
+}
+
+/**
+ * Execute one hook of community plugin code in an isolated worker
+ *
+ * Never throws: timeouts, memory exhaustion and plugin exceptions are returned
+ * as `error` so a single broken plugin cannot fail the whole wallpaper.
+ * Hooks must be synchronous inside the sandbox; the result is plain JSON.
+ *
+ * @param pluginId - Plugin ID (used for logging)
+ * @param code - Plugin source defining `const plugin = { ... }`
+ * @param hook - Hook to call (render falls back to legacy execute)
+ * @param context - Execution context passed to the hook
+ * @returns Parsed hook result (null if the hook is not defined), or an error message
+ */
+export async function runPluginHookInSandbox(
+  pluginId: string,
+  code: string,
+  hook: SandboxedHook,
+  context: PluginExecutionContext
+): Promise<{ result: unknown; error: string | null }> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let worker: Worker | undefined;
+
+    const finish = (value: { result: unknown; error: string | null }) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(deadline);
+      worker?.terminate().catch(() => {});
+      resolve(value);
+    };
+
+    const deadline = setTimeout(() => {
+      finish({ result: null, error: 'Plugin execution timeout' });
+    }, PLUGIN_WALL_CLOCK_MS);
+
+    try {
+      worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+          code,
+          hook,
+          contextJson: serializePluginContext(context),
+          allowedGlobals: Object.keys(ALLOWED_GLOBALS),
+          timeoutMs: PLUGIN_TIMEOUT_MS,
+        },
+        resourceLimits: {
+          maxOldGenerationSizeMb: PLUGIN_MEMORY_LIMIT_MB,
+          maxYoungGenerationSizeMb: Math.ceil(PLUGIN_MEMORY_LIMIT_MB / 4),
+          stackSizeMb: 4,
+        },
+      });
+    } catch (error: unknown) {
+      finish({ result: null, error: error instanceof Error ? error.message : 'Failed to start plugin sandbox' });
+      return;
+    }
+
+    worker.on('message', (message: WorkerResponse) => {
+      forwardLogs(pluginId, message.logs);
+
+      if (message.error || message.output === null) {
+        finish({ result: null, error: message.error || 'Plugin returned no output' });
+        return;
+      }
+
+      try {
+        finish({ result: JSON.parse(message.output), error: null });
+      } catch {
+        finish({ result: null, error: 'Plugin returned invalid output' });
+      }
+    });
+
+    worker.on('error', (error: Error & { code?: string }) => {
+      const message = error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? 'Plugin exceeded memory limit'
+        : error.message || 'Plugin crashed';
+      finish({ result: null, error: message });
+    });
+
+    worker.on('exit', (exitCode) => {
+      finish({ result: null, error: `Plugin sandbox exited unexpectedly (code ${exitCode})` });
+    });
+  });
+}
+
+/**
+ * Wrap a Firestore plugin definition so each hook runs in the sandbox
+ *
+ * The returned plugin can be passed to processPlugins like a built-in one.
+ * Sandbox failures are thrown so processPlugins records them per plugin.
+ */
+export function createSandboxedPlugin(definition: Plugin): Plugin {
+  return createIsolatedPlugin(definition, async (hook, ctx) => {
+    const { result, error } = await runPluginHookInSandbox(definition.id, definition.code || '', hook, ctx);
+    if (error) {
+      throw new Error(error);
+    }
+    return result;
+  });
+}
@@ -1,257 +1,340 @@
 /**
  * Plugin System Architecture
  * 
- * Provides a secure sandbox for executing community plugins server-side.
- * Plugins can modify calculations, add visual elements, or extend functionality.
+ * Implements the versioned plugin API (see `Plugin` in types.ts) and runs
+ * plugins server-side. Plugins can override the date, calculate data that
+ * other plugins can read, and add visual elements to the wallpaper.
+ * 
+ * Community plugins are executed through the isolate in plugin-sandbox.ts
+ * (in the editor playground, through a browser worker: plugin-playground.ts).
  */
 
-import { PluginContext, PluginCalculationResult, PluginRenderResult, Plugin, PluginConfig } from './types';
-import { calculateWeeksLived, getCurrentDayOfYear } from './calcs';
+import {
+  Plugin,
+  PluginCalculationResult,
+  PluginConfig,
+  PluginDataValues,
+  PluginDateOverride,
+  PluginDotDecoration,
+  PluginExecutionContext,
+  PluginRenderElement,
+  SandboxedHook,
+  SceneLayout,
+  UserConfig,
+} from './types';
+import { getCalendarDate, getDateInTimezone, normalizeCalendarEntries } from './calcs';
+import { PLUGIN_TIMEOUT_MS } from './plugin-code';
+import { resolvePluginConfig } from './plugin-config';
+import { freezePluginData } from './plugin-data';
+import { getUpcomingOccurrences } from './recurrence';
+import { IMAGE_DATA_URI } from './scene';
 
 /**
- * Maximum execution time for a single plugin (milliseconds)
+ * Current plugin API version
+ * - 1: execute(ctx) returns render elements
+ * - 2: overrideDate / calculate / render hooks
  */
-const PLUGIN_TIMEOUT_MS = 500;
+export const PLUGIN_API_VERSION = 2;
 
 /**
- * Allowlisted global APIs that plugins can access
- * Prevents access to dangerous APIs like fetch, eval, etc.
+ * Create the base execution context shared by every plugin hook
+ * Plugin-specific fields (config, calculated data) are added by processPlugins.
+ *
+ * @param config - The user config the wallpaper is rendered for
+ * @param now - Moment to render (defaults to now; the editor playground picks its own)
  */
-const ALLOWED_GLOBALS = {
-  Math,
-  Date,
-  JSON,
-  String,
-  Number,
-  Array,
-  Object,
-  console: {
-    log: (...args: any[]) => console.log('[Plugin]', ...args),
-    error: (...args: any[]) => console.error('[Plugin]', ...args),
-  }
-};
+export function createPluginContext(
+  config: Pick<UserConfig, 'birthDate' | 'viewMode' | 'device' | 'colors' | 'typography' | 'timezone' | 'calendarEntries'>,
+  now: Date = new Date()
+): Omit<PluginExecutionContext, 'config'> {
+  const timezone = config.timezone || 'UTC';
+  const currentDate = getDateInTimezone(timezone, now);
+  const today = getCalendarDate(currentDate);
+
+  return {
+    apiVersion: PLUGIN_API_VERSION,
+    width: config.device.width,
+    height: config.device.height,
+    colors: config.colors,
+    typography: config.typography,
+    birthDate: config.birthDate,
+    viewMode: config.viewMode,
+    timezone,
+    currentDate,
+    today,
+    upcomingEvents: getUpcomingOccurrences(normalizeCalendarEntries(config.calendarEntries), today, timezone),
+  };
+}
 
 /**
- * Create a sandboxed plugin context
+ * Adapt any plugin to the current plugin API
+ * v1 plugins only define execute(), which becomes the render() hook.
  */
-export function createPluginContext(
-  birthDate: string,
-  width: number,
-  height: number,
-  viewMode: 'year' | 'life',
-  settings: Record<string, any>,
-  timezone?: string
-): PluginContext {
-  // Get current date in specified timezone
-  let currentDate = new Date();
-  if (timezone) {
-    try {
-      // Convert to timezone-aware date
-      const dateStr = currentDate.toLocaleString('en-US', { timeZone: timezone });
-      currentDate = new Date(dateStr);
-    } catch (error) {
-      console.error('Invalid timezone:', timezone, error);
-    }
+export function normalizePlugin(plugin: Plugin): Plugin {
+  if ((plugin.apiVersion ?? 1) >= PLUGIN_API_VERSION || !plugin.execute) {
+    return plugin;
   }
 
+  const execute = plugin.execute;
   return {
-    currentDate,
-    birthDate,
-    width,
-    height,
-    viewMode,
-    settings,
-    utils: {
-      formatDate: (date: Date, format: string) => {
-        // Simple date formatter
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        
-        return format
-          .replace('YYYY', String(year))
-          .replace('MM', month)
-          .replace('DD', day);
-      },
-      getWeeksLived: (birthDate: string) => calculateWeeksLived(birthDate),
-      getCurrentDayOfYear: () => getCurrentDayOfYear(),
-    }
+    ...plugin,
+    apiVersion: PLUGIN_API_VERSION,
+    render: (ctx) => execute(ctx),
   };
 }
 
 /**
- * Execute plugin calculation hook with timeout and error handling
+ * Serialize an execution context for transfer into an isolate
+ * Dates become ISO strings and are revived inside the isolate.
  */
-export async function executePluginCalculation(
-  pluginCode: string,
-  context: PluginContext
-): Promise<{ result: PluginCalculationResult | null; error: string | null }> {
-  try {
-    // Create isolated function scope with only allowed globals
-    const pluginFunction = new Function(
-      'context',
-      'Math',
-      'Date',
-      'JSON',
-      'String',
-      'Number',
-      'Array',
-      'Object',
-      'console',
-      `
-        'use strict';
-        ${pluginCode}
-        
-        // Plugin must export a calculate function
-        if (typeof calculate !== 'function') {
-          throw new Error('Plugin must export a calculate() function');
-        }
-        
-        return calculate(context);
-      `
-    );
+export function serializePluginContext(context: PluginExecutionContext): string {
+  return JSON.stringify({
+    ...context,
+    currentDate: context.currentDate ? context.currentDate.toISOString() : undefined,
+  });
+}
 
-    // Execute with timeout
-    const result = await Promise.race([
-      Promise.resolve(pluginFunction(
-        context,
-        ALLOWED_GLOBALS.Math,
-        ALLOWED_GLOBALS.Date,
-        ALLOWED_GLOBALS.JSON,
-        ALLOWED_GLOBALS.String,
-        ALLOWED_GLOBALS.Number,
-        ALLOWED_GLOBALS.Array,
-        ALLOWED_GLOBALS.Object,
-        ALLOWED_GLOBALS.console
-      )),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Plugin execution timeout')), PLUGIN_TIMEOUT_MS)
-      )
-    ]);
+/**
+ * Check which hooks a plugin's source defines
+ * Avoids starting a worker for hooks the plugin does not implement.
+ */
+function definesHook(code: string, name: string): boolean {
+  return new RegExp(`\\b${name}\\s*[:(]`).test(code);
+}
+
+/**
+ * Wrap a plugin definition whose code runs in an isolate (the server sandbox,
+ * or a browser worker in the editor playground)
+ *
+ * run() calls one hook and returns its JSON result, or throws. Results are
+ * checked here as for any plugin, and hooks the code doesn't define are left out.
+ */
+export function createIsolatedPlugin(
+  definition: Plugin,
+  run: (hook: SandboxedHook, ctx: PluginExecutionContext) => Promise<unknown>
+): Plugin {
+  const code = definition.code || '';
 
-    return { result: result as PluginCalculationResult, error: null };
-  } catch (error: any) {
-    console.error('Plugin calculation error:', error);
-    return { result: null, error: error.message || 'Plugin execution failed' };
+  const plugin: Plugin = {
+    ...definition,
+    apiVersion: PLUGIN_API_VERSION,
+    execute: undefined,
+  };
+
+  if (definesHook(code, 'overrideDate')) {
+    plugin.overrideDate = async (ctx) => {
+      const result = await run('overrideDate', ctx);
+      if (!result || typeof result !== 'object') return null;
+
+      const { currentDate, timezone } = result as { currentDate?: unknown; timezone?: unknown };
+      const override: PluginDateOverride = {};
+      if (typeof currentDate === 'string' && !isNaN(Date.parse(currentDate))) {
+        override.currentDate = new Date(currentDate);
+      }
+      if (typeof timezone === 'string') {
+        override.timezone = timezone;
+      }
+      return override;
+    };
+  }
+
+  if (definesHook(code, 'calculate')) {
+    plugin.calculate = async (ctx) => {
+      const result = await run('calculate', ctx);
+      return result && typeof result === 'object' && !Array.isArray(result)
+        ? (result as Record<string, unknown>)
+        : null;
+    };
   }
+
+  if (definesHook(code, 'render') || definesHook(code, 'execute')) {
+    plugin.render = async (ctx) => sanitizeRenderElements(await run('render', ctx));
+  }
+
+  if (definesHook(code, 'decorate')) {
+    plugin.decorate = async (ctx) => sanitizeDotDecorations(await run('decorate', ctx));
+  }
+
+  return plugin;
 }
 
 /**
- * Execute plugin render hook with timeout and error handling
+ * Run a single plugin hook with timeout and error handling
+ * Synchronous hooks cannot be interrupted in-process; community plugins
+ * get a hard deadline from the sandbox instead (see plugin-sandbox.ts).
  */
-export async function executePluginRender(
-  pluginCode: string,
-  context: PluginContext
-): Promise<{ result: PluginRenderResult | null; error: string | null }> {
-  try {
-    // Create isolated function scope
-    const pluginFunction = new Function(
-      'context',
-      'Math',
-      'Date',
-      'JSON',
-      'String',
-      'Number',
-      'Array',
-      'Object',
-      'console',
-      `
-        'use strict';
-        ${pluginCode}
-        
-        // Plugin must export a render function
-        if (typeof render !== 'function') {
-          throw new Error('Plugin must export a render() function');
-        }
-        
-        return render(context);
-      `
-    );
+async function runPluginHook<T>(
+  hook: (ctx: PluginExecutionContext) => T | Promise<T>,
+  context: PluginExecutionContext
+): Promise<{ result: T | null; error: string | null }> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
 
-    // Execute with timeout
+  try {
     const result = await Promise.race([
-      Promise.resolve(pluginFunction(
-        context,
-        ALLOWED_GLOBALS.Math,
-        ALLOWED_GLOBALS.Date,
-        ALLOWED_GLOBALS.JSON,
-        ALLOWED_GLOBALS.String,
-        ALLOWED_GLOBALS.Number,
-        ALLOWED_GLOBALS.Array,
-        ALLOWED_GLOBALS.Object,
-        ALLOWED_GLOBALS.console
-      )),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Plugin execution timeout')), PLUGIN_TIMEOUT_MS)
-      )
+      Promise.resolve().then(() => hook(context)),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Plugin execution timeout')), PLUGIN_TIMEOUT_MS * 4);
+      }),
     ]);
 
-    return { result: result as PluginRenderResult, error: null };
-  } catch (error: any) {
-    console.error('Plugin render error:', error);
-    return { result: null, error: error.message || 'Plugin execution failed' };
+    return { result, error: null };
+  } catch (error: unknown) {
+    return { result: null, error: error instanceof Error ? error.message : 'Plugin execution failed' };
+  } finally {
+    clearTimeout(timer);
   }
 }
 
 /**
- * Validate plugin code for security risks
+ * Render element types plugins are allowed to return
+ */
+const RENDER_ELEMENT_TYPES: PluginRenderElement['type'][] = ['text', 'rect', 'circle', 'line', 'polygon', 'path', 'arc', 'image'];
+
+/**
+ * Maximum number of render elements accepted from a single plugin
+ */
+const MAX_RENDER_ELEMENTS = 200;
+
+/**
+ * Size limits for the larger element fields (characters / numbers)
+ */
+const MAX_PATH_DATA_LENGTH = 20000;
+const MAX_POLYGON_POINTS = 2000;
+const MAX_IMAGE_SRC_LENGTH = 512 * 1024;
+
+/**
+ * Reduce untrusted plugin output to well-formed PluginRenderElement objects
+ * Drops anything that is not a known element type with finite coordinates,
+ * and copies only the documented fields with the expected primitive types.
+ * Images must be base64 data URIs, so rendering never fetches a URL.
  */
-export function validatePluginCode(code: string): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  
-  // Check for dangerous patterns
-  const dangerousPatterns = [
-    { pattern: /eval\s*\(/gi, message: 'eval() is not allowed' },
-    { pattern: /Function\s*\(/gi, message: 'Function constructor is not allowed' },
-    { pattern: /import\s+/gi, message: 'import statements are not allowed' },
-    { pattern: /require\s*\(/gi, message: 'require() is not allowed' },
-    { pattern: /process\./gi, message: 'process access is not allowed' },
-    { pattern: /global\./gi, message: 'global access is not allowed' },
-    { pattern: /fetch\s*\(/gi, message: 'fetch() is not allowed' },
-    { pattern: /XMLHttpRequest/gi, message: 'XMLHttpRequest is not allowed' },
-    { pattern: /__dirname/gi, message: '__dirname is not allowed' },
-    { pattern: /__filename/gi, message: '__filename is not allowed' },
-  ];
-
-  for (const { pattern, message } of dangerousPatterns) {
-    if (pattern.test(code)) {
-      errors.push(message);
+export function sanitizeRenderElements(value: unknown): PluginRenderElement[] {
+  if (!Array.isArray(value)) return [];
+
+  const elements: PluginRenderElement[] = [];
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  const isString = (v: unknown): v is string => typeof v === 'string';
+
+  for (const raw of value.slice(0, MAX_RENDER_ELEMENTS)) {
+    if (!raw || typeof raw !== 'object') continue;
+    const item = raw as Record<string, unknown>;
+
+    const type = item.type as PluginRenderElement['type'];
+    if (!RENDER_ELEMENT_TYPES.includes(type)) continue;
+    if (!isNumber(item.x) || !isNumber(item.y)) continue;
+
+    const element: PluginRenderElement = { type, x: item.x, y: item.y };
+    if (item.content != null) element.content = String(item.content);
+    if (isNumber(item.width)) element.width = item.width;
+    if (isNumber(item.height)) element.height = item.height;
+    if (isNumber(item.radius)) element.radius = item.radius;
+    if (isNumber(item.fontSize)) element.fontSize = item.fontSize;
+    if (isString(item.fontFamily)) element.fontFamily = item.fontFamily;
+    if (isString(item.color)) element.color = item.color;
+    if (item.align === 'left' || item.align === 'center' || item.align === 'right') element.align = item.align;
+    if (isNumber(item.maxWidth)) element.maxWidth = item.maxWidth;
+    if (isNumber(item.x2)) element.x2 = item.x2;
+    if (isNumber(item.y2)) element.y2 = item.y2;
+    if (Array.isArray(item.points) && item.points.length <= MAX_POLYGON_POINTS && item.points.every(isNumber)) {
+      element.points = item.points;
     }
-  }
+    if (isString(item.d) && item.d.length <= MAX_PATH_DATA_LENGTH) element.d = item.d;
+    if (isNumber(item.startAngle)) element.startAngle = item.startAngle;
+    if (isNumber(item.endAngle)) element.endAngle = item.endAngle;
+    if (isNumber(item.progress)) element.progress = item.progress;
+    if (isString(item.trackColor)) element.trackColor = item.trackColor;
+    if (isString(item.src) && item.src.length <= MAX_IMAGE_SRC_LENGTH && IMAGE_DATA_URI.test(item.src)) element.src = item.src;
+    if (isString(item.fill)) element.fill = item.fill;
+    if (isString(item.stroke)) element.stroke = item.stroke;
+    if (isNumber(item.strokeWidth) && item.strokeWidth >= 0) element.strokeWidth = item.strokeWidth;
+    if (item.lineCap === 'butt' || item.lineCap === 'round') element.lineCap = item.lineCap;
+    if (isNumber(item.opacity)) element.opacity = Math.min(1, Math.max(0, item.opacity));
+    if (isNumber(item.rotation)) element.rotation = item.rotation;
+    if (isNumber(item.zIndex)) element.zIndex = item.zIndex;
 
-  // Check code length (prevent massive plugins)
-  if (code.length > 50000) {
-    errors.push('Plugin code exceeds maximum length (50KB)');
+    elements.push(element);
   }
 
-  // Check for required functions
-  if (!code.includes('function calculate') && !code.includes('function render')) {
-    errors.push('Plugin must define at least calculate() or render() function');
+  return elements;
+}
+
+/**
+ * Maximum number of dot decorations accepted from a single plugin
+ * (enough for every week of a 90-year life grid)
+ */
+const MAX_DOT_DECORATIONS = 5000;
+
+/**
+ * Reduce untrusted decorate() output to well-formed PluginDotDecoration objects
+ * Each decoration needs a YYYY-MM-DD date or a whole-number index and at least one change.
+ */
+export function sanitizeDotDecorations(value: unknown): PluginDotDecoration[] {
+  if (!Array.isArray(value)) return [];
+
+  const decorations: PluginDotDecoration[] = [];
+  const isString = (v: unknown): v is string => typeof v === 'string';
+
+  for (const raw of value.slice(0, MAX_DOT_DECORATIONS)) {
+    if (!raw || typeof raw !== 'object') continue;
+    const item = raw as Record<string, unknown>;
+
+    const decoration: PluginDotDecoration = {};
+    if (isString(item.date) && /^\d{4}-\d{2}-\d{2}$/.test(item.date)) decoration.date = item.date;
+    if (typeof item.index === 'number' && Number.isInteger(item.index) && item.index >= 0) decoration.index = item.index;
+    if (decoration.date === undefined && decoration.index === undefined) continue;
+
+    if (isString(item.fill)) decoration.fill = item.fill;
+    if (isString(item.ring)) decoration.ring = item.ring;
+    if (isString(item.badge)) decoration.badge = item.badge;
+    if (typeof item.hidden === 'boolean') decoration.hidden = item.hidden;
+    if (!decoration.fill && !decoration.ring && !decoration.badge && decoration.hidden === undefined) continue;
+
+    decorations.push(decoration);
   }
 
-  return {
-    valid: errors.length === 0,
-    errors
-  };
+  return decorations;
 }
 
 /**
  * Process all enabled plugins for a user config
+ *
+ * Runs the plugin API hooks in three phases so every plugin sees the same state:
+ * 1. overrideDate - in install order; later plugins see earlier overrides
+ * 2. calculate    - with the final date; results are merged into pluginData
+ * 3. render       - with the final date and every plugin's calculated data;
+ *                   decorate runs right after render with the same context
+ *
+ * getLayout (optional) describes the wallpaper for the final date; its result
+ * is passed to render and decorate as context.layout. pluginStore holds each
+ * plugin's stored values, which every hook sees (read-only) as context.data.
+ * Each plugin's config is validated against its configSchema, with defaults
+ * merged in, before any hook runs; plugins with invalid settings are skipped.
+ *
+ * Errors are collected per plugin and never abort the other plugins.
  */
 export async function processPlugins(
   plugins: PluginConfig[],
   pluginDefinitions: Map<string, Plugin>,
-  baseContext: Omit<PluginContext, 'settings'>
+  baseContext: Omit<PluginExecutionContext, 'config'>,
+  { getLayout, pluginStore = {} }: {
+    getLayout?: (currentDate: Date) => SceneLayout | undefined;
+    pluginStore?: Record<string, PluginDataValues>;
+  } = {}
 ): Promise<{
-  calculationResults: Map<string, PluginCalculationResult>;
-  renderResults: Map<string, PluginRenderResult>;
+  currentDate: Date;
+  timezone: string;
+  pluginData: Record<string, Record<string, unknown>>;
+  elements: PluginRenderElement[];
+  decorations: PluginDotDecoration[];
   errors: Map<string, string>;
 }> {
   const calculationResults = new Map<string, PluginCalculationResult>();
-  const renderResults = new Map<string, PluginRenderResult>();
+  const elements: PluginRenderElement[] = [];
+  const decorations: PluginDotDecoration[] = [];
   const errors = new Map<string, string>();
 
-  // Process each enabled plugin
+  // Resolve enabled plugins to their (normalized) definitions
+  const active: { pluginConfig: PluginConfig; plugin: Plugin }[] = [];
   for (const pluginConfig of plugins) {
     if (!pluginConfig.enabled) continue;
 
@@ -261,57 +344,157 @@ export async function processPlugins(
       continue;
     }
 
-    // Create plugin-specific context
-    const context: PluginContext = {
-      ...baseContext,
-      settings: pluginConfig.config
-    };
+    // Settings are checked again here: stored configs may predate the schema
+    const { data: config, errors: configErrors } = resolvePluginConfig(pluginDef.configSchema, pluginConfig.config);
+    if (configErrors.length > 0) {
+      errors.set(pluginConfig.pluginId, `Invalid settings: ${configErrors.join('; ')}`);
+      continue;
+    }
+
+    active.push({ pluginConfig: { ...pluginConfig, config }, plugin: normalizePlugin(pluginDef) });
+  }
+
+  const storedData = new Map(active.map(({ pluginConfig }) => [
+    pluginConfig.pluginId,
+    freezePluginData(pluginStore[pluginConfig.pluginId] ?? {}),
+  ]));
+
+  const contextFor = (
+    pluginConfig: PluginConfig,
+    shared: Omit<PluginExecutionContext, 'config'>
+  ): PluginExecutionContext => ({
+    ...shared,
+    config: pluginConfig.config,
+    data: storedData.get(pluginConfig.pluginId),
+  });
 
-    // Skip if plugin has no code
-    if (!pluginDef.code) {
-      errors.set(pluginConfig.pluginId, 'Plugin has no executable code');
+  // Phase 1: date overrides (timezone plugins)
+  let sharedContext = { ...baseContext };
+  for (const { pluginConfig, plugin } of active) {
+    if (!plugin.overrideDate) continue;
+
+    const { result, error } = await runPluginHook(plugin.overrideDate, contextFor(pluginConfig, sharedContext));
+    if (error) {
+      errors.set(pluginConfig.pluginId, error);
       continue;
     }
 
-    // Try calculation hook
-    const calcResult = await executePluginCalculation(pluginDef.code, context);
-    if (calcResult.error) {
-      errors.set(pluginConfig.pluginId, calcResult.error);
-    } else if (calcResult.result) {
-      calculationResults.set(pluginConfig.pluginId, calcResult.result);
+    if (result && (result.currentDate || result.timezone)) {
+      // A timezone-only override moves the date to "now" in that timezone
+      let currentDate = result.currentDate ?? sharedContext.currentDate;
+      if (!result.currentDate && result.timezone) {
+        try {
+          currentDate = getDateInTimezone(result.timezone);
+        } catch {
+          errors.set(pluginConfig.pluginId, `Invalid timezone: ${result.timezone}`);
+          continue;
+        }
+      }
+      calculationResults.set(pluginConfig.pluginId, {
+        currentDate,
+        timezone: result.timezone,
+      });
+      sharedContext = {
+        ...sharedContext,
+        currentDate,
+        today: currentDate ? getCalendarDate(currentDate) : sharedContext.today,
+        timezone: result.timezone ?? sharedContext.timezone,
+      };
+    }
+  }
+
+  // Phase 2: data calculation
+  for (const { pluginConfig, plugin } of active) {
+    if (!plugin.calculate || errors.has(pluginConfig.pluginId)) continue;
+
+    const { result, error } = await runPluginHook(plugin.calculate, contextFor(pluginConfig, sharedContext));
+    if (error) {
+      errors.set(pluginConfig.pluginId, error);
+      continue;
     }
 
-    // Try render hook
-    const renderResult = await executePluginRender(pluginDef.code, context);
-    if (renderResult.error) {
-      errors.set(pluginConfig.pluginId, renderResult.error);
-    } else if (renderResult.result) {
-      renderResults.set(pluginConfig.pluginId, renderResult.result);
+    if (result) {
+      calculationResults.set(pluginConfig.pluginId, {
+        ...calculationResults.get(pluginConfig.pluginId),
+        data: result,
+      });
     }
   }
 
-  return { calculationResults, renderResults, errors };
+  const merged = mergePluginResults(
+    baseContext.currentDate ?? new Date(),
+    baseContext.timezone ?? 'UTC',
+    calculationResults
+  );
+
+  // Phase 3: rendering
+  const renderContext = {
+    ...baseContext,
+    currentDate: merged.currentDate,
+    today: getCalendarDate(merged.currentDate),
+    timezone: merged.timezone,
+    pluginData: merged.pluginData,
+    layout: getLayout && active.some(({ plugin }) => plugin.render || plugin.decorate)
+      ? getLayout(merged.currentDate)
+      : undefined,
+  };
+  for (const { pluginConfig, plugin } of active) {
+    if (errors.has(pluginConfig.pluginId)) continue;
+
+    const context = {
+      ...contextFor(pluginConfig, renderContext),
+      calculated: merged.pluginData[pluginConfig.pluginId],
+    };
+
+    if (plugin.render) {
+      const { result, error } = await runPluginHook(plugin.render, context);
+      if (error) {
+        errors.set(pluginConfig.pluginId, error);
+        continue;
+      }
+
+      elements.push(...sanitizeRenderElements(result));
+    }
+
+    if (plugin.decorate) {
+      const { result, error } = await runPluginHook(plugin.decorate, context);
+      if (error) {
+        errors.set(pluginConfig.pluginId, error);
+        continue;
+      }
+
+      decorations.push(...sanitizeDotDecorations(result));
+    }
+  }
+
+  return { ...merged, elements, decorations, errors };
 }
 
 /**
  * Merge plugin results into base context
+ * Date overrides apply in install order, so the last overriding plugin wins.
  */
 export function mergePluginResults(
   baseDate: Date,
+  baseTimezone: string,
   calculationResults: Map<string, PluginCalculationResult>
-): { currentDate: Date; pluginData: Record<string, any> } {
+): { currentDate: Date; timezone: string; pluginData: Record<string, Record<string, unknown>> } {
   let currentDate = baseDate;
-  const pluginData: Record<string, any> = {};
+  let timezone = baseTimezone;
+  const pluginData: Record<string, Record<string, unknown>> = {};
 
   // Apply calculation results (timezone plugins modify currentDate)
   for (const [pluginId, result] of calculationResults.entries()) {
     if (result.currentDate) {
       currentDate = result.currentDate;
     }
+    if (result.timezone) {
+      timezone = result.timezone;
+    }
     if (result.data) {
       pluginData[pluginId] = result.data;
     }
   }
 
-  return { currentDate, pluginData };
+  return { currentDate, timezone, pluginData };
 }
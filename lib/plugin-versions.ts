@@ -0,0 +1,81 @@
+/**
+ * Plugin Versions for Remainders
+ *
+ * Every change to a community plugin is published as a new version
+ * (MAJOR.MINOR.PATCH) in plugins/{pluginId}/versions. Installs pin the version
+ * they were installed at (PluginConfig.version), so an author's edit only
+ * reaches a user's wallpaper after they update in the marketplace. Updating
+ * migrates the user's settings to the new version's schema (see
+ * migratePluginConfig in lib/plugin-config.ts).
+ */
+
+import { PluginVersion } from './types';
+
+const VERSION_PATTERN = /^(0|[1-9]\d{0,5})\.(0|[1-9]\d{0,5})\.(0|[1-9]\d{0,5})$/;
+
+/**
+ * Parses a MAJOR.MINOR.PATCH version
+ *
+ * @returns The three parts, or null for anything else (pre-release tags are not supported)
+ */
+function parseVersion(version: string | undefined): [number, number, number] | null {
+  const match = VERSION_PATTERN.exec(version || '');
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * Checks that a version string is MAJOR.MINOR.PATCH (e.g. 1.4.0)
+ */
+export function isValidPluginVersion(version: string | undefined): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compares two versions
+ *
+ * @returns Negative if a is older than b, positive if newer, 0 if equal.
+ *          Invalid versions sort before every valid one.
+ *
+ * @example
+ * comparePluginVersions('1.10.0', '1.9.2') // Returns 1
+ */
+export function comparePluginVersions(a: string | undefined, b: string | undefined): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return (left ? 1 : 0) - (right ? 1 : 0);
+
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * Suggests the next version to publish (the next patch)
+ *
+ * @example
+ * getNextPluginVersion('1.2.3') // Returns '1.2.4'
+ */
+export function getNextPluginVersion(version: string | undefined): string {
+  const parts = parseVersion(version);
+  return parts ? `${parts[0]}.${parts[1]}.${parts[2] + 1}` : '1.0.0';
+}
+
+/**
+ * Checks whether a newer version than the installed one is published
+ *
+ * @param installedVersion - PluginConfig.version (missing = follows the latest version)
+ * @param latestVersion - Plugin.version
+ */
+export function isPluginUpdateAvailable(installedVersion: string | undefined, latestVersion: string | undefined): boolean {
+  return !!installedVersion && comparePluginVersions(latestVersion, installedVersion) > 0;
+}
+
+/**
+ * Versions published after the installed one, newest first (for the changelog)
+ */
+export function getVersionsSince(versions: PluginVersion[], installedVersion: string | undefined): PluginVersion[] {
+  return versions
+    .filter((version) => comparePluginVersions(version.version, installedVersion) > 0)
+    .sort((a, b) => comparePluginVersions(b.version, a.version));
+}
@@ -1,19 +1,23 @@
 import type { Plugin, PluginExecutionContext, PluginRenderElement } from '../types';
+import { formatCalendarDate, getCalendarDateInTimezone } from '../calcs';
 
 export const habitTrackerPlugin: Plugin = {
   id: 'habit-tracker',
   name: 'Habit Tracker',
   author: 'Remainders Team',
   version: '1.0.0',
-  description: 'Track daily habits with visual indicators on your wallpaper',
+  description: 'Track daily habits with visual indicators on your wallpaper; check them off through the plugin data API',
+  category: 'health',
+  tags: ['habits', 'streaks', 'tracking'],
   configSchema: {
     habits: {
       type: 'array',
       items: {
         type: 'object',
+        label: 'Habit',
         properties: {
-          name: { type: 'string', label: 'Habit Name' },
-          color: { type: 'string', default: '#4CAF50', label: 'Color' },
+          name: { type: 'string', required: true, maxLength: 40, label: 'Habit Name' },
+          color: { type: 'color', default: '#4CAF50', label: 'Color' },
           icon: { type: 'string', default: '✓', label: 'Icon' },
         },
       },
@@ -47,12 +51,24 @@ export const habitTrackerPlugin: Plugin = {
     const showLabels = config.showLabels ?? true;
     const baseFontSize = (typography?.fontSize || 0.035) * height;
 
-    // Calculate position based on config
+    // A habit is done today when its stored value is today's date,
+    // e.g. POST /api/john/plugins/habit-tracker/data {"Exercise":"2026-10-19"}
+    const today = formatCalendarDate(ctx.today ?? getCalendarDateInTimezone(ctx.timezone));
+    const isDone = (name: string) => ctx.data?.[name] === today;
+
+    // Calculate position based on config: beside the grid when the host
+    // shares its layout, otherwise in a corner of the wallpaper
     let x = 0, y = 0;
     const padding = width * 0.05;
     const spacing = height * 0.04;
 
-    if (position === 'top-left') {
+    if (ctx.layout) {
+      const { grid, stats, dotSize } = ctx.layout;
+      x = position.includes('right') ? grid.x + grid.width : grid.x;
+      y = position.startsWith('top')
+        ? grid.y - dotSize - (habits.length * spacing)
+        : (stats ? stats.y + stats.height : grid.y + grid.height) + dotSize;
+    } else if (position === 'top-left') {
       x = padding;
       y = padding;
     } else if (position === 'top-right') {
@@ -70,8 +86,9 @@ export const habitTrackerPlugin: Plugin = {
 
     habits.forEach((habit: any, index: number) => {
       const yPos = y + (index * spacing);
+      const done = isDone(habit.name);
 
-      // Icon
+      // Icon (faded until done)
       elements.push({
         type: 'text',
         content: habit.icon,
@@ -79,6 +96,7 @@ export const habitTrackerPlugin: Plugin = {
         y: yPos,
         fontSize: baseFontSize * 0.4,
         color: habit.color,
+        opacity: done ? 1 : 0.35,
         fontFamily: 'monospace',
         align: position.includes('right') ? 'right' : 'left',
       });
@@ -88,7 +106,7 @@ export const habitTrackerPlugin: Plugin = {
         const labelOffset = baseFontSize * 0.5;
         elements.push({
           type: 'text',
-          content: habit.name,
+          content: done ? `${habit.name} ✓` : habit.name,
           x: position.includes('right') ? x - labelOffset : x + labelOffset,
           y: yPos,
           fontSize: baseFontSize * 0.3,
@@ -25,16 +25,19 @@ function getMoonPhase(date: Date): number {
   return phase;
 }
 
-function getMoonEmoji(phase: number): string {
-  if (phase < 0.0625) return '🌑'; // New Moon
-  if (phase < 0.1875) return '🌒'; // Waxing Crescent
-  if (phase < 0.3125) return '🌓'; // First Quarter
-  if (phase < 0.4375) return '🌔'; // Waxing Gibbous
-  if (phase < 0.5625) return '🌕'; // Full Moon
-  if (phase < 0.6875) return '🌖'; // Waning Gibbous
-  if (phase < 0.8125) return '🌗'; // Last Quarter
-  if (phase < 0.9375) return '🌘'; // Waning Crescent
-  return '🌑'; // New Moon
+// Lit part of the moon as SVG path data around (0, 0): the outer edge on the
+// lit side plus the terminator, an ellipse whose width follows the phase
+function getMoonLitPath(phase: number, radius: number): string {
+  const waxing = phase < 0.5;
+  const crescent = Math.cos(phase * 2 * Math.PI) > 0;
+  const outerSweep = waxing ? 1 : 0;
+  const terminatorSweep = crescent ? 1 - outerSweep : outerSweep;
+  const terminatorRadius = Math.abs(Math.cos(phase * 2 * Math.PI)) * radius;
+
+  return (
+    `M 0 ${-radius} A ${radius} ${radius} 0 0 ${outerSweep} 0 ${radius} ` +
+    `A ${terminatorRadius} ${radius} 0 0 ${terminatorSweep} 0 ${-radius} Z`
+  );
 }
 
 function getMoonPhaseName(phase: number): string {
@@ -55,6 +58,8 @@ export const moonPhasePlugin: Plugin = {
   author: 'Remainders Team',
   version: '1.0.0',
   description: 'Display the current moon phase on your wallpaper',
+  category: 'nature',
+  tags: ['moon', 'astronomy'],
   configSchema: {
     position: {
       type: 'string',
@@ -80,19 +85,26 @@ export const moonPhasePlugin: Plugin = {
     const showPercentage = config.showPercentage ?? true;
     const baseFontSize = (typography?.fontSize || 0.035) * height;
 
-    const now = new Date();
+    // Wall-clock date in the user's timezone
+    const now = ctx.currentDate ?? new Date();
     const phase = getMoonPhase(now);
-    const emoji = getMoonEmoji(phase);
     const phaseName = getMoonPhaseName(phase);
     const illumination = Math.round(
       phase < 0.5 ? phase * 200 : (1 - phase) * 200
     );
 
-    // Calculate position
+    // Calculate position: beside the grid when the host shares its layout,
+    // otherwise in a corner of the wallpaper
     let x = 0, y = 0;
     const padding = width * 0.05;
 
-    if (position === 'top-left') {
+    if (ctx.layout) {
+      const { grid, stats, dotSize } = ctx.layout;
+      x = position.includes('right') ? grid.x + grid.width : grid.x;
+      y = position.startsWith('top')
+        ? grid.y - dotSize - (baseFontSize * 2)
+        : (stats ? stats.y + stats.height : grid.y + grid.height) + dotSize;
+    } else if (position === 'top-left') {
       x = padding;
       y = padding;
     } else if (position === 'top-right') {
@@ -109,16 +121,26 @@ export const moonPhasePlugin: Plugin = {
     const elements: PluginRenderElement[] = [];
     const align = position.includes('right') ? 'right' : 'left';
 
-    // Moon emoji
+    // Moon: dark disc with the lit part on top
+    const moonRadius = baseFontSize * 0.3;
+    const moonX = align === 'right' ? x - moonRadius : x + moonRadius;
+    const moonY = y + moonRadius;
+    const moonColor = colors?.text || '#FFFFFF';
+
+    elements.push({
+      type: 'circle',
+      x: moonX,
+      y: moonY,
+      radius: moonRadius,
+      color: moonColor,
+      opacity: 0.15,
+    });
     elements.push({
-      type: 'text',
-      content: emoji,
-      x: x,
-      y: y,
-      fontSize: baseFontSize * 0.6,
-      color: colors?.text || '#FFFFFF',
-      fontFamily: 'monospace',
-      align: align,
+      type: 'path',
+      d: getMoonLitPath(phase, moonRadius),
+      x: moonX,
+      y: moonY,
+      color: moonColor,
     });
 
     let offsetY = y + (baseFontSize * 0.8);
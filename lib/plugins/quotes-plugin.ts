@@ -1,4 +1,5 @@
 import type { Plugin, PluginExecutionContext, PluginRenderElement } from '../types';
+import { getCalendarDateInTimezone, getDayOfYear } from '../calcs';
 
 const quotes = [
   "The only way to do great work is to love what you do. - Steve Jobs",
@@ -19,6 +20,8 @@ export const quotesPlugin: Plugin = {
   author: 'Remainders Team',
   version: '1.0.0',
   description: 'Display daily inspirational quotes on your wallpaper',
+  category: 'motivation',
+  tags: ['quotes', 'inspiration'],
   configSchema: {
     position: {
       type: 'string',
@@ -41,18 +44,23 @@ export const quotesPlugin: Plugin = {
     const opacity = config.opacity || 0.7;
     const baseFontSize = (typography?.fontSize || 0.035) * height;
 
-    // Get quote based on day of year (consistent per day)
-    const now = new Date();
-    const start = new Date(now.getFullYear(), 0, 0);
-    const diff = now.getTime() - start.getTime();
-    const dayOfYear = Math.floor(diff / (1000 * 60 * 60 * 24));
+    // Get quote based on day of year in the user's timezone (consistent per day)
+    const dayOfYear = getDayOfYear(ctx.today ?? getCalendarDateInTimezone(ctx.timezone));
     const quote = quotes[dayOfYear % quotes.length];
 
+    const fontSize = baseFontSize * 0.5;
+    const layout = ctx.layout;
+
+    // Above the grid or below the stats when the host shares its layout,
+    // otherwise at a fixed share of the height
     let top = 0;
     if (position === 'top') {
-      top = height * 0.05;
+      top = layout ? layout.grid.y - layout.dotSize - fontSize * 3 : height * 0.05;
     } else if (position === 'center') {
       top = height * 0.5;
+    } else if (layout) {
+      const { grid, stats, dotSize } = layout;
+      top = (stats ? stats.y + stats.height : grid.y + grid.height) + dotSize;
     } else {
       top = height * 0.9;
     }
@@ -62,10 +70,10 @@ export const quotesPlugin: Plugin = {
       content: quote,
       x: width * 0.5,
       y: top,
-      fontSize: baseFontSize * 0.5,
+      fontSize,
       color: `rgba(255, 255, 255, ${opacity})`,
       align: 'center',
-      maxWidth: width * 0.8,
+      maxWidth: layout ? layout.safeArea.width : width * 0.8,
       fontFamily: 'monospace',
     }];
   },
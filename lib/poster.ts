@@ -0,0 +1,407 @@
+/**
+ * Printable Poster Layout for Remainders
+ *
+ * Lays out the life calendar (one row per year of life) or the current year
+ * (one row per month) on a sheet of paper, with row labels, a legend and an
+ * optional title. Scenes are built in pixels at POSTER_DPI and rendered to PDF
+ * by lib/pdf-renderer.ts, so the same colors as the wallpaper end up on paper.
+ */
+
+import { LifeChapter, LifeEvent, LifeGridUnit, PosterSize, SceneNode, WallpaperScene } from './types';
+import {
+  DEFAULT_LIFE_GRID_UNIT,
+  LIFE_EXPECTANCY_YEARS,
+  LIFE_GRID_UNITS,
+  calculateLifeGrid,
+  formatLifeExpectancy,
+  getCalendarDate,
+  getDayOfYear,
+  getDaysInMonth,
+  getDaysInYear,
+  parseCalendarDate,
+} from './calcs';
+import { createDot, createText, getLifeDotFills } from './scene';
+
+/**
+ * Print resolution of poster scenes (pixels per inch)
+ */
+export const POSTER_DPI = 300;
+
+/**
+ * Supported paper sizes (portrait, in millimetres)
+ */
+export const POSTER_SIZES: Record<PosterSize, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: 'A4', widthMm: 210, heightMm: 297 },
+  a3: { label: 'A3', widthMm: 297, heightMm: 420 },
+  letter: { label: 'Letter', widthMm: 215.9, heightMm: 279.4 },
+};
+
+export const DEFAULT_POSTER_SIZE: PosterSize = 'a4';
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Extra space before every 10th row of the life poster (fraction of a row)
+ */
+const DECADE_GAP = 0.6;
+
+/**
+ * Approximate glyph width of the poster fonts (in em), used to reserve label space
+ */
+const CHAR_WIDTH = 0.6;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface PosterColors {
+  background: string;
+  past: string;
+  current: string;
+  future: string;
+  text: string;
+}
+
+interface PosterProps {
+  size?: PosterSize;
+  title?: string;
+  colors?: PosterColors;
+  fontFamily?: string;
+  currentDate?: Date;
+}
+
+interface LegendItem {
+  label: string;
+  color: string;
+  opacity?: number;
+}
+
+const DEFAULT_COLORS: PosterColors = {
+  background: '#1a1a1a',
+  past: '#FFFFFF',
+  current: '#FF6B35',
+  future: '#404040',
+  text: '#888888',
+};
+
+/**
+ * Gets the page size of a poster in pixels at POSTER_DPI
+ *
+ * @example
+ * getPosterDimensions('a4') // Returns { width: 2480, height: 3508 }
+ */
+export function getPosterDimensions(size: PosterSize): { width: number; height: number } {
+  const { widthMm, heightMm } = POSTER_SIZES[size] || POSTER_SIZES[DEFAULT_POSTER_SIZE];
+  return {
+    width: Math.round((widthMm / MM_PER_INCH) * POSTER_DPI),
+    height: Math.round((heightMm / MM_PER_INCH) * POSTER_DPI),
+  };
+}
+
+/**
+ * Shared page frame: margins, font sizes, title and subtitle
+ * Returns the nodes drawn so far and where the grid area starts.
+ */
+function createPosterFrame(width: number, title: string | undefined, subtitle: string, colors: PosterColors, fontFamily: string) {
+  const margin = width * 0.07;
+  const labelSize = width * 0.0115;
+  const titleSize = width * 0.04;
+  const nodes: SceneNode[] = [];
+  let top = margin;
+
+  if (title) {
+    nodes.push(createText(width / 2, top, title, { fontSize: titleSize, fontFamily, color: colors.past, align: 'center' }));
+    top += titleSize * 1.6;
+  }
+
+  nodes.push(createText(width / 2, top, subtitle, { fontSize: labelSize * 1.2, fontFamily, color: colors.text, align: 'center' }));
+  top += labelSize * 4;
+
+  return { margin, labelSize, nodes, top };
+}
+
+/**
+ * Legend rows at the bottom of the page (4 items per row)
+ * Returns the nodes and the top of the legend, so the grid can end above it.
+ */
+function createPosterLegend(
+  items: LegendItem[],
+  { width, height, margin, labelSize, colors, fontFamily }: {
+    width: number;
+    height: number;
+    margin: number;
+    labelSize: number;
+    colors: PosterColors;
+    fontFamily: string;
+  }
+): { nodes: SceneNode[]; top: number } {
+  const perRow = 4;
+  const rowHeight = labelSize * 2.2;
+  const columnWidth = (width - margin * 2) / perRow;
+  const dotSize = labelSize * 0.9;
+  const maxChars = Math.max(4, Math.floor((columnWidth - dotSize * 2) / (labelSize * CHAR_WIDTH)));
+  const top = height - margin - Math.ceil(items.length / perRow) * rowHeight;
+  const nodes: SceneNode[] = [];
+
+  items.forEach((item, index) => {
+    const x = margin + (index % perRow) * columnWidth;
+    const y = top + Math.floor(index / perRow) * rowHeight;
+    const label = item.label.length > maxChars ? `${item.label.slice(0, maxChars - 3)}...` : item.label;
+
+    nodes.push(createDot(x, y + (labelSize - dotSize) / 2, dotSize, item.color, item.opacity));
+    nodes.push(createText(x + dotSize * 1.6, y + labelSize / 2, label, {
+      fontSize: labelSize,
+      fontFamily,
+      color: colors.text,
+      baseline: 'middle',
+    }));
+  });
+
+  return { nodes, top };
+}
+
+/**
+ * Fits a grid of rows and columns between the page header and legend,
+ * leaving room for row labels on both sides
+ *
+ * @param options.rowBreakEvery - Add DECADE_GAP before every n-th row
+ * @param options.maxRowPitch - Largest row height, as a multiple of the column width
+ */
+function layoutPosterGrid({
+  width,
+  top,
+  bottom,
+  margin,
+  labelWidth,
+  columns,
+  rows,
+  rowBreakEvery,
+  maxRowPitch = 1,
+}: {
+  width: number;
+  top: number;
+  bottom: number;
+  margin: number;
+  labelWidth: number;
+  columns: number;
+  rows: number;
+  rowBreakEvery?: number;
+  maxRowPitch?: number;
+}) {
+  const breaks = rowBreakEvery ? Math.floor((rows - 1) / rowBreakEvery) : 0;
+  const availableWidth = width - margin * 2 - labelWidth * 2;
+  const availableHeight = bottom - top;
+
+  const cellWidth = Math.min(availableWidth / columns, availableHeight / (rows + breaks * DECADE_GAP));
+  const rowPitch = Math.min(cellWidth * maxRowPitch, availableHeight / (rows + breaks * DECADE_GAP));
+  const dotSize = Math.min(cellWidth, rowPitch) * 0.72;
+
+  const gridWidth = columns * cellWidth;
+  const gridHeight = (rows + breaks * DECADE_GAP) * rowPitch;
+  const startX = (width - gridWidth) / 2;
+  const startY = top + (availableHeight - gridHeight) / 2;
+
+  return {
+    cellWidth,
+    rowPitch,
+    dotSize,
+    startX,
+    endX: startX + gridWidth,
+    /** Vertical center of a row */
+    rowCenter: (row: number) =>
+      startY + (row + (rowBreakEvery ? Math.floor(row / rowBreakEvery) : 0) * DECADE_GAP + 0.5) * rowPitch,
+    /** Left edge of a dot in a column */
+    dotX: (column: number) => startX + column * cellWidth + (cellWidth - dotSize) / 2,
+  };
+}
+
+/**
+ * Builds the life calendar poster: one row per year of life
+ *
+ * - Rows are labeled with the age; every 10th row starts a new decade, marked
+ *   with extra space, a highlighted age and the calendar year on the right
+ * - Columns are weeks (52) or months (12); day and year grids use weeks
+ * - Dots use the wallpaper colors, life events and chapters
+ */
+export function buildLifePosterScene({
+  size = DEFAULT_POSTER_SIZE,
+  title,
+  colors = DEFAULT_COLORS,
+  fontFamily = 'monospace',
+  currentDate = new Date(),
+  birthDate,
+  lifeExpectancyYears = LIFE_EXPECTANCY_YEARS,
+  lifeGridUnit = DEFAULT_LIFE_GRID_UNIT,
+  lifeEvents = [],
+  lifeChapters = [],
+}: PosterProps & {
+  birthDate: string;
+  lifeExpectancyYears?: number;
+  lifeGridUnit?: LifeGridUnit;
+  lifeEvents?: LifeEvent[];
+  lifeChapters?: LifeChapter[];
+}): WallpaperScene {
+  const { width, height } = getPosterDimensions(size);
+  const unit: LifeGridUnit = lifeGridUnit === 'months' ? 'months' : DEFAULT_LIFE_GRID_UNIT;
+  const columns = LIFE_GRID_UNITS[unit].perYear;
+
+  const lifeGrid = calculateLifeGrid(birthDate, lifeExpectancyYears, unit, currentDate);
+  const rows = Math.ceil(lifeGrid.totalDots / columns);
+  const dotFills = getLifeDotFills({
+    birthDate,
+    lifeGridUnit: unit,
+    lifeEvents,
+    lifeChapters,
+    totalDots: lifeGrid.totalDots,
+    unitsLived: lifeGrid.unitsLived,
+    colors,
+  });
+
+  const unitName = unit === 'months' ? 'month' : 'week';
+  const subtitle = `${lifeGrid.percentage.toFixed(1)}% of ${formatLifeExpectancy(lifeExpectancyYears)} years · 1 dot = 1 ${unitName} · born ${birthDate}`;
+  const frame = createPosterFrame(width, title, subtitle, colors, fontFamily);
+
+  const legend = createPosterLegend(
+    [
+      { label: 'Lived', color: colors.past },
+      { label: `This ${unitName}`, color: colors.current },
+      { label: 'Ahead', color: colors.future },
+      ...lifeEvents.filter((event) => event.color).map((event) => ({ label: event.label || event.date, color: event.color })),
+      ...lifeChapters.filter((chapter) => chapter.color).map((chapter) => ({ label: chapter.label || chapter.startDate, color: chapter.color })),
+    ],
+    { width, height, margin: frame.margin, labelSize: frame.labelSize, colors, fontFamily }
+  );
+
+  const labelWidth = frame.labelSize * (4 * CHAR_WIDTH + 1);
+  const grid = layoutPosterGrid({
+    width,
+    top: frame.top,
+    bottom: legend.top - frame.labelSize * 2,
+    margin: frame.margin,
+    labelWidth,
+    columns,
+    rows,
+    rowBreakEvery: 10,
+  });
+  const labelSize = Math.min(frame.labelSize, grid.rowPitch * 0.8);
+  const birthYear = parseCalendarDate(birthDate)?.year ?? getCalendarDate(currentDate).year;
+
+  const dots: SceneNode[] = [];
+  const labels: SceneNode[] = [];
+  for (let row = 0; row < rows; row++) {
+    const centerY = grid.rowCenter(row);
+    const isDecade = row % 10 === 0;
+
+    for (let column = 0; column < columns; column++) {
+      const index = row * columns + column;
+      if (index >= lifeGrid.totalDots) break;
+      dots.push(createDot(grid.dotX(column), centerY - grid.dotSize / 2, grid.dotSize, dotFills[index].fill, dotFills[index].opacity));
+    }
+
+    // Year-row label (age) and decade markers
+    labels.push(createText(grid.startX - labelSize * 0.5, centerY, String(row), {
+      fontSize: labelSize,
+      fontFamily,
+      color: isDecade ? colors.past : colors.text,
+      align: 'right',
+      baseline: 'middle',
+    }));
+    if (isDecade && Number.isFinite(birthYear)) {
+      labels.push(createText(grid.endX + labelSize * 0.5, centerY, String(birthYear + row), {
+        fontSize: labelSize,
+        fontFamily,
+        color: colors.text,
+        baseline: 'middle',
+      }));
+    }
+  }
+
+  return {
+    width,
+    height,
+    background: colors.background,
+    nodes: [...dots, ...frame.nodes, ...labels, ...legend.nodes],
+  };
+}
+
+/**
+ * Builds the year poster: one row per month, one column per day of the month
+ */
+export function buildYearPosterScene({
+  size = DEFAULT_POSTER_SIZE,
+  title,
+  colors = DEFAULT_COLORS,
+  fontFamily = 'monospace',
+  currentDate = new Date(),
+}: PosterProps): WallpaperScene {
+  const { width, height } = getPosterDimensions(size);
+  const today = getCalendarDate(currentDate);
+  const year = today.year;
+
+  // Same stats as the year view wallpaper
+  const dayOfYear = getDayOfYear(today);
+  const daysInYear = getDaysInYear(year);
+  const percentage = Math.round((dayOfYear / daysInYear) * 100);
+
+  const subtitle = `${year} · ${daysInYear - dayOfYear} days left · ${percentage}%`;
+  const frame = createPosterFrame(width, title, subtitle, colors, fontFamily);
+  const legend = createPosterLegend(
+    [
+      { label: 'Past', color: colors.past },
+      { label: 'Today', color: colors.current },
+      { label: 'Ahead', color: colors.future },
+    ],
+    { width, height, margin: frame.margin, labelSize: frame.labelSize, colors, fontFamily }
+  );
+
+  const labelWidth = frame.labelSize * (3 * CHAR_WIDTH + 1);
+  const grid = layoutPosterGrid({
+    width,
+    top: frame.top + frame.labelSize * 2,
+    bottom: legend.top - frame.labelSize * 2,
+    margin: frame.margin,
+    labelWidth,
+    columns: 31,
+    rows: 12,
+    maxRowPitch: 1.6,
+  });
+  const labelSize = Math.min(frame.labelSize, grid.cellWidth * 0.6);
+
+  const dots: SceneNode[] = [];
+  const labels: SceneNode[] = [];
+
+  // Day numbers above the grid
+  for (let day = 1; day <= 31; day++) {
+    labels.push(createText(grid.dotX(day - 1) + grid.dotSize / 2, grid.rowCenter(0) - grid.rowPitch, String(day), {
+      fontSize: labelSize * 0.8,
+      fontFamily,
+      color: colors.text,
+      align: 'center',
+      baseline: 'middle',
+    }));
+  }
+
+  for (let month = 0; month < 12; month++) {
+    const centerY = grid.rowCenter(month);
+
+    for (let day = 1; day <= getDaysInMonth(year, month); day++) {
+      const dotDayOfYear = getDayOfYear({ year, month: month + 1, day });
+      const fill = dotDayOfYear < dayOfYear ? colors.past : dotDayOfYear === dayOfYear ? colors.current : colors.future;
+      dots.push(createDot(grid.dotX(day - 1), centerY - grid.dotSize / 2, grid.dotSize, fill));
+    }
+
+    // Month row label
+    labels.push(createText(grid.startX - labelSize * 0.5, centerY, MONTHS[month], {
+      fontSize: labelSize,
+      fontFamily,
+      color: month === today.month - 1 ? colors.past : colors.text,
+      align: 'right',
+      baseline: 'middle',
+    }));
+  }
+
+  return {
+    width,
+    height,
+    background: colors.background,
+    nodes: [...dots, ...frame.nodes, ...labels, ...legend.nodes],
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Per-username Rate Limiting for Remainders
+ *
+ * Fixed-window request counter for the public API routes (wallpaper, stats,
+ * calendar feed, plugin data and previews). In-memory, so it resets when the
+ * server instance restarts.
+ */
+
+// Rate limiting map (in-memory, resets on function restart)
+const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT_MAX = 100; // requests per window
+const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
+
+/**
+ * Counts a request for a key and checks it against the limit
+ *
+ * @param key - Rate limit key (e.g. the username)
+ * @returns true if the request is allowed, false if the limit is exceeded
+ */
+export function checkRateLimit(key: string): boolean {
+  const now = Date.now();
+  const record = rateLimitMap.get(key);
+
+  if (!record || now > record.resetTime) {
+    // Create new window
+    rateLimitMap.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (record.count >= RATE_LIMIT_MAX) {
+    return false; // Rate limit exceeded
+  }
+
+  record.count++;
+  return true;
+}
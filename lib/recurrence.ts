@@ -0,0 +1,413 @@
+/**
+ * Calendar Entry Recurrence for Remainders
+ *
+ * Expands imported calendar entries (see parseIcsCalendar in lib/ics.ts) into
+ * dated occurrences. Supports the iCalendar RRULE parts calendar apps actually
+ * export: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL,
+ * BYDAY (with ordinals such as 2MO or -1FR), BYMONTHDAY, BYMONTH and WKST.
+ *
+ * Everything works on calendar dates (day numbers), so results don't depend on
+ * the server's timezone. Timed entries with a timezone recur on the days of
+ * that timezone (so BYDAY and EXDATE match the days the organizer meant), and
+ * each occurrence is then moved to the user's timezone.
+ */
+
+import { CalendarDate, CalendarEntry, CalendarOccurrence } from '@/lib/types';
+import { convertWallClock, formatCalendarDate, fromDayNumber, getDaysInMonth, parseCalendarDate, toDayNumber } from '@/lib/calcs';
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  /** Last possible day (day number) */
+  until?: number;
+  /** Weekdays (0 = Sunday); ordinal n = nth in the month or year, -n = nth from the end, 0 = every */
+  byDay?: { weekday: number; ordinal: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  /** First day of the week for WEEKLY rules (0 = Sunday) */
+  weekStart: number;
+}
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/** Most occurrences returned by one expansion */
+export const MAX_OCCURRENCES = 5000;
+
+// Safety net for rules that never produce a date (e.g. BYMONTHDAY=31;BYMONTH=2)
+const MAX_PERIODS = 20000;
+
+// Most days an occurrence can move between timezones (UTC offsets span 26 hours)
+const TIMEZONE_SHIFT_DAYS = 2;
+
+/**
+ * Checks that an RRULE value can be expanded
+ *
+ * @param rule - RRULE value (e.g. 'FREQ=MONTHLY;BYDAY=-1FR')
+ * @returns Whether the rule is valid, and why not
+ */
+export function validateRecurrenceRule(rule: string): { valid: boolean; errors: string[] } {
+  const { error } = parseRecurrenceRule(rule);
+  return error ? { valid: false, errors: [error] } : { valid: true, errors: [] };
+}
+
+/**
+ * Expands calendar entries into the occurrences that overlap a date range
+ *
+ * Entries with an invalid RRULE are treated as single events.
+ *
+ * @param entries - Calendar entries (see normalizeCalendarEntries)
+ * @param from - First day of the range
+ * @param to - Last day of the range (inclusive)
+ * @param timezone - The user's IANA timezone (days and times of the occurrences)
+ * @returns Occurrences sorted by date and time (at most MAX_OCCURRENCES)
+ */
+export function expandCalendarEntries(
+  entries: CalendarEntry[],
+  from: CalendarDate,
+  to: CalendarDate,
+  timezone: string = 'UTC'
+): CalendarOccurrence[] {
+  const fromDay = toDayNumber(from);
+  const toDay = toDayNumber(to);
+  const occurrences: CalendarOccurrence[] = [];
+
+  for (const entry of entries) {
+    const start = parseCalendarDate(entry.date);
+    if (!start) continue;
+
+    const startDay = toDayNumber(start);
+    const end = parseCalendarDate(entry.endDate);
+    const duration = end ? Math.max(0, toDayNumber(end) - startDay) : 0;
+    const excluded = new Set(
+      (entry.exdates || []).map((date) => parseCalendarDate(date)).filter((date): date is CalendarDate => !!date).map(toDayNumber)
+    );
+
+    // Occurrences in another timezone can move a day or two once they are in the user's
+    const moves = !!entry.time && !!entry.timezone && entry.timezone !== timezone;
+    const margin = moves ? TIMEZONE_SHIFT_DAYS : 0;
+
+    const rule = entry.rrule ? parseRecurrenceRule(entry.rrule).data : null;
+    // Occurrences starting up to `duration` days before the range still overlap it
+    const days = rule
+      ? getRecurrenceDays(rule, start, fromDay - duration - margin, toDay + margin)
+      : [startDay];
+
+    for (const day of days) {
+      if (excluded.has(day)) continue;
+
+      let localDay = day;
+      let time = entry.time;
+      if (moves && entry.time && entry.timezone) {
+        try {
+          const local = convertWallClock(fromDayNumber(day), entry.time, entry.timezone, timezone);
+          localDay = toDayNumber(local.date);
+          time = local.time;
+        } catch {
+          // Unknown timezone: keep the entry's own day and time
+        }
+      }
+      if (localDay + duration < fromDay || localDay > toDay) continue;
+
+      const occurrence: CalendarOccurrence = {
+        entryId: entry.id,
+        title: entry.title,
+        date: formatCalendarDate(fromDayNumber(localDay)),
+        allDay: entry.allDay,
+      };
+      if (duration > 0) occurrence.endDate = formatCalendarDate(fromDayNumber(localDay + duration));
+      if (time) occurrence.time = time;
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''))
+    .slice(0, MAX_OCCURRENCES);
+}
+
+/**
+ * Gets every day within a range that has a calendar occurrence (multi-day ones included)
+ *
+ * @param entries - Calendar entries
+ * @param from - First day of the range
+ * @param to - Last day of the range (inclusive)
+ * @param timezone - The user's IANA timezone
+ * @returns Day numbers (see toDayNumber)
+ */
+export function getCalendarEventDays(
+  entries: CalendarEntry[],
+  from: CalendarDate,
+  to: CalendarDate,
+  timezone: string = 'UTC'
+): Set<number> {
+  const fromDay = toDayNumber(from);
+  const toDay = toDayNumber(to);
+  const days = new Set<number>();
+
+  for (const occurrence of expandCalendarEntries(entries, from, to, timezone)) {
+    const first = parseCalendarDate(occurrence.date);
+    const last = parseCalendarDate(occurrence.endDate) || first;
+    if (!first || !last) continue;
+
+    for (let day = Math.max(toDayNumber(first), fromDay); day <= Math.min(toDayNumber(last), toDay); day++) {
+      days.add(day);
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Gets the next calendar occurrences from a day on (including ongoing multi-day ones)
+ *
+ * @param entries - Calendar entries
+ * @param today - First day to include, in the user's timezone
+ * @param timezone - The user's IANA timezone
+ * @param days - How many days ahead to look
+ * @param limit - Most occurrences returned
+ * @returns Occurrences sorted by date and time
+ */
+export function getUpcomingOccurrences(
+  entries: CalendarEntry[],
+  today: CalendarDate,
+  timezone: string = 'UTC',
+  days: number = 60,
+  limit: number = 20
+): CalendarOccurrence[] {
+  const last = fromDayNumber(toDayNumber(today) + days - 1);
+  return expandCalendarEntries(entries, today, last, timezone).slice(0, limit);
+}
+
+/**
+ * Parses an RRULE value (without the 'RRULE:' prefix)
+ */
+function parseRecurrenceRule(value: string): { data: RecurrenceRule | null; error: string | null } {
+  const parts = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, ...rest] = part.split('=');
+    if (key) parts.set(key.trim().toUpperCase(), rest.join('=').trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    return { data: null, error: `Unsupported recurrence frequency: ${parts.get('FREQ') || 'none'}` };
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, weekStart: 1 };
+
+  const interval = parts.get('INTERVAL');
+  if (interval !== undefined) {
+    rule.interval = parseInt(interval, 10);
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+      return { data: null, error: `Invalid recurrence interval: ${interval}` };
+    }
+  }
+
+  const count = parts.get('COUNT');
+  if (count !== undefined) {
+    rule.count = parseInt(count, 10);
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      return { data: null, error: `Invalid recurrence count: ${count}` };
+    }
+  }
+
+  const until = parts.get('UNTIL');
+  if (until !== undefined) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = match ? parseCalendarDate(`${match[1]}-${match[2]}-${match[3]}`) : null;
+    if (!date) return { data: null, error: `Invalid recurrence end: ${until}` };
+    rule.until = toDayNumber(date);
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    rule.byDay = [];
+    for (const code of byDay.split(',')) {
+      const match = code.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return { data: null, error: `Invalid recurrence weekday: ${code}` };
+      rule.byDay.push({ weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal: match[1] ? parseInt(match[1], 10) : 0 });
+    }
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) {
+    rule.byMonthDay = byMonthDay.split(',').map((day) => parseInt(day, 10));
+    if (rule.byMonthDay.some((day) => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)) {
+      return { data: null, error: `Invalid recurrence month day: ${byMonthDay}` };
+    }
+  }
+
+  const byMonth = parts.get('BYMONTH');
+  if (byMonth) {
+    rule.byMonth = byMonth.split(',').map((month) => parseInt(month, 10));
+    if (rule.byMonth.some((month) => !Number.isInteger(month) || month < 1 || month > 12)) {
+      return { data: null, error: `Invalid recurrence month: ${byMonth}` };
+    }
+  }
+
+  const weekStart = parts.get('WKST');
+  if (weekStart && WEEKDAY_CODES.includes(weekStart)) {
+    rule.weekStart = WEEKDAY_CODES.indexOf(weekStart);
+  }
+
+  return { data: rule, error: null };
+}
+
+/**
+ * Weekday of a day number (0 = Sunday; 1970-01-01 was a Thursday)
+ */
+function getWeekday(day: number): number {
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+/**
+ * Days of a month matching BYMONTHDAY / BYDAY, or the start's day of month
+ */
+function getMonthDays(rule: RecurrenceRule, year: number, month: number, startDayOfMonth: number): number[] {
+  const firstDay = toDayNumber({ year, month, day: 1 });
+  const daysInMonth = getDaysInMonth(year, month - 1);
+
+  if (rule.byMonthDay) {
+    const weekdays = rule.byDay ? new Set(rule.byDay.map(({ weekday }) => weekday)) : null;
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : daysInMonth + day + 1))
+      .filter((day) => day >= 1 && day <= daysInMonth)
+      .map((day) => firstDay + day - 1)
+      .filter((day) => !weekdays || weekdays.has(getWeekday(day)));
+  }
+
+  if (rule.byDay) {
+    return getWeekdaysInRange(rule.byDay, firstDay, firstDay + daysInMonth - 1);
+  }
+
+  return startDayOfMonth <= daysInMonth ? [firstDay + startDayOfMonth - 1] : [];
+}
+
+/**
+ * Days in a range matching BYDAY weekdays (ordinals count within the range)
+ */
+function getWeekdaysInRange(byDay: NonNullable<RecurrenceRule['byDay']>, first: number, last: number): number[] {
+  const days: number[] = [];
+  for (const { weekday, ordinal } of byDay) {
+    const matches: number[] = [];
+    for (let day = first + ((weekday - getWeekday(first) + 7) % 7); day <= last; day += 7) {
+      matches.push(day);
+    }
+    if (ordinal === 0) {
+      days.push(...matches);
+    } else {
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (match !== undefined) days.push(match);
+    }
+  }
+  return days;
+}
+
+/**
+ * Candidate days of the nth period (day, week, month or year) of a rule,
+ * and the first day of that period
+ */
+function getPeriodDays(rule: RecurrenceRule, start: CalendarDate, period: number): { first: number; days: number[] } {
+  const startDay = toDayNumber(start);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + period;
+      const { month, day: dayOfMonth } = fromDayNumber(day);
+      const matches =
+        (!rule.byMonth || rule.byMonth.includes(month)) &&
+        (!rule.byMonthDay || rule.byMonthDay.includes(dayOfMonth)) &&
+        (!rule.byDay || rule.byDay.some(({ weekday }) => weekday === getWeekday(day)));
+      return { first: day, days: matches ? [day] : [] };
+    }
+    case 'WEEKLY': {
+      const first = startDay - ((getWeekday(startDay) - rule.weekStart + 7) % 7) + period * 7;
+      const weekdays = rule.byDay ? rule.byDay.map(({ weekday }) => weekday) : [getWeekday(startDay)];
+      const days = [0, 1, 2, 3, 4, 5, 6]
+        .map((offset) => first + offset)
+        .filter((day) => weekdays.includes(getWeekday(day)))
+        .filter((day) => !rule.byMonth || rule.byMonth.includes(fromDayNumber(day).month));
+      return { first, days };
+    }
+    case 'MONTHLY': {
+      const months = start.year * 12 + (start.month - 1) + period;
+      const year = Math.floor(months / 12);
+      const month = (months % 12) + 1;
+      const first = toDayNumber({ year, month, day: 1 });
+      if (rule.byMonth && !rule.byMonth.includes(month)) return { first, days: [] };
+      return { first, days: getMonthDays(rule, year, month, start.day) };
+    }
+    case 'YEARLY':
+    default: {
+      const year = start.year + period;
+      const first = toDayNumber({ year, month: 1, day: 1 });
+      // BYDAY without BYMONTH or BYMONTHDAY counts weekdays within the whole year
+      if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+        return { first, days: getWeekdaysInRange(rule.byDay, first, toDayNumber({ year, month: 12, day: 31 })) };
+      }
+      const months = rule.byMonth || [start.month];
+      return { first, days: months.flatMap((month) => getMonthDays(rule, year, month, start.day)) };
+    }
+  }
+}
+
+/**
+ * Index of the period (a multiple of INTERVAL) that contains a day, or 0 before the start
+ */
+function getPeriodContaining(rule: RecurrenceRule, start: CalendarDate, day: number): number {
+  const startDay = toDayNumber(start);
+  const date = fromDayNumber(day);
+  let period: number;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      period = day - startDay;
+      break;
+    case 'WEEKLY':
+      period = Math.floor((day - (startDay - ((getWeekday(startDay) - rule.weekStart + 7) % 7))) / 7);
+      break;
+    case 'MONTHLY':
+      period = (date.year - start.year) * 12 + (date.month - start.month);
+      break;
+    case 'YEARLY':
+    default:
+      period = date.year - start.year;
+  }
+
+  return Math.max(0, Math.floor(period / rule.interval) * rule.interval);
+}
+
+/**
+ * Days a rule occurs on within [fromDay, toDay] (COUNT counts from the start)
+ */
+function getRecurrenceDays(rule: RecurrenceRule, start: CalendarDate, fromDay: number, toDay: number): number[] {
+  const startDay = toDayNumber(start);
+  const lastDay = rule.until !== undefined ? Math.min(rule.until, toDay) : toDay;
+  const days: number[] = [];
+  let count = 0;
+
+  // Without COUNT, periods before the range can be skipped
+  const firstPeriod = rule.count === undefined ? getPeriodContaining(rule, start, fromDay) : 0;
+  const lastPeriod = firstPeriod + MAX_PERIODS * rule.interval;
+
+  for (let period = firstPeriod; period < lastPeriod; period += rule.interval) {
+    const { first, days: candidates } = getPeriodDays(rule, start, period);
+    if (first > lastDay) break;
+
+    for (const day of Array.from(new Set(candidates)).sort((a, b) => a - b)) {
+      if (day < startDay) continue;
+      if (day > lastDay) return days;
+
+      count++;
+      if (rule.count !== undefined && count > rule.count) return days;
+      if (day >= fromDay) days.push(day);
+      if (days.length >= MAX_OCCURRENCES) return days;
+    }
+  }
+
+  return days;
+}
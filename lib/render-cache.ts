@@ -0,0 +1,218 @@
+/**
+ * Render Cache for Remainders
+ *
+ * A wallpaper only changes when the user's config, plugins or plugin data change, or when
+ * the user's local day rolls over (the local hour, for views that show it).
+ * createRenderKey() turns those inputs into a deterministic key that the
+ * username route sends as ETag and uses for a small in-process LRU of
+ * rendered images, so repeat requests skip the plugins and the renderer.
+ */
+
+import { createHash } from 'crypto';
+import { CachedRender, PluginDataValues, RenderPeriod, UserConfig } from './types';
+import { formatCalendarDate, getCalendarDate, getDateInTimezone, getLocalTimeInstant, toDayNumber } from './calcs';
+
+/**
+ * Bump when a code change alters rendered output, so old ETags stop matching
+ */
+const RENDER_KEY_VERSION = 1;
+
+// LRU of rendered images (in-memory, Map iteration order = least recently used first)
+const renderCache = new Map<string, CachedRender>();
+const MAX_CACHE_ENTRIES = 200;
+const MAX_CACHE_BYTES = 64 * 1024 * 1024; // 64 MB
+let cacheBytes = 0;
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal configs always
+ * hash the same whatever order Firestore returns their fields in
+ */
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Gets how often a config's wallpaper changes: hourly for the week view and
+ * the month view hour ring, daily otherwise
+ */
+export function getRenderPeriod(config: Pick<UserConfig, 'viewMode' | 'showHourRing'>): RenderPeriod {
+  return config.viewMode === 'week' || (config.viewMode === 'month' && config.showHourRing) ? 'hour' : 'day';
+}
+
+/**
+ * Builds the render key of a wallpaper
+ *
+ * @param options.config - Stored user config (its updatedAt and contents are hashed)
+ * @param options.plugins - Enabled plugins with their versions and stored data
+ * @param options.variant - Output variant (format, span...) of the request
+ * @param options.period - How often the output changes (see getRenderPeriod)
+ * @param options.now - Current time (defaults to now)
+ * @returns Hex digest, identical for every request that renders the same image
+ */
+export function createRenderKey({
+  config,
+  plugins,
+  variant,
+  period,
+  now = new Date(),
+}: {
+  config: UserConfig;
+  plugins: Array<{ id: string; version: string; updatedAt?: Date; data?: PluginDataValues }>;
+  variant: string;
+  period: RenderPeriod;
+  now?: Date;
+}): string {
+  const localTime = getDateInTimezone(config.timezone || 'UTC', now);
+  const localPeriod = period === 'hour'
+    ? `${formatCalendarDate(getCalendarDate(localTime))}T${String(localTime.getHours()).padStart(2, '0')}`
+    : formatCalendarDate(getCalendarDate(localTime));
+
+  return createHash('sha1')
+    .update(stableStringify([RENDER_KEY_VERSION, config, plugins, variant, localPeriod]))
+    .digest('hex');
+}
+
+/**
+ * Gets the start and end of the current render period in a timezone
+ *
+ * @example
+ * getRenderPeriodBounds('Asia/Tokyo', 'day', new Date('2026-01-01T16:00:00Z'))
+ * // Returns { start: 2026-01-01T15:00:00Z, end: 2026-01-02T15:00:00Z }
+ */
+export function getRenderPeriodBounds(
+  timezone: string,
+  period: RenderPeriod,
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  const localTime = getDateInTimezone(timezone, now);
+  const today = toDayNumber(getCalendarDate(localTime));
+
+  if (period === 'hour') {
+    const hour = localTime.getHours();
+    return {
+      start: getLocalTimeInstant(timezone, today, hour),
+      end: getLocalTimeInstant(timezone, today, hour + 1), // hour 24 = next midnight
+    };
+  }
+
+  return {
+    start: getLocalTimeInstant(timezone, today, 0),
+    end: getLocalTimeInstant(timezone, today + 1, 0),
+  };
+}
+
+/**
+ * Builds the caching headers of a wallpaper response
+ *
+ * - ETag: the render key
+ * - Last-Modified: the latest of the updates (config, plugin data) and the start of the period
+ * - Cache-Control/Expires: fresh until the period ends (local midnight or next hour),
+ *   or no-cache with `revalidate`, for output that can change at any time (stored
+ *   plugin data is written through the API without touching the config)
+ *
+ * @param options.updatedAt - When the inputs of the render last changed
+ * @param options.revalidate - Make clients check the ETag on every request
+ */
+export function createCacheHeaders({
+  renderKey,
+  updatedAt,
+  timezone,
+  period,
+  revalidate = false,
+  now = new Date(),
+}: {
+  renderKey: string;
+  updatedAt?: Date | string | null | Array<Date | string | null | undefined>;
+  timezone: string;
+  period: RenderPeriod;
+  revalidate?: boolean;
+  now?: Date;
+}): Record<string, string> {
+  const { start, end } = getRenderPeriodBounds(timezone, period, now);
+  const lastModified = (Array.isArray(updatedAt) ? updatedAt : [updatedAt])
+    .map((value) => (value ? new Date(value) : null))
+    .filter((updated): updated is Date => !!updated && !isNaN(updated.getTime()) && updated > start && updated <= now)
+    .reduce((latest, updated) => (updated > latest ? updated : latest), start);
+
+  if (revalidate) {
+    return {
+      'ETag': `"${renderKey}"`,
+      'Last-Modified': lastModified.toUTCString(),
+      'Cache-Control': 'no-cache',
+    };
+  }
+
+  const maxAge = Math.max(0, Math.floor((end.getTime() - now.getTime()) / 1000));
+  return {
+    'ETag': `"${renderKey}"`,
+    'Last-Modified': lastModified.toUTCString(),
+    'Cache-Control': `public, max-age=${maxAge}`,
+    'Expires': end.toUTCString(),
+  };
+}
+
+/**
+ * Checks whether a conditional request already has the current image
+ * If-None-Match wins over If-Modified-Since, as in RFC 9110.
+ *
+ * @param request - Incoming request
+ * @param headers - Caching headers from createCacheHeaders
+ */
+export function isNotModified(request: Request, headers: Record<string, string>): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    const etag = headers['ETag'];
+    return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have 1 second precision
+    return !isNaN(since) && Math.floor(Date.parse(headers['Last-Modified']) / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+/**
+ * Gets a rendered image from the cache (and marks it as recently used)
+ */
+export function getCachedRender(renderKey: string): CachedRender | undefined {
+  const entry = renderCache.get(renderKey);
+  if (entry) {
+    renderCache.delete(renderKey);
+    renderCache.set(renderKey, entry);
+  }
+  return entry;
+}
+
+/**
+ * Stores a rendered image, evicting the least recently used ones beyond
+ * MAX_CACHE_ENTRIES or MAX_CACHE_BYTES
+ */
+export function setCachedRender(renderKey: string, entry: CachedRender): void {
+  if (entry.body.byteLength > MAX_CACHE_BYTES) return;
+
+  const existing = renderCache.get(renderKey);
+  if (existing) {
+    cacheBytes -= existing.body.byteLength;
+    renderCache.delete(renderKey);
+  }
+  renderCache.set(renderKey, entry);
+  cacheBytes += entry.body.byteLength;
+
+  for (const [key, cached] of renderCache) {
+    if (renderCache.size <= MAX_CACHE_ENTRIES && cacheBytes <= MAX_CACHE_BYTES) break;
+    renderCache.delete(key);
+    cacheBytes -= cached.body.byteLength;
+  }
+}
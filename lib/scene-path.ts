@@ -0,0 +1,397 @@
+/**
+ * Scene Path Helpers for Remainders
+ *
+ * Builds and transforms shape outlines (ScenePathCommand lists) for wallpaper
+ * scenes. Every outline uses only absolute M, L, C and Z commands: SVG path data
+ * from plugins is parsed into that form, and rects, ellipses and arcs are built
+ * from cubic Béziers, so the SVG, PNG and PDF renderers all draw the same shapes.
+ */
+
+import { ScenePathCommand } from './types';
+
+/**
+ * Most commands a single shape may have (after arcs are split into curves)
+ */
+export const MAX_PATH_COMMANDS = 1000;
+
+/**
+ * Number of parameters each SVG path command takes
+ */
+const PATH_PARAMETER_COUNTS: Record<string, number> = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0,
+};
+
+/**
+ * Last control point of a curve, reflected by a following S or T command
+ */
+interface PathControl {
+  x: number;
+  y: number;
+  kind: 'C' | 'Q';
+}
+
+/**
+ * First control point of an S or T command: the previous control point
+ * mirrored through the current point, or the current point itself
+ */
+function reflectControl(control: PathControl | null, kind: PathControl['kind'], x: number, y: number): [number, number] {
+  return control && control.kind === kind ? [2 * x - control.x, 2 * y - control.y] : [x, y];
+}
+
+const PATH_NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+
+/**
+ * Splits an elliptical arc into cubic Béziers (at most a quarter turn each)
+ *
+ * @param cx - Center x
+ * @param cy - Center y
+ * @param rx - Horizontal radius
+ * @param ry - Vertical radius
+ * @param phi - Rotation of the ellipse in radians
+ * @param start - Start angle in radians (0 = +x, clockwise on screen)
+ * @param sweep - Angle to sweep in radians (negative = counter-clockwise)
+ * @returns One C command per segment
+ */
+function getArcCurves(cx: number, cy: number, rx: number, ry: number, phi: number, start: number, sweep: number): ScenePathCommand[] {
+  const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+  const delta = sweep / segments;
+  const t = (4 / 3) * Math.tan(delta / 4);
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const map = (u: number, v: number) => [cx + rx * u * cosPhi - ry * v * sinPhi, cy + rx * u * sinPhi + ry * v * cosPhi];
+
+  const curves: ScenePathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const a1 = start + i * delta;
+    const a2 = a1 + delta;
+    curves.push({
+      command: 'C',
+      values: [
+        ...map(Math.cos(a1) - t * Math.sin(a1), Math.sin(a1) + t * Math.cos(a1)),
+        ...map(Math.cos(a2) + t * Math.sin(a2), Math.sin(a2) - t * Math.cos(a2)),
+        ...map(Math.cos(a2), Math.sin(a2)),
+      ],
+    });
+  }
+  return curves;
+}
+
+/**
+ * Converts an SVG arc command (endpoint form) to cubic Béziers
+ * Follows the SVG spec's endpoint to center conversion, including radius scaling.
+ */
+function getEndpointArcCurves(
+  x1: number, y1: number, rx: number, ry: number, angle: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): ScenePathCommand[] {
+  if (x1 === x2 && y1 === y2) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (!rx || !ry) return [{ command: 'L', values: [x2, y2] }];
+
+  const phi = (angle * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const ux = (x1p - cxp) / rx;
+  const uy = (y1p - cyp) / ry;
+  const start = vectorAngle(1, 0, ux, uy);
+  let delta = vectorAngle(ux, uy, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const curves = getArcCurves(cx, cy, rx, ry, phi, start, delta);
+  // Land exactly on the requested end point
+  curves[curves.length - 1].values.splice(4, 2, x2, y2);
+  return curves;
+}
+
+/**
+ * Parses SVG path data (all commands, absolute and relative) into M/L/C/Z commands
+ *
+ * @param d - SVG path data, e.g. "M0 0 h10 a5 5 0 0 1 5 5 z"
+ * @returns The commands, or an error message for malformed or oversized paths
+ */
+export function parsePathData(d: string): { data: ScenePathCommand[] | null; error: string | null } {
+  const path: ScenePathCommand[] = [];
+  let index = 0;
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let control: PathControl | null = null;
+
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+  const readNumber = (): number | null => {
+    skipSeparators();
+    PATH_NUMBER.lastIndex = index;
+    const match = PATH_NUMBER.exec(d);
+    if (!match) return null;
+    index = PATH_NUMBER.lastIndex;
+    return Number(match[0]);
+  };
+  // Arc flags may be written without separators ("a1 1 0 014 4")
+  const readFlag = (): number | null => {
+    skipSeparators();
+    if (d[index] !== '0' && d[index] !== '1') return null;
+    return Number(d[index++]);
+  };
+
+  for (;;) {
+    skipSeparators();
+    if (index >= d.length) break;
+
+    if (/[a-z]/i.test(d[index])) {
+      command = d[index++];
+      if (!(command.toUpperCase() in PATH_PARAMETER_COUNTS)) {
+        return { data: null, error: `Unknown path command "${command}"` };
+      }
+    } else if (!command || command.toUpperCase() === 'Z') {
+      return { data: null, error: 'Path data must start with a command' };
+    }
+    if (path.length === 0 && command.toUpperCase() !== 'M') {
+      return { data: null, error: 'Path data must start with M' };
+    }
+
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+    const args: number[] = [];
+    for (let i = 0; i < PATH_PARAMETER_COUNTS[upper]; i++) {
+      const value = upper === 'A' && (i === 3 || i === 4) ? readFlag() : readNumber();
+      if (value === null || !Number.isFinite(value)) {
+        return { data: null, error: `Invalid parameters for path command "${command}"` };
+      }
+      args.push(value);
+    }
+
+    const offsetX = relative ? x : 0;
+    const offsetY = relative ? y : 0;
+    let nextControl: PathControl | null = null;
+
+    switch (upper) {
+      case 'Z':
+        path.push({ command: 'Z', values: [] });
+        x = startX;
+        y = startY;
+        break;
+      case 'M':
+        x = args[0] + offsetX;
+        y = args[1] + offsetY;
+        startX = x;
+        startY = y;
+        path.push({ command: 'M', values: [x, y] });
+        // Further coordinate pairs are implicit lineto commands
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+      case 'H':
+      case 'V':
+        if (upper !== 'V') x = args[0] + offsetX;
+        if (upper === 'V') y = args[0] + offsetY;
+        if (upper === 'L') y = args[1] + offsetY;
+        path.push({ command: 'L', values: [x, y] });
+        break;
+      case 'C':
+      case 'S': {
+        const reflected = reflectControl(control, 'C', x, y);
+        const points: number[] = upper === 'C' ? args : [reflected[0] - offsetX, reflected[1] - offsetY, ...args];
+        const values: number[] = points.map((value, i) => value + (i % 2 === 0 ? offsetX : offsetY));
+        path.push({ command: 'C', values });
+        nextControl = { x: values[2], y: values[3], kind: 'C' };
+        x = values[4];
+        y = values[5];
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const [qx, qy]: number[] = upper === 'Q'
+          ? [args[0] + offsetX, args[1] + offsetY]
+          : reflectControl(control, 'Q', x, y);
+        const endX = args[args.length - 2] + offsetX;
+        const endY = args[args.length - 1] + offsetY;
+        // Quadratic to cubic: control points 2/3 of the way to the quadratic one
+        path.push({
+          command: 'C',
+          values: [x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y), endX + (2 / 3) * (qx - endX), endY + (2 / 3) * (qy - endY), endX, endY],
+        });
+        nextControl = { x: qx, y: qy, kind: 'Q' };
+        x = endX;
+        y = endY;
+        break;
+      }
+      case 'A': {
+        const endX = args[5] + offsetX;
+        const endY = args[6] + offsetY;
+        path.push(...getEndpointArcCurves(x, y, args[0], args[1], args[2], args[3] === 1, args[4] === 1, endX, endY));
+        x = endX;
+        y = endY;
+        break;
+      }
+    }
+
+    control = nextControl;
+    if (path.length > MAX_PATH_COMMANDS) {
+      return { data: null, error: `Path data has more than ${MAX_PATH_COMMANDS} commands` };
+    }
+  }
+
+  if (path.length === 0) {
+    return { data: null, error: 'Path data is empty' };
+  }
+  return { data: path, error: null };
+}
+
+/**
+ * Creates a rectangle, optionally with rounded corners
+ *
+ * @param radius - Corner radius, capped at half the shorter side
+ */
+export function createRectPath(x: number, y: number, width: number, height: number, radius = 0): ScenePathCommand[] {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  if (r === 0) {
+    return [
+      { command: 'M', values: [x, y] },
+      { command: 'L', values: [x + width, y] },
+      { command: 'L', values: [x + width, y + height] },
+      { command: 'L', values: [x, y + height] },
+      { command: 'Z', values: [] },
+    ];
+  }
+
+  const quarter = Math.PI / 2;
+  return [
+    { command: 'M', values: [x + r, y] },
+    { command: 'L', values: [x + width - r, y] },
+    ...getArcCurves(x + width - r, y + r, r, r, 0, -quarter, quarter),
+    { command: 'L', values: [x + width, y + height - r] },
+    ...getArcCurves(x + width - r, y + height - r, r, r, 0, 0, quarter),
+    { command: 'L', values: [x + r, y + height] },
+    ...getArcCurves(x + r, y + height - r, r, r, 0, quarter, quarter),
+    { command: 'L', values: [x, y + r] },
+    ...getArcCurves(x + r, y + r, r, r, 0, 2 * quarter, quarter),
+    { command: 'Z', values: [] },
+  ];
+}
+
+/**
+ * Creates an ellipse (a circle when rx === ry)
+ */
+export function createEllipsePath(cx: number, cy: number, rx: number, ry: number): ScenePathCommand[] {
+  return [
+    { command: 'M', values: [cx + rx, cy] },
+    ...getArcCurves(cx, cy, rx, ry, 0, 0, 2 * Math.PI),
+    { command: 'Z', values: [] },
+  ];
+}
+
+/**
+ * Creates an open circular arc (for stroking)
+ * Sweeps of a full turn or more draw a closed ring.
+ *
+ * @param startAngle - Degrees clockwise from 12 o'clock
+ * @param endAngle - Degrees clockwise from 12 o'clock; smaller than startAngle draws counter-clockwise
+ */
+export function createArcPath(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): ScenePathCommand[] {
+  const sweep = Math.max(-360, Math.min(360, endAngle - startAngle));
+  const start = ((startAngle - 90) * Math.PI) / 180;
+  const path: ScenePathCommand[] = [
+    { command: 'M', values: [cx + radius * Math.cos(start), cy + radius * Math.sin(start)] },
+    ...getArcCurves(cx, cy, radius, radius, 0, start, (sweep * Math.PI) / 180),
+  ];
+  if (Math.abs(sweep) === 360) path.push({ command: 'Z', values: [] });
+  return path;
+}
+
+/**
+ * Creates a closed polygon from x, y pairs
+ */
+export function createPolygonPath(points: number[]): ScenePathCommand[] {
+  const path: ScenePathCommand[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    path.push({ command: i === 0 ? 'M' : 'L', values: [points[i], points[i + 1]] });
+  }
+  path.push({ command: 'Z', values: [] });
+  return path;
+}
+
+/**
+ * Moves every point of a path
+ */
+export function translatePath(path: ScenePathCommand[], dx: number, dy: number): ScenePathCommand[] {
+  return path.map(({ command, values }) => ({
+    command,
+    values: values.map((value, i) => value + (i % 2 === 0 ? dx : dy)),
+  }));
+}
+
+/**
+ * Rotates every point of a path around (cx, cy)
+ * Rotating control points rotates the curves exactly, so no resampling is needed.
+ *
+ * @param angle - Degrees clockwise
+ */
+export function rotatePath(path: ScenePathCommand[], angle: number, cx: number, cy: number): ScenePathCommand[] {
+  if (!angle) return path;
+
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  return path.map(({ command, values }) => {
+    const rotated: number[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      const dx = values[i] - cx;
+      const dy = values[i + 1] - cy;
+      rotated.push(cx + dx * cos - dy * sin, cy + dx * sin + dy * cos);
+    }
+    return { command, values: rotated };
+  });
+}
+
+/**
+ * Bounding box of all points of a path (control points included, so it may be
+ * slightly larger than the drawn curve)
+ */
+export function getPathBounds(path: ScenePathCommand[]): { left: number; top: number; right: number; bottom: number } {
+  const bounds = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity };
+  for (const { values } of path) {
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      bounds.left = Math.min(bounds.left, values[i]);
+      bounds.right = Math.max(bounds.right, values[i]);
+      bounds.top = Math.min(bounds.top, values[i + 1]);
+      bounds.bottom = Math.max(bounds.bottom, values[i + 1]);
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Formats a path as SVG path data (coordinates with at most 2 decimals)
+ */
+export function formatPathData(path: ScenePathCommand[]): string {
+  return path
+    .map(({ command, values }) => command + values.map((value) => String(Math.round(value * 100) / 100)).join(' '))
+    .join('');
+}
@@ -0,0 +1,604 @@
+/**
+ * Wallpaper Scene Helpers for Remainders
+ *
+ * Builds the renderer-independent parts of a wallpaper scene that every view
+ * shares: dots, the stats footer, custom text elements and plugin elements.
+ * Views add their own layout on top; see lib/svg-renderer.ts and
+ * app/api/wallpaper/scene-renderer.tsx for the renderers.
+ */
+
+import {
+  LifeChapter,
+  LifeEvent,
+  LifeGridUnit,
+  LayoutBox,
+  PluginDotDecoration,
+  PluginRenderElement,
+  SafeArea,
+  SceneCircle,
+  SceneImage,
+  SceneLayout,
+  ScenePathCommand,
+  SceneNode,
+  SceneShape,
+  SceneText,
+  SceneTextSpan,
+  TextElement,
+  WallpaperScene,
+  WallpaperSpan,
+} from './types';
+import { getLifeGridIndex, parseCalendarDate } from './calcs';
+import {
+  createArcPath,
+  createEllipsePath,
+  createPolygonPath,
+  createRectPath,
+  getPathBounds,
+  parsePathData,
+  rotatePath,
+  translatePath,
+} from './scene-path';
+
+/**
+ * Distance from a text node's y to its baseline (in em), for renderers that
+ * place text by baseline (SVG, PDF). 'top' matches how Satori places text in
+ * the PNG output (ascent of Noto Sans, its default font); 'middle' is approximate.
+ */
+export const TEXT_BASELINE_OFFSETS: Record<SceneText['baseline'], number> = {
+  top: 1.07,
+  middle: 0.35,
+};
+
+/**
+ * Most monitors a wallpaper can span (?span=)
+ */
+export const MAX_SPAN_MONITORS = 6;
+
+/**
+ * Ring color around days with imported calendar events (year view)
+ */
+export const CALENDAR_EVENT_COLOR = '#4ECDC4';
+
+/**
+ * Most dots a scene layout lists positions for (see SceneLayout.dots)
+ */
+export const MAX_LAYOUT_DOTS = 6000;
+
+/**
+ * Height of a line of text relative to its font size (normal line height of Noto Sans)
+ */
+const TEXT_LINE_HEIGHT = 1.36;
+
+interface SceneTheme {
+  colors?: {
+    text: string;
+    current?: string;
+  };
+  typography?: {
+    fontFamily: string;
+  };
+}
+
+/**
+ * Creates a dot from its bounding box (top-left corner and size)
+ *
+ * @param x - Left edge in pixels
+ * @param y - Top edge in pixels
+ * @param size - Dot diameter in pixels
+ * @param fill - Dot color
+ * @param opacity - Optional fill opacity (0-1)
+ */
+export function createDot(x: number, y: number, size: number, fill: string, opacity?: number): SceneCircle {
+  const dot: SceneCircle = {
+    type: 'circle',
+    cx: x + size / 2,
+    cy: y + size / 2,
+    r: size / 2,
+    fill,
+  };
+  if (opacity !== undefined) dot.opacity = opacity;
+  return dot;
+}
+
+/**
+ * Creates a ring around a dot: two circles to push before the dot itself
+ * The ring takes up to half the gap to the next dot, so neighbouring rings never touch.
+ *
+ * @param x - Left edge of the dot in pixels
+ * @param y - Top edge of the dot in pixels
+ * @param size - Dot diameter in pixels
+ * @param gap - Space between neighbouring dots in pixels
+ * @param color - Ring color
+ * @param background - Wallpaper background, shown between the ring and the dot
+ */
+export function createDotRing(x: number, y: number, size: number, gap: number, color: string, background: string): SceneCircle[] {
+  const spread = Math.min(gap * 0.45, size * 0.4);
+  const cx = x + size / 2;
+  const cy = y + size / 2;
+
+  return [
+    { type: 'circle', cx, cy, r: size / 2 + spread, fill: color },
+    { type: 'circle', cx, cy, r: size / 2 + spread / 2, fill: background },
+  ];
+}
+
+/**
+ * Groups plugin dot decorations by dot index
+ * Later decorations override earlier ones field by field.
+ *
+ * @param getIndex - Dot index a decoration targets, or null if it is not on this grid
+ */
+export function indexDotDecorations(
+  decorations: PluginDotDecoration[],
+  getIndex: (decoration: PluginDotDecoration) => number | null
+): Map<number, PluginDotDecoration> {
+  const byIndex = new Map<number, PluginDotDecoration>();
+
+  for (const decoration of decorations) {
+    const index = getIndex(decoration);
+    if (index === null) continue;
+
+    const merged: PluginDotDecoration = { ...byIndex.get(index) };
+    if (decoration.fill !== undefined) merged.fill = decoration.fill;
+    if (decoration.ring !== undefined) merged.ring = decoration.ring;
+    if (decoration.badge !== undefined) merged.badge = decoration.badge;
+    if (decoration.hidden !== undefined) merged.hidden = decoration.hidden;
+    byIndex.set(index, merged);
+  }
+
+  return byIndex;
+}
+
+/**
+ * Creates a dot with its plugin decoration: ring below, badge on top, or
+ * nothing at all for a hidden dot. A decoration fill replaces the dot's
+ * color and opacity.
+ *
+ * @param x - Left edge of the dot in pixels
+ * @param y - Top edge of the dot in pixels
+ * @param size - Dot diameter in pixels
+ * @param gap - Space between neighbouring dots in pixels
+ * @param fill - Dot color without decoration
+ * @param decoration - Plugin changes for this dot, if any
+ * @param background - Wallpaper background (for the ring)
+ * @param opacity - Optional fill opacity (0-1) without decoration
+ */
+export function createDecoratedDot(
+  x: number,
+  y: number,
+  size: number,
+  gap: number,
+  fill: string,
+  decoration: PluginDotDecoration | undefined,
+  background: string,
+  opacity?: number
+): SceneCircle[] {
+  if (decoration?.hidden) return [];
+
+  const circles = decoration?.ring ? createDotRing(x, y, size, gap, decoration.ring, background) : [];
+  circles.push(decoration?.fill ? createDot(x, y, size, decoration.fill) : createDot(x, y, size, fill, opacity));
+  if (decoration?.badge) {
+    circles.push({ type: 'circle', cx: x + size * 0.85, cy: y + size * 0.15, r: size * 0.22, fill: decoration.badge });
+  }
+  return circles;
+}
+
+/**
+ * Describes where a view placed its content, for plugins (see SceneLayout)
+ *
+ * @param options.grid - Box around the dots and their labels
+ * @param options.stats - Top and font size of the stats footer, or null when hidden
+ * @param options.dots - Top-left corner of each dot by the first day it stands for
+ */
+export function createSceneLayout({
+  width,
+  height,
+  safeArea,
+  grid,
+  dotSize,
+  dotGap,
+  stats,
+  dots,
+}: {
+  width: number;
+  height: number;
+  safeArea: SafeArea;
+  grid: LayoutBox;
+  dotSize: number;
+  dotGap: number;
+  stats: { top: number; fontSize: number } | null;
+  dots?: Array<{ date: string; x: number; y: number }>;
+}): SceneLayout {
+  const layout: SceneLayout = {
+    grid,
+    dotSize,
+    dotGap,
+    stats: stats ? { x: 0, y: stats.top, width, height: stats.fontSize * TEXT_LINE_HEIGHT } : null,
+    safeArea: { x: safeArea.paddingX, y: safeArea.top, width: safeArea.availableWidth, height: safeArea.height },
+    topArea: { x: 0, y: 0, width, height: safeArea.top },
+    bottomArea: { x: 0, y: safeArea.bottom, width, height: height - safeArea.bottom },
+  };
+
+  if (dots && dots.length <= MAX_LAYOUT_DOTS) {
+    layout.dots = {};
+    for (const { date, x, y } of dots) {
+      layout.dots[date] = { x: x + dotSize / 2, y: y + dotSize / 2 };
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * Creates the "42d left · 63%" stats footer, centered horizontally
+ *
+ * @param options.remaining - Highlighted part (e.g. "42d left")
+ * @param options.progress - Trailing part (e.g. "63%")
+ * @param options.top - Top of the footer line in pixels
+ */
+export function createStatsText({
+  width,
+  top,
+  fontSize,
+  remaining,
+  progress,
+  colors,
+  typography,
+}: {
+  width: number;
+  top: number;
+  fontSize: number;
+  remaining: string;
+  progress: string;
+} & SceneTheme): SceneText {
+  const textColor = colors?.text || '#888888';
+
+  return {
+    type: 'text',
+    x: width / 2,
+    y: top,
+    spans: [
+      { text: remaining, color: colors?.current || '#FF6B35' },
+      { text: '·', color: textColor },
+      { text: progress, color: textColor },
+    ],
+    fontSize,
+    fontFamily: typography?.fontFamily || 'monospace',
+    align: 'center',
+    baseline: 'top',
+    spanGap: 8,
+  };
+}
+
+/**
+ * Creates a single-color line of text
+ */
+export function createText(
+  x: number,
+  y: number,
+  text: string,
+  options: Pick<SceneText, 'fontSize' | 'fontFamily'> & Partial<Pick<SceneText, 'align' | 'baseline' | 'maxWidth'>> & { color: string }
+): SceneText {
+  const spans: SceneTextSpan[] = [{ text, color: options.color }];
+  const node: SceneText = {
+    type: 'text',
+    x,
+    y,
+    spans,
+    fontSize: options.fontSize,
+    fontFamily: options.fontFamily,
+    align: options.align || 'left',
+    baseline: options.baseline || 'top',
+  };
+  if (typeof options.maxWidth === 'number') node.maxWidth = options.maxWidth;
+  return node;
+}
+
+/**
+ * Colors every dot of the life grid
+ *
+ * - Past dots: event color, chapter color or the past color
+ * - Current dot: the current color
+ * - Future dots: chapter color (faded), event color or the future color
+ *
+ * Chapters without an end date run until the current dot; chapter dates
+ * before birth start at the first dot.
+ *
+ * @returns One fill (and optional opacity) per dot index
+ */
+export function getLifeDotFills({
+  birthDate,
+  lifeGridUnit,
+  lifeEvents,
+  lifeChapters,
+  totalDots,
+  unitsLived,
+  colors,
+}: {
+  birthDate: string;
+  lifeGridUnit: LifeGridUnit;
+  lifeEvents: LifeEvent[];
+  lifeChapters: LifeChapter[];
+  totalDots: number;
+  unitsLived: number;
+  colors?: {
+    past: string;
+    current: string;
+    future: string;
+  };
+}): Array<Pick<SceneCircle, 'fill' | 'opacity'>> {
+  // Life events: dot index -> event color
+  const eventColors = new Map<number, string>();
+  for (const event of lifeEvents) {
+    const index = getLifeGridIndex(birthDate, event.date, lifeGridUnit);
+    if (index !== null && index < totalDots && event.color) {
+      eventColors.set(index, event.color);
+    }
+  }
+
+  // Life chapters: dot index ranges
+  const chapterIndex = (date: string) => {
+    if (!parseCalendarDate(date)) return null;
+    return getLifeGridIndex(birthDate, date, lifeGridUnit) ?? 0;
+  };
+  const chapterRanges = lifeChapters
+    .map((chapter) => ({
+      start: chapterIndex(chapter.startDate),
+      end: chapter.endDate ? chapterIndex(chapter.endDate) : unitsLived,
+      color: chapter.color,
+    }))
+    .filter((range): range is { start: number; end: number; color: string } =>
+      range.start !== null && range.end !== null && range.end >= range.start && !!range.color
+    );
+  const getChapterColor = (index: number) =>
+    chapterRanges.find((range) => index >= range.start && index <= range.end)?.color;
+
+  const fills: Array<Pick<SceneCircle, 'fill' | 'opacity'>> = [];
+  for (let i = 0; i < totalDots; i++) {
+    const eventColor = eventColors.get(i);
+    const chapterColor = eventColor ? undefined : getChapterColor(i);
+
+    if (i < unitsLived) {
+      fills.push({ fill: eventColor || chapterColor || colors?.past || '#FFFFFF' });
+    } else if (i === unitsLived) {
+      fills.push({ fill: colors?.current || '#FF6B35' });
+    } else if (chapterColor) {
+      fills.push({ fill: chapterColor, opacity: 0.35 });
+    } else {
+      fills.push({ fill: eventColor || colors?.future || '#333333' });
+    }
+  }
+
+  return fills;
+}
+
+/**
+ * Converts custom text elements (percentage-based positions, vertically centered)
+ */
+export function createTextElementNodes(
+  textElements: TextElement[],
+  width: number,
+  height: number,
+  { colors, typography }: SceneTheme
+): SceneText[] {
+  return textElements
+    .filter((element) => element.visible && element.content != null)
+    .map((element) =>
+      createText((element.x / 100) * width, (element.y / 100) * height, String(element.content).trim(), {
+        fontSize: element.fontSize || 16,
+        fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
+        color: element.color || colors?.text || '#888888',
+        align: element.align || 'left',
+        baseline: 'middle',
+      })
+    );
+}
+
+/**
+ * Image sources plugins may embed: base64 data URIs of raster formats
+ * (no remote URLs, so rendering never fetches anything)
+ */
+export const IMAGE_DATA_URI = /^data:image\/(png|jpeg|gif|webp);base64,[a-z0-9+/]+=*$/i;
+
+/**
+ * Converts one plugin shape or image element
+ * An arc with a trackColor gets a full ring in that color right below it.
+ *
+ * @returns The nodes to draw, bottom first; none if the element is incomplete
+ */
+function createPluginShapeNodes(element: PluginRenderElement, textColor: string): Array<SceneShape | SceneImage> {
+  const { x, y, rotation = 0 } = element;
+  const positive = (value: number | undefined): value is number => typeof value === 'number' && value > 0;
+
+  if (element.type === 'image') {
+    if (!positive(element.width) || !positive(element.height) || !element.src || !IMAGE_DATA_URI.test(element.src)) return [];
+    const image: SceneImage = { type: 'image', x, y, width: element.width, height: element.height, href: element.src };
+    if (rotation) image.rotation = rotation;
+    if (element.opacity !== undefined) image.opacity = element.opacity;
+    return [image];
+  }
+
+  // Geometry and the point the element rotates around
+  let path: ScenePathCommand[];
+  let center = { x, y };
+  let track: ScenePathCommand[] | null = null;
+  let defaultStrokeWidth = 1;
+  let empty = false;
+  const open = element.type === 'line' || element.type === 'arc';
+
+  if (element.type === 'rect') {
+    if (!positive(element.width) || !positive(element.height)) return [];
+    path = createRectPath(x, y, element.width, element.height, element.radius);
+    center = { x: x + element.width / 2, y: y + element.height / 2 };
+  } else if (element.type === 'circle') {
+    if (!positive(element.radius)) return [];
+    path = createEllipsePath(x, y, element.radius, element.radius);
+  } else if (element.type === 'line') {
+    if (typeof element.x2 !== 'number' || typeof element.y2 !== 'number') return [];
+    path = [
+      { command: 'M', values: [x, y] },
+      { command: 'L', values: [element.x2, element.y2] },
+    ];
+    center = { x: (x + element.x2) / 2, y: (y + element.y2) / 2 };
+  } else if (element.type === 'polygon') {
+    if (!element.points || element.points.length < 6) return [];
+    path = translatePath(createPolygonPath(element.points), x, y);
+  } else if (element.type === 'path') {
+    const { data } = parsePathData(element.d || '');
+    if (!data) return [];
+    path = translatePath(data, x, y);
+  } else if (element.type === 'arc') {
+    if (!positive(element.radius)) return [];
+    const startAngle = element.startAngle ?? 0;
+    const endAngle = typeof element.progress === 'number'
+      ? startAngle + 360 * Math.min(1, Math.max(0, element.progress))
+      : element.endAngle ?? startAngle + 360;
+    path = createArcPath(x, y, element.radius, startAngle, endAngle);
+    empty = endAngle === startAngle;
+    if (element.trackColor) track = createArcPath(x, y, element.radius, 0, 360);
+    defaultStrokeWidth = element.radius / 5;
+  } else {
+    return [];
+  }
+
+  const shape: SceneShape = { type: 'shape', path: rotatePath(path, rotation, center.x, center.y) };
+  if (open) {
+    shape.stroke = element.stroke || element.color || textColor;
+    shape.strokeWidth = element.strokeWidth ?? defaultStrokeWidth;
+  } else {
+    const fill = element.fill ?? (element.stroke ? undefined : element.color || textColor);
+    if (fill && fill !== 'none') shape.fill = fill;
+    if (element.stroke) {
+      shape.stroke = element.stroke;
+      shape.strokeWidth = element.strokeWidth ?? 1;
+    }
+  }
+  if (shape.stroke && element.lineCap) shape.lineCap = element.lineCap;
+  if (element.opacity !== undefined) shape.opacity = element.opacity;
+
+  // An empty arc (progress 0) still shows its track
+  const drawn = empty ? [] : [shape];
+  if (!track || !element.trackColor) return drawn;
+  const trackShape: SceneShape = { type: 'shape', path: track, stroke: element.trackColor, strokeWidth: shape.strokeWidth };
+  if (shape.opacity !== undefined) trackShape.opacity = shape.opacity;
+  return [trackShape, ...drawn];
+}
+
+/**
+ * Converts plugin-added elements (pixel-based positions)
+ *
+ * - Shapes and images are ordered by zIndex (stable); negative zIndex goes below the dots
+ * - Text keeps its order and is drawn above all shapes
+ */
+export function createPluginElementNodes(pluginElements: PluginRenderElement[], { colors, typography }: SceneTheme): SceneNode[] {
+  const textColor = colors?.text || '#888888';
+  const nodes: SceneNode[] = [];
+
+  const ordered = pluginElements
+    .map((element, index) => ({ element, index }))
+    .sort((a, b) => (a.element.zIndex ?? 0) - (b.element.zIndex ?? 0) || a.index - b.index)
+    .map(({ element }) => element);
+
+  for (const element of ordered) {
+    if (element.type === 'text') {
+      if (element.content == null) continue;
+
+      const contentStr = String(element.content || '').trim();
+      if (!contentStr) continue;
+
+      const text = createText(element.x, element.y, contentStr, {
+        fontSize: element.fontSize || 16,
+        fontFamily: element.fontFamily || typography?.fontFamily || 'monospace',
+        color: element.color || textColor,
+        align: element.align || 'left',
+        baseline: 'top',
+        maxWidth: element.maxWidth,
+      });
+      if (element.opacity !== undefined) text.opacity = element.opacity;
+      nodes.push(text);
+      continue;
+    }
+
+    for (const node of createPluginShapeNodes(element, textColor)) {
+      if ((element.zIndex ?? 0) < 0) node.behind = true;
+      nodes.push(node);
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Parses the ?span= (number of monitors) and ?monitor= (1-based, from the left)
+ * query parameters of the wallpaper endpoints
+ *
+ * @returns The span, or an error message for out-of-range values
+ */
+export function parseWallpaperSpan(span: string | null, monitor: string | null): { data: WallpaperSpan | null; error: string | null } {
+  const count = span ? Number(span) : 1;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SPAN_MONITORS) {
+    return { data: null, error: `span must be a whole number from 1 to ${MAX_SPAN_MONITORS}` };
+  }
+
+  const position = monitor ? Number(monitor) : 1;
+  if (!Number.isInteger(position) || position < 1 || position > count) {
+    return { data: null, error: `monitor must be a whole number from 1 to ${count}` };
+  }
+
+  return { data: { count, index: position - 1 }, error: null };
+}
+
+/**
+ * Cuts one monitor's image out of a scene laid out across all monitors of a span
+ *
+ * - Dots, shapes and images are shifted into the monitor's coordinates; those
+ *   entirely on other monitors are dropped
+ * - Text is never split: each text node is drawn on the monitor that contains
+ *   its anchor. Centered text anchored on a seam (e.g. the stats footer with an
+ *   even number of monitors) is centered on the monitor to the right of the seam.
+ *
+ * @param scene - Scene built at the combined width of all monitors
+ * @param span - Number of monitors and the monitor to cut out
+ */
+export function sliceScene(scene: WallpaperScene, { count, index }: WallpaperSpan): WallpaperScene {
+  if (count <= 1) return scene;
+
+  const width = scene.width / count;
+  const left = index * width;
+  const nodes: SceneNode[] = [];
+
+  for (const node of scene.nodes) {
+    if (node.type === 'circle') {
+      if (node.cx + node.r <= left || node.cx - node.r >= left + width) continue;
+      nodes.push({ ...node, cx: node.cx - left });
+      continue;
+    }
+
+    if (node.type === 'shape') {
+      const bounds = getPathBounds(node.path);
+      const stroke = node.stroke ? (node.strokeWidth ?? 1) / 2 : 0;
+      if (bounds.right + stroke <= left || bounds.left - stroke >= left + width) continue;
+      nodes.push({ ...node, path: translatePath(node.path, -left, 0) });
+      continue;
+    }
+
+    if (node.type === 'image') {
+      // Half the diagonal covers the image at any rotation
+      const reach = Math.hypot(node.width, node.height) / 2;
+      const cx = node.x + node.width / 2;
+      if (cx + reach <= left || cx - reach >= left + width) continue;
+      nodes.push({ ...node, x: node.x - left });
+      continue;
+    }
+
+    const seam = Math.round(node.x / width);
+    const onSeam = node.align === 'center' && seam > 0 && seam < count && Math.abs(node.x - seam * width) < 1;
+    const monitor = onSeam ? seam : Math.min(count - 1, Math.max(0, Math.floor(node.x / width)));
+    if (monitor !== index) continue;
+
+    nodes.push({ ...node, x: onSeam ? width / 2 : node.x - left });
+  }
+
+  // The layout describes the whole canvas, so slices leave it out
+  return { width, height: scene.height, background: scene.background, nodes };
+}
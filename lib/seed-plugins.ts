@@ -1,21 +1,9 @@
-import { collection, doc, setDoc } from 'firebase/firestore';
+import { collection, doc, getDoc, setDoc } from 'firebase/firestore';
 import { db } from './firebase';
 import { quotesPlugin } from './plugins/quotes-plugin';
 import { habitTrackerPlugin } from './plugins/habit-tracker-plugin';
 import { moonPhasePlugin } from './plugins/moon-phase-plugin';
-
-// Helper to extract default settings from configSchema
-function getDefaultSettings(configSchema: any): any {
-  if (!configSchema) return {};
-  const defaults: any = {};
-  for (const [key, config] of Object.entries(configSchema)) {
-    const configValue = config as any;
-    if (configValue.default !== undefined) {
-      defaults[key] = configValue.default;
-    }
-  }
-  return defaults;
-}
+import { getSchemaDefaults } from './plugin-config';
 
 export async function seedExamplePlugins() {
   if (!db) {
@@ -33,17 +21,33 @@ export async function seedExamplePlugins() {
         author: plugin.author,
         version: plugin.version,
         description: plugin.description,
+        category: plugin.category,
+        tags: plugin.tags,
         code: plugin.execute?.toString() || '',
         configSchema: plugin.configSchema,
-        defaultSettings: getDefaultSettings(plugin.configSchema),
+        defaultSettings: getSchemaDefaults(plugin.configSchema),
+        changelog: plugin.changelog || 'First release',
         approved: true,
-        downloads: 0,
-        rating: 5.0,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      await setDoc(doc(db, 'plugins', plugin.id), pluginData);
+      // Merged so download counts and ratings survive seeding again
+      await setDoc(doc(db, 'plugins', plugin.id), pluginData, { merge: true });
+
+      // Approved versions are immutable: only add versions that are new
+      const versionRef = doc(db, 'plugins', plugin.id, 'versions', plugin.version);
+      if (!(await getDoc(versionRef)).exists()) {
+        await setDoc(versionRef, {
+          version: plugin.version,
+          code: pluginData.code,
+          configSchema: pluginData.configSchema,
+          defaultSettings: pluginData.defaultSettings,
+          changelog: pluginData.changelog,
+          status: 'approved',
+          createdAt: new Date(),
+        });
+      }
       console.log(`Seeded plugin: ${plugin.name}`);
     }
 
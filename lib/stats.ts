@@ -0,0 +1,76 @@
+/**
+ * Wallpaper Stats for Remainders
+ *
+ * The numbers the wallpapers show, as plain data for the JSON endpoints
+ * (/api/[username]/stats.json and /api/wallpaper?format=json). Everything is
+ * computed with the same lib/calcs.ts functions the views use, so a widget
+ * never disagrees with the wallpaper.
+ */
+
+import { LifeGridUnit, WallpaperStats } from '@/lib/types';
+import {
+  DEFAULT_LIFE_GRID_UNIT,
+  calculateLifeGrid,
+  calculateYearProgress,
+  formatCalendarDate,
+  getCalendarDate,
+  parseCalendarDate,
+} from '@/lib/calcs';
+
+/**
+ * Builds the stats of a wallpaper
+ *
+ * @param currentDate - Wall-clock date in the user's timezone (see getDateInTimezone)
+ * @param timezone - IANA timezone the date was read in
+ * @param birthDate - Birth date in YYYY-MM-DD format (life stats are null without a valid one)
+ * @param lifeExpectancyYears - Expected lifespan in years (see resolveLifeExpectancyYears)
+ * @param lifeGridUnit - Time span of one life grid dot, for the life percent
+ * @param pluginData - Data returned by each plugin's calculate hook
+ */
+export function buildWallpaperStats({
+  currentDate,
+  timezone,
+  birthDate,
+  lifeExpectancyYears,
+  lifeGridUnit = DEFAULT_LIFE_GRID_UNIT,
+  pluginData = {},
+}: {
+  currentDate: Date;
+  timezone: string;
+  birthDate?: string;
+  lifeExpectancyYears: number;
+  lifeGridUnit?: LifeGridUnit;
+  pluginData?: Record<string, Record<string, unknown>>;
+}): WallpaperStats {
+  const today = getCalendarDate(currentDate);
+  const year = calculateYearProgress(today);
+
+  let life: WallpaperStats['life'] = null;
+  if (birthDate && parseCalendarDate(birthDate)) {
+    // Weeks are always counted in weeks; the percent follows the grid the wallpaper shows
+    const weeks = calculateLifeGrid(birthDate, lifeExpectancyYears, 'weeks', currentDate);
+    const grid = calculateLifeGrid(birthDate, lifeExpectancyYears, lifeGridUnit, currentDate);
+
+    life = {
+      birthDate,
+      lifeExpectancyYears,
+      weeksLived: weeks.unitsLived,
+      weeksRemaining: weeks.unitsRemaining,
+      totalWeeks: weeks.totalDots,
+      percent: grid.percentage,
+    };
+  }
+
+  return {
+    date: formatCalendarDate(today),
+    timezone,
+    year: {
+      dayOfYear: year.dayOfYear,
+      daysInYear: year.daysInYear,
+      daysLeft: year.daysLeft,
+      percent: year.percentage,
+    },
+    life,
+    plugins: pluginData,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * SVG Renderer for Remainders
+ *
+ * Turns a wallpaper scene into a standalone SVG document: real <circle>,
+ * <path> and <text> elements instead of a rasterized image, for print, e-ink
+ * devices and design tools. Runs in both the edge and Node.js runtimes (no DOM needed).
+ */
+
+import { SceneCircle, SceneImage, SceneNode, SceneShape, SceneText, WallpaperScene } from './types';
+import { TEXT_BASELINE_OFFSETS } from './scene';
+import { formatPathData } from './scene-path';
+
+const TEXT_ANCHORS: Record<SceneText['align'], string> = {
+  left: 'start',
+  center: 'middle',
+  right: 'end',
+};
+
+/**
+ * Escapes text and attribute values for XML
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Formats a coordinate with at most 2 decimals to keep documents small
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function renderCircle(circle: SceneCircle): string {
+  return `<circle cx="${num(circle.cx)}" cy="${num(circle.cy)}" r="${num(circle.r)}" fill="${escapeXml(circle.fill)}"${opacityAttribute(circle.opacity, 'fill-opacity')}/>`;
+}
+
+/**
+ * Opacity attribute, omitted when fully opaque
+ */
+function opacityAttribute(opacity: number | undefined, name = 'opacity'): string {
+  return opacity !== undefined && opacity < 1 ? ` ${name}="${num(opacity)}"` : '';
+}
+
+function renderShape(shape: SceneShape): string {
+  const stroke = shape.stroke
+    ? ` stroke="${escapeXml(shape.stroke)}" stroke-width="${num(shape.strokeWidth ?? 1)}"` +
+      (shape.lineCap ? ` stroke-linecap="${shape.lineCap}"` : '')
+    : '';
+  return `<path d="${formatPathData(shape.path)}" fill="${escapeXml(shape.fill || 'none')}"${stroke}${opacityAttribute(shape.opacity)}/>`;
+}
+
+function renderImage(image: SceneImage): string {
+  const rotation = image.rotation
+    ? ` transform="rotate(${num(image.rotation)} ${num(image.x + image.width / 2)} ${num(image.y + image.height / 2)})"`
+    : '';
+  return (
+    `<image x="${num(image.x)}" y="${num(image.y)}" width="${num(image.width)}" height="${num(image.height)}" ` +
+    `preserveAspectRatio="none" href="${escapeXml(image.href)}"${rotation}${opacityAttribute(image.opacity)}/>`
+  );
+}
+
+/**
+ * Renders the shapes and images of one layer (above or below the dots)
+ */
+function renderShapeLayer(nodes: SceneNode[], behind: boolean): string[] {
+  return nodes
+    .filter((node): node is SceneShape | SceneImage => (node.type === 'shape' || node.type === 'image') && !!node.behind === behind)
+    .map((node) => (node.type === 'shape' ? renderShape(node) : renderImage(node)));
+}
+
+function renderText(text: SceneText): string {
+  const y = text.y + text.fontSize * TEXT_BASELINE_OFFSETS[text.baseline];
+
+  const spans = text.spans
+    .map((span, index) => {
+      const gap = index > 0 && text.spanGap ? ` dx="${num(text.spanGap)}"` : '';
+      return `<tspan fill="${escapeXml(span.color)}"${gap}>${escapeXml(span.text)}</tspan>`;
+    })
+    .join('');
+
+  return (
+    `<text x="${num(text.x)}" y="${num(y)}" font-size="${num(text.fontSize)}" ` +
+    `font-family="${escapeXml(text.fontFamily)}" text-anchor="${TEXT_ANCHORS[text.align]}"${opacityAttribute(text.opacity)} xml:space="preserve">` +
+    `${spans}</text>`
+  );
+}
+
+/**
+ * Renders a wallpaper scene as an SVG document
+ *
+ * @param scene - Scene built by one of the wallpaper views
+ * @returns SVG markup (UTF-8) with the same size as the PNG output
+ */
+export function renderSceneToSvg(scene: WallpaperScene): string {
+  // Same stacking as the PNG renderer (see WallpaperScene)
+  const body = [
+    ...renderShapeLayer(scene.nodes, true),
+    ...scene.nodes.filter((node): node is SceneCircle => node.type === 'circle').map(renderCircle),
+    ...renderShapeLayer(scene.nodes, false),
+    ...scene.nodes.filter((node): node is SceneText => node.type === 'text').map(renderText),
+  ].join('\n');
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" ` +
+    `viewBox="0 0 ${scene.width} ${scene.height}">\n` +
+    `<rect width="100%" height="100%" fill="${escapeXml(scene.background)}"/>\n` +
+    `${body}\n` +
+    `</svg>\n`
+  );
+}
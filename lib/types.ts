@@ -6,6 +6,14 @@
  * easier to maintain and understand.
  */
 
+/**
+ * Kind of screen a device model has
+ * - 'phone': Lock screen wallpaper (portrait, default)
+ * - 'tablet': Lock screen wallpaper (portrait, rotates on most tablets)
+ * - 'desktop': Desktop background (landscape), including ultrawide monitors
+ */
+export type DeviceCategory = 'phone' | 'tablet' | 'desktop';
+
 /**
  * Represents information about a specific phone model
  * Used to generate wallpapers with the correct dimensions for each device
@@ -22,14 +30,396 @@ export interface DeviceModel {
   
   /** Screen height in pixels */
   height: number;
+
+  /** Kind of screen (defaults to 'phone') */
+  category?: DeviceCategory;
 }
 
 /**
  * View mode for the wallpaper visualization
  * - 'year': Shows only the current year (52 weeks)
- * - 'life': Shows entire life span (4160 weeks for 80 years)
+ * - 'life': Shows entire life span (4160 weeks for 80 years by default)
+ * - 'month': Shows the current month as a calendar grid of day dots
+ * - 'week': Shows the current week as 7 columns of waking hours
+ * - 'countdown': Shows elapsed vs remaining days/weeks toward a target date
+ */
+export type ViewMode = 'year' | 'life' | 'month' | 'week' | 'countdown';
+
+/**
+ * Countdown toward a target date (e.g. launch day, wedding, semester end)
+ */
+export interface CountdownConfig {
+  /** Label shown above the grid */
+  label: string;
+  
+  /** Date the countdown starts in YYYY-MM-DD format */
+  startDate: string;
+  
+  /** Target date in YYYY-MM-DD format */
+  targetDate: string;
+  
+  /** Time span of one dot */
+  unit: 'days' | 'weeks';
+}
+
+/**
+ * Wallpaper layout preferences (fractions of the wallpaper size)
+ */
+export interface WallpaperLayout {
+  topPadding: number;
+  bottomPadding: number;
+  sidePadding: number;
+  dotSpacing: number;
+}
+
+/**
+ * Area of the wallpaper that is free of lock screen UI (pixels)
+ */
+export interface SafeArea {
+  /** Top and bottom edges of the safe area */
+  top: number;
+  bottom: number;
+  
+  /** Height between top and bottom */
+  height: number;
+  
+  /** Horizontal padding on each side */
+  paddingX: number;
+  
+  /** Width between the side paddings */
+  availableWidth: number;
+}
+
+/**
+ * Computed geometry of a dot grid (pixels)
+ * Shared by the year view 'days' layout and the countdown view.
+ */
+export interface DotGridLayout {
+  columns: number;
+  rows: number;
+  dotSize: number;
+  dotGap: number;
+  
+  /** Top-left corner of the first dot */
+  startX: number;
+  startY: number;
+  
+  gridWidth: number;
+  gridHeight: number;
+  
+  /** Top of the stats footer */
+  statsY: number;
+  statsFontSize: number;
+}
+
+/**
+ * A rectangle in wallpaper pixels
+ */
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a view placed its content (pixels, in wallpaper coordinates)
+ * Handed to plugins as PluginExecutionContext.layout so they can place
+ * elements relative to the grid instead of guessing.
+ */
+export interface SceneLayout {
+  /** Everything the view draws above the stats footer: dots, labels and rings */
+  grid: LayoutBox;
+  
+  /** Dot diameter and the gap between neighbouring dots */
+  dotSize: number;
+  dotGap: number;
+  
+  /** Stats footer line across the full width; null when stats are hidden */
+  stats: LayoutBox | null;
+  
+  /** Area between the layout paddings, free of lock screen UI */
+  safeArea: LayoutBox;
+  
+  /** Above the safe area (lock screen clock) and below it (lock screen controls) */
+  topArea: LayoutBox;
+  bottomArea: LayoutBox;
+  
+  /**
+   * Dot centers by the first day each dot stands for (YYYY-MM-DD); the week
+   * view maps each day to its first waking-hour dot. Omitted for grids of more
+   * than MAX_LAYOUT_DOTS dots (life grid in days).
+   */
+  dots?: Record<string, { x: number; y: number }>;
+}
+
+/**
+ * A dot in a wallpaper scene (pixels)
+ */
+export interface SceneCircle {
+  type: 'circle';
+  cx: number;
+  cy: number;
+  r: number;
+  fill: string;
+  
+  /** Fill opacity (0-1), defaults to 1 */
+  opacity?: number;
+}
+
+/**
+ * A run of text in one color
  */
-export type ViewMode = 'year' | 'life';
+export interface SceneTextSpan {
+  text: string;
+  color: string;
+}
+
+/**
+ * A line of text in a wallpaper scene (pixels)
+ */
+export interface SceneText {
+  type: 'text';
+  
+  /** Anchor point; see align and baseline */
+  x: number;
+  y: number;
+  
+  spans: SceneTextSpan[];
+  fontSize: number;
+  fontFamily: string;
+  
+  /** Horizontal alignment relative to x */
+  align: 'left' | 'center' | 'right';
+  
+  /** Whether y is the top or the vertical middle of the line */
+  baseline: 'top' | 'middle';
+  
+  /** Horizontal space between spans */
+  spanGap?: number;
+  
+  /** Wrap width (PNG only; SVG text does not wrap) */
+  maxWidth?: number;
+  
+  /** Opacity (0-1), defaults to 1 */
+  opacity?: number;
+}
+
+/**
+ * One command of a shape outline, in absolute pixels
+ * M and L take one point, C two control points and the end point; Z closes the subpath.
+ */
+export interface ScenePathCommand {
+  command: 'M' | 'L' | 'C' | 'Z';
+  
+  /** x, y pairs */
+  values: number[];
+}
+
+/**
+ * A filled and/or stroked outline in a wallpaper scene (pixels)
+ * Every shape (rect, ellipse, arc, polygon, path) is reduced to lines and
+ * cubic curves so all renderers draw it the same way.
+ */
+export interface SceneShape {
+  type: 'shape';
+  path: ScenePathCommand[];
+  
+  /** Fill color, no fill if omitted */
+  fill?: string;
+  
+  /** Stroke color, no stroke if omitted */
+  stroke?: string;
+  strokeWidth?: number;
+  lineCap?: 'butt' | 'round';
+  
+  /** Opacity (0-1), defaults to 1 */
+  opacity?: number;
+  
+  /** Drawn below the dots instead of above them */
+  behind?: boolean;
+}
+
+/**
+ * An embedded raster image in a wallpaper scene (pixels)
+ */
+export interface SceneImage {
+  type: 'image';
+  
+  /** Top-left corner and size before rotation */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  
+  /** data: URI (PNG, JPEG, GIF or WebP) */
+  href: string;
+  
+  /** Opacity (0-1), defaults to 1 */
+  opacity?: number;
+  
+  /** Degrees clockwise around the image center */
+  rotation?: number;
+  
+  /** Drawn below the dots instead of above them */
+  behind?: boolean;
+}
+
+export type SceneNode = SceneCircle | SceneText | SceneShape | SceneImage;
+
+/**
+ * Renderer-independent description of a wallpaper
+ * Views build a scene from their layout; renderers turn it into
+ * Satori JSX (PNG) or an SVG document.
+ */
+export interface WallpaperScene {
+  width: number;
+  height: number;
+  background: string;
+  
+  /**
+   * Stacking: shapes and images marked `behind`, then circles, then the other
+   * shapes and images, then text; within each layer, later nodes are on top
+   */
+  nodes: SceneNode[];
+  
+  /** Where the view placed its content; not drawn (see SceneLayout) */
+  layout?: SceneLayout;
+}
+
+/**
+ * Multi-monitor span: one wallpaper laid out across several side-by-side
+ * monitors of the same resolution, served as one image per monitor
+ */
+export interface WallpaperSpan {
+  /** Number of monitors (1 = no span) */
+  count: number;
+
+  /** Zero-based index of the monitor this image is for, from the left */
+  index: number;
+}
+
+/**
+ * Output format of the wallpaper endpoints (?format=)
+ * - 'png': Raster image rendered by Satori (default)
+ * - 'svg': Vector document for print, e-ink devices and design tools
+ */
+export type WallpaperFormat = 'png' | 'svg';
+
+/**
+ * How often a wallpaper's output can change (see lib/render-cache.ts)
+ * - 'day': At the user's local midnight (most views)
+ * - 'hour': At every local hour (views that show the current hour)
+ */
+export type RenderPeriod = 'day' | 'hour';
+
+/**
+ * A rendered wallpaper kept in the in-process render cache
+ */
+export interface CachedRender {
+  /** Image bytes (PNG or SVG) */
+  body: ArrayBuffer;
+
+  /** Content-Type of the image */
+  contentType: string;
+
+  /** Extra response headers sent with the image (e.g. X-Plugin-Errors) */
+  headers: Record<string, string>;
+}
+
+/**
+ * The numbers a wallpaper shows, as JSON (/api/[username]/stats.json and
+ * /api/wallpaper?format=json) for widgets, shell prompts and dashboards
+ */
+export interface WallpaperStats {
+  /** Date the stats are for (YYYY-MM-DD, in the user's timezone) */
+  date: string;
+
+  /** IANA timezone the date was read in */
+  timezone: string;
+
+  /** Year progress (the year view stats) */
+  year: {
+    dayOfYear: number;
+    daysInYear: number;
+    daysLeft: number;
+    /** Percent of the year done, rounded to a whole number */
+    percent: number;
+  };
+
+  /** Life progress, or null without a birth date */
+  life: {
+    birthDate: string;
+    lifeExpectancyYears: number;
+    weeksLived: number;
+    weeksRemaining: number;
+    totalWeeks: number;
+    /** Percent of life lived in the life grid's unit, to 1 decimal place */
+    percent: number;
+  } | null;
+
+  /** Data returned by each plugin's calculate hook, by plugin ID */
+  plugins: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * An all-day event in the calendar feed (/api/[username]/calendar.ics)
+ */
+export interface CalendarFeedEvent {
+  /** Stable unique ID, so subscribed clients update the event instead of duplicating it */
+  uid: string;
+
+  /** Day of the event */
+  date: CalendarDate;
+
+  /** Event title */
+  summary: string;
+
+  /** Optional longer text */
+  description?: string;
+
+  /** Optional iCalendar recurrence rule (e.g. 'FREQ=YEARLY') */
+  rrule?: string;
+}
+
+/**
+ * Paper size of the printable poster (/api/[username]/poster?size=)
+ */
+export type PosterSize = 'a4' | 'a3' | 'letter';
+
+/**
+ * Calendar drawn on the printable poster (?view=)
+ * - 'life': One row per year of life, with age labels and decade markers
+ * - 'year': One row per month of the current year
+ */
+export type PosterView = 'life' | 'year';
+
+/**
+ * A calendar day in the user's timezone, without a time of day
+ * All day math (day of year, weekdays, ages, countdowns) works on calendar
+ * dates, so results don't depend on the server timezone or DST changes.
+ */
+export interface CalendarDate {
+  /** Full year (e.g. 2026) */
+  year: number;
+
+  /** Month (1-12, as in YYYY-MM-DD) */
+  month: number;
+
+  /** Day of the month (1-31) */
+  day: number;
+}
+
+/**
+ * Waking hours shown in week view (24-hour clock)
+ */
+export interface WakingHours {
+  /** First waking hour (0-23), e.g. 7 for 07:00 */
+  start: number;
+  
+  /** Hour the day ends (1-24, exclusive), e.g. 23 for 23:00 */
+  end: number;
+}
 
 /**
  * Days layout mode for year view
@@ -38,6 +428,51 @@ export type ViewMode = 'year' | 'life';
  */
 export type DaysLayoutMode = 'calendar' | 'continuous';
 
+/**
+ * Time span represented by a single dot in life view
+ */
+export type LifeGridUnit = 'days' | 'weeks' | 'months' | 'years';
+
+/**
+ * Sex used to look up life expectancy in the bundled life table
+ * - 'other': uses the combined (both sexes) value
+ */
+export type LifeExpectancySex = 'male' | 'female' | 'other';
+
+/**
+ * Period life expectancy at birth for one country (years)
+ */
+export interface LifeTableEntry {
+  /** ISO 3166-1 alpha-2 country code ('WORLD' for the global average) */
+  country: string;
+  
+  /** Display name */
+  name: string;
+  
+  male: number;
+  female: number;
+  
+  /** Both sexes combined */
+  both: number;
+}
+
+/**
+ * How the expected lifespan for life view is determined
+ */
+export interface LifeExpectancyConfig {
+  /** 'years' uses a fixed number, 'table' looks it up by country and sex */
+  mode: 'years' | 'table';
+  
+  /** Expected lifespan in years (mode 'years') */
+  years?: number;
+  
+  /** Sex for the life table lookup (mode 'table') */
+  sex?: LifeExpectancySex;
+  
+  /** ISO 3166-1 alpha-2 country code for the life table lookup (mode 'table') */
+  country?: string;
+}
+
 /**
  * User's profile data stored in localStorage
  * Contains all information needed to generate a personalized wallpaper
@@ -133,6 +568,103 @@ export interface TextElement {
   visible: boolean;
 }
 
+/**
+ * Dated life event highlighted in life view (e.g. graduation, moving city)
+ */
+export interface LifeEvent {
+  /** Unique identifier for the event */
+  id: string;
+  
+  /** Short description shown in the dashboard */
+  label: string;
+  
+  /** Event date in YYYY-MM-DD format */
+  date: string;
+  
+  /** Dot color in hex format */
+  color: string;
+}
+
+/**
+ * Life chapter: a date range shaded in its own color in life view
+ */
+export interface LifeChapter {
+  /** Unique identifier for the chapter */
+  id: string;
+  
+  /** Chapter name (e.g. "University", "Berlin years") */
+  label: string;
+  
+  /** First day of the chapter in YYYY-MM-DD format */
+  startDate: string;
+  
+  /** Last day of the chapter in YYYY-MM-DD format (empty = ongoing) */
+  endDate?: string;
+  
+  /** Shading color in hex format */
+  color: string;
+}
+
+/**
+ * Calendar entry imported from an ICS file (year view marks its days)
+ */
+export interface CalendarEntry {
+  /** Unique identifier (the event's UID from the ICS file) */
+  id: string;
+  
+  /** Event title */
+  title: string;
+  
+  /** First (or only) day in YYYY-MM-DD format, in the entry's timezone */
+  date: string;
+  
+  /** Last day of a multi-day event in YYYY-MM-DD format (inclusive) */
+  endDate?: string;
+  
+  /** Whether the event lasts all day (no start time) */
+  allDay: boolean;
+  
+  /** Start time in HH:MM format (timed events, entry's timezone) */
+  time?: string;
+  
+  /**
+   * IANA timezone of a timed event's start (its TZID, or 'UTC'); dates, time
+   * and exdates are wall-clock values there, and the recurrence is expanded
+   * there before occurrences are moved to the user's timezone. Without it
+   * (all-day and floating events), they are the user's own days and time.
+   */
+  timezone?: string;
+  
+  /** iCalendar recurrence rule (e.g. 'FREQ=WEEKLY;BYDAY=MO,WE') */
+  rrule?: string;
+  
+  /** Days removed from the recurrence in YYYY-MM-DD format */
+  exdates?: string[];
+}
+
+/**
+ * One occurrence of a calendar entry (recurrences expanded)
+ */
+export interface CalendarOccurrence {
+  /** ID of the calendar entry */
+  entryId: string;
+  
+  /** Event title */
+  title: string;
+  
+  /** Day of the occurrence in YYYY-MM-DD format, in the user's timezone */
+  date: string;
+  
+  /** Last day of a multi-day occurrence in YYYY-MM-DD format (inclusive) */
+  endDate?: string;
+  
+  /** Whether the event lasts all day */
+  allDay: boolean;
+  
+  /** Start time in HH:MM format (timed events, user's timezone) */
+  time?: string;
+}
+
 /**
  * Plugin configuration schema
  */
@@ -143,6 +675,9 @@ export interface PluginConfig {
   /** Whether plugin is enabled */
   enabled: boolean;
   
+  /** Installed version (semver); community plugins keep running this version until the user updates. Missing = latest */
+  version?: string;
+  
   /** Plugin-specific configuration (JSON object) */
   config: Record<string, any>;
 }
@@ -191,12 +726,7 @@ export interface UserConfig {
   textElements: TextElement[];
   
   /** Layout preferences */
-  layout: {
-    topPadding: number;
-    bottomPadding: number;
-    sidePadding: number;
-    dotSpacing: number;
-  };
+  layout: WallpaperLayout;
   
   /** Enabled plugins */
   plugins: PluginConfig[];
@@ -210,15 +740,50 @@ export interface UserConfig {
   /** Days layout mode: 'calendar' (week-aligned) or 'continuous' (no alignment) */
   daysLayoutMode?: DaysLayoutMode;
   
+  /** Expected lifespan for life view (defaults to 80 years) */
+  lifeExpectancy?: LifeExpectancyConfig;
+  
+  /** Time span of one dot in life view (defaults to 'weeks') */
+  lifeGridUnit?: LifeGridUnit;
+  
+  /** Dated events colored on the life view grid */
+  lifeEvents?: LifeEvent[];
+  
+  /** Date ranges shaded on the life view grid */
+  lifeChapters?: LifeChapter[];
+  
+  /** Events imported from ICS files, marked on the year view */
+  calendarEntries?: CalendarEntry[];
+  
+  /** Countdown target (countdown view) */
+  countdown?: CountdownConfig;
+  
+  /** Show a 24-hour ring for today below the month grid (month view) */
+  showHourRing?: boolean;
+  
+  /** Hours shown per day in week view (defaults to 7-23) */
+  wakingHours?: WakingHours;
+  
   /** User's timezone (IANA format) */
   timezone?: string;
   
+  /** SHA-256 (hex) of the token that authorizes plugin data writes; empty or missing = writes disabled */
+  pluginDataTokenHash?: string;
+  
   /** Last updated timestamp */
   updatedAt: Date | null;
 }
 
 /**
  * Plugin definition stored in Firestore marketplace
+ *
+ * Plugin API v2 (apiVersion: 2) is hook-based. All hooks are optional and run
+ * in this order for every enabled plugin:
+ * 1. overrideDate - change the date/timezone the wallpaper is rendered for
+ * 2. calculate    - compute data shared with render() and other plugins
+ * 3. render       - return elements to draw on the wallpaper
+ *
+ * Plugins without apiVersion are v1 plugins: their execute() is adapted to render().
  */
 export interface Plugin {
   /** Plugin unique ID */
@@ -236,15 +801,24 @@ export interface Plugin {
   /** Version string (semver) */
   version: string;
   
+  /** Release notes of this version */
+  changelog?: string;
+  
+  /** Plugin API version (2 = hook-based API, missing = v1 execute() plugin) */
+  apiVersion?: number;
+  
   /** Plugin code (JavaScript string) */
   code?: string;
   
-  /** Configuration schema (JSON Schema) */
-  configSchema: Record<string, any>;
+  /** Settings users can configure (see PluginConfigSchema) */
+  configSchema: PluginConfigSchema;
   
-  /** Admin approval status */
+  /** Whether a version was approved by a reviewer (only approved plugins are listed and run) */
   approved?: boolean;
   
+  /** Version waiting for review, if any (see lib/plugin-review.ts) */
+  pendingVersion?: string | null;
+  
   /** Privacy setting - if true, only author can see it */
   isPrivate?: boolean;
   
@@ -254,23 +828,224 @@ export interface Plugin {
   /** Download count */
   downloads?: number;
   
-  /** Plugin rating */
+  /** Average star rating (1-5), kept up to date from ratings (see PluginRating) */
   rating?: number;
   
+  /** Number of ratings */
+  ratingCount?: number;
+  
+  /** Sum of all star ratings (rating = ratingTotal / ratingCount) */
+  ratingTotal?: number;
+  
+  /** Marketplace category */
+  category?: PluginCategory;
+  
+  /** Marketplace tags (lowercase, e.g. ['fitness', 'streaks']) */
+  tags?: string[];
+  
+  /** Screenshot shown on the plugin's marketplace page (https URL) */
+  screenshotUrl?: string;
+  
   /** Creation timestamp */
   createdAt?: Date;
   
   /** Last update timestamp */
   updatedAt?: Date;
   
-  /** Plugin execution function (not stored in Firestore) */
+  /** Hook: override the date/timezone used for the wallpaper (API v2, not stored in Firestore) */
+  overrideDate?: (ctx: PluginExecutionContext) => PluginHookResult<PluginDateOverride | null | undefined>;
+  
+  /** Hook: calculate data for render() and other plugins (API v2, not stored in Firestore) */
+  calculate?: (ctx: PluginExecutionContext) => PluginHookResult<Record<string, unknown> | null | undefined>;
+  
+  /** Hook: return elements to render (API v2, not stored in Firestore) */
+  render?: (ctx: PluginExecutionContext) => PluginHookResult<PluginRenderElement[]>;
+  
+  /** Hook: recolor, ring, badge or hide individual dots of the year and life grids (API v2, not stored in Firestore) */
+  decorate?: (ctx: PluginExecutionContext) => PluginHookResult<PluginDotDecoration[]>;
+  
+  /** Plugin execution function (API v1, adapted to render(); not stored in Firestore) */
   execute?: (ctx: PluginExecutionContext) => PluginRenderElement[];
 }
 
+/**
+ * A plugin version
+ * Stored in plugins/{pluginId}/versions/{version}. Approved versions never
+ * change; the plugin document itself mirrors the latest approved version.
+ */
+export interface PluginVersion {
+  /** Version string (semver, MAJOR.MINOR.PATCH) */
+  version: string;
+  
+  /** Plugin code (JavaScript string) */
+  code: string;
+  
+  /** Settings users can configure in this version */
+  configSchema: PluginConfigSchema;
+  
+  /** Default settings submitted with this version */
+  defaultSettings?: Record<string, unknown>;
+  
+  /** What changed in this version */
+  changelog: string;
+  
+  /** Review status (missing = approved: versions published before reviews) */
+  status?: PluginReviewStatus;
+  
+  /** Author user ID */
+  authorId?: string;
+  
+  /** Reviewer's notes to the author */
+  reviewNotes?: string;
+  
+  /** Reviewer user ID */
+  reviewedBy?: string;
+  
+  /** Review timestamp */
+  reviewedAt?: Date;
+  
+  /** Publish timestamp */
+  createdAt?: Date;
+}
+
+/**
+ * Marketplace categories (see PLUGIN_CATEGORIES in lib/plugin-marketplace.ts)
+ */
+export type PluginCategory =
+  | 'productivity'
+  | 'health'
+  | 'motivation'
+  | 'nature'
+  | 'countdowns'
+  | 'decoration'
+  | 'other';
+
+/**
+ * A user's star rating and review of a plugin
+ * Stored in plugins/{pluginId}/ratings/{userId}: one per user, editable.
+ */
+export interface PluginRating {
+  /** Rating user ID (also the document ID) */
+  userId: string;
+  
+  /** Display name shown with the review */
+  author: string;
+  
+  /** Stars, 1-5 */
+  rating: number;
+  
+  /** Short text review (optional) */
+  review: string;
+  
+  /** First rating timestamp */
+  createdAt?: Date;
+  
+  /** Last edit timestamp */
+  updatedAt?: Date;
+}
+
+/**
+ * Review status of a plugin version
+ * draft -> pending -> approved or rejected; only approved versions run.
+ * Authors can withdraw a pending version (back to draft) and resubmit a rejected one.
+ */
+export type PluginReviewStatus = 'draft' | 'pending' | 'approved' | 'rejected';
+
+/**
+ * Roles granted to a user, stored in roles/{userId} as { roles: [...] }
+ * - reviewer: approves or rejects submitted plugin versions
+ * - admin: everything a reviewer can do, and manages roles
+ */
+export type UserRole = 'reviewer' | 'admin';
+
+/**
+ * Setting types a plugin config schema can declare
+ * - string, number, boolean: plain values (string with enum = dropdown)
+ * - color: hex color (#rgb, #rrggbb or #rrggbbaa)
+ * - date: calendar date in YYYY-MM-DD format
+ * - object: nested settings (properties)
+ * - array: list of values or objects (items)
+ */
+export type PluginSettingType = 'string' | 'number' | 'boolean' | 'color' | 'date' | 'object' | 'array';
+
+/**
+ * One setting in a plugin config schema
+ * Validated by lib/plugin-config.ts; the dashboard generates its settings form from it.
+ */
+export interface PluginSettingSchema {
+  /** Value type */
+  type: PluginSettingType;
+  
+  /** Form label (defaults to the setting key) */
+  label?: string;
+  
+  /** Help text shown under the field */
+  description?: string;
+  
+  /** Value used when the user has not set one */
+  default?: unknown;
+  
+  /** Setting must have a value (non-empty for strings) */
+  required?: boolean;
+  
+  /** Allowed values (string and number settings) */
+  enum?: Array<string | number>;
+  
+  /** Longest allowed string */
+  maxLength?: number;
+  
+  /** Minimum value (number), earliest date (date, YYYY-MM-DD) */
+  min?: number | string;
+  
+  /** Maximum value (number), latest date (date, YYYY-MM-DD) */
+  max?: number | string;
+  
+  /** Slider/input step (number settings) */
+  step?: number;
+  
+  /** Nested settings (object settings) */
+  properties?: PluginConfigSchema;
+  
+  /** Schema of every item (array settings) */
+  items?: PluginSettingSchema;
+  
+  /** Fewest items (array settings) */
+  minItems?: number;
+  
+  /** Most items (array settings) */
+  maxItems?: number;
+  
+  /** Only show (and validate) this setting when a sibling setting has one of these values */
+  showIf?: {
+    setting: string;
+    equals: string | number | boolean | Array<string | number | boolean>;
+  };
+}
+
+/**
+ * Plugin config schema: settings by key
+ *
+ * @example
+ * {
+ *   position: { type: 'string', enum: ['top', 'bottom'], default: 'bottom', label: 'Position' },
+ *   accent: { type: 'color', default: '#FF6B35', label: 'Accent' },
+ *   until: { type: 'date', label: 'Show until', showIf: { setting: 'position', equals: 'top' } },
+ * }
+ */
+export type PluginConfigSchema = Record<string, PluginSettingSchema>;
+
+/**
+ * Plugin hooks may return their result directly or as a Promise
+ */
+export type PluginHookResult<T> = T | Promise<T>;
+
 /**
  * Plugin execution context passed to plugin code
  */
 export interface PluginExecutionContext {
+  /** Plugin API version of the host */
+  apiVersion?: number;
+  
   /** Plugin configuration */
   config: Record<string, any>;
   
@@ -305,8 +1080,26 @@ export interface PluginExecutionContext {
   /** User's timezone (IANA format) */
   timezone?: string;
   
-  /** Current date in user's timezone */
+  /** Current date in user's timezone (wall-clock time: read it with getFullYear(), getHours() etc.) */
   currentDate?: Date;
+
+  /** Today's calendar date in the user's timezone (same day as currentDate) */
+  today?: CalendarDate;
+  
+  /** The user's imported calendar events from today on, soonest first (see lib/recurrence.ts) */
+  upcomingEvents?: CalendarOccurrence[];
+  
+  /** Data returned by this plugin's calculate() hook (render phase only) */
+  calculated?: Record<string, unknown>;
+  
+  /** Data returned by every plugin's calculate() hook, keyed by plugin ID (render phase only) */
+  pluginData?: Record<string, Record<string, unknown>>;
+  
+  /** Grid geometry, safe areas and dot positions of the wallpaper being rendered (render phase only, wallpaper renders only) */
+  layout?: SceneLayout;
+  
+  /** Values stored for this plugin and user (read-only, see lib/plugin-data.ts) */
+  data?: Readonly<PluginDataValues>;
 }
 
 /**
@@ -314,35 +1107,79 @@ export interface PluginExecutionContext {
  */
 export interface PluginRenderElement {
   /** Element type */
-  type: 'text' | 'rect' | 'circle' | 'line';
+  type: 'text' | 'rect' | 'circle' | 'line' | 'polygon' | 'path' | 'arc' | 'image';
   
   /** Element content (for text) */
   content?: string;
   
-  /** X position */
+  /** X position (left edge for text, rect and image; center for circle and arc; start for line; origin for polygon and path) */
   x: number;
   
   /** Y position */
   y: number;
   
-  /** Width (for rect) */
+  /** End point (for line) */
+  x2?: number;
+  y2?: number;
+  
+  /** Width (for rect and image) */
   width?: number;
   
-  /** Height (for rect) */
+  /** Height (for rect and image) */
   height?: number;
   
-  /** Radius (for circle) */
+  /** Radius (for circle and arc), corner radius (for rect) */
   radius?: number;
   
+  /** Corner points as x, y pairs relative to the origin (for polygon) */
+  points?: number[];
+  
+  /** SVG path data relative to the origin (for path) */
+  d?: string;
+  
+  /** Start and end angle in degrees, clockwise from 12 o'clock (for arc) */
+  startAngle?: number;
+  endAngle?: number;
+  
+  /** Share of the full circle drawn from startAngle, 0-1; replaces endAngle (for arc) */
+  progress?: number;
+  
+  /** Color of the full ring drawn behind the arc (for arc) */
+  trackColor?: string;
+  
+  /** data: URI of a PNG, JPEG, GIF or WebP image (for image) */
+  src?: string;
+  
   /** Font size (for text) */
   fontSize?: number;
   
   /** Font family (for text) */
   fontFamily?: string;
   
-  /** Color */
+  /** Color: text color, fill of closed shapes, stroke of lines and arcs */
   color?: string;
   
+  /** Fill of closed shapes; 'none' for an outline only */
+  fill?: string;
+  
+  /** Outline color of closed shapes (overrides color for lines and arcs) */
+  stroke?: string;
+  
+  /** Stroke width in pixels */
+  strokeWidth?: number;
+  
+  /** Line ends (for line, arc and stroked paths) */
+  lineCap?: 'butt' | 'round';
+  
+  /** Opacity (0-1) */
+  opacity?: number;
+  
+  /** Rotation in degrees clockwise around the element's center (or origin for polygon and path) */
+  rotation?: number;
+  
+  /** Stacking order of shapes and images (default 0, higher on top); negative values are drawn below the dots. Text is always on top. */
+  zIndex?: number;
+  
   /** Text alignment */
   align?: 'left' | 'center' | 'right';
   
@@ -351,56 +1188,70 @@ export interface PluginRenderElement {
 }
 
 /**
- * Plugin execution context passed to plugin code (deprecated, use PluginExecutionContext)
+ * Change to one dot of the grid, returned by a plugin's decorate() hook
+ * Year view: the dot of `date` (this year only). Life view: the dot containing
+ * `date`, or the dot at `index`. When several decorations hit the same dot,
+ * later ones override earlier ones field by field.
  */
-export interface PluginContext {
-  /** Current date in user's timezone */
-  currentDate: Date;
+export interface PluginDotDecoration {
+  /** Day the dot stands for (YYYY-MM-DD) */
+  date?: string;
   
-  /** User's birthdate */
-  birthDate: string;
+  /** Life view dot index (0 = first dot from birth), in the user's grid unit */
+  index?: number;
   
-  /** Device dimensions */
-  width: number;
-  height: number;
+  /** Replaces the dot color */
+  fill?: string;
   
-  /** View mode */
-  viewMode: ViewMode;
+  /** Ring color around the dot */
+  ring?: string;
   
-  /** Plugin settings */
-  settings: Record<string, any>;
+  /** Color of a small badge at the dot's top-right */
+  badge?: string;
   
-  /** Utility functions available to plugin */
-  utils: {
-    /** Format date according to locale */
-    formatDate: (date: Date, format: string) => string;
-    
-    /** Get weeks lived */
-    getWeeksLived: (birthDate: string) => number;
-    
-    /** Get current day of year */
-    getCurrentDayOfYear: () => number;
-  };
+  /** Leaves the cell empty */
+  hidden?: boolean;
 }
 
 /**
- * Plugin hook return type for calculation modifiers
+ * A JSON value in the plugin data store
  */
-export interface PluginCalculationResult {
-  /** Modified current date (for timezone plugins) */
+export type PluginDataValue = string | number | boolean | null | PluginDataValue[] | { [key: string]: PluginDataValue };
+
+/**
+ * Values a user has stored for one plugin, by key
+ * Written through POST /api/[username]/plugins/[pluginId]/data and read by
+ * the plugin as ctx.data.
+ */
+export type PluginDataValues = Record<string, PluginDataValue>;
+
+/**
+ * Plugin hooks that can run outside the server process: in the sandbox
+ * isolate, or in a browser worker for the editor playground
+ */
+export type SandboxedHook = 'overrideDate' | 'calculate' | 'render' | 'decorate';
+
+/**
+ * Plugin hook return type for date overrides
+ */
+export interface PluginDateOverride {
+  /** Date the wallpaper should be rendered for */
   currentDate?: Date;
   
-  /** Additional data to pass to rendering */
-  data?: Record<string, any>;
+  /** Timezone the wallpaper should be rendered in (IANA format); without currentDate, the date becomes "now" in this timezone */
+  timezone?: string;
 }
 
 /**
- * Plugin hook return type for rendering extensions
+ * Combined result of a plugin's overrideDate() and calculate() hooks
  */
-export interface PluginRenderResult {
-  /** Additional SVG/HTML elements to render */
-  elements?: string;
+export interface PluginCalculationResult {
+  /** Modified current date (for timezone plugins) */
+  currentDate?: Date;
+  
+  /** Modified timezone (for timezone plugins) */
+  timezone?: string;
   
-  /** Modified color palette */
-  colors?: Partial<UserConfig['colors']>;
+  /** Additional data to pass to rendering */
+  data?: Record<string, any>;
 }
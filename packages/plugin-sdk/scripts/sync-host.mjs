@@ -0,0 +1,42 @@
+/**
+ * Copies the app modules the SDK is built from into src/host/
+ *
+ * The SDK has no types or rules of its own: lib/types.ts describes plugins and
+ * their context, lib/plugin-code.ts the allowed globals and blocked patterns,
+ * lib/plugin-config.ts (with calcs.ts and life-tables.ts) resolves settings and
+ * plugin-versions.ts checks version numbers, and themes.ts and devices.ts
+ * provide the fixture wallpapers. They are copied before every build, so a
+ * published SDK matches the app it was built from.
+ */
+
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const HOST_MODULES = ['types', 'plugin-code', 'plugin-config', 'plugin-versions', 'calcs', 'life-tables', 'themes', 'devices'];
+
+const packageDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+const libDir = join(packageDir, '..', '..', 'lib');
+const hostDir = join(packageDir, 'src', 'host');
+
+rmSync(hostDir, { recursive: true, force: true });
+mkdirSync(hostDir, { recursive: true });
+
+for (const name of HOST_MODULES) {
+  const source = readFileSync(join(libDir, `${name}.ts`), 'utf8');
+
+  // Copies only import each other; anything else would be missing from the package
+  for (const [, specifier] of source.matchAll(/from '([^']+)'/g)) {
+    if (!HOST_MODULES.includes(specifier.replace(/^\.\//, ''))) {
+      console.error(`lib/${name}.ts imports ${specifier}, which the SDK does not copy`);
+      process.exit(1);
+    }
+  }
+
+  writeFileSync(
+    join(hostDir, `${name}.ts`),
+    `// Copied from lib/${name}.ts by scripts/sync-host.mjs. Do not edit.\n\n${source}`
+  );
+}
+
+console.log(`Copied ${HOST_MODULES.length} modules from lib/ to src/host/`);
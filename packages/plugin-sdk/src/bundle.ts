@@ -0,0 +1,263 @@
+/**
+ * Plugin Bundler
+ *
+ * Turns a plugin written with the SDK (TypeScript or JavaScript, in any number
+ * of local files) into the code string the marketplace stores: a single
+ * `const plugin = ...` without imports. Each module, including the SDK modules
+ * the plugin uses, is transpiled by TypeScript (without type checking: run tsc
+ * for that) and put in a module table of arrow functions, since the server
+ * rejects `function (`. The result is checked with the server's own rules.
+ *
+ * Only the SDK helpers a plugin calls are included: imports of the SDK get a
+ * generated module in place of index.ts that loads just the modules they need.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, join, relative, resolve } from 'path';
+import * as ts from 'typescript';
+import type { PluginConfigSchema } from './host/types';
+import { validatePluginCode } from './host/plugin-code';
+import { getSchemaDefaults, validateConfigSchema } from './host/plugin-config';
+import { isValidPluginVersion } from './host/plugin-versions';
+import { readPluginMetadata } from './harness';
+
+/**
+ * Package name plugins import the SDK by
+ */
+export const SDK_PACKAGE = '@remainders/plugin-sdk';
+
+/**
+ * Modules of the SDK that plugins run (the ones index.ts re-exports)
+ */
+const RUNTIME_MODULES = ['define', 'dates', 'moon', 'sun', 'layout'];
+
+/**
+ * A bundled plugin: every field of the submission form
+ */
+export interface BundledPlugin {
+  /** Plugin ID and version, from the definition */
+  id: string;
+  version: string;
+
+  /** Plugin Name and Description fields (name defaults to the ID) */
+  name: string;
+  description: string;
+
+  /** Plugin Code field */
+  code: string;
+
+  /** Config Schema field */
+  configSchema: PluginConfigSchema;
+
+  /** Default Settings field: the default of every setting */
+  defaultSettings: Record<string, unknown>;
+}
+
+interface BundleModule {
+  label: string;
+  code: string;
+}
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile();
+}
+
+/**
+ * Finds the local .ts/.js file an import refers to (extension optional,
+ * `./file.js` may point to `./file.ts`)
+ *
+ * @returns The file, or null for packages (plugins can't use npm packages)
+ */
+function resolveImport(specifier: string, fromFile: string): string | null {
+  if (!specifier.startsWith('.')) {
+    return null;
+  }
+
+  const base = resolve(dirname(fromFile), specifier);
+  const candidates = [base, `${base}.ts`, `${base}.js`, join(base, 'index.ts'), join(base, 'index.js')];
+  if (base.endsWith('.js')) {
+    candidates.push(base.replace(/\.js$/, '.ts'));
+  }
+  return candidates.find(isFile) ?? null;
+}
+
+/**
+ * SDK exports a module uses, from its transpiled code
+ * TypeScript turns `import { a, b } from '@remainders/plugin-sdk'` into
+ * `const sdk_1 = require(...)` and `sdk_1.a`; a binding used any other way
+ * (e.g. passed to a function) needs every export.
+ *
+ * @returns The export names, or null for every export
+ */
+function getSdkImports(code: string): string[] | null {
+  const names: string[] = [];
+  const pattern = new RegExp(`(?:const|let|var) (\\w+) = require\\((["'])${SDK_PACKAGE}\\2\\)`, 'g');
+
+  for (const [, binding] of code.matchAll(pattern)) {
+    const references = code.match(new RegExp(`\\b${binding}\\b`, 'g'))?.length ?? 0;
+    const members = [...code.matchAll(new RegExp(`\\b${binding}\\.(\\w+)`, 'g'))].map((match) => match[1]);
+    if (references - 1 > members.length) {
+      return null;
+    }
+    names.push(...members);
+  }
+  return names;
+}
+
+/**
+ * Transpiles one module to CommonJS without comments
+ * TypeScript's re-export getters (`get: function () {`) become arrow functions.
+ */
+function transpileModule(file: string): string {
+  const { outputText } = ts.transpileModule(readFileSync(file, 'utf8'), {
+    fileName: file,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      removeComments: true,
+    },
+  });
+  return outputText.replace(/get: function \(\) \{/g, 'get: () => {');
+}
+
+/**
+ * Bundles a plugin into the code the marketplace stores
+ *
+ * The entry file must export the plugin as its default export (or as
+ * `plugin`), usually `export default definePlugin({ ... })`.
+ *
+ * @param entryFile - The plugin's main file
+ * @returns Every submission form field, or the reasons the server would reject the plugin
+ */
+export function bundlePlugin(entryFile: string): { data: BundledPlugin | null; errors: string[] } {
+  const entry = resolve(entryFile);
+  if (!isFile(entry)) {
+    return { data: null, errors: [`${entryFile} not found`] };
+  }
+
+  const rootDir = dirname(entry);
+  const sdkDir = __dirname;
+  const modules: BundleModule[] = [];
+  const moduleIds = new Map<string, number>();
+  const errors: string[] = [];
+
+  // Module that stands in for the SDK's index, filled in once every import is known
+  let sdkModuleId: number | null = null;
+  let sdkImports: Set<string> | null = new Set();
+
+  const addModule = (file: string): number => {
+    const known = moduleIds.get(file);
+    if (known !== undefined) return known;
+
+    const id = modules.length;
+    moduleIds.set(file, id);
+    const label = file.startsWith(sdkDir)
+      ? `${SDK_PACKAGE}/${relative(sdkDir, file)}`
+      : relative(rootDir, file);
+    modules.push({ label, code: '' });
+
+    const code = transpileModule(file);
+    if (!file.startsWith(sdkDir)) {
+      const names = getSdkImports(code);
+      sdkImports = names && sdkImports ? new Set([...sdkImports, ...names]) : null;
+    }
+
+    modules[id].code = code.replace(/\brequire\((["'])(.*?)\1\)/g, (_, quote: string, specifier: string) => {
+      if (specifier === SDK_PACKAGE) {
+        if (sdkModuleId === null) {
+          sdkModuleId = modules.length;
+          modules.push({ label: SDK_PACKAGE, code: '' });
+        }
+        return `__load(${sdkModuleId})`;
+      }
+
+      const target = resolveImport(specifier, file);
+      if (!target) {
+        errors.push(`${label}: can't bundle "${specifier}": plugins can only import local files and ${SDK_PACKAGE}`);
+        return 'undefined';
+      }
+      return `__load(${addModule(target)})`;
+    });
+    return id;
+  };
+  addModule(entry);
+
+  if (sdkModuleId !== null) {
+    const lines = ['Object.defineProperty(exports, "__esModule", { value: true });'];
+    const used = new Set<string>();
+    for (const name of RUNTIME_MODULES) {
+      const file = join(sdkDir, `${name}.js`);
+      // eslint-disable-next-line @typescript-eslint/no-require-imports -- export names of the SDK's own modules
+      const exportNames = Object.keys(require(file)).filter((key) => key !== '__esModule' && (!sdkImports || sdkImports.has(key)));
+      if (exportNames.length === 0) continue;
+
+      const loaded = `sdk_${name}`;
+      lines.push(`const ${loaded} = __load(${addModule(file)});`);
+      for (const exportName of exportNames) {
+        lines.push(`exports.${exportName} = ${loaded}.${exportName};`);
+        used.add(exportName);
+      }
+    }
+    for (const name of sdkImports || []) {
+      if (!used.has(name)) {
+        errors.push(`${SDK_PACKAGE} has no export named ${name}`);
+      }
+    }
+    modules[sdkModuleId].code = lines.join('\n');
+  }
+
+  const code = [
+    `// Built with ${SDK_PACKAGE} from ${basename(entry)}. Edit the source, not this code.`,
+    'const plugin = (() => {',
+    'const modules = [',
+    ...modules.map(({ label, code: moduleCode }) => `// ${label}\n(module, exports, __load) => {\n${moduleCode.trim()}\n},`),
+    '];',
+    'const cache = [];',
+    'const __load = (id) => {',
+    '  if (!cache[id]) {',
+    '    cache[id] = { exports: {} };',
+    '    modules[id](cache[id], cache[id].exports, __load);',
+    '  }',
+    '  return cache[id].exports;',
+    '};',
+    'const entry = __load(0);',
+    'return entry.default || entry.plugin;',
+    '})();',
+    '',
+  ].join('\n');
+
+  errors.push(...validatePluginCode(code).errors);
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  // Read the definition back the way the server will see it
+  const { data: plugin, error } = readPluginMetadata(code);
+  if (!plugin) {
+    return { data: null, errors: [`Running the bundle failed: ${error}`] };
+  }
+  if (typeof plugin.id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(plugin.id)) {
+    errors.push('id must be lowercase-with-hyphens, e.g. my-plugin');
+  }
+  if (typeof plugin.version !== 'string' || !isValidPluginVersion(plugin.version)) {
+    errors.push('version must be MAJOR.MINOR.PATCH, e.g. 1.0.0');
+  }
+  const configSchema = (plugin.configSchema ?? {}) as PluginConfigSchema;
+  errors.push(...validateConfigSchema(configSchema).errors.map((message) => `configSchema: ${message}`));
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      id: plugin.id as string,
+      version: plugin.version as string,
+      name: typeof plugin.name === 'string' ? plugin.name : (plugin.id as string),
+      description: typeof plugin.description === 'string' ? plugin.description : '',
+      code,
+      configSchema,
+      defaultSettings: getSchemaDefaults(configSchema),
+    },
+    errors: [],
+  };
+}
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * remainders-plugin
+ *
+ * remainders-plugin build <entry> [--out <dir>]
+ *   Bundles the plugin and writes <dir>/<id>.js (the Plugin Code field) and
+ *   <dir>/<id>.json (every field of the submission form). Default dir: dist
+ *
+ * remainders-plugin test <entry> [--fixtures <file>] [--update]
+ *   Bundles the plugin, runs it against the fixtures (<entry>.fixtures.json
+ *   next to the entry, or the default fixtures) and compares the output with
+ *   __snapshots__/<entry>.snap.json. --update accepts changed output.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { bundlePlugin } from './bundle';
+import { DEFAULT_FIXTURES, matchSnapshots, runFixture, type PluginFixture } from './harness';
+
+const USAGE = `Usage:
+  remainders-plugin build <entry> [--out <dir>]
+  remainders-plugin test <entry> [--fixtures <file>] [--update]`;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function build(entry: string, outDir: string) {
+  const { data, errors } = bundlePlugin(entry);
+  if (!data) {
+    fail(`✗ ${entry} can't be submitted:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, `${data.id}.js`), data.code);
+  writeFileSync(join(outDir, `${data.id}.json`), JSON.stringify(data, null, 2) + '\n');
+  console.log(`✓ ${data.name} ${data.version}: ${join(outDir, `${data.id}.js`)} (${data.code.length} of 50000 characters)`);
+}
+
+function test(entry: string, fixturesFile: string | undefined, update: boolean) {
+  const { data, errors } = bundlePlugin(entry);
+  if (!data) {
+    fail(`✗ ${entry} can't be submitted:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+
+  const name = basename(entry, extname(entry));
+  const defaultFixturesFile = join(dirname(entry), `${name}.fixtures.json`);
+  const file = fixturesFile ?? (existsSync(defaultFixturesFile) ? defaultFixturesFile : undefined);
+  const fixtures: PluginFixture[] = file ? JSON.parse(readFileSync(file, 'utf8')) : DEFAULT_FIXTURES;
+
+  const runs = fixtures.map((fixture) => runFixture(data.code, data.id, data.configSchema, fixture));
+  const snapshotFile = join(dirname(entry), '__snapshots__', `${name}.snap.json`);
+  mkdirSync(dirname(snapshotFile), { recursive: true });
+  const { changed, written } = matchSnapshots(runs, snapshotFile, { update });
+
+  let failures = 0;
+  for (const run of runs) {
+    const outputChanged = changed.includes(run.fixture.name);
+    const ok = !outputChanged && run.errors.length === 0;
+    if (!ok) failures++;
+
+    console.log(`${ok ? '✓' : '✗'} ${run.fixture.name}${outputChanged ? ' (output changed, run with --update to accept)' : ''}`);
+    for (const error of run.errors) console.log(`    ${error}`);
+    for (const line of run.logs) console.log(`    ${line}`);
+  }
+
+  if (written) {
+    console.log(`Snapshots written to ${snapshotFile}`);
+  }
+  console.log(`${runs.length - failures} of ${runs.length} fixtures passed${file ? '' : ' (default fixtures)'}`);
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: 'string' },
+    fixtures: { type: 'string' },
+    update: { type: 'boolean' },
+  },
+});
+const [command, entry] = positionals;
+
+if (!entry || (command !== 'build' && command !== 'test')) {
+  fail(USAGE);
+}
+if (command === 'build') {
+  build(entry, resolve(values.out ?? 'dist'));
+} else {
+  test(entry, values.fixtures, values.update ?? false);
+}
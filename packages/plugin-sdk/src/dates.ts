@@ -0,0 +1,116 @@
+/**
+ * Date Helpers
+ *
+ * Calendar math on the wall-clock dates plugins get (ctx.currentDate, read
+ * with getFullYear(), getMonth() etc.) and on calendar dates (ctx.today).
+ * Day counts go through UTC day numbers, so they are never off by one
+ * around daylight saving changes.
+ */
+
+import type { CalendarDate } from './host/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A wall-clock Date or a calendar date
+ */
+export type DateInput = Date | CalendarDate;
+
+function toCalendarDate(date: DateInput): CalendarDate {
+  return date instanceof Date
+    ? { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() }
+    : date;
+}
+
+function toDayNumber(date: DateInput): number {
+  const { year, month, day } = toCalendarDate(date);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+/**
+ * Day as YYYY-MM-DD: the key of ctx.layout.dots and the date of dot decorations
+ *
+ * @example
+ * toDateKey(ctx.today) // Returns '2026-10-19'
+ */
+export function toDateKey(date: DateInput): string {
+  const { year, month, day } = toCalendarDate(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD string, e.g. a date setting
+ *
+ * @returns The date, or null for malformed or impossible dates (e.g. 2026-02-31)
+ */
+export function parseDateKey(value: string): CalendarDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > getDaysInMonth(date.year, date.month)) {
+    return null;
+  }
+  return date;
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Days in a month (month 1-12)
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function getDaysInYear(year: number): number {
+  return isLeapYear(year) ? 366 : 365;
+}
+
+/**
+ * Day of the year, 1 on January 1st
+ */
+export function getDayOfYear(date: DateInput): number {
+  return toDayNumber(date) - toDayNumber({ year: toCalendarDate(date).year, month: 1, day: 1 }) + 1;
+}
+
+/**
+ * Calendar days from one date to another (negative when `to` is earlier)
+ *
+ * @example
+ * daysBetween(ctx.today, { year: 2026, month: 12, day: 25 }) // Days until Christmas
+ */
+export function daysBetween(from: DateInput, to: DateInput): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+/**
+ * The calendar date a number of days later (or earlier, for negative days)
+ */
+export function addDays(date: DateInput, days: number): CalendarDate {
+  const shifted = new Date((toDayNumber(date) + days) * DAY_MS);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Share of the year that has passed (0-1), including the time of day
+ */
+export function getYearProgress(date: Date): number {
+  const dayFraction = (date.getHours() * 60 + date.getMinutes()) / (24 * 60);
+  return (getDayOfYear(date) - 1 + dayFraction) / getDaysInYear(date.getFullYear());
+}
+
+/**
+ * ISO 8601 week number (weeks start on Monday; week 1 contains January 4th)
+ */
+export function getIsoWeek(date: DateInput): number {
+  const dayNumber = toDayNumber(date);
+  // Monday = 0 (day number 0, 1970-01-01, was a Thursday)
+  const weekday = (((dayNumber + 3) % 7) + 7) % 7;
+  // A week belongs to the year its Thursday is in
+  const thursday = dayNumber - weekday + 3;
+  const thursdayYear = new Date(thursday * DAY_MS).getUTCFullYear();
+  return Math.floor((thursday - toDayNumber({ year: thursdayYear, month: 1, day: 1 })) / 7) + 1;
+}
@@ -0,0 +1,138 @@
+/**
+ * Plugin Definitions
+ *
+ * definePlugin() types a plugin from its config schema: in every hook,
+ * ctx.config has one property per setting, typed by the setting (settings
+ * with an enum become a union of their values), and hooks must return what
+ * the host accepts. It returns the plugin unchanged apart from apiVersion.
+ */
+
+import type {
+  PluginCategory,
+  PluginDateOverride,
+  PluginDotDecoration,
+  PluginExecutionContext,
+  PluginSettingSchema,
+  PluginRenderElement,
+} from './host/types';
+
+/**
+ * A setting as written in plugin source: a PluginSettingSchema whose enum,
+ * nested settings and showIf values may be readonly literals
+ */
+export type SettingInput = Omit<PluginSettingSchema, 'enum' | 'properties' | 'items' | 'showIf'> & {
+  enum?: readonly (string | number)[];
+  properties?: ConfigSchemaInput;
+  items?: SettingInput;
+  showIf?: {
+    setting: string;
+    equals: string | number | boolean | readonly (string | number | boolean)[];
+  };
+};
+
+/**
+ * A config schema as written in plugin source (see PluginConfigSchema)
+ */
+export type ConfigSchemaInput = { readonly [key: string]: SettingInput };
+
+/**
+ * Value of one setting in ctx.config
+ */
+export type SettingValue<S> =
+  S extends { enum: readonly (infer E)[] } ? E
+  : S extends { type: 'number' } ? number
+  : S extends { type: 'boolean' } ? boolean
+  : S extends { type: 'object'; properties: infer P extends ConfigSchemaInput } ? ConfigValues<P>
+  : S extends { type: 'object' } ? Record<string, unknown>
+  : S extends { type: 'array'; items: infer I } ? SettingValue<I>[]
+  : S extends { type: 'array' } ? unknown[]
+  : string;
+
+/**
+ * Settings that always have a value: a default, required, or an object built
+ * from its properties' defaults (see resolvePluginConfig)
+ */
+type HasValue<S> =
+  S extends { default: NonNullable<unknown> } ? true
+  : S extends { required: true } ? true
+  : S extends { type: 'object'; properties: ConfigSchemaInput } ? true
+  : false;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * ctx.config of a plugin with config schema S
+ *
+ * @example
+ * ConfigValues<{ position: { type: 'string', enum: ['top', 'bottom'], default: 'top' }, note: { type: 'string' } }>
+ * // { position: 'top' | 'bottom'; note?: string }
+ */
+export type ConfigValues<S extends ConfigSchemaInput> = Simplify<
+  { -readonly [K in keyof S as HasValue<S[K]> extends true ? K : never]: SettingValue<S[K]> } &
+  { -readonly [K in keyof S as HasValue<S[K]> extends true ? never : K]?: SettingValue<S[K]> }
+>;
+
+/**
+ * Context passed to the hooks of a plugin whose settings are C
+ */
+export interface PluginContext<C = Record<string, unknown>> extends Omit<PluginExecutionContext, 'config'> {
+  config: C;
+}
+
+/**
+ * A plugin written with the SDK
+ * Hooks are synchronous: the sandbox does not wait for promises.
+ */
+export interface PluginDefinition<S extends ConfigSchemaInput = ConfigSchemaInput> {
+  /** Unique ID (lowercase-with-hyphens) */
+  id: string;
+
+  /** Version (MAJOR.MINOR.PATCH) */
+  version: string;
+
+  /** Marketplace name and description, used by `remainders-plugin build` for the submission form */
+  name?: string;
+  description?: string;
+
+  /** Marketplace listing */
+  category?: PluginCategory;
+  tags?: string[];
+
+  /** Settings users can configure */
+  configSchema?: S;
+
+  /** Change the date or timezone the wallpaper is rendered for */
+  overrideDate?(ctx: PluginContext<ConfigValues<S>>): PluginDateOverride | null | undefined;
+
+  /** Calculate data for render() and for other plugins */
+  calculate?(ctx: PluginContext<ConfigValues<S>>): Record<string, unknown> | null | undefined;
+
+  /** Return the elements to draw */
+  render?(ctx: PluginContext<ConfigValues<S>>): PluginRenderElement[];
+
+  /** Return changes to dots of the grid (year and life views) */
+  decorate?(ctx: PluginContext<ConfigValues<S>>): PluginDotDecoration[];
+}
+
+/**
+ * Defines a plugin with typed settings
+ *
+ * @example
+ * export default definePlugin({
+ *   id: 'hello-world',
+ *   version: '1.0.0',
+ *   configSchema: {
+ *     position: { type: 'string', enum: ['top', 'bottom'], default: 'bottom', label: 'Position' },
+ *   },
+ *   render(ctx) {
+ *     // ctx.config.position is 'top' | 'bottom'
+ *     return [{ type: 'text', content: 'Hello World!', x: ctx.width / 2, y: ctx.config.position === 'top' ? 100 : ctx.height - 100, align: 'center' }];
+ *   },
+ * });
+ */
+export function definePlugin<const S extends ConfigSchemaInput = Record<never, never>>(
+  plugin: PluginDefinition<S>
+): PluginDefinition<S> & { apiVersion: number } {
+  // Hook-based plugin API (PLUGIN_API_VERSION in lib/plugin-system.ts)
+  return { ...plugin, apiVersion: 2 };
+}
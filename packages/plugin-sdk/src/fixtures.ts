@@ -0,0 +1,136 @@
+/**
+ * Test Fixtures
+ *
+ * A fixture is one wallpaper a plugin is tested on: the moment, timezone,
+ * device, theme and view, the plugin's settings and stored data.
+ * createFixtureContext() builds the context the server would pass for it
+ * (see createPluginContext in lib/plugin-system.ts), with the settings
+ * resolved by the app's own rules.
+ */
+
+import type { CalendarOccurrence, PluginConfigSchema, PluginDataValues, PluginExecutionContext, SceneLayout, ViewMode } from './host/types';
+import { getCalendarDate, getDateInTimezone } from './host/calcs';
+import { getDeviceByModel } from './host/devices';
+import { resolvePluginConfig } from './host/plugin-config';
+import { getThemeByName, PRESET_THEMES } from './host/themes';
+
+export interface PluginFixture {
+  /** Unique name, also the fixture's key in the snapshot file */
+  name: string;
+
+  /** Moment the wallpaper is rendered (ISO 8601, e.g. '2026-01-01T08:00:00Z') */
+  date: string;
+
+  /** IANA timezone of the wallpaper (default UTC) */
+  timezone?: string;
+
+  /** Device model from lib/devices.ts, or a size in pixels (default iPhone 16 Pro) */
+  device?: string | { width: number; height: number };
+
+  /** Preset theme name from lib/themes.ts (default Dark Default) */
+  theme?: string;
+
+  /** View the wallpaper is set to (default year) */
+  viewMode?: ViewMode;
+
+  /** Birth date (default 1995-06-15) */
+  birthDate?: string;
+
+  /** Plugin settings; unset ones get their defaults */
+  config?: Record<string, unknown>;
+
+  /** Values stored for the plugin (ctx.data) */
+  data?: PluginDataValues;
+
+  /** Upcoming calendar events (ctx.upcomingEvents) */
+  upcomingEvents?: CalendarOccurrence[];
+
+  /** Grid layout (ctx.layout); leave it out to test the fallback of renders without one, like stats.json */
+  layout?: SceneLayout;
+}
+
+/**
+ * Fixtures used when a plugin has none of its own: the days and devices
+ * plugins most often get wrong
+ */
+export const DEFAULT_FIXTURES: PluginFixture[] = [
+  { name: 'year view, new year\'s morning', date: '2026-01-01T08:00:00Z' },
+  { name: 'year view, leap day', date: '2028-02-29T12:00:00Z' },
+  { name: 'year view, last evening of the year', date: '2026-12-31T22:30:00Z' },
+  { name: 'month view, New York, light theme', date: '2026-07-04T23:30:00Z', timezone: 'America/New_York', viewMode: 'month', theme: 'Light' },
+  { name: 'week view, Pixel 9', date: '2026-03-29T01:30:00Z', timezone: 'Europe/Berlin', viewMode: 'week', device: 'Pixel 9' },
+  { name: 'life view, desktop', date: '2026-10-19T12:00:00Z', viewMode: 'life', device: { width: 2560, height: 1440 } },
+];
+
+/**
+ * Default device of a fixture (iPhone 16 Pro)
+ */
+const DEFAULT_DEVICE = { width: 1206, height: 2622 };
+
+/**
+ * Builds the execution context of a fixture
+ *
+ * @param fixture - Wallpaper to build the context for
+ * @param configSchema - The plugin's config schema, to merge default settings in
+ * @returns The context, and one message per invalid fixture value or setting
+ */
+export function createFixtureContext(
+  fixture: PluginFixture,
+  configSchema: PluginConfigSchema | undefined
+): { context: PluginExecutionContext; errors: string[] } {
+  const errors: string[] = [];
+
+  let now = new Date(fixture.date);
+  if (isNaN(now.getTime())) {
+    errors.push(`Invalid date: ${fixture.date}`);
+    now = new Date(0);
+  }
+
+  let size = DEFAULT_DEVICE;
+  if (typeof fixture.device === 'string') {
+    const device = getDeviceByModel(fixture.device);
+    if (device) {
+      size = { width: device.width, height: device.height };
+    } else {
+      errors.push(`Unknown device: ${fixture.device}`);
+    }
+  } else if (fixture.device) {
+    size = fixture.device;
+  }
+
+  const theme = fixture.theme ? getThemeByName(fixture.theme) : PRESET_THEMES[0];
+  if (!theme) {
+    errors.push(`Unknown theme: ${fixture.theme}`);
+  }
+
+  const timezone = fixture.timezone || 'UTC';
+  let currentDate = now;
+  try {
+    currentDate = getDateInTimezone(timezone, now);
+  } catch {
+    errors.push(`Unknown timezone: ${timezone}`);
+  }
+
+  const { data: config, errors: configErrors } = resolvePluginConfig(configSchema, fixture.config);
+  errors.push(...configErrors);
+
+  return {
+    context: {
+      apiVersion: 2,
+      config,
+      width: size.width,
+      height: size.height,
+      colors: { ...(theme || PRESET_THEMES[0]).colors },
+      typography: { fontFamily: 'monospace', fontSize: 0.035, statsVisible: true },
+      birthDate: fixture.birthDate || '1995-06-15',
+      viewMode: fixture.viewMode || 'year',
+      timezone,
+      currentDate,
+      today: getCalendarDate(currentDate),
+      upcomingEvents: fixture.upcomingEvents || [],
+      layout: fixture.layout,
+      data: fixture.data || {},
+    },
+    errors,
+  };
+}
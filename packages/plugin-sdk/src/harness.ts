@@ -0,0 +1,285 @@
+/**
+ * Local Test Runner
+ *
+ * Runs plugin code (the string bundlePlugin() produces, exactly what the
+ * marketplace stores) against fixtures the way the server does: overrideDate,
+ * then calculate, then render and decorate, each hook in a fresh V8 context
+ * with only the allowed globals and the same time limit (see
+ * lib/plugin-sandbox.ts). Results are compared with a snapshot file, so any
+ * change to what the plugin draws shows up as a failed fixture.
+ *
+ * Unlike the server, hooks run in this process: there is no memory limit.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { createContext, runInContext } from 'vm';
+import type { PluginConfigSchema, PluginExecutionContext, SandboxedHook } from './host/types';
+import { getCalendarDate, getDateInTimezone } from './host/calcs';
+import { ALLOWED_GLOBALS, PLUGIN_TIMEOUT_MS } from './host/plugin-code';
+import { createFixtureContext, type PluginFixture } from './fixtures';
+
+export { createFixtureContext, DEFAULT_FIXTURES } from './fixtures';
+export type { PluginFixture } from './fixtures';
+
+/**
+ * Removes every global the plugin may not use from a fresh context
+ */
+const STRIP_GLOBALS_SOURCE =
+  '(function (allowed) {' +
+  '  var g = globalThis;' +
+  '  Object.getOwnPropertyNames(g).forEach(function (key) {' +
+  '    if (allowed.indexOf(key) === -1) { delete g[key]; }' +
+  '  });' +
+  '})';
+
+/**
+ * Console that buffers log lines for the runner to print
+ */
+const CONSOLE_SOURCE =
+  'var __pluginLogs = [];' +
+  'var console = {' +
+  '  log: function () { __pluginLogs.push("[log] " + Array.prototype.map.call(arguments, String).join(" ")); },' +
+  '  error: function () { __pluginLogs.push("[error] " + Array.prototype.map.call(arguments, String).join(" ")); }' +
+  '};';
+
+/**
+ * What one hook call returned
+ */
+export interface HookRun {
+  result: unknown;
+  logs: string[];
+  error: string | null;
+}
+
+/**
+ * Output of a plugin for one fixture, as stored in the snapshot file
+ */
+export interface FixtureOutput {
+  /** Date the wallpaper was rendered for (after overrideDate) */
+  currentDate: string;
+
+  /** calculate() result */
+  calculated: unknown;
+
+  /** render() result */
+  elements: unknown;
+
+  /** decorate() result */
+  decorations: unknown;
+}
+
+/**
+ * Result of running one fixture
+ */
+export interface FixtureRun {
+  fixture: PluginFixture;
+  output: FixtureOutput;
+  logs: string[];
+
+  /** Invalid fixture values or settings, hook errors and hook results the server would drop */
+  errors: string[];
+}
+
+/**
+ * Calls one hook of plugin code in a fresh context with the sandbox's globals
+ *
+ * @param code - Plugin code defining `const plugin = { ... }`
+ * @param hook - Hook to call (render falls back to legacy execute)
+ * @param context - Execution context passed to the hook
+ * @returns The parsed result (null when the hook isn't defined), console output, or an error message
+ */
+export function runHook(code: string, hook: SandboxedHook, context: PluginExecutionContext): HookRun {
+  const sandbox = createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+  });
+  const readLogs = (): string[] => JSON.parse(String(runInContext('JSON.stringify(__pluginLogs)', sandbox)));
+
+  try {
+    runInContext(STRIP_GLOBALS_SOURCE, sandbox)(Object.keys(ALLOWED_GLOBALS));
+    runInContext(CONSOLE_SOURCE, sandbox);
+
+    const contextJson = JSON.stringify({
+      ...context,
+      currentDate: context.currentDate ? context.currentDate.toISOString() : undefined,
+    });
+    const source =
+      '(function () {' +
+      '  var ctx = JSON.parse(' + JSON.stringify(contextJson) + ');' +
+      '  if (ctx.currentDate) { ctx.currentDate = new Date(ctx.currentDate); }' +
+      '  var plugin = (function () {\n' + code + '\n;return typeof plugin !== "undefined" ? plugin : null; })();' +
+      '  if (!plugin || typeof plugin !== "object") {' +
+      '    throw new Error("Plugin code must define const plugin = { ... }");' +
+      '  }' +
+      '  var fn = plugin[' + JSON.stringify(hook) + '];' +
+      '  if (typeof fn !== "function" && ' + JSON.stringify(hook) + ' === "render") { fn = plugin.execute; }' +
+      '  if (typeof fn !== "function") { return "null"; }' +
+      '  var result = fn.call(plugin, ctx);' +
+      '  return JSON.stringify(result === undefined ? null : result);' +
+      '})()';
+
+    const output = runInContext(source, sandbox, { timeout: PLUGIN_TIMEOUT_MS });
+    return { result: JSON.parse(String(output)), logs: readLogs(), error: null };
+  } catch (error: unknown) {
+    let logs: string[] = [];
+    try {
+      logs = readLogs();
+    } catch {
+      // The plugin failed before its console was installed
+    }
+    return { result: null, logs, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Reads the plugin object's JSON-safe fields (id, version, configSchema ...)
+ * by evaluating the code in a sandboxed context
+ */
+export function readPluginMetadata(code: string): { data: Record<string, unknown> | null; error: string | null } {
+  const sandbox = createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+  });
+
+  try {
+    runInContext(STRIP_GLOBALS_SOURCE, sandbox)(Object.keys(ALLOWED_GLOBALS));
+    runInContext(CONSOLE_SOURCE, sandbox);
+    const output = runInContext(
+      '(function () {\n' + code + '\n;return JSON.stringify(typeof plugin !== "undefined" ? plugin : null); })()',
+      sandbox,
+      { timeout: PLUGIN_TIMEOUT_MS }
+    );
+    const data = JSON.parse(String(output));
+    if (!data || typeof data !== 'object') {
+      return { data: null, error: 'Plugin code must define const plugin = { ... }' };
+    }
+    return { data, error: null };
+  } catch (error: unknown) {
+    return { data: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Runs every hook of the plugin for one fixture, in the server's order
+ *
+ * @param code - Plugin code defining `const plugin = { ... }`
+ * @param pluginId - The plugin's ID (key of its data in ctx.pluginData)
+ * @param configSchema - The plugin's config schema
+ */
+export function runFixture(
+  code: string,
+  pluginId: string,
+  configSchema: PluginConfigSchema | undefined,
+  fixture: PluginFixture
+): FixtureRun {
+  const { context, errors } = createFixtureContext(fixture, configSchema);
+  const logs: string[] = [];
+  const output: FixtureOutput = { currentDate: '', calculated: null, elements: null, decorations: null };
+  let failed = false;
+
+  // Like processPlugins, a plugin's remaining hooks are skipped once one fails
+  const call = (hook: SandboxedHook, ctx: PluginExecutionContext): unknown => {
+    if (failed) return null;
+
+    const run = runHook(code, hook, ctx);
+    logs.push(...run.logs.map((line) => `${hook}: ${line}`));
+    if (run.error) {
+      failed = true;
+      errors.push(`${hook}() failed: ${run.error}`);
+    }
+    return run.result;
+  };
+
+  // Phase 1: date override (dates come back as ISO strings, as from the server sandbox)
+  const override = call('overrideDate', context);
+  if (override && typeof override === 'object') {
+    const { currentDate, timezone } = override as { currentDate?: unknown; timezone?: unknown };
+    if (typeof currentDate === 'string' && !isNaN(Date.parse(currentDate))) {
+      context.currentDate = new Date(currentDate);
+    } else if (typeof timezone === 'string') {
+      // A timezone-only override moves the date to the fixture's moment in that timezone
+      try {
+        context.currentDate = getDateInTimezone(timezone, new Date(fixture.date));
+      } catch {
+        failed = true;
+        errors.push(`overrideDate() failed: Invalid timezone: ${timezone}`);
+      }
+    }
+    if (typeof timezone === 'string') {
+      context.timezone = timezone;
+    }
+    if (context.currentDate) {
+      context.today = getCalendarDate(context.currentDate);
+    }
+  }
+  output.currentDate = context.currentDate ? context.currentDate.toISOString() : '';
+
+  // Phase 2: calculations
+  const calculated = call('calculate', context);
+  if (calculated !== null && (typeof calculated !== 'object' || Array.isArray(calculated))) {
+    errors.push('calculate() must return an object (the server drops anything else)');
+  }
+  const data = calculated && typeof calculated === 'object' && !Array.isArray(calculated)
+    ? (calculated as Record<string, unknown>)
+    : undefined;
+  output.calculated = data ?? null;
+
+  // Phase 3: drawing, with this plugin's calculated data
+  const renderContext: PluginExecutionContext = {
+    ...context,
+    calculated: data,
+    pluginData: data ? { [pluginId]: data } : {},
+  };
+  output.elements = call('render', renderContext);
+  output.decorations = call('decorate', renderContext);
+  for (const hook of ['render', 'decorate'] as const) {
+    const result = hook === 'render' ? output.elements : output.decorations;
+    if (result !== null && !Array.isArray(result)) {
+      errors.push(`${hook}() must return an array (the server drops anything else)`);
+    }
+  }
+
+  return { fixture, output, logs, errors };
+}
+
+/**
+ * Compares fixture outputs with a snapshot file
+ *
+ * Fixtures missing from the file are added to it; with `update`, the file is
+ * rewritten with the current outputs. Snapshots of removed fixtures are dropped
+ * when the file is written.
+ *
+ * @param snapshotFile - JSON file of outputs by fixture name
+ * @returns Names of fixtures whose output changed, and whether the file was written
+ */
+export function matchSnapshots(
+  runs: FixtureRun[],
+  snapshotFile: string,
+  { update = false }: { update?: boolean } = {}
+): { changed: string[]; written: boolean } {
+  const stored: Record<string, unknown> = existsSync(snapshotFile)
+    ? JSON.parse(readFileSync(snapshotFile, 'utf8'))
+    : {};
+
+  const next: Record<string, unknown> = {};
+  const changed: string[] = [];
+  let missing = false;
+
+  for (const { fixture, output } of runs) {
+    if (!(fixture.name in stored)) {
+      missing = true;
+      next[fixture.name] = output;
+    } else if (JSON.stringify(stored[fixture.name]) !== JSON.stringify(output)) {
+      changed.push(fixture.name);
+      next[fixture.name] = update ? output : stored[fixture.name];
+    } else {
+      next[fixture.name] = stored[fixture.name];
+    }
+  }
+
+  const stale = Object.keys(stored).some((name) => !(name in next));
+  const written = missing || (update && (changed.length > 0 || stale));
+  if (written) {
+    writeFileSync(snapshotFile, JSON.stringify(next, null, 2) + '\n');
+  }
+
+  return { changed: update ? [] : changed, written };
+}
@@ -0,0 +1,57 @@
+/**
+ * Remainders Plugin SDK
+ *
+ * Everything a plugin imports: definePlugin() and helpers for dates, the moon,
+ * the sun and positioning. `remainders-plugin build` inlines the modules a
+ * plugin uses into the code string the marketplace stores, so they must only
+ * use the globals plugins get (see lib/plugin-code.ts in the app).
+ *
+ * The test runner and the bundler run in Node and are imported separately:
+ * '@remainders/plugin-sdk/harness' and '@remainders/plugin-sdk/bundle'.
+ */
+
+export { definePlugin } from './define';
+export type { ConfigSchemaInput, ConfigValues, PluginContext, PluginDefinition, SettingInput, SettingValue } from './define';
+
+export {
+  addDays,
+  daysBetween,
+  getDayOfYear,
+  getDaysInMonth,
+  getDaysInYear,
+  getIsoWeek,
+  getYearProgress,
+  isLeapYear,
+  parseDateKey,
+  toDateKey,
+} from './dates';
+export type { DateInput } from './dates';
+
+export {
+  getDaysUntilMoonPhase,
+  getMoonEmoji,
+  getMoonIllumination,
+  getMoonLitPath,
+  getMoonPhase,
+  getMoonPhaseName,
+  SYNODIC_MONTH_DAYS,
+} from './moon';
+export type { MoonPhaseName } from './moon';
+
+export { formatHours, getSeason, getSunTimes } from './sun';
+export type { Season, SunTimes } from './sun';
+
+export { getBaseFontSize, getCornerAnchor, getDotCenter, getGridAnchor } from './layout';
+export type { Anchor, Corner } from './layout';
+
+export type {
+  CalendarDate,
+  CalendarOccurrence,
+  LayoutBox,
+  PluginDataValues,
+  PluginDateOverride,
+  PluginDotDecoration,
+  PluginRenderElement,
+  SceneLayout,
+  ViewMode,
+} from './host/types';
@@ -0,0 +1,77 @@
+/**
+ * Positioning Helpers
+ *
+ * Sizes and positions that follow the wallpaper: font sizes from the user's
+ * typography, corners inset by a margin, and the space around the grid when
+ * the host shares ctx.layout (falling back to the corners when it doesn't).
+ */
+
+import type { PluginExecutionContext } from './host/types';
+import { toDateKey, type DateInput } from './dates';
+
+export type Corner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Where to draw a block of content: (x, y) is its top edge on the aligned side,
+ * so text elements can use `align` as is
+ */
+export interface Anchor {
+  x: number;
+  y: number;
+  align: 'left' | 'right';
+}
+
+type SizeContext = Pick<PluginExecutionContext, 'width' | 'height' | 'typography'>;
+
+/**
+ * Font size of the wallpaper's own text, scaled (e.g. 0.5 for half size)
+ */
+export function getBaseFontSize(ctx: SizeContext, scale = 1): number {
+  return (ctx.typography?.fontSize || 0.035) * ctx.height * scale;
+}
+
+/**
+ * Anchor in a corner of the wallpaper
+ *
+ * @param contentHeight - Height of the content, so it ends above the bottom margin
+ * @param margin - Inset from the edges, as a share of the width and height
+ */
+export function getCornerAnchor(ctx: SizeContext, corner: Corner, contentHeight = 0, margin = 0.05): Anchor {
+  const right = corner.endsWith('right');
+  return {
+    x: right ? ctx.width * (1 - margin) : ctx.width * margin,
+    y: corner.startsWith('top') ? ctx.height * margin : ctx.height * (1 - margin) - contentHeight,
+    align: right ? 'right' : 'left',
+  };
+}
+
+/**
+ * Anchor next to the grid: above it for top corners, below the stats line for
+ * bottom corners, lined up with the grid's left or right edge
+ * Without ctx.layout (e.g. stats.json), the corner of the wallpaper is used.
+ *
+ * @param contentHeight - Height of the content, so it ends one dot above the grid
+ */
+export function getGridAnchor(ctx: SizeContext & Pick<PluginExecutionContext, 'layout'>, corner: Corner, contentHeight = 0): Anchor {
+  if (!ctx.layout) {
+    return getCornerAnchor(ctx, corner, contentHeight);
+  }
+
+  const { grid, stats, dotSize } = ctx.layout;
+  const right = corner.endsWith('right');
+  return {
+    x: right ? grid.x + grid.width : grid.x,
+    y: corner.startsWith('top')
+      ? grid.y - dotSize - contentHeight
+      : (stats ? stats.y + stats.height : grid.y + grid.height) + dotSize,
+    align: right ? 'right' : 'left',
+  };
+}
+
+/**
+ * Center of the dot a day is drawn as, or null when the view has no dot for
+ * it (or the host shares no layout)
+ */
+export function getDotCenter(ctx: Pick<PluginExecutionContext, 'layout'>, date: DateInput): { x: number; y: number } | null {
+  return ctx.layout?.dots?.[toDateKey(date)] ?? null;
+}
@@ -0,0 +1,109 @@
+/**
+ * Moon Helpers
+ *
+ * Phase of the moon from the wall-clock date plugins get in ctx.currentDate,
+ * accurate to within a day: enough to name the phase and draw the moon.
+ */
+
+/**
+ * Length of a lunar cycle, new moon to new moon (days)
+ */
+export const SYNODIC_MONTH_DAYS = 29.530588853;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A known new moon: 2000-01-06 18:14 UTC
+ */
+const REFERENCE_NEW_MOON_MS = Date.UTC(2000, 0, 6, 18, 14);
+
+export type MoonPhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent';
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  'New Moon',
+  'Waxing Crescent',
+  'First Quarter',
+  'Waxing Gibbous',
+  'Full Moon',
+  'Waning Gibbous',
+  'Last Quarter',
+  'Waning Crescent',
+];
+
+const PHASE_EMOJIS = ['🌑', '🌒', '🌓', '🌔', '🌕', '🌖', '🌗', '🌘'];
+
+/**
+ * Position in the lunar cycle
+ *
+ * @returns 0 = new moon, 0.25 = first quarter, 0.5 = full moon, 0.75 = last quarter
+ */
+export function getMoonPhase(date: Date): number {
+  const wallClockMs = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes());
+  const cycles = (wallClockMs - REFERENCE_NEW_MOON_MS) / (SYNODIC_MONTH_DAYS * DAY_MS);
+  return cycles - Math.floor(cycles);
+}
+
+/**
+ * Lit share of the moon's disc (0 = new moon, 1 = full moon)
+ */
+export function getMoonIllumination(phase: number): number {
+  return (1 - Math.cos(phase * 2 * Math.PI)) / 2;
+}
+
+/**
+ * Index of one of the eight named phases (0 = New Moon ... 7 = Waning Crescent)
+ */
+function getPhaseIndex(phase: number): number {
+  return Math.round(phase * 8) % 8;
+}
+
+/**
+ * Name of the phase, e.g. 'Waxing Gibbous'
+ */
+export function getMoonPhaseName(phase: number): MoonPhaseName {
+  return PHASE_NAMES[getPhaseIndex(phase)];
+}
+
+/**
+ * Emoji of the phase (northern hemisphere view), e.g. '🌔'
+ */
+export function getMoonEmoji(phase: number): string {
+  return PHASE_EMOJIS[getPhaseIndex(phase)];
+}
+
+/**
+ * Days from `date` until the moon next reaches a phase (0 when it is there now)
+ *
+ * @example
+ * getDaysUntilMoonPhase(ctx.currentDate, 0.5) // Days until the next full moon
+ */
+export function getDaysUntilMoonPhase(date: Date, phase: number): number {
+  const remaining = phase - getMoonPhase(date);
+  return (remaining - Math.floor(remaining)) * SYNODIC_MONTH_DAYS;
+}
+
+/**
+ * Lit part of the moon as SVG path data around (0, 0), for a `path` element
+ * drawn at the moon's center over a dim disc: the outer edge on the lit side
+ * plus the terminator, an ellipse whose width follows the phase
+ */
+export function getMoonLitPath(phase: number, radius: number): string {
+  const waxing = phase < 0.5;
+  const crescent = Math.cos(phase * 2 * Math.PI) > 0;
+  const outerSweep = waxing ? 1 : 0;
+  const terminatorSweep = crescent ? 1 - outerSweep : outerSweep;
+  const terminatorRadius = Math.abs(Math.cos(phase * 2 * Math.PI)) * radius;
+
+  return (
+    `M 0 ${-radius} A ${radius} ${radius} 0 0 ${outerSweep} 0 ${radius} ` +
+    `A ${terminatorRadius} ${radius} 0 0 ${terminatorSweep} 0 ${-radius} Z`
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Sun Helpers
+ *
+ * Sunrise, sunset and seasons. Plugins can't read the user's location or UTC
+ * offset (and have no Intl), so these take them as arguments, typically from
+ * settings. Times are accurate to a few minutes away from the poles.
+ */
+
+import type { CalendarDate } from './host/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Julian day of the Unix epoch
+ */
+const UNIX_EPOCH_JULIAN_DAY = 2440587.5;
+
+/**
+ * Julian day of 2000-01-01 12:00 UTC
+ */
+const J2000 = 2451545;
+
+/**
+ * Axial tilt of the earth (degrees)
+ */
+const OBLIQUITY = 23.4397;
+
+/**
+ * Sun altitude at sunrise and sunset: refraction and the sun's radius (degrees)
+ */
+const SUNRISE_ALTITUDE = -0.833;
+
+const RAD = Math.PI / 180;
+
+/**
+ * Sun times of one day, in hours of the local day (6.5 = 06:30)
+ */
+export interface SunTimes {
+  /** Null on days the sun doesn't rise or set (polar day or night) */
+  sunrise: number | null;
+  sunset: number | null;
+
+  /** Sun at its highest */
+  solarNoon: number;
+
+  /** Hours of daylight (0-24) */
+  dayLength: number;
+}
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+function wrapHours(hours: number): number {
+  return ((hours % 24) + 24) % 24;
+}
+
+/**
+ * Sunrise, sunset and solar noon of a day at a place
+ *
+ * @param date - Day (wall-clock Date or calendar date)
+ * @param latitude - Degrees, north positive
+ * @param longitude - Degrees, east positive
+ * @param utcOffsetHours - Offset of the returned times from UTC (e.g. -5 for New York in winter)
+ *
+ * @example
+ * const sun = getSunTimes({ year: 2026, month: 12, day: 21 }, 40.71, -74.01, -5); // New York
+ * formatHours(sun.sunrise ?? 0) // Returns '07:17'
+ */
+export function getSunTimes(date: Date | CalendarDate, latitude: number, longitude: number, utcOffsetHours = 0): SunTimes {
+  const { year, month, day } = date instanceof Date
+    ? { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() }
+    : date;
+  const midnightJulianDay = Date.UTC(year, month - 1, day) / DAY_MS + UNIX_EPOCH_JULIAN_DAY;
+
+  // Sunrise equation: mean solar time, anomaly, ecliptic longitude, declination
+  const meanSolarTime = Math.round(midnightJulianDay + 0.5 - J2000) - longitude / 360;
+  const anomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+  const center = 1.9148 * Math.sin(anomaly * RAD) + 0.02 * Math.sin(2 * anomaly * RAD) + 0.0003 * Math.sin(3 * anomaly * RAD);
+  const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit = J2000 + meanSolarTime + 0.0053 * Math.sin(anomaly * RAD) - 0.0069 * Math.sin(2 * eclipticLongitude * RAD);
+  const declination = Math.asin(Math.sin(eclipticLongitude * RAD) * Math.sin(OBLIQUITY * RAD));
+
+  const hourAngleCos =
+    (Math.sin(SUNRISE_ALTITUDE * RAD) - Math.sin(latitude * RAD) * Math.sin(declination)) /
+    (Math.cos(latitude * RAD) * Math.cos(declination));
+  const solarNoon = wrapHours((transit - midnightJulianDay) * 24 + utcOffsetHours);
+
+  if (hourAngleCos > 1 || hourAngleCos < -1) {
+    return { sunrise: null, sunset: null, solarNoon, dayLength: hourAngleCos > 1 ? 0 : 24 };
+  }
+
+  const halfDayHours = (Math.acos(hourAngleCos) / RAD / 360) * 24;
+  return {
+    sunrise: wrapHours(solarNoon - halfDayHours),
+    sunset: wrapHours(solarNoon + halfDayHours),
+    solarNoon,
+    dayLength: halfDayHours * 2,
+  };
+}
+
+/**
+ * Astronomical season of a day (equinoxes and solstices on their usual dates)
+ *
+ * @param hemisphere - Seasons are swapped in the southern hemisphere
+ */
+export function getSeason(date: Date | CalendarDate, hemisphere: 'north' | 'south' = 'north'): Season {
+  const { month, day } = date instanceof Date ? { month: date.getMonth() + 1, day: date.getDate() } : date;
+  const monthDay = month * 100 + day;
+  const northern: Season =
+    monthDay >= 1221 || monthDay < 320 ? 'winter'
+    : monthDay < 621 ? 'spring'
+    : monthDay < 922 ? 'summer'
+    : 'autumn';
+
+  if (hemisphere === 'north') return northern;
+  const opposite: Record<Season, Season> = { winter: 'summer', spring: 'autumn', summer: 'winter', autumn: 'spring' };
+  return opposite[northern];
+}
+
+/**
+ * Hours of the day as HH:MM
+ *
+ * @example
+ * formatHours(6.5) // Returns '06:30'
+ */
+export function formatHours(hours: number): string {
+  const minutes = Math.round(wrapHours(hours) * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}